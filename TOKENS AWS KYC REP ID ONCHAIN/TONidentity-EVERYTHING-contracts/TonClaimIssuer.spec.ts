@@ -1,22 +1,46 @@
 import { Blockchain, SandboxContract, TreasuryContract } from '@ton/sandbox';
-import { Cell, toNano, beginCell, Address } from '@ton/core';
-import { TonClaimIssuer } from '../wrappers/TonClaimIssuer';
+import { toNano, beginCell } from '@ton/core';
+import {
+    TonClaimIssuer,
+    loadClaimValidationResponse,
+    loadIssueClaim,
+    storeIssueClaim
+} from '../wrappers/TonClaimIssuer';
+import { commitSubject, KycClaimCodec, KycLevel } from '../wrappers/TonClaimSchemas';
 import '@ton/test-utils';
-import { compile } from '@ton/blueprint';
 
 describe('TonClaimIssuer', () => {
-    let code: Cell;
-
-    beforeAll(async () => {
-        code = await compile('TonClaimIssuer');
-    });
-
     let blockchain: Blockchain;
     let deployer: SandboxContract<TreasuryContract>;
     let claimIssuer: SandboxContract<TonClaimIssuer>;
     let identity: SandboxContract<TreasuryContract>;
     let unauthorizedUser: SandboxContract<TreasuryContract>;
 
+    const kycData = () => beginCell()
+        .store(KycClaimCodec.store({
+            subjectCommitment: commitSubject({ name: 'John Doe' }, Buffer.alloc(16, 1)),
+            level: KycLevel.STANDARD,
+            verifiedAt: 1700000000n,
+            expiresAt: 1893456000n
+        }))
+        .endCell()
+        .asSlice();
+
+    async function issueClaim(topic: bigint = 1n, scheme: bigint = 1n, expiresAt: bigint = 0n) {
+        return claimIssuer.sendIssueClaim(
+            deployer.getSender(),
+            {
+                value: toNano('0.2'),
+                identity: identity.address,
+                topic,
+                scheme,
+                data: kycData(),
+                uri: 'https://kyc-provider.com/claim/1',
+                expiresAt
+            }
+        );
+    }
+
     beforeEach(async () => {
         blockchain = await Blockchain.create();
 
@@ -25,11 +49,7 @@ describe('TonClaimIssuer', () => {
         unauthorizedUser = await blockchain.treasury('unauthorized');
 
         claimIssuer = blockchain.openContract(
-            TonClaimIssuer.createFromConfig({
-                owner: deployer.address,
-                nextClaimId: 1n,
-                authorizedIssuers: new Map([[deployer.address.toString(), true]])
-            }, code)
+            await TonClaimIssuer.fromInit('KYC Provider', 'KYC')
         );
 
         const deployResult = await claimIssuer.sendDeploy(deployer.getSender(), toNano('0.05'));
@@ -42,29 +62,30 @@ describe('TonClaimIssuer', () => {
         });
     });
 
-    describe('Claim Management', () => {
-        it('should allow authorized issuer to add claims', async () => {
-            const claimData = beginCell()
-                .storeUint(1, 32) // KYC topic
-                .storeRef(beginCell().storeStringTail('John Doe').endCell())
-                .endCell();
+    describe('Message Encoding', () => {
+        it('should round-trip IssueClaim with expiresAt in the trailing cell', () => {
+            const body = beginCell().store(storeIssueClaim({
+                $$type: 'IssueClaim',
+                identity: identity.address,
+                topic: 3n,
+                scheme: 1n,
+                data: kycData(),
+                uri: 'ipfs://claim',
+                expiresAt: 1893456000n
+            })).endCell();
+
+            const decoded = loadIssueClaim(body.beginParse());
+            expect(decoded.identity.equals(identity.address)).toBe(true);
+            expect(decoded.topic).toBe(3n);
+            expect(decoded.uri).toBe('ipfs://claim');
+            expect(decoded.expiresAt).toBe(1893456000n);
+            expect(decoded.data.asCell().equals(kycData().asCell())).toBe(true);
+        });
+    });
 
-            const signature = beginCell()
-                .storeBuffer(Buffer.from('mock_signature_data'))
-                .endCell();
-
-            const result = await claimIssuer.sendAddClaim(
-                deployer.getSender(),
-                {
-                    value: toNano('0.05'),
-                    identity: identity.address,
-                    topic: 1n, // KYC
-                    scheme: 1n, // ECDSA
-                    data: claimData.asSlice(),
-                    signature: signature.asSlice(),
-                    uri: 'https://kyc-provider.com/claim/1'
-                }
-            );
+    describe('Claim Issuance', () => {
+        it('should allow the owner to issue claims', async () => {
+            const result = await issueClaim(1n, 1n, 1893456000n);
 
             expect(result.transactions).toHaveTransaction({
                 from: deployer.address,
@@ -72,35 +93,36 @@ describe('TonClaimIssuer', () => {
                 success: true,
             });
 
-            // Verify claim was added
-            const claimId = 1n; // First claim
-            const claim = await claimIssuer.getGetClaim(claimId);
-            expect(claim.topic).toBe(1n);
-            expect(claim.scheme).toBe(1n);
-            expect(claim.issuer.toString()).toBe(deployer.address.toString());
-            expect(claim.valid).toBe(1n);
+            const claim = await claimIssuer.getGetIssuedClaim(1n);
+            expect(claim).not.toBeNull();
+            expect(claim!.topic).toBe(1n);
+            expect(claim!.scheme).toBe(1n);
+            expect(claim!.identity.equals(identity.address)).toBe(true);
+            expect(claim!.uri).toBe('https://kyc-provider.com/claim/1');
+            expect(claim!.expiresAt).toBe(1893456000n);
+            expect(claim!.revoked).toBe(false);
         });
 
-        it('should not allow unauthorized issuer to add claims', async () => {
-            const claimData = beginCell()
-                .storeUint(1, 32)
-                .storeRef(beginCell().storeStringTail('John Doe').endCell())
-                .endCell();
+        it('should forward the claim to the identity', async () => {
+            const result = await issueClaim();
 
-            const signature = beginCell()
-                .storeBuffer(Buffer.from('mock_signature_data'))
-                .endCell();
+            expect(result.transactions).toHaveTransaction({
+                from: claimIssuer.address,
+                to: identity.address,
+            });
+        });
 
-            const result = await claimIssuer.sendAddClaim(
+        it('should not allow unauthorized users to issue claims', async () => {
+            const result = await claimIssuer.sendIssueClaim(
                 unauthorizedUser.getSender(),
                 {
-                    value: toNano('0.05'),
+                    value: toNano('0.2'),
                     identity: identity.address,
                     topic: 1n,
                     scheme: 1n,
-                    data: claimData.asSlice(),
-                    signature: signature.asSlice(),
-                    uri: ''
+                    data: kycData(),
+                    uri: '',
+                    expiresAt: 0n
                 }
             );
 
@@ -108,41 +130,22 @@ describe('TonClaimIssuer', () => {
                 from: unauthorizedUser.address,
                 to: claimIssuer.address,
                 success: false,
-                exitCode: 304, // Invalid issuer
+                exitCode: 132, // Access denied
             });
+            expect(await claimIssuer.getGetIssuedClaim(1n)).toBeNull();
         });
 
-        it('should allow issuer to remove their own claims', async () => {
-            // First add a claim
-            const claimData = beginCell()
-                .storeUint(1, 32)
-                .storeRef(beginCell().storeStringTail('John Doe').endCell())
-                .endCell();
-
-            const signature = beginCell()
-                .storeBuffer(Buffer.from('mock_signature_data'))
-                .endCell();
-
-            await claimIssuer.sendAddClaim(
+        it('should accept claims with empty data', async () => {
+            const result = await claimIssuer.sendIssueClaim(
                 deployer.getSender(),
                 {
-                    value: toNano('0.05'),
+                    value: toNano('0.2'),
                     identity: identity.address,
                     topic: 1n,
                     scheme: 1n,
-                    data: claimData.asSlice(),
-                    signature: signature.asSlice(),
-                    uri: ''
-                }
-            );
-
-            // Then remove it
-            const claimId = 1n;
-            const result = await claimIssuer.sendRemoveClaim(
-                deployer.getSender(),
-                {
-                    value: toNano('0.05'),
-                    claimId: claimId
+                    data: beginCell().endCell().asSlice(),
+                    uri: '',
+                    expiresAt: 0n
                 }
             );
 
@@ -151,43 +154,61 @@ describe('TonClaimIssuer', () => {
                 to: claimIssuer.address,
                 success: true,
             });
+        });
+
+        it('should number claims sequentially across topics', async () => {
+            const topics = [1n, 2n, 3n, 4n, 5n]; // KYC, AML, ACCREDITED, JURISDICTION, SANCTIONS
+            for (const topic of topics) {
+                await issueClaim(topic);
+            }
+
+            for (let i = 0; i < topics.length; i++) {
+                const claim = await claimIssuer.getGetIssuedClaim(BigInt(i + 1));
+                expect(claim!.topic).toBe(topics[i]);
+            }
+            expect((await claimIssuer.getGetIssuerInfo()).totalClaims).toBe(5n);
+        });
+
+        it('should keep the requested signature scheme', async () => {
+            await issueClaim(1n, 1n); // ECDSA
+            await issueClaim(1n, 2n); // RSA
 
-            // Verify claim was removed
-            const claim = await claimIssuer.getGetClaim(claimId);
-            expect(claim.valid).toBe(0n);
+            expect((await claimIssuer.getGetIssuedClaim(1n))!.scheme).toBe(1n);
+            expect((await claimIssuer.getGetIssuedClaim(2n))!.scheme).toBe(2n);
         });
+    });
 
-        it('should not allow unauthorized user to remove claims', async () => {
-            // First add a claim
-            const claimData = beginCell()
-                .storeUint(1, 32)
-                .storeRef(beginCell().storeStringTail('John Doe').endCell())
-                .endCell();
+    describe('Claim Revocation', () => {
+        beforeEach(async () => {
+            await issueClaim();
+        });
 
-            const signature = beginCell()
-                .storeBuffer(Buffer.from('mock_signature_data'))
-                .endCell();
+        it('should allow the owner to revoke claims', async () => {
+            const claim = await claimIssuer.getGetIssuedClaim(1n);
 
-            await claimIssuer.sendAddClaim(
+            const result = await claimIssuer.sendRevokeClaim(
                 deployer.getSender(),
                 {
-                    value: toNano('0.05'),
-                    identity: identity.address,
-                    topic: 1n,
-                    scheme: 1n,
-                    data: claimData.asSlice(),
-                    signature: signature.asSlice(),
-                    uri: ''
+                    value: toNano('0.2'),
+                    claimId: 1n
                 }
             );
 
-            // Try to remove with unauthorized user
-            const claimId = 1n;
-            const result = await claimIssuer.sendRemoveClaim(
+            expect(result.transactions).toHaveTransaction({
+                from: deployer.address,
+                to: claimIssuer.address,
+                success: true,
+            });
+            expect((await claimIssuer.getGetIssuedClaim(1n))!.revoked).toBe(true);
+            expect(await claimIssuer.getIsSignatureRevoked(claim!.signature)).toBe(true);
+        });
+
+        it('should not allow unauthorized users to revoke claims', async () => {
+            const result = await claimIssuer.sendRevokeClaim(
                 unauthorizedUser.getSender(),
                 {
-                    value: toNano('0.05'),
-                    claimId: claimId
+                    value: toNano('0.2'),
+                    claimId: 1n
                 }
             );
 
@@ -195,386 +216,180 @@ describe('TonClaimIssuer', () => {
                 from: unauthorizedUser.address,
                 to: claimIssuer.address,
                 success: false,
-                exitCode: 100, // Unauthorized
+                exitCode: 132,
             });
+            expect((await claimIssuer.getGetIssuedClaim(1n))!.revoked).toBe(false);
         });
 
-        it('should allow issuer to revoke claims', async () => {
-            // First add a claim
-            const claimData = beginCell()
-                .storeUint(1, 32)
-                .storeRef(beginCell().storeStringTail('John Doe').endCell())
-                .endCell();
-
-            const signature = beginCell()
-                .storeBuffer(Buffer.from('mock_signature_data'))
-                .endCell();
+        it('should reject revoking a claim twice', async () => {
+            await claimIssuer.sendRevokeClaim(deployer.getSender(), { value: toNano('0.2'), claimId: 1n });
 
-            await claimIssuer.sendAddClaim(
+            const result = await claimIssuer.sendRevokeClaim(
                 deployer.getSender(),
                 {
-                    value: toNano('0.05'),
-                    identity: identity.address,
-                    topic: 1n,
-                    scheme: 1n,
-                    data: claimData.asSlice(),
-                    signature: signature.asSlice(),
-                    uri: ''
+                    value: toNano('0.2'),
+                    claimId: 1n
                 }
             );
 
-            // Then revoke it
-            const claimId = 1n;
+            expect(result.transactions).toHaveTransaction({
+                from: deployer.address,
+                to: claimIssuer.address,
+                success: false,
+            });
+        });
+
+        it('should reject revoking a non-existent claim', async () => {
             const result = await claimIssuer.sendRevokeClaim(
                 deployer.getSender(),
                 {
-                    value: toNano('0.05'),
-                    claimId: claimId,
-                    reason: 'Identity verification failed'
+                    value: toNano('0.2'),
+                    claimId: 999n
                 }
             );
 
             expect(result.transactions).toHaveTransaction({
                 from: deployer.address,
                 to: claimIssuer.address,
-                success: true,
+                success: false,
             });
-
-            // Verify claim was revoked
-            const isValid = await claimIssuer.getIsClaimValid(claimId);
-            expect(isValid).toBe(0n);
-        });
-    });
-
-    describe('Claim Queries', () => {
-        beforeEach(async () => {
-            // Add multiple claims for testing
-            const claims = [
-                { topic: 1n, data: 'KYC Data' },
-                { topic: 2n, data: 'AML Data' },
-                { topic: 1n, data: 'Updated KYC Data' },
-                { topic: 3n, data: 'Accreditation Data' }
-            ];
-
-            for (const claim of claims) {
-                const claimData = beginCell()
-                    .storeUint(Number(claim.topic), 32)
-                    .storeRef(beginCell().storeStringTail(claim.data).endCell())
-                    .endCell();
-
-                const signature = beginCell()
-                    .storeBuffer(Buffer.from('mock_signature_data'))
-                    .endCell();
-
-                await claimIssuer.sendAddClaim(
-                    deployer.getSender(),
-                    {
-                        value: toNano('0.05'),
-                        identity: identity.address,
-                        topic: claim.topic,
-                        scheme: 1n,
-                        data: claimData.asSlice(),
-                        signature: signature.asSlice(),
-                        uri: ''
-                    }
-                );
-            }
-        });
-
-        it('should get claims by topic', async () => {
-            const kycClaims = await claimIssuer.getGetClaimIdsByTopic(identity.address, 1n);
-            expect(kycClaims).toBeDefined();
-
-            const amlClaims = await claimIssuer.getGetClaimIdsByTopic(identity.address, 2n);
-            expect(amlClaims).toBeDefined();
-
-            const nonExistentClaims = await claimIssuer.getGetClaimIdsByTopic(identity.address, 99n);
-            expect(nonExistentClaims).toBeDefined();
-        });
-
-        it('should get claims by issuer', async () => {
-            const issuerClaims = await claimIssuer.getGetClaimsByIssuer(deployer.address);
-            expect(issuerClaims).toBeDefined();
-
-            const nonIssuerClaims = await claimIssuer.getGetClaimsByIssuer(unauthorizedUser.address);
-            expect(nonIssuerClaims).toBeDefined();
-        });
-
-        it('should validate claim existence and validity', async () => {
-            const claimId = 1n;
-            const isValid = await claimIssuer.getIsClaimValid(claimId);
-            expect(isValid).toBe(1n);
-
-            const nonExistentClaimId = 999n;
-            const isNonExistentValid = await claimIssuer.getIsClaimValid(nonExistentClaimId);
-            expect(isNonExistentValid).toBe(0n);
         });
 
-        it('should retrieve complete claim data', async () => {
-            const claimId = 1n;
-            const claim = await claimIssuer.getGetClaim(claimId);
-
-            expect(claim.topic).toBe(1n);
-            expect(claim.scheme).toBe(1n);
-            expect(claim.issuer.toString()).toBe(deployer.address.toString());
-            expect(claim.valid).toBe(1n);
-            expect(claim.signature).toBeDefined();
-            expect(claim.data).toBeDefined();
-        });
-    });
-
-    describe('Claim Topics', () => {
-        it('should handle different claim topics correctly', async () => {
-            const topics = [
-                { id: 1n, name: 'KYC' },
-                { id: 2n, name: 'AML' },
-                { id: 3n, name: 'Accreditation' },
-                { id: 4n, name: 'Jurisdiction' }
-            ];
-
-            for (const topic of topics) {
-                const claimData = beginCell()
-                    .storeUint(Number(topic.id), 32)
-                    .storeRef(beginCell().storeStringTail(topic.name).endCell())
-                    .endCell();
-
-                const signature = beginCell()
-                    .storeBuffer(Buffer.from('mock_signature_data'))
-                    .endCell();
-
-                const result = await claimIssuer.sendAddClaim(
-                    deployer.getSender(),
-                    {
-                        value: toNano('0.05'),
-                        identity: identity.address,
-                        topic: topic.id,
-                        scheme: 1n,
-                        data: claimData.asSlice(),
-                        signature: signature.asSlice(),
-                        uri: `https://issuer.com/claims/${topic.name.toLowerCase()}`
-                    }
-                );
-
-                expect(result.transactions).toHaveTransaction({
-                    from: deployer.address,
-                    to: claimIssuer.address,
-                    success: true,
-                });
-            }
-
-            // Verify all topics were added
-            for (let i = 1; i <= topics.length; i++) {
-                const claim = await claimIssuer.getGetClaim(BigInt(i));
-                expect(claim.topic).toBe(BigInt(i));
-                expect(claim.valid).toBe(1n);
-            }
-        });
-
-        it('should handle multiple claims for same topic', async () => {
-            const topic = 1n; // KYC
-            const claimCount = 3;
-
-            for (let i = 0; i < claimCount; i++) {
-                const claimData = beginCell()
-                    .storeUint(Number(topic), 32)
-                    .storeRef(beginCell().storeStringTail(`KYC Data ${i + 1}`).endCell())
-                    .endCell();
-
-                const signature = beginCell()
-                    .storeBuffer(Buffer.from(`mock_signature_data_${i}`))
-                    .endCell();
-
-                await claimIssuer.sendAddClaim(
-                    deployer.getSender(),
-                    {
-                        value: toNano('0.05'),
-                        identity: identity.address,
-                        topic: topic,
-                        scheme: 1n,
-                        data: claimData.asSlice(),
-                        signature: signature.asSlice(),
-                        uri: ''
-                    }
-                );
-            }
-
-            // Verify all claims exist
-            for (let i = 1; i <= claimCount; i++) {
-                const claim = await claimIssuer.getGetClaim(BigInt(i));
-                expect(claim.topic).toBe(topic);
-                expect(claim.valid).toBe(1n);
-            }
-
-            // Get claims by topic should return all
-            const topicClaims = await claimIssuer.getGetClaimIdsByTopic(identity.address, topic);
-            expect(topicClaims).toBeDefined();
-        });
-    });
+        it('should revoke a signature directly', async () => {
+            const signature = beginCell().storeBuffer(Buffer.from('leaked_signature')).endCell().asSlice();
+            expect(await claimIssuer.getIsSignatureRevoked(signature)).toBe(false);
 
-    describe('Signature Schemes', () => {
-        it('should support different signature schemes', async () => {
-            const schemes = [
-                { id: 1n, name: 'ECDSA' },
-                { id: 2n, name: 'RSA' },
-                { id: 3n, name: 'EdDSA' }
-            ];
-
-            for (const scheme of schemes) {
-                const claimData = beginCell()
-                    .storeUint(1, 32) // KYC topic
-                    .storeRef(beginCell().storeStringTail(`Data for ${scheme.name}`).endCell())
-                    .endCell();
-
-                const signature = beginCell()
-                    .storeBuffer(Buffer.from(`${scheme.name}_signature_data`))
-                    .endCell();
-
-                const result = await claimIssuer.sendAddClaim(
-                    deployer.getSender(),
-                    {
-                        value: toNano('0.05'),
-                        identity: identity.address,
-                        topic: 1n,
-                        scheme: scheme.id,
-                        data: claimData.asSlice(),
-                        signature: signature.asSlice(),
-                        uri: ''
-                    }
-                );
-
-                expect(result.transactions).toHaveTransaction({
-                    from: deployer.address,
-                    to: claimIssuer.address,
-                    success: true,
-                });
-            }
-
-            // Verify all schemes were accepted
-            for (let i = 1; i <= schemes.length; i++) {
-                const claim = await claimIssuer.getGetClaim(BigInt(i));
-                expect(claim.scheme).toBe(BigInt(i));
-                expect(claim.valid).toBe(1n);
-            }
-        });
-    });
-
-    describe('Edge Cases', () => {
-        it('should handle non-existent claim operations', async () => {
-            const nonExistentClaimId = 999n;
-
-            // Try to remove non-existent claim
-            const removeResult = await claimIssuer.sendRemoveClaim(
+            const result = await claimIssuer.sendRevokeClaimBySignature(
                 deployer.getSender(),
                 {
                     value: toNano('0.05'),
-                    claimId: nonExistentClaimId
+                    signature
                 }
             );
 
-            expect(removeResult.transactions).toHaveTransaction({
+            expect(result.transactions).toHaveTransaction({
                 from: deployer.address,
                 to: claimIssuer.address,
-                success: false,
-                exitCode: 300, // Claim not found
+                success: true,
             });
+            expect(await claimIssuer.getIsSignatureRevoked(signature)).toBe(true);
 
-            // Try to revoke non-existent claim
-            const revokeResult = await claimIssuer.sendRevokeClaim(
+            const again = await claimIssuer.sendRevokeClaimBySignature(
                 deployer.getSender(),
                 {
                     value: toNano('0.05'),
-                    claimId: nonExistentClaimId,
-                    reason: 'Test revocation'
+                    signature
                 }
             );
 
-            expect(revokeResult.transactions).toHaveTransaction({
+            expect(again.transactions).toHaveTransaction({
                 from: deployer.address,
                 to: claimIssuer.address,
                 success: false,
-                exitCode: 300, // Claim not found
             });
         });
+    });
 
-        it('should handle revoked claim operations', async () => {
-            // Add and then revoke a claim
-            const claimData = beginCell()
-                .storeUint(1, 32)
-                .storeRef(beginCell().storeStringTail('Test Data').endCell())
-                .endCell();
-
-            const signature = beginCell()
-                .storeBuffer(Buffer.from('mock_signature_data'))
-                .endCell();
-
-            await claimIssuer.sendAddClaim(
-                deployer.getSender(),
+    describe('Claim Validation', () => {
+        it('should reply with a ClaimValidationResponse', async () => {
+            const result = await claimIssuer.sendValidateClaim(
+                unauthorizedUser.getSender(),
                 {
                     value: toNano('0.05'),
                     identity: identity.address,
                     topic: 1n,
-                    scheme: 1n,
-                    data: claimData.asSlice(),
-                    signature: signature.asSlice(),
-                    uri: ''
-                }
-            );
-
-            const claimId = 1n;
-            await claimIssuer.sendRevokeClaim(
-                deployer.getSender(),
-                {
-                    value: toNano('0.05'),
-                    claimId: claimId,
-                    reason: 'Test revocation'
-                }
-            );
-
-            // Try to revoke already revoked claim
-            const result = await claimIssuer.sendRevokeClaim(
-                deployer.getSender(),
-                {
-                    value: toNano('0.05'),
-                    claimId: claimId,
-                    reason: 'Double revocation'
+                    signature: beginCell().storeBuffer(Buffer.from('forged')).endCell().asSlice(),
+                    data: kycData()
                 }
             );
 
             expect(result.transactions).toHaveTransaction({
-                from: deployer.address,
-                to: claimIssuer.address,
-                success: false,
-                exitCode: 303, // Claim revoked
+                from: claimIssuer.address,
+                to: unauthorizedUser.address,
             });
+
+            const reply = result.transactions
+                .map((tx) => tx.inMessage)
+                .find((msg) => msg?.info.src?.toString() === claimIssuer.address.toString());
+            const response = loadClaimValidationResponse(reply!.body.beginParse());
+            expect(response.valid).toBe(false);
+            expect(response.reason).toBe('Invalid signature');
         });
 
-        it('should validate claim data integrity', async () => {
-            // Try to add claim with empty data
-            const emptyData = beginCell().endCell();
-            const signature = beginCell()
-                .storeBuffer(Buffer.from('mock_signature_data'))
-                .endCell();
+        it('should report revoked signatures as invalid', async () => {
+            await issueClaim();
+            const claim = await claimIssuer.getGetIssuedClaim(1n);
+            await claimIssuer.sendRevokeClaim(deployer.getSender(), { value: toNano('0.2'), claimId: 1n });
 
-            const result = await claimIssuer.sendAddClaim(
-                deployer.getSender(),
+            const result = await claimIssuer.sendValidateClaim(
+                unauthorizedUser.getSender(),
                 {
                     value: toNano('0.05'),
                     identity: identity.address,
                     topic: 1n,
-                    scheme: 1n,
-                    data: emptyData.asSlice(),
-                    signature: signature.asSlice(),
-                    uri: ''
+                    signature: claim!.signature,
+                    data: claim!.data
                 }
             );
 
-            // Should still succeed as empty data might be valid in some cases
+            const reply = result.transactions
+                .map((tx) => tx.inMessage)
+                .find((msg) => msg?.info.src?.toString() === claimIssuer.address.toString() &&
+                    msg.info.dest?.toString() === unauthorizedUser.address.toString());
+            const response = loadClaimValidationResponse(reply!.body.beginParse());
+            expect(response.valid).toBe(false);
+            expect(response.reason).toBe('Signature revoked');
+        });
+    });
+
+    describe('Issuer Queries', () => {
+        it('should return issuer info', async () => {
+            await issueClaim();
+
+            const info = await claimIssuer.getGetIssuerInfo();
+            expect(info.name).toBe('KYC Provider');
+            expect(info.issuerType).toBe('KYC');
+            expect(info.owner.equals(deployer.address)).toBe(true);
+            expect(info.totalClaims).toBe(1n);
+        });
+
+        it('should treat the deployer as a trusted signer', async () => {
+            expect(await claimIssuer.getIsTrustedSigner(deployer.address)).toBe(true);
+            expect(await claimIssuer.getIsTrustedSigner(unauthorizedUser.address)).toBe(false);
+        });
+
+        it('should add and remove trusted signers', async () => {
+            const signer = await blockchain.treasury('signer');
+
+            await claimIssuer.sendAddTrustedSigner(deployer.getSender(), { value: toNano('0.05'), signer: signer.address });
+            expect(await claimIssuer.getIsTrustedSigner(signer.address)).toBe(true);
+
+            await claimIssuer.sendRemoveTrustedSigner(deployer.getSender(), { value: toNano('0.05'), signer: signer.address });
+            expect(await claimIssuer.getIsTrustedSigner(signer.address)).toBe(false);
+        });
+
+        it('should only allow the owner to manage trusted signers', async () => {
+            const result = await claimIssuer.sendAddTrustedSigner(
+                unauthorizedUser.getSender(),
+                { value: toNano('0.05'), signer: unauthorizedUser.address }
+            );
+
             expect(result.transactions).toHaveTransaction({
-                from: deployer.address,
+                from: unauthorizedUser.address,
                 to: claimIssuer.address,
-                success: true,
+                success: false,
+                exitCode: 132, // Access denied
             });
+            expect(await claimIssuer.getIsTrustedSigner(unauthorizedUser.address)).toBe(false);
+        });
+
+        it('should validate claim data for known topics only', async () => {
+            expect(await claimIssuer.getValidateClaimData(identity.address, 1n, kycData())).toBe(true);
+            expect(await claimIssuer.getValidateClaimData(identity.address, 99n, kycData())).toBe(false);
+        });
+
+        it('should return null for unknown claims', async () => {
+            expect(await claimIssuer.getGetIssuedClaim(999n)).toBeNull();
         });
     });
 });
-
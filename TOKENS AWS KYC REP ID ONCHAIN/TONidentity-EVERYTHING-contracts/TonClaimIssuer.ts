@@ -17,20 +17,277 @@ import {
     ABIGetter,
     ABIReceiver,
     TupleBuilder,
-    DictionaryValue
+    DictionaryValue,
+    Transaction
 } from '@ton/core';
+import { storeDeploy } from './TonIdentity';
+import { TonClaimIssuer as TactTonClaimIssuer } from '../build/TonClaimIssuer/tact_TonClaimIssuer';
 
-export type TonClaimIssuerConfig = {
+// Message layouts below mirror the Tact definitions in TonClaimIssuer.tact.
+// Opcodes are the first 32 bits of sha256 over each message signature.
+
+export type IssueClaim = {
+    $$type: 'IssueClaim';
+    identity: Address;
+    topic: bigint;
+    scheme: bigint;
+    data: Slice;
+    uri: string;
+    expiresAt: bigint;
+}
+
+export function storeIssueClaim(src: IssueClaim) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0xa3317b93, 32); // IssueClaim{identity:address,topic:int257,scheme:int257,data:^slice,uri:^string,expiresAt:int257}
+        b_0.storeAddress(src.identity);
+        b_0.storeInt(src.topic, 257);
+        b_0.storeInt(src.scheme, 257);
+        b_0.storeRef(src.data.asCell());
+        b_0.storeStringRefTail(src.uri);
+        const b_1 = new Builder();
+        b_1.storeInt(src.expiresAt, 257);
+        b_0.storeRef(b_1.endCell());
+    };
+}
+
+export function loadIssueClaim(slice: Slice): IssueClaim {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xa3317b93) { throw Error('Invalid prefix'); }
+    const _identity = sc_0.loadAddress();
+    const _topic = sc_0.loadIntBig(257);
+    const _scheme = sc_0.loadIntBig(257);
+    const _data = sc_0.loadRef().asSlice();
+    const _uri = sc_0.loadStringRefTail();
+    const sc_1 = sc_0.loadRef().beginParse();
+    const _expiresAt = sc_1.loadIntBig(257);
+    return { $$type: 'IssueClaim' as const, identity: _identity, topic: _topic, scheme: _scheme, data: _data, uri: _uri, expiresAt: _expiresAt };
+}
+
+export type RevokeClaim = {
+    $$type: 'RevokeClaim';
+    claimId: bigint;
+}
+
+export function storeRevokeClaim(src: RevokeClaim) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0xb4de4b99, 32); // RevokeClaim{claimId:int257}
+        b_0.storeInt(src.claimId, 257);
+    };
+}
+
+export function loadRevokeClaim(slice: Slice): RevokeClaim {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xb4de4b99) { throw Error('Invalid prefix'); }
+    const _claimId = sc_0.loadIntBig(257);
+    return { $$type: 'RevokeClaim' as const, claimId: _claimId };
+}
+
+export type RevokeClaimBySignature = {
+    $$type: 'RevokeClaimBySignature';
+    signature: Slice;
+}
+
+export function storeRevokeClaimBySignature(src: RevokeClaimBySignature) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0x140dc367, 32); // RevokeClaimBySignature{signature:^slice}
+        b_0.storeRef(src.signature.asCell());
+    };
+}
+
+export function loadRevokeClaimBySignature(slice: Slice): RevokeClaimBySignature {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x140dc367) { throw Error('Invalid prefix'); }
+    const _signature = sc_0.loadRef().asSlice();
+    return { $$type: 'RevokeClaimBySignature' as const, signature: _signature };
+}
+
+export type AddTrustedSigner = {
+    $$type: 'AddTrustedSigner';
+    signer: Address;
+}
+
+export function storeAddTrustedSigner(src: AddTrustedSigner) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0xe9729f03, 32); // AddTrustedSigner{signer:address}
+        b_0.storeAddress(src.signer);
+    };
+}
+
+export function loadAddTrustedSigner(slice: Slice): AddTrustedSigner {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xe9729f03) { throw Error('Invalid prefix'); }
+    const _signer = sc_0.loadAddress();
+    return { $$type: 'AddTrustedSigner' as const, signer: _signer };
+}
+
+export type RemoveTrustedSigner = {
+    $$type: 'RemoveTrustedSigner';
+    signer: Address;
+}
+
+export function storeRemoveTrustedSigner(src: RemoveTrustedSigner) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0xa91def9a, 32); // RemoveTrustedSigner{signer:address}
+        b_0.storeAddress(src.signer);
+    };
+}
+
+export function loadRemoveTrustedSigner(slice: Slice): RemoveTrustedSigner {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xa91def9a) { throw Error('Invalid prefix'); }
+    const _signer = sc_0.loadAddress();
+    return { $$type: 'RemoveTrustedSigner' as const, signer: _signer };
+}
+
+export type ValidateClaim = {
+    $$type: 'ValidateClaim';
+    identity: Address;
+    topic: bigint;
+    signature: Slice;
+    data: Slice;
+}
+
+export function storeValidateClaim(src: ValidateClaim) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0x1cb289a9, 32); // ValidateClaim{identity:address,topic:int257,signature:^slice,data:^slice}
+        b_0.storeAddress(src.identity);
+        b_0.storeInt(src.topic, 257);
+        b_0.storeRef(src.signature.asCell());
+        b_0.storeRef(src.data.asCell());
+    };
+}
+
+export function loadValidateClaim(slice: Slice): ValidateClaim {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x1cb289a9) { throw Error('Invalid prefix'); }
+    const _identity = sc_0.loadAddress();
+    const _topic = sc_0.loadIntBig(257);
+    const _signature = sc_0.loadRef().asSlice();
+    const _data = sc_0.loadRef().asSlice();
+    return { $$type: 'ValidateClaim' as const, identity: _identity, topic: _topic, signature: _signature, data: _data };
+}
+
+// Reply sent back to the ValidateClaim sender
+export type ClaimValidationResponse = {
+    $$type: 'ClaimValidationResponse';
+    valid: boolean;
+    reason: string;
+    claimId: bigint;
+}
+
+export function storeClaimValidationResponse(src: ClaimValidationResponse) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0x7c4c85dd, 32); // ClaimValidationResponse{valid:bool,reason:^string,claimId:int257}
+        b_0.storeBit(src.valid);
+        b_0.storeStringRefTail(src.reason);
+        b_0.storeInt(src.claimId, 257);
+    };
+}
+
+export function loadClaimValidationResponse(slice: Slice): ClaimValidationResponse {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x7c4c85dd) { throw Error('Invalid prefix'); }
+    const _valid = sc_0.loadBit();
+    const _reason = sc_0.loadStringRefTail();
+    const _claimId = sc_0.loadIntBig(257);
+    return { $$type: 'ClaimValidationResponse' as const, valid: _valid, reason: _reason, claimId: _claimId };
+}
+
+// Event emitted for each issued claim
+export type ClaimIssued = {
+    $$type: 'ClaimIssued';
+    claimId: bigint;
+    identity: Address;
+    topic: bigint;
+    scheme: bigint;
+    signature: Slice;
+    data: Slice;
+    uri: string;
+    expiresAt: bigint;
+}
+
+export function loadClaimIssued(slice: Slice): ClaimIssued {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xe9c49eb2) { throw Error('Invalid prefix'); } // ClaimIssued{claimId:int257,identity:address,topic:int257,scheme:int257,signature:^slice,data:^slice,uri:^string,expiresAt:int257}
+    const _claimId = sc_0.loadIntBig(257);
+    const _identity = sc_0.loadAddress();
+    const _topic = sc_0.loadIntBig(257);
+    const sc_1 = sc_0.loadRef().beginParse();
+    const _scheme = sc_1.loadIntBig(257);
+    const _signature = sc_1.loadRef().asSlice();
+    const _data = sc_1.loadRef().asSlice();
+    const _uri = sc_1.loadStringRefTail();
+    const _expiresAt = sc_1.loadIntBig(257);
+    return { $$type: 'ClaimIssued' as const, claimId: _claimId, identity: _identity, topic: _topic, scheme: _scheme, signature: _signature, data: _data, uri: _uri, expiresAt: _expiresAt };
+}
+
+/**
+ * Finds the transaction that processed an IssueClaim body and returns the
+ * ClaimIssued event it emitted, or null if none of the transactions did.
+ * Bodies are compared by hash, so pass the exact cell that was sent.
+ */
+export function findClaimIssued(transactions: Transaction[], request: Cell): ClaimIssued | null {
+    for (const tx of transactions) {
+        if (!tx.inMessage || !tx.inMessage.body.hash().equals(request.hash())) {
+            continue;
+        }
+        for (const message of tx.outMessages.values()) {
+            const body = message.body.beginParse();
+            if (message.info.type === 'external-out' && body.remainingBits >= 32 && body.preloadUint(32) === 0xe9c49eb2) {
+                return loadClaimIssued(body);
+            }
+        }
+    }
+    return null;
+}
+
+// Getter results
+
+export type IssuedClaim = {
+    topic: bigint;
+    scheme: bigint;
+    identity: Address;
+    signature: Slice;
+    data: Slice;
+    uri: string;
+    issuedAt: bigint;
+    expiresAt: bigint;
+    revoked: boolean;
+}
+
+export type IssuerInfo = {
+    name: string;
+    issuerType: string;
     owner: Address;
-    nextClaimId: bigint;
-    authorizedIssuers: Map<string, boolean>;
-};
+    totalClaims: bigint;
+}
+
+function loadTupleIssuedClaim(source: TupleReader): IssuedClaim {
+    const _topic = source.readBigNumber();
+    const _scheme = source.readBigNumber();
+    const _identity = source.readAddress();
+    const _signature = source.readCell().asSlice();
+    const _data = source.readCell().asSlice();
+    const _uri = source.readString();
+    const _issuedAt = source.readBigNumber();
+    const _expiresAt = source.readBigNumber();
+    const _revoked = source.readBoolean();
+    return { topic: _topic, scheme: _scheme, identity: _identity, signature: _signature, data: _data, uri: _uri, issuedAt: _issuedAt, expiresAt: _expiresAt, revoked: _revoked };
+}
 
-export function tonClaimIssuerConfigToCell(config: TonClaimIssuerConfig): Cell {
-    return beginCell()
-        .storeAddress(config.owner)
-        .storeUint(config.nextClaimId, 64)
-        .endCell();
+function loadTupleIssuerInfo(source: TupleReader): IssuerInfo {
+    const _name = source.readString();
+    const _issuerType = source.readString();
+    const _owner = source.readAddress();
+    const _totalClaims = source.readBigNumber();
+    return { name: _name, issuerType: _issuerType, owner: _owner, totalClaims: _totalClaims };
 }
 
 export class TonClaimIssuer implements Contract {
@@ -39,23 +296,24 @@ export class TonClaimIssuer implements Contract {
         return new TonClaimIssuer(address);
     }
     
-    static createFromConfig(config: TonClaimIssuerConfig, code: Cell, workchain = 0) {
-        const data = tonClaimIssuerConfigToCell(config);
-        const init = { code, data };
-        return new TonClaimIssuer(contractAddress(workchain, init), init);
+    // Code and initial data as compiled by Tact for init(issuerName, issuerType);
+    // the deployer becomes the owner
+    static async fromInit(issuerName: string, issuerType: string, workchain = 0) {
+        const { init } = await TactTonClaimIssuer.fromInit(issuerName, issuerType);
+        return new TonClaimIssuer(contractAddress(workchain, init!), init);
     }
     
     constructor(readonly address: Address, readonly init?: { code: Cell; data: Cell }) {}
     
-    async sendDeploy(provider: ContractProvider, via: Sender, value: bigint) {
+    async sendDeploy(provider: ContractProvider, via: Sender, value: bigint, queryId: bigint = 0n) {
         await provider.internal(via, {
             value,
             sendMode: 1,
-            body: beginCell().storeUint(0, 32).storeStringTail("Deploy").endCell(),
+            body: beginCell().store(storeDeploy({ $$type: 'Deploy', queryId })).endCell(),
         });
     }
     
-    async sendAddClaim(
+    async sendIssueClaim(
         provider: ContractProvider,
         via: Sender,
         opts: {
@@ -64,26 +322,28 @@ export class TonClaimIssuer implements Contract {
             topic: bigint;
             scheme: bigint;
             data: Slice;
-            signature: Slice;
             uri: string;
+            expiresAt: bigint;
         }
     ) {
         await provider.internal(via, {
             value: opts.value,
             sendMode: 1,
             body: beginCell()
-                .storeUint(0x11111111, 32) // AddClaim opcode
-                .storeAddress(opts.identity)
-                .storeUint(opts.topic, 32)
-                .storeUint(opts.scheme, 8)
-                .storeSlice(opts.data)
-                .storeSlice(opts.signature)
-                .storeStringTail(opts.uri)
+                .store(storeIssueClaim({
+                    $$type: 'IssueClaim',
+                    identity: opts.identity,
+                    topic: opts.topic,
+                    scheme: opts.scheme,
+                    data: opts.data,
+                    uri: opts.uri,
+                    expiresAt: opts.expiresAt
+                }))
                 .endCell(),
         });
     }
     
-    async sendRemoveClaim(
+    async sendRevokeClaim(
         provider: ContractProvider,
         via: Sender,
         opts: {
@@ -95,75 +355,128 @@ export class TonClaimIssuer implements Contract {
             value: opts.value,
             sendMode: 1,
             body: beginCell()
-                .storeUint(0x22222222, 32) // RemoveClaim opcode
-                .storeUint(opts.claimId, 64)
+                .store(storeRevokeClaim({ $$type: 'RevokeClaim', claimId: opts.claimId }))
                 .endCell(),
         });
     }
     
-    async sendRevokeClaim(
+    async sendRevokeClaimBySignature(
         provider: ContractProvider,
         via: Sender,
         opts: {
             value: bigint;
-            claimId: bigint;
-            reason: string;
+            signature: Slice;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeRevokeClaimBySignature({ $$type: 'RevokeClaimBySignature', signature: opts.signature }))
+                .endCell(),
+        });
+    }
+    
+    async sendAddTrustedSigner(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            signer: Address;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeAddTrustedSigner({ $$type: 'AddTrustedSigner', signer: opts.signer }))
+                .endCell(),
+        });
+    }
+    
+    async sendRemoveTrustedSigner(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            signer: Address;
         }
     ) {
         await provider.internal(via, {
             value: opts.value,
             sendMode: 1,
             body: beginCell()
-                .storeUint(0x33333333, 32) // RevokeClaim opcode
-                .storeUint(opts.claimId, 64)
-                .storeStringTail(opts.reason)
+                .store(storeRemoveTrustedSigner({ $$type: 'RemoveTrustedSigner', signer: opts.signer }))
                 .endCell(),
         });
     }
     
-    async getGetClaim(provider: ContractProvider, claimId: bigint): Promise<{
-        topic: bigint;
-        scheme: bigint;
-        issuer: Address;
-        signature: Slice;
-        data: Slice;
-        uri: string;
-        valid: bigint;
-    }> {
-        const result = await provider.get('getClaim', [
+    async sendValidateClaim(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            identity: Address;
+            topic: bigint;
+            signature: Slice;
+            data: Slice;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeValidateClaim({
+                    $$type: 'ValidateClaim',
+                    identity: opts.identity,
+                    topic: opts.topic,
+                    signature: opts.signature,
+                    data: opts.data
+                }))
+                .endCell(),
+        });
+    }
+    
+    async getGetIssuedClaim(provider: ContractProvider, claimId: bigint): Promise<IssuedClaim | null> {
+        const result = await provider.get('getIssuedClaim', [
             { type: 'int', value: claimId }
         ]);
-        return {
-            topic: result.stack.readBigNumber(),
-            scheme: result.stack.readBigNumber(),
-            issuer: result.stack.readAddress(),
-            signature: result.stack.readCell().asSlice(),
-            data: result.stack.readCell().asSlice(),
-            uri: result.stack.readString(),
-            valid: result.stack.readBigNumber()
-        };
+        const tuple = result.stack.readTupleOpt();
+        return tuple ? loadTupleIssuedClaim(tuple) : null;
     }
     
-    async getGetClaimIdsByTopic(provider: ContractProvider, identity: Address, topic: bigint): Promise<Cell> {
-        const result = await provider.get('getClaimIdsByTopic', [
-            { type: 'slice', cell: beginCell().storeAddress(identity).endCell() },
-            { type: 'int', value: topic }
+    async getIsSignatureRevoked(provider: ContractProvider, signature: Slice): Promise<boolean> {
+        const result = await provider.get('isSignatureRevoked', [
+            { type: 'slice', cell: signature.asCell() }
         ]);
-        return result.stack.readCell();
+        return result.stack.readBoolean();
     }
     
-    async getIsClaimValid(provider: ContractProvider, claimId: bigint): Promise<bigint> {
-        const result = await provider.get('isClaimValid', [
-            { type: 'int', value: claimId }
+    async getGetIssuerInfo(provider: ContractProvider): Promise<IssuerInfo> {
+        const result = await provider.get('getIssuerInfo', []);
+        return loadTupleIssuerInfo(result.stack);
+    }
+    
+    async getIsTrustedSigner(provider: ContractProvider, signer: Address): Promise<boolean> {
+        const result = await provider.get('isTrustedSigner', [
+            { type: 'slice', cell: beginCell().storeAddress(signer).endCell() }
         ]);
-        return result.stack.readBigNumber();
+        return result.stack.readBoolean();
     }
     
-    async getGetClaimsByIssuer(provider: ContractProvider, issuer: Address): Promise<Cell> {
-        const result = await provider.get('getClaimsByIssuer', [
-            { type: 'slice', cell: beginCell().storeAddress(issuer).endCell() }
+    async getValidateClaimData(provider: ContractProvider, identity: Address, topic: bigint, data: Slice): Promise<boolean> {
+        const result = await provider.get('validateClaimData', [
+            { type: 'slice', cell: beginCell().storeAddress(identity).endCell() },
+            { type: 'int', value: topic },
+            { type: 'slice', cell: data.asCell() }
         ]);
-        return result.stack.readCell();
+        return result.stack.readBoolean();
     }
 }
 
+// An opened TonClaimIssuer, provider-backed or sandbox; see TonIdentityClient.
+export type TonClaimIssuerClient = {
+    [K in keyof TonClaimIssuer]: TonClaimIssuer[K] extends (provider: ContractProvider, ...args: infer A) => Promise<infer R>
+        ? (...args: A) => Promise<K extends `send${string}` ? unknown : R>
+        : TonClaimIssuer[K];
+};
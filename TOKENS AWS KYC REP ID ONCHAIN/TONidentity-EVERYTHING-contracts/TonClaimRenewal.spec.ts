@@ -0,0 +1,211 @@
+import { Blockchain, SandboxContract, SendMessageResult, TreasuryContract } from '@ton/sandbox';
+import { toNano, beginCell, Transaction } from '@ton/core';
+import { keyPairFromSeed } from '@ton/crypto';
+import { TonClaimIssuer } from '../wrappers/TonClaimIssuer';
+import { ClaimRenewalScheduler, ClaimRenewalTask } from '../wrappers/TonClaimRenewal';
+import { commitSubject, KycClaimCodec, KycLevel } from '../wrappers/TonClaimSchemas';
+import { verifyClaimSignature } from '../wrappers/TonClaimSigning';
+import '@ton/test-utils';
+
+const DAY = 86400;
+
+describe('ClaimRenewalScheduler', () => {
+    const issuerKey = keyPairFromSeed(Buffer.alloc(32, 1));
+    const start = 1700000000;
+
+    let blockchain: Blockchain;
+    let deployer: SandboxContract<TreasuryContract>;
+    let identity: SandboxContract<TreasuryContract>;
+    let claimIssuer: SandboxContract<TonClaimIssuer>;
+    let issuerLog: Transaction[];
+
+    const kycData = (verifiedAt: number, expiresAt: number) => beginCell()
+        .store(KycClaimCodec.store({
+            subjectCommitment: commitSubject({ name: 'John Doe' }, Buffer.alloc(16, 1)),
+            level: KycLevel.STANDARD,
+            verifiedAt: BigInt(verifiedAt),
+            expiresAt: BigInt(expiresAt)
+        }))
+        .endCell();
+
+    async function issueClaim(topic: bigint, expiresAt: number) {
+        return claimIssuer.sendIssueClaim(
+            deployer.getSender(),
+            {
+                value: toNano('0.2'),
+                identity: identity.address,
+                topic,
+                scheme: 1n,
+                data: kycData(start, expiresAt).asSlice(),
+                uri: '',
+                expiresAt: BigInt(expiresAt)
+            }
+        );
+    }
+
+    function newScheduler(opts: Partial<ConstructorParameters<typeof ClaimRenewalScheduler>[1]> = {}) {
+        return new ClaimRenewalScheduler(claimIssuer, {
+            windowSeconds: BigInt(30 * DAY),
+            issuerTransactions: async (limit) => issuerLog.slice(-limit).reverse(),
+            now: () => BigInt(blockchain.now!),
+            pollIntervalMs: 0,
+            timeoutMs: 1000,
+            ...opts
+        });
+    }
+
+    beforeEach(async () => {
+        blockchain = await Blockchain.create();
+        blockchain.now = start;
+
+        deployer = await blockchain.treasury('deployer');
+        identity = await blockchain.treasury('identity');
+
+        // Every send is logged as the issuer's transaction history on a live network would be
+        issuerLog = [];
+        const opened = blockchain.openContract(await TonClaimIssuer.fromInit('KYC Provider', 'KYC'));
+        const issuerAccount = BigInt('0x' + opened.address.hash.toString('hex'));
+        claimIssuer = new Proxy(opened, {
+            get: (target, prop, receiver) => {
+                const value = Reflect.get(target, prop, receiver);
+                if (typeof prop !== 'string' || !prop.startsWith('send')) {
+                    return value;
+                }
+                return async (...args: unknown[]) => {
+                    const result: SendMessageResult = await value(...args);
+                    issuerLog.push(...result.transactions.filter((tx) => tx.address === issuerAccount));
+                    return result;
+                };
+            }
+        });
+        await claimIssuer.sendDeploy(deployer.getSender(), toNano('0.05'));
+
+        await issueClaim(1n, start + 365 * DAY); // KYC, one year
+        await issueClaim(2n, start + 90 * DAY);  // AML, one quarter
+        await issueClaim(5n, 0);                 // SANCTIONS, no expiry
+    });
+
+    describe('Scanning', () => {
+        it('should not flag anything while claims are far from expiry', async () => {
+            expect(await newScheduler().scan()).toEqual([]);
+        });
+
+        it('should flag claims entering the window as time passes', async () => {
+            const seen: ClaimRenewalTask[] = [];
+            const scheduler = newScheduler({ onTask: (task) => seen.push(task) });
+
+            blockchain.now = start + 70 * DAY;
+            const tasks = await scheduler.scan();
+
+            expect(tasks.map((t) => t.claimId)).toEqual([2n]);
+            expect(tasks[0].status).toBe('expiring');
+            expect(tasks[0].secondsLeft).toBe(BigInt(20 * DAY));
+            expect(seen).toEqual(tasks);
+        });
+
+        it('should mark claims past expiry as expired, soonest first', async () => {
+            blockchain.now = start + 360 * DAY;
+            const tasks = await newScheduler().scan();
+
+            expect(tasks.map((t) => t.claimId)).toEqual([2n, 1n]);
+            expect(tasks[0].status).toBe('expired');
+            expect(tasks[1].status).toBe('expiring');
+        });
+
+        it('should skip revoked claims', async () => {
+            await claimIssuer.sendRevokeClaim(deployer.getSender(), { value: toNano('0.2'), claimId: 2n });
+
+            blockchain.now = start + 100 * DAY;
+            expect(await newScheduler().scan()).toEqual([]);
+        });
+    });
+
+    describe('Renewal', () => {
+        it('should only report tasks when auto renewal is not configured', async () => {
+            blockchain.now = start + 80 * DAY;
+            const outcomes = await newScheduler().run(deployer.getSender());
+
+            expect(outcomes).toHaveLength(1);
+            expect(outcomes[0].renewed).toBe(false);
+            expect(await claimIssuer.getGetIssuedClaim(4n)).toBeNull();
+        });
+
+        it('should re-issue claims that have a fresh KYC result', async () => {
+            blockchain.now = start + 80 * DAY;
+            const renewedUntil = blockchain.now + 90 * DAY;
+
+            const scheduler = newScheduler({
+                signer: issuerKey,
+                freshResults: async (task) => ({
+                    data: kycData(blockchain.now!, renewedUntil),
+                    expiresAt: BigInt(renewedUntil),
+                    uri: `https://kyc-provider.com/renewal/${task.claimId}`
+                })
+            });
+            const outcomes = await scheduler.run(deployer.getSender());
+
+            expect(outcomes).toHaveLength(1);
+            expect(outcomes[0].renewed).toBe(true);
+            expect(outcomes[0].newClaimId).toBe(4n);
+
+            const renewed = await claimIssuer.getGetIssuedClaim(4n);
+            expect(renewed!.topic).toBe(2n);
+            expect(renewed!.expiresAt).toBe(BigInt(renewedUntil));
+            expect(verifyClaimSignature(
+                { identity: renewed!.identity, topic: renewed!.topic, data: renewed!.data.asCell() },
+                outcomes[0].signed!.signature,
+                issuerKey.publicKey
+            )).toBe(true);
+
+            expect((await claimIssuer.getGetIssuedClaim(2n))!.revoked).toBe(true);
+            expect(await scheduler.scan()).toEqual([]);
+        });
+
+        it('should take the new claim id from the ClaimIssued event', async () => {
+            blockchain.now = start + 80 * DAY;
+            const renewedUntil = blockchain.now + 90 * DAY;
+
+            // Another claim lands between the scan and the re-issue
+            const scheduler = newScheduler({
+                signer: issuerKey,
+                freshResults: async () => {
+                    await issueClaim(3n, renewedUntil);
+                    return { data: kycData(blockchain.now!, renewedUntil), expiresAt: BigInt(renewedUntil) };
+                }
+            });
+            const outcomes = await scheduler.run(deployer.getSender());
+
+            expect(outcomes[0].newClaimId).toBe(5n);
+            expect(scheduler.replacementOf(2n)).toBe(5n);
+            expect((await claimIssuer.getGetIssuedClaim(4n))!.topic).toBe(3n);
+            expect((await claimIssuer.getGetIssuedClaim(5n))!.topic).toBe(2n);
+        });
+
+        it('should leave claims without a fresh result for manual follow-up', async () => {
+            blockchain.now = start + 80 * DAY;
+
+            const scheduler = newScheduler({
+                signer: issuerKey,
+                freshResults: async () => null
+            });
+            const outcomes = await scheduler.run(deployer.getSender());
+
+            expect(outcomes[0].renewed).toBe(false);
+            expect(outcomes[0].reason).toBe('No fresh KYC result');
+            expect((await claimIssuer.getGetIssuedClaim(2n))!.revoked).toBe(false);
+        });
+
+        it('should refuse fresh results that are already expired', async () => {
+            blockchain.now = start + 80 * DAY;
+
+            const scheduler = newScheduler({
+                signer: issuerKey,
+                freshResults: async () => ({ data: kycData(start, start), expiresAt: BigInt(start) })
+            });
+            const outcomes = await scheduler.run(deployer.getSender());
+
+            expect(outcomes[0].renewed).toBe(false);
+            expect(await claimIssuer.getGetIssuedClaim(4n)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,206 @@
+import { Address, beginCell, Cell, Sender, toNano, Transaction } from '@ton/core';
+import { KeyPair } from '@ton/crypto';
+import { ClaimIssued, findClaimIssued, IssuedClaim, storeIssueClaim, TonClaimIssuerClient } from './TonClaimIssuer';
+import { SignedClaim, signClaim, verifySignedClaim } from './TonClaimSigning';
+
+export type RenewalTaskStatus = 'expiring' | 'expired';
+
+export type ClaimRenewalTask = {
+    claimId: bigint;
+    identity: Address;
+    topic: bigint;
+    scheme: bigint;
+    expiresAt: bigint;
+    secondsLeft: bigint;       // negative once expired
+    status: RenewalTaskStatus;
+}
+
+// Fresh verification result from the KYC provider, used to re-issue a claim
+export type FreshClaimResult = {
+    data: Cell;
+    expiresAt: bigint;
+    uri?: string;
+}
+
+export type FreshClaimSource = (task: ClaimRenewalTask) => Promise<FreshClaimResult | null>;
+
+// The issuer's latest transactions, newest first, e.g. TonClient.getTransactions
+export type IssuerTransactionSource = (limit: number) => Promise<Transaction[]>;
+
+export type RenewalOutcome = {
+    task: ClaimRenewalTask;
+    renewed: boolean;
+    newClaimId?: bigint;
+    signed?: SignedClaim;      // deliver to the identity via AddClaim
+    reason?: string;
+}
+
+export type ClaimRenewalOptions = {
+    windowSeconds: bigint;                 // flag claims expiring within this window
+    now?: () => bigint;                    // unix time source, defaults to the wall clock
+    freshResults?: FreshClaimSource;       // enables auto re-issue when set with signer
+    signer?: KeyPair;                      // issuer key for the signing flow
+    issuerTransactions?: IssuerTransactionSource; // where re-issued claim ids are read from
+    revokeReplaced?: boolean;              // revoke the old claim after re-issue (default true)
+    messageValue?: bigint;
+    pollIntervalMs?: number;
+    timeoutMs?: number;
+    onTask?: (task: ClaimRenewalTask) => void;
+}
+
+// Issuer transactions searched for the IssueClaim after each re-issue
+const RECENT_TRANSACTIONS = 20;
+
+/**
+ * Watches the claims a TonClaimIssuer has issued and turns those close to
+ * `expiresAt` into renewal tasks.
+ *
+ * Claim ids are sequential, so a scan walks 1..totalClaims from
+ * `getIssuerInfo`. Revoked claims and claims with `expiresAt == 0` (no
+ * expiry) are never flagged. When a fresh KYC result is available the claim
+ * is re-signed and re-issued with the new expiry, and the old claim is
+ * revoked; claims already renewed by this scheduler are not flagged again.
+ * The re-issued claim's id comes from the ClaimIssued event of the
+ * transaction that processed the IssueClaim, so claims issued by others in
+ * the meantime cannot be mistaken for it.
+ */
+export class ClaimRenewalScheduler {
+    private readonly now: () => bigint;
+    private readonly messageValue: bigint;
+    private readonly pollIntervalMs: number;
+    private readonly timeoutMs: number;
+
+    private readonly renewed = new Map<bigint, bigint>(); // old claim id -> new claim id
+
+    constructor(readonly issuer: TonClaimIssuerClient, readonly opts: ClaimRenewalOptions) {
+        this.now = opts.now ?? (() => BigInt(Math.floor(Date.now() / 1000)));
+        this.messageValue = opts.messageValue ?? toNano('0.2');
+        this.pollIntervalMs = opts.pollIntervalMs ?? 3000;
+        this.timeoutMs = opts.timeoutMs ?? 60000;
+    }
+
+    /**
+     * Lists every live claim expiring within the window, soonest first, and
+     * reports each one to `onTask`.
+     */
+    async scan(): Promise<ClaimRenewalTask[]> {
+        const now = this.now();
+        const { totalClaims } = await this.issuer.getGetIssuerInfo();
+        const tasks: ClaimRenewalTask[] = [];
+
+        for (let claimId = 1n; claimId <= totalClaims; claimId++) {
+            if (this.renewed.has(claimId)) {
+                continue;
+            }
+            const claim = await this.issuer.getGetIssuedClaim(claimId);
+            if (!claim || claim.revoked || claim.expiresAt === 0n) {
+                continue;
+            }
+            const secondsLeft = claim.expiresAt - now;
+            if (secondsLeft > this.opts.windowSeconds) {
+                continue;
+            }
+            tasks.push(this.toTask(claimId, claim, secondsLeft));
+        }
+
+        tasks.sort((a, b) => (a.expiresAt < b.expiresAt ? -1 : a.expiresAt > b.expiresAt ? 1 : 0));
+        for (const task of tasks) {
+            this.opts.onTask?.(task);
+        }
+        return tasks;
+    }
+
+    /**
+     * Re-issues one claim from a fresh KYC result. Resolves with
+     * `renewed: false` and a reason when no result is available or the
+     * result would not extend the claim.
+     */
+    async renew(via: Sender, task: ClaimRenewalTask): Promise<RenewalOutcome> {
+        if (!this.opts.freshResults || !this.opts.signer || !this.opts.issuerTransactions) {
+            return { task, renewed: false, reason: 'Auto renewal is not configured' };
+        }
+
+        const fresh = await this.opts.freshResults(task);
+        if (!fresh) {
+            return { task, renewed: false, reason: 'No fresh KYC result' };
+        }
+        if (fresh.expiresAt <= this.now()) {
+            return { task, renewed: false, reason: 'Fresh KYC result is already expired' };
+        }
+
+        const signed = signClaim({ identity: task.identity, topic: task.topic, data: fresh.data }, this.opts.signer);
+        if (!verifySignedClaim(signed)) {
+            throw new Error(`Signature check failed for renewed claim ${task.claimId}`);
+        }
+
+        const issue = {
+            identity: task.identity,
+            topic: task.topic,
+            scheme: signed.scheme,
+            data: signed.data,
+            uri: fresh.uri ?? '',
+            expiresAt: fresh.expiresAt
+        };
+        const request = beginCell().store(storeIssueClaim({ $$type: 'IssueClaim', ...issue })).endCell();
+        const issuerTransactions = this.opts.issuerTransactions;
+        const [previous] = await issuerTransactions(1);
+
+        await this.issuer.sendIssueClaim(via, { value: this.messageValue, ...issue });
+
+        // Only transactions after `previous` can hold this request; an
+        // identical earlier renewal would otherwise match by body
+        let issued: ClaimIssued | null | undefined;
+        await this.waitUntil(async () => {
+            const recent = await issuerTransactions(RECENT_TRANSACTIONS);
+            issued = findClaimIssued(previous ? recent.filter((tx) => tx.lt > previous.lt) : recent, request);
+            return issued !== null;
+        });
+        const newClaimId = issued!.claimId;
+        this.renewed.set(task.claimId, newClaimId);
+
+        if (this.opts.revokeReplaced ?? true) {
+            await this.issuer.sendRevokeClaim(via, { value: this.messageValue, claimId: task.claimId });
+        }
+
+        return { task, renewed: true, newClaimId, signed };
+    }
+
+    /**
+     * One scheduler tick: scans, then re-issues every flagged claim when
+     * auto renewal is configured and `via` (the issuer owner) is given.
+     */
+    async run(via?: Sender): Promise<RenewalOutcome[]> {
+        const tasks = await this.scan();
+        const outcomes: RenewalOutcome[] = [];
+        for (const task of tasks) {
+            outcomes.push(via ? await this.renew(via, task) : { task, renewed: false, reason: 'No sender given' });
+        }
+        return outcomes;
+    }
+
+    replacementOf(claimId: bigint): bigint | undefined {
+        return this.renewed.get(claimId);
+    }
+
+    private toTask(claimId: bigint, claim: IssuedClaim, secondsLeft: bigint): ClaimRenewalTask {
+        return {
+            claimId,
+            identity: claim.identity,
+            topic: claim.topic,
+            scheme: claim.scheme,
+            expiresAt: claim.expiresAt,
+            secondsLeft,
+            status: secondsLeft <= 0n ? 'expired' : 'expiring'
+        };
+    }
+
+    private async waitUntil(check: () => Promise<boolean>): Promise<void> {
+        const deadline = Date.now() + this.timeoutMs;
+        while (!(await check())) {
+            if (Date.now() >= deadline) {
+                throw new Error('Timed out waiting for claim issuer state');
+            }
+            await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+        }
+    }
+}
@@ -0,0 +1,166 @@
+import { beginCell, Cell } from '@ton/core';
+import {
+    AccreditationType,
+    AccreditedInvestorClaimCodec,
+    AmlClaimCodec,
+    AmlRiskLevel,
+    ClaimCodec,
+    ClaimTopic,
+    ClaimTopicRegistry,
+    commitSubject,
+    JurisdictionClaimCodec,
+    KycClaimCodec,
+    KycLevel,
+    SanctionsClaimCodec,
+    SanctionsStatus
+} from '../wrappers/TonClaimSchemas';
+
+describe('TonClaimSchemas', () => {
+    const salt = Buffer.alloc(16, 7);
+    const subjectCommitment = commitSubject({ name: 'John Doe', dateOfBirth: '1980-01-01' }, salt);
+
+    describe('Commitments', () => {
+        it('should not depend on field order', () => {
+            expect(commitSubject({ dateOfBirth: '1980-01-01', name: 'John Doe' }, salt)).toBe(subjectCommitment);
+        });
+
+        it('should change with the salt', () => {
+            expect(commitSubject({ name: 'John Doe', dateOfBirth: '1980-01-01' }, Buffer.alloc(16, 8)))
+                .not.toBe(subjectCommitment);
+        });
+
+        it('should reject short salts', () => {
+            expect(() => commitSubject({ name: 'John Doe' }, Buffer.alloc(4))).toThrow('at least 16 bytes');
+        });
+    });
+
+    describe('Standard Topics', () => {
+        function roundTrip<T>(codec: ClaimCodec<T>, value: T): T {
+            const cell = beginCell().store(codec.store(value)).endCell();
+            expect(cell.beginParse().preloadUint(32)).toBe(Number(codec.topic));
+            return codec.load(cell.beginParse());
+        }
+
+        it('should round-trip KYC claims', () => {
+            const value = { subjectCommitment, level: KycLevel.ENHANCED, verifiedAt: 1700000000n, expiresAt: 1731536000n };
+            expect(roundTrip(KycClaimCodec, value)).toEqual(value);
+        });
+
+        it('should round-trip AML claims', () => {
+            const value = { subjectCommitment, riskLevel: AmlRiskLevel.LOW, screenedAt: 1700000000n, expiresAt: 0n };
+            expect(roundTrip(AmlClaimCodec, value)).toEqual(value);
+        });
+
+        it('should round-trip accredited investor claims', () => {
+            const value = {
+                subjectCommitment,
+                accreditationType: AccreditationType.NET_WORTH,
+                countryCode: 'US',
+                verifiedAt: 1700000000n,
+                expiresAt: 1731536000n
+            };
+            expect(roundTrip(AccreditedInvestorClaimCodec, value)).toEqual(value);
+        });
+
+        it('should round-trip jurisdiction claims', () => {
+            const value = { subjectCommitment, countryCode: 'DE', verifiedAt: 1700000000n, expiresAt: 0n };
+            expect(roundTrip(JurisdictionClaimCodec, value)).toEqual(value);
+        });
+
+        it('should round-trip sanctions claims', () => {
+            const value = {
+                subjectCommitment,
+                status: SanctionsStatus.CLEAR,
+                listsVersion: 42n,
+                screenedAt: 1700000000n,
+                expiresAt: 1700086400n
+            };
+            expect(roundTrip(SanctionsClaimCodec, value)).toEqual(value);
+        });
+
+        it('should reject malformed country codes', () => {
+            expect(() => beginCell().store(JurisdictionClaimCodec.store({
+                subjectCommitment,
+                countryCode: 'usa',
+                verifiedAt: 0n,
+                expiresAt: 0n
+            }))).toThrow('ISO 3166-1');
+        });
+
+        it('should reject data for another topic', () => {
+            const aml = beginCell().store(AmlClaimCodec.store({
+                subjectCommitment,
+                riskLevel: AmlRiskLevel.HIGH,
+                screenedAt: 0n,
+                expiresAt: 0n
+            })).endCell();
+
+            expect(() => KycClaimCodec.load(aml.beginParse())).toThrow('Invalid prefix');
+        });
+    });
+
+    describe('Registry', () => {
+        it('should decode standard topics by prefix', () => {
+            const registry = new ClaimTopicRegistry();
+            const value = { subjectCommitment, level: KycLevel.BASIC, verifiedAt: 1n, expiresAt: 2n };
+
+            const decoded = registry.decode(registry.encode(BigInt(ClaimTopic.KYC), value));
+            expect(decoded.topic).toBe(1n);
+            expect(decoded.value).toEqual(value);
+        });
+
+        it('should type values decoded with a registered codec', () => {
+            const registry = new ClaimTopicRegistry();
+            const cell = registry.encode(BigInt(ClaimTopic.KYC), { subjectCommitment, level: KycLevel.ENHANCED, verifiedAt: 1n, expiresAt: 2n });
+
+            const { value } = registry.decode(cell, KycClaimCodec);
+            expect(value.level).toBe(KycLevel.ENHANCED);
+            expect(() => registry.decode(cell, AmlClaimCodec)).toThrow('expected 2');
+            expect(() => registry.decode(cell, { ...KycClaimCodec, name: 'COPY' })).toThrow('registered as KYC');
+        });
+
+        it('should check the expected topic', () => {
+            const registry = new ClaimTopicRegistry();
+            const cell = registry.encode(BigInt(ClaimTopic.JURISDICTION), {
+                subjectCommitment,
+                countryCode: 'GB',
+                verifiedAt: 0n,
+                expiresAt: 0n
+            });
+
+            expect(() => registry.decode(cell, BigInt(ClaimTopic.KYC))).toThrow('expected 1');
+        });
+
+        it('should accept custom topics', () => {
+            type ProofOfAddress = { subjectCommitment: bigint; postcodeHash: bigint };
+            const ProofOfAddressCodec: ClaimCodec<ProofOfAddress> = {
+                topic: 1001n,
+                name: 'PROOF_OF_ADDRESS',
+                store: (src) => (builder) => {
+                    builder.storeUint(1001, 32);
+                    builder.storeUint(src.subjectCommitment, 256);
+                    builder.storeUint(src.postcodeHash, 256);
+                },
+                load: (slice) => {
+                    slice.loadUint(32);
+                    return { subjectCommitment: slice.loadUintBig(256), postcodeHash: slice.loadUintBig(256) };
+                }
+            };
+
+            const registry = new ClaimTopicRegistry();
+            registry.register(ProofOfAddressCodec);
+
+            const value = { subjectCommitment, postcodeHash: 123n };
+            expect(registry.decode(registry.encode(1001n, value)).value).toEqual(value);
+            expect(registry.topics()).toContain(1001n);
+        });
+
+        it('should refuse duplicate and unknown topics', () => {
+            const registry = new ClaimTopicRegistry();
+
+            expect(() => registry.register(KycClaimCodec)).toThrow('already registered');
+            expect(() => registry.decode(beginCell().storeUint(77, 32).endCell())).toThrow('No codec');
+            expect(() => registry.decode(Cell.EMPTY)).toThrow();
+        });
+    });
+});
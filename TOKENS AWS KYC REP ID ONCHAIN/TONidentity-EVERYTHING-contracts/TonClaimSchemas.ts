@@ -0,0 +1,307 @@
+import { beginCell, Builder, Cell, Slice } from '@ton/core';
+import { sha256_sync } from '@ton/crypto';
+
+// Standard claim topics, as declared in TonClaimIssuer.tact
+export enum ClaimTopic {
+    KYC = 1,
+    AML = 2,
+    ACCREDITED_INVESTOR = 3,
+    JURISDICTION = 4,
+    SANCTIONS = 5,
+}
+
+export enum KycLevel {
+    BASIC = 1,
+    STANDARD = 2,
+    ENHANCED = 3,
+}
+
+export enum AmlRiskLevel {
+    LOW = 1,
+    MEDIUM = 2,
+    HIGH = 3,
+}
+
+export enum AccreditationType {
+    INCOME = 1,
+    NET_WORTH = 2,
+    PROFESSIONAL = 3,
+    ENTITY = 4,
+}
+
+export enum SanctionsStatus {
+    CLEAR = 0,
+    POTENTIAL_MATCH = 1,
+    MATCH = 2,
+}
+
+// Every schema carries a commitment to the subject's PII instead of the PII
+// itself; the KYC provider keeps the preimage (see `commitSubject`).
+
+export type KycClaimData = {
+    subjectCommitment: bigint;
+    level: KycLevel;
+    verifiedAt: bigint;
+    expiresAt: bigint;
+}
+
+export type AmlClaimData = {
+    subjectCommitment: bigint;
+    riskLevel: AmlRiskLevel;
+    screenedAt: bigint;
+    expiresAt: bigint;
+}
+
+export type AccreditedInvestorClaimData = {
+    subjectCommitment: bigint;
+    accreditationType: AccreditationType;
+    countryCode: string;
+    verifiedAt: bigint;
+    expiresAt: bigint;
+}
+
+export type JurisdictionClaimData = {
+    subjectCommitment: bigint;
+    countryCode: string;
+    verifiedAt: bigint;
+    expiresAt: bigint;
+}
+
+export type SanctionsClaimData = {
+    subjectCommitment: bigint;
+    status: SanctionsStatus;
+    listsVersion: bigint;       // version of the screening list set used
+    screenedAt: bigint;
+    expiresAt: bigint;
+}
+
+/**
+ * Encoder/decoder pair for one claim topic. Encoded cells start with the
+ * topic as uint32 so a decoder can tell which schema it is looking at.
+ *
+ * `store` and `load` are declared as methods so that any codec is also a
+ * `ClaimCodec<unknown>`, which is how the registry holds them.
+ */
+export type ClaimCodec<T> = {
+    topic: bigint;
+    name: string;
+    store(src: T): (builder: Builder) => void;
+    load(slice: Slice): T;
+}
+
+/**
+ * Hash commitment to a subject's personal data: sha256 over the fields as
+ * sorted `key=value` lines followed by the salt. The same fields and salt
+ * always give the same commitment; without the salt it cannot be brute-forced
+ * from guessed names or dates of birth.
+ */
+export function commitSubject(fields: Record<string, string>, salt: Buffer): bigint {
+    if (salt.length < 16) {
+        throw new Error(`Commitment salt must be at least 16 bytes, got ${salt.length}`);
+    }
+    const canonical = Object.keys(fields)
+        .sort()
+        .map((key) => `${key}=${fields[key]}`)
+        .join('\n');
+    const hash = sha256_sync(Buffer.concat([Buffer.from(canonical, 'utf-8'), salt]));
+    return BigInt('0x' + hash.toString('hex'));
+}
+
+function storeCountryCode(builder: Builder, code: string) {
+    if (!/^[A-Z]{2}$/.test(code)) {
+        throw new Error(`Expected an ISO 3166-1 alpha-2 country code, got '${code}'`);
+    }
+    builder.storeBuffer(Buffer.from(code, 'ascii'), 2);
+}
+
+function loadCountryCode(slice: Slice): string {
+    return slice.loadBuffer(2).toString('ascii');
+}
+
+function loadTopicPrefix(slice: Slice, topic: bigint) {
+    const prefix = slice.loadUintBig(32);
+    if (prefix !== topic) {
+        throw Error('Invalid prefix');
+    }
+}
+
+export const KycClaimCodec: ClaimCodec<KycClaimData> = {
+    topic: BigInt(ClaimTopic.KYC),
+    name: 'KYC',
+    store: (src) => (builder) => {
+        builder.storeUint(ClaimTopic.KYC, 32);
+        builder.storeUint(src.subjectCommitment, 256);
+        builder.storeUint(src.level, 8);
+        builder.storeUint(src.verifiedAt, 64);
+        builder.storeUint(src.expiresAt, 64);
+    },
+    load: (slice) => {
+        loadTopicPrefix(slice, BigInt(ClaimTopic.KYC));
+        return {
+            subjectCommitment: slice.loadUintBig(256),
+            level: slice.loadUint(8) as KycLevel,
+            verifiedAt: slice.loadUintBig(64),
+            expiresAt: slice.loadUintBig(64)
+        };
+    }
+};
+
+export const AmlClaimCodec: ClaimCodec<AmlClaimData> = {
+    topic: BigInt(ClaimTopic.AML),
+    name: 'AML',
+    store: (src) => (builder) => {
+        builder.storeUint(ClaimTopic.AML, 32);
+        builder.storeUint(src.subjectCommitment, 256);
+        builder.storeUint(src.riskLevel, 8);
+        builder.storeUint(src.screenedAt, 64);
+        builder.storeUint(src.expiresAt, 64);
+    },
+    load: (slice) => {
+        loadTopicPrefix(slice, BigInt(ClaimTopic.AML));
+        return {
+            subjectCommitment: slice.loadUintBig(256),
+            riskLevel: slice.loadUint(8) as AmlRiskLevel,
+            screenedAt: slice.loadUintBig(64),
+            expiresAt: slice.loadUintBig(64)
+        };
+    }
+};
+
+export const AccreditedInvestorClaimCodec: ClaimCodec<AccreditedInvestorClaimData> = {
+    topic: BigInt(ClaimTopic.ACCREDITED_INVESTOR),
+    name: 'ACCREDITED_INVESTOR',
+    store: (src) => (builder) => {
+        builder.storeUint(ClaimTopic.ACCREDITED_INVESTOR, 32);
+        builder.storeUint(src.subjectCommitment, 256);
+        builder.storeUint(src.accreditationType, 8);
+        storeCountryCode(builder, src.countryCode);
+        builder.storeUint(src.verifiedAt, 64);
+        builder.storeUint(src.expiresAt, 64);
+    },
+    load: (slice) => {
+        loadTopicPrefix(slice, BigInt(ClaimTopic.ACCREDITED_INVESTOR));
+        return {
+            subjectCommitment: slice.loadUintBig(256),
+            accreditationType: slice.loadUint(8) as AccreditationType,
+            countryCode: loadCountryCode(slice),
+            verifiedAt: slice.loadUintBig(64),
+            expiresAt: slice.loadUintBig(64)
+        };
+    }
+};
+
+export const JurisdictionClaimCodec: ClaimCodec<JurisdictionClaimData> = {
+    topic: BigInt(ClaimTopic.JURISDICTION),
+    name: 'JURISDICTION',
+    store: (src) => (builder) => {
+        builder.storeUint(ClaimTopic.JURISDICTION, 32);
+        builder.storeUint(src.subjectCommitment, 256);
+        storeCountryCode(builder, src.countryCode);
+        builder.storeUint(src.verifiedAt, 64);
+        builder.storeUint(src.expiresAt, 64);
+    },
+    load: (slice) => {
+        loadTopicPrefix(slice, BigInt(ClaimTopic.JURISDICTION));
+        return {
+            subjectCommitment: slice.loadUintBig(256),
+            countryCode: loadCountryCode(slice),
+            verifiedAt: slice.loadUintBig(64),
+            expiresAt: slice.loadUintBig(64)
+        };
+    }
+};
+
+export const SanctionsClaimCodec: ClaimCodec<SanctionsClaimData> = {
+    topic: BigInt(ClaimTopic.SANCTIONS),
+    name: 'SANCTIONS',
+    store: (src) => (builder) => {
+        builder.storeUint(ClaimTopic.SANCTIONS, 32);
+        builder.storeUint(src.subjectCommitment, 256);
+        builder.storeUint(src.status, 8);
+        builder.storeUint(src.listsVersion, 32);
+        builder.storeUint(src.screenedAt, 64);
+        builder.storeUint(src.expiresAt, 64);
+    },
+    load: (slice) => {
+        loadTopicPrefix(slice, BigInt(ClaimTopic.SANCTIONS));
+        return {
+            subjectCommitment: slice.loadUintBig(256),
+            status: slice.loadUint(8) as SanctionsStatus,
+            listsVersion: slice.loadUintBig(32),
+            screenedAt: slice.loadUintBig(64),
+            expiresAt: slice.loadUintBig(64)
+        };
+    }
+};
+
+/**
+ * Topic number → codec lookup. Starts out with the five standard topics;
+ * deployments that issue custom topics register their own codecs.
+ */
+export class ClaimTopicRegistry {
+    private readonly codecs = new Map<bigint, ClaimCodec<unknown>>();
+
+    constructor(codecs: ClaimCodec<unknown>[] = standardClaimCodecs) {
+        for (const codec of codecs) {
+            this.register(codec);
+        }
+    }
+
+    register<T>(codec: ClaimCodec<T>) {
+        if (codec.topic < 0n || codec.topic >= 1n << 32n) {
+            throw new Error(`Claim topic ${codec.topic} does not fit in uint32`);
+        }
+        if (this.codecs.has(codec.topic)) {
+            throw new Error(`Claim topic ${codec.topic} is already registered as ${this.codecs.get(codec.topic)!.name}`);
+        }
+        this.codecs.set(codec.topic, codec);
+    }
+
+    has(topic: bigint): boolean {
+        return this.codecs.has(topic);
+    }
+
+    get(topic: bigint): ClaimCodec<unknown> {
+        const codec = this.codecs.get(topic);
+        if (!codec) {
+            throw new Error(`No codec registered for claim topic ${topic}`);
+        }
+        return codec;
+    }
+
+    topics(): bigint[] {
+        return [...this.codecs.keys()];
+    }
+
+    encode(topic: bigint, value: unknown): Cell {
+        return beginCell().store(this.get(topic).store(value)).endCell();
+    }
+
+    /**
+     * Decodes claim data by its uint32 topic prefix. Pass `expectedTopic` to
+     * reject data whose prefix disagrees with the claim's on-chain topic, or
+     * the registered codec itself to also get the value back typed.
+     */
+    decode<T>(data: Cell | Slice, expected: ClaimCodec<T>): { topic: bigint; value: T };
+    decode(data: Cell | Slice, expectedTopic?: bigint): { topic: bigint; value: unknown };
+    decode(data: Cell | Slice, expected?: bigint | ClaimCodec<unknown>): { topic: bigint; value: unknown } {
+        const expectedTopic = typeof expected === 'object' ? expected.topic : expected;
+        if (typeof expected === 'object' && this.get(expected.topic) !== expected) {
+            throw new Error(`Claim topic ${expected.topic} is registered as ${this.get(expected.topic).name}, not ${expected.name}`);
+        }
+        const slice = data instanceof Cell ? data.beginParse() : data.clone();
+        const topic = slice.preloadUintBig(32);
+        if (expectedTopic !== undefined && topic !== expectedTopic) {
+            throw new Error(`Claim data is for topic ${topic}, expected ${expectedTopic}`);
+        }
+        return { topic, value: this.get(topic).load(slice) };
+    }
+}
+
+export const standardClaimCodecs: ClaimCodec<unknown>[] = [
+    KycClaimCodec,
+    AmlClaimCodec,
+    AccreditedInvestorClaimCodec,
+    JurisdictionClaimCodec,
+    SanctionsClaimCodec,
+];
@@ -0,0 +1,129 @@
+import { Blockchain, SandboxContract, TreasuryContract } from '@ton/sandbox';
+import { Cell, toNano, beginCell } from '@ton/core';
+import { keyPairFromSeed } from '@ton/crypto';
+import { TonIdentity } from '../wrappers/TonIdentity';
+import {
+    buildClaimPayload,
+    ED25519_CLAIM_SCHEME,
+    signClaim,
+    verifyClaimSignature,
+    verifySignedClaim
+} from '../wrappers/TonClaimSigning';
+import { commitSubject, KycClaimCodec, KycLevel } from '../wrappers/TonClaimSchemas';
+import '@ton/test-utils';
+
+describe('TonClaimSigning', () => {
+    const issuerKey = keyPairFromSeed(Buffer.alloc(32, 1));
+    const otherKey = keyPairFromSeed(Buffer.alloc(32, 2));
+
+    let blockchain: Blockchain;
+    let identity: SandboxContract<TreasuryContract>;
+    let kycData: Cell;
+
+    beforeEach(async () => {
+        blockchain = await Blockchain.create();
+        identity = await blockchain.treasury('identity');
+
+        kycData = beginCell()
+            .store(KycClaimCodec.store({
+                subjectCommitment: commitSubject({ name: 'John Doe' }, Buffer.alloc(16, 1)),
+                level: KycLevel.STANDARD,
+                verifiedAt: 1700000000n,
+                expiresAt: 1893456000n
+            }))
+            .endCell();
+    });
+
+    describe('Payload', () => {
+        it('should build the same payload for the same claim', () => {
+            const a = buildClaimPayload({ identity: identity.address, topic: 1n, data: kycData });
+            const b = buildClaimPayload({ identity: identity.address, topic: 1n, data: kycData });
+
+            expect(a.hash().equals(b.hash())).toBe(true);
+        });
+
+        it('should bind the payload to identity, topic and data', () => {
+            const base = buildClaimPayload({ identity: identity.address, topic: 1n, data: kycData });
+
+            expect(buildClaimPayload({ identity: identity.address, topic: 2n, data: kycData }).hash())
+                .not.toEqual(base.hash());
+            expect(buildClaimPayload({ identity: identity.address, topic: 1n, data: Cell.EMPTY }).hash())
+                .not.toEqual(base.hash());
+        });
+
+        it('should reject negative topics', () => {
+            expect(() => buildClaimPayload({ identity: identity.address, topic: -1n, data: kycData }))
+                .toThrow('non-negative');
+        });
+    });
+
+    describe('Signing', () => {
+        it('should produce a verifiable 512-bit signature', () => {
+            const signed = signClaim({ identity: identity.address, topic: 1n, data: kycData }, issuerKey);
+
+            expect(signed.signature.remainingBits).toBe(512);
+            expect(verifySignedClaim(signed)).toBe(true);
+        });
+
+        it('should not verify against another key', () => {
+            const claim = { identity: identity.address, topic: 1n, data: kycData };
+            const signed = signClaim(claim, issuerKey);
+
+            expect(verifyClaimSignature(claim, signed.signature, otherKey.publicKey)).toBe(false);
+        });
+
+        it('should not verify tampered claims', () => {
+            const signed = signClaim({ identity: identity.address, topic: 1n, data: kycData }, issuerKey);
+
+            expect(verifyClaimSignature(
+                { identity: identity.address, topic: 3n, data: kycData },
+                signed.signature,
+                issuerKey.publicKey
+            )).toBe(false);
+        });
+
+        it('should treat malformed signatures as invalid', () => {
+            const claim = { identity: identity.address, topic: 1n, data: kycData };
+            const mock = beginCell().storeBuffer(Buffer.from('mock_signature_data')).endCell().asSlice();
+
+            expect(verifyClaimSignature(claim, mock, issuerKey.publicKey)).toBe(false);
+        });
+    });
+
+    describe('Delivery', () => {
+        it('should store the signature on the identity and verify it when read back', async () => {
+            const owner = await blockchain.treasury('owner');
+            const issuer = await blockchain.treasury('issuer');
+            const tonIdentity = blockchain.openContract(await TonIdentity.fromInit(owner.address));
+            await tonIdentity.sendDeploy(owner.getSender(), toNano('0.05'));
+
+            const signed = signClaim({ identity: tonIdentity.address, topic: 1n, data: kycData }, issuerKey);
+
+            const result = await tonIdentity.sendAddClaim(
+                owner.getSender(),
+                {
+                    value: toNano('0.05'),
+                    topic: signed.topic,
+                    scheme: signed.scheme,
+                    issuer: issuer.address,
+                    signature: signed.signature.asCell(),
+                    data: signed.data.asCell(),
+                    uri: ''
+                }
+            );
+
+            expect(result.transactions).toHaveTransaction({
+                from: owner.address,
+                to: tonIdentity.address,
+                success: true,
+            });
+
+            const [claimId] = await tonIdentity.getGetClaimIdsByTopic(1n);
+            const claim = await tonIdentity.getGetClaim(claimId);
+            const stored = { identity: tonIdentity.address, topic: claim!.topic, data: claim!.data.asCell() };
+            expect(claim!.scheme).toBe(ED25519_CLAIM_SCHEME);
+            expect(verifyClaimSignature(stored, claim!.signature, issuerKey.publicKey)).toBe(true);
+            expect(verifyClaimSignature(stored, claim!.signature, otherKey.publicKey)).toBe(false);
+        });
+    });
+});
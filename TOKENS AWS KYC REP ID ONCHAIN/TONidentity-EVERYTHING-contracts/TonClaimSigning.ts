@@ -0,0 +1,80 @@
+import { Address, beginCell, Cell, Slice } from '@ton/core';
+import { KeyPair, sign, signVerify } from '@ton/crypto';
+
+// Scheme recorded with Ed25519-signed claims (ERC735 scheme 1)
+export const ED25519_CLAIM_SCHEME = 1n;
+
+export type ClaimPayload = {
+    identity: Address;
+    topic: bigint;
+    data: Cell;
+}
+
+export type SignedClaim = {
+    identity: Address;
+    topic: bigint;
+    scheme: bigint;
+    data: Slice;               // claim data, as passed to AddClaim
+    signature: Slice;          // 512-bit Ed25519 signature over the payload hash
+    publicKey: Buffer;         // signer's public key, for off-chain verification
+}
+
+/**
+ * Canonical cell a claim signature covers:
+ *
+ *     identity:address topic:uint256 ^data
+ *
+ * Data is always stored as a ref so the payload never depends on how many
+ * bits the caller's data cell happens to hold, and the signature is taken
+ * over the representation hash of this cell.
+ */
+export function buildClaimPayload(claim: ClaimPayload): Cell {
+    if (claim.topic < 0n) {
+        throw new Error(`Claim topic must be non-negative, got ${claim.topic}`);
+    }
+    return beginCell()
+        .storeAddress(claim.identity)
+        .storeUint(claim.topic, 256)
+        .storeRef(claim.data)
+        .endCell();
+}
+
+/**
+ * Signs a claim with the issuer's Ed25519 key. The returned `data` and
+ * `signature` go straight into TonIdentity's `sendAddClaim`, which stores the
+ * signature with the claim. TonClaimIssuer's IssueClaim takes no signature:
+ * the issuer contract records its own, so claims issued that way cannot be
+ * checked with `verifyClaimSignature`.
+ */
+export function signClaim(claim: ClaimPayload, keyPair: KeyPair): SignedClaim {
+    const signature = sign(buildClaimPayload(claim).hash(), keyPair.secretKey);
+    return {
+        identity: claim.identity,
+        topic: claim.topic,
+        scheme: ED25519_CLAIM_SCHEME,
+        data: claim.data.asSlice(),
+        signature: beginCell().storeBuffer(signature).endCell().asSlice(),
+        publicKey: keyPair.publicKey
+    };
+}
+
+/**
+ * Checks a claim signature off-chain. Returns false for a malformed
+ * signature slice rather than throwing, so callers can treat any claim
+ * read back from chain the same way.
+ */
+export function verifyClaimSignature(claim: ClaimPayload, signature: Slice, publicKey: Buffer): boolean {
+    const sig = signature.clone();
+    if (sig.remainingBits !== 512 || sig.remainingRefs !== 0) {
+        return false;
+    }
+    return signVerify(buildClaimPayload(claim).hash(), sig.loadBuffer(64), publicKey);
+}
+
+export function verifySignedClaim(signed: SignedClaim): boolean {
+    return verifyClaimSignature(
+        { identity: signed.identity, topic: signed.topic, data: signed.data.asCell() },
+        signed.signature,
+        signed.publicKey
+    );
+}
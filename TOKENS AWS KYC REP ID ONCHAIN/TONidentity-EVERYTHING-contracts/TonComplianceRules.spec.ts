@@ -0,0 +1,185 @@
+import { Blockchain, SandboxContract, TreasuryContract } from '@ton/sandbox';
+import { toNano } from '@ton/core';
+import { TonIdentityGateway } from '../wrappers/TonIdentityGateway';
+import {
+    compileComplianceRuleSet,
+    ComplianceRuleSetSpec,
+    fetchComplianceRules,
+    parseComplianceRuleSet,
+    planComplianceRuleSync,
+    RuleValidationError,
+    syncComplianceRules
+} from '../wrappers/TonComplianceRules';
+import '@ton/test-utils';
+
+const REG_D_JSON = `{
+    "decimals": 9,
+    "rules": [{
+        "name": "Reg D",
+        "description": "Accredited US investors",
+        "topics": ["KYC", "ACCREDITED"],
+        "jurisdictions": ["US"],
+        "minAmount": "25k"
+    }]
+}`;
+
+describe('TonComplianceRules', () => {
+    describe('Authoring', () => {
+        it('should compile the JSON example', () => {
+            const [rule] = compileComplianceRuleSet(parseComplianceRuleSet(REG_D_JSON));
+
+            expect(rule).toEqual({
+                name: 'Reg D',
+                description: 'Accredited US investors',
+                requiredClaims: [1n, 3n],
+                jurisdictions: ['US'],
+                minAmount: toNano('25000'),
+                maxAmount: 0n,
+                active: true
+            });
+        });
+
+        it('should accept JSON with numeric topics and decimal amounts', () => {
+            const [rule] = compileComplianceRuleSet(parseComplianceRuleSet(JSON.stringify({
+                decimals: 6,
+                rules: [{ name: 'Retail', topics: [2, 'kyc', 2], maxAmount: '1.5m' }]
+            })));
+
+            expect(rule.requiredClaims).toEqual([1n, 2n]);
+            expect(rule.maxAmount).toBe(1500000n * 10n ** 6n);
+        });
+
+        it('should report every problem at once', () => {
+            const invalid: ComplianceRuleSetSpec = {
+                rules: [
+                    { name: 'A', topics: ['FOO'], jurisdictions: ['usa'], minAmount: '5k', maxAmount: '1k' },
+                    { name: 'A', topics: [] },
+                ]
+            };
+
+            let error: unknown;
+            try {
+                compileComplianceRuleSet(invalid);
+            } catch (e) {
+                error = e;
+            }
+
+            expect(error).toBeInstanceOf(RuleValidationError);
+            expect((error as RuleValidationError).issues).toEqual([
+                "rules[0] (A): unknown topic 'FOO'",
+                "rules[0] (A): jurisdiction 'usa' is not a two-letter upper-case code",
+                'rules[0] (A): minAmount exceeds maxAmount',
+                'rules[1] (A): duplicate rule name',
+                'rules[1] (A): at least one topic is required',
+            ]);
+        });
+
+        it('should reject amounts finer than the token decimals', () => {
+            expect(() => compileComplianceRuleSet({ decimals: 0, rules: [{ name: 'A', topics: ['KYC'], minAmount: '0.5' }] }))
+                .toThrow('invalid minAmount');
+        });
+    });
+
+    describe('Planning', () => {
+        const onChain = (overrides: object = {}) => ({
+            ruleId: 1n,
+            name: 'Reg D',
+            description: 'Accredited US investors',
+            requiredClaims: [1n, 3n],
+            jurisdictions: ['US'],
+            minAmount: toNano('25000'),
+            maxAmount: 0n,
+            active: true,
+            ...overrides
+        });
+
+        it('should leave matching rules alone', () => {
+            const plan = planComplianceRuleSync(compileComplianceRuleSet(parseComplianceRuleSet(REG_D_JSON)), [onChain()]);
+
+            expect(plan.changes).toEqual([{ kind: 'unchanged', ruleId: 1n, name: 'Reg D' }]);
+            expect(plan.messages).toEqual([]);
+        });
+
+        it('should replace rules whose content changed', () => {
+            const rules = compileComplianceRuleSet(parseComplianceRuleSet(REG_D_JSON));
+            const plan = planComplianceRuleSync(rules, [onChain({ minAmount: toNano('10000') })]);
+
+            expect(plan.changes.map((c) => c.kind)).toEqual(['replace']);
+            expect(plan.messages.map((m) => m.$$type)).toEqual(['UpdateComplianceRule', 'AddComplianceRule']);
+            expect(plan.messages[0]).toEqual({ $$type: 'UpdateComplianceRule', ruleId: 1n, active: false });
+        });
+
+        it('should keep unlisted rules when asked to', () => {
+            const plan = planComplianceRuleSync([], [onChain()], { deactivateUnlisted: false });
+
+            expect(plan.messages).toEqual([]);
+        });
+    });
+
+    describe('Gateway Sync', () => {
+        let blockchain: Blockchain;
+        let deployer: SandboxContract<TreasuryContract>;
+        let gateway: SandboxContract<TonIdentityGateway>;
+
+        beforeEach(async () => {
+            blockchain = await Blockchain.create();
+
+            deployer = await blockchain.treasury('deployer');
+            const factory = await blockchain.treasury('factory');
+
+            gateway = blockchain.openContract(
+                await TonIdentityGateway.fromInit(factory.address)
+            );
+
+            await gateway.sendDeploy(deployer.getSender(), toNano('0.05'));
+        });
+
+        it('should add rules and then settle', async () => {
+            const ruleSet = parseComplianceRuleSet(REG_D_JSON);
+
+            const first = await syncComplianceRules(gateway, deployer.getSender(), ruleSet);
+            expect(first.changes).toEqual([expect.objectContaining({ kind: 'add', ruleId: 1n })]);
+
+            const stored = await fetchComplianceRules(gateway);
+            expect(stored).toEqual([{ ruleId: 1n, ...compileComplianceRuleSet(ruleSet)[0] }]);
+
+            const second = await syncComplianceRules(gateway, deployer.getSender(), ruleSet);
+            expect(second.messages).toEqual([]);
+        });
+
+        it('should replace changed rules and deactivate removed ones', async () => {
+            await syncComplianceRules(gateway, deployer.getSender(), {
+                rules: [
+                    { name: 'Reg D', topics: ['KYC', 'ACCREDITED'], jurisdictions: ['US'], minAmount: '25k' },
+                    { name: 'Retail', topics: ['KYC', 'AML'], maxAmount: '1k' },
+                ]
+            });
+
+            const plan = await syncComplianceRules(gateway, deployer.getSender(), {
+                rules: [{ name: 'Reg D', topics: ['KYC', 'ACCREDITED'], jurisdictions: ['US'], minAmount: '50k' }]
+            });
+            expect(plan.changes.map((c) => c.kind)).toEqual(['replace', 'deactivate']);
+
+            const stored = await fetchComplianceRules(gateway);
+            expect(stored.map((r) => [r.ruleId, r.name, r.active])).toEqual([
+                [1n, 'Reg D', false],
+                [2n, 'Retail', false],
+                [3n, 'Reg D', true],
+            ]);
+            expect(stored[2].minAmount).toBe(toNano('50000'));
+
+            const again = await syncComplianceRules(gateway, deployer.getSender(), {
+                rules: [{ name: 'Reg D', topics: ['KYC', 'ACCREDITED'], jurisdictions: ['US'], minAmount: '50k' }]
+            });
+            expect(again.messages).toEqual([]);
+        });
+
+        it('should add inactive rules as deactivated', async () => {
+            await syncComplianceRules(gateway, deployer.getSender(), {
+                rules: [{ name: 'Draft', topics: ['SANCTIONS'], active: false }]
+            });
+
+            expect((await gateway.getGetComplianceRule(1n))!.active).toBe(false);
+        });
+    });
+});
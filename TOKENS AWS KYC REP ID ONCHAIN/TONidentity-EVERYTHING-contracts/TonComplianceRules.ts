@@ -0,0 +1,345 @@
+import { Sender, toNano } from '@ton/core';
+import { ClaimTopic } from './TonClaimSchemas';
+import {
+    AddComplianceRule,
+    ComplianceRule,
+    sortTopics,
+    TonIdentityGatewayClient,
+    UpdateComplianceRule
+} from './TonIdentityGateway';
+
+// Authoring schema, as written in JSON:
+//
+//   {
+//     "decimals": 9,
+//     "rules": [
+//       { "name": "Reg D", "topics": ["KYC", "ACCREDITED"], "jurisdictions": ["US"], "minAmount": "25k" }
+//     ]
+//   }
+//
+// Amounts are whole token units, optionally suffixed k/m/b, scaled by
+// `decimals` (default 9). A `maxAmount` of 0 or none means no upper bound.
+
+export type ComplianceRuleSpec = {
+    name: string;
+    description?: string;
+    topics: (string | number)[];           // ClaimTopic names or numbers
+    jurisdictions?: string[];              // two-letter codes
+    minAmount?: string | number;
+    maxAmount?: string | number;
+    active?: boolean;                      // default true
+}
+
+export type ComplianceRuleSetSpec = {
+    decimals?: number;
+    rules: ComplianceRuleSpec[];
+}
+
+// A rule in the form the gateway stores it, minus the on-chain rule id
+export type CompiledComplianceRule = {
+    name: string;
+    description: string;
+    requiredClaims: bigint[];              // sorted topics
+    jurisdictions: string[];               // sorted codes
+    minAmount: bigint;
+    maxAmount: bigint;
+    active: boolean;
+}
+
+export class RuleValidationError extends Error {
+    constructor(readonly issues: string[]) {
+        super(`Invalid compliance rule set:\n  ${issues.join('\n  ')}`);
+        this.name = 'RuleValidationError';
+    }
+}
+
+const TOPIC_ALIASES: Record<string, ClaimTopic> = {
+    KYC: ClaimTopic.KYC,
+    AML: ClaimTopic.AML,
+    ACCREDITED: ClaimTopic.ACCREDITED_INVESTOR,
+    ACCREDITED_INVESTOR: ClaimTopic.ACCREDITED_INVESTOR,
+    JURISDICTION: ClaimTopic.JURISDICTION,
+    SANCTIONS: ClaimTopic.SANCTIONS,
+};
+
+const AMOUNT_SUFFIXES: Record<string, bigint> = { '': 1n, k: 1000n, m: 1000000n, b: 1000000000n };
+
+// ClaimTopic name (see TOPIC_ALIASES) or positive number; null when unknown
+export function parseTopic(topic: string | number): bigint | null {
+    if (typeof topic === 'number') {
+        return Number.isInteger(topic) && topic > 0 ? BigInt(topic) : null;
+    }
+    const alias = TOPIC_ALIASES[topic.trim().toUpperCase()];
+    return alias === undefined ? null : BigInt(alias);
+}
+
+function parseAmount(amount: string | number, decimals: number): bigint | null {
+    const match = /^(\d+)(?:\.(\d+))?\s*([kmb]?)$/i.exec(String(amount).trim().replace(/_/g, ''));
+    if (!match) {
+        return null;
+    }
+    const [, whole, fraction = '', suffix] = match;
+    const scale = AMOUNT_SUFFIXES[suffix.toLowerCase()] * 10n ** BigInt(decimals);
+    const fractionScale = 10n ** BigInt(fraction.length);
+    const value = BigInt(whole + fraction) * scale;
+    return value % fractionScale === 0n ? value / fractionScale : null;
+}
+
+/**
+ * Parses and validates a rule set from JSON text, e.g. a rules file.
+ */
+export function parseComplianceRuleSet(source: string): ComplianceRuleSetSpec {
+    return validateComplianceRuleSet(JSON.parse(source));
+}
+
+/**
+ * Checks the shape of a rule set and every rule in it, collecting all
+ * problems into a single RuleValidationError. Rule names must be unique:
+ * the gateway assigns rule ids itself, so names are what ties an authored
+ * rule to its on-chain counterpart.
+ */
+export function validateComplianceRuleSet(input: unknown): ComplianceRuleSetSpec {
+    const issues: string[] = [];
+    const set = input as ComplianceRuleSetSpec;
+
+    if (typeof input !== 'object' || input === null || !Array.isArray(set.rules)) {
+        throw new RuleValidationError(['Expected an object with a `rules` list']);
+    }
+    const decimals = set.decimals ?? 9;
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 18) {
+        issues.push(`decimals: expected an integer between 0 and 18, got ${set.decimals}`);
+    }
+
+    const names = new Set<string>();
+    set.rules.forEach((rule, i) => {
+        const at = `rules[${i}]${rule && typeof rule.name === 'string' ? ` (${rule.name})` : ''}`;
+        if (typeof rule !== 'object' || rule === null) {
+            issues.push(`${at}: expected an object`);
+            return;
+        }
+        if (typeof rule.name !== 'string' || rule.name.trim() === '') {
+            issues.push(`${at}: name is required`);
+        } else if (names.has(rule.name)) {
+            issues.push(`${at}: duplicate rule name`);
+        } else {
+            names.add(rule.name);
+        }
+        if (rule.description !== undefined && typeof rule.description !== 'string') {
+            issues.push(`${at}: description must be a string`);
+        }
+        if (!Array.isArray(rule.topics) || rule.topics.length === 0) {
+            issues.push(`${at}: at least one topic is required`);
+        } else {
+            for (const topic of rule.topics) {
+                if ((typeof topic !== 'string' && typeof topic !== 'number') || parseTopic(topic) === null) {
+                    issues.push(`${at}: unknown topic '${topic}'`);
+                }
+            }
+        }
+        if (rule.jurisdictions !== undefined && !Array.isArray(rule.jurisdictions)) {
+            issues.push(`${at}: jurisdictions must be a list`);
+        }
+        for (const code of rule.jurisdictions ?? []) {
+            if (typeof code !== 'string' || !/^[A-Z]{2}$/.test(code)) {
+                issues.push(`${at}: jurisdiction '${code}' is not a two-letter upper-case code`);
+            }
+        }
+        const min = rule.minAmount === undefined ? 0n : parseAmount(rule.minAmount, decimals);
+        const max = rule.maxAmount === undefined ? 0n : parseAmount(rule.maxAmount, decimals);
+        if (min === null) {
+            issues.push(`${at}: invalid minAmount '${rule.minAmount}'`);
+        }
+        if (max === null) {
+            issues.push(`${at}: invalid maxAmount '${rule.maxAmount}'`);
+        }
+        if (min !== null && max !== null && max !== 0n && min > max) {
+            issues.push(`${at}: minAmount exceeds maxAmount`);
+        }
+        if (rule.active !== undefined && typeof rule.active !== 'boolean') {
+            issues.push(`${at}: active must be true or false`);
+        }
+    });
+
+    if (issues.length > 0) {
+        throw new RuleValidationError(issues);
+    }
+    return set;
+}
+
+export function compileComplianceRuleSet(input: ComplianceRuleSetSpec): CompiledComplianceRule[] {
+    const set = validateComplianceRuleSet(input);
+    const decimals = set.decimals ?? 9;
+    return set.rules.map((rule) => ({
+        name: rule.name,
+        description: rule.description ?? '',
+        requiredClaims: sortTopics(rule.topics.map((t) => parseTopic(t)!)),
+        jurisdictions: [...new Set(rule.jurisdictions ?? [])].sort(),
+        minAmount: rule.minAmount === undefined ? 0n : parseAmount(rule.minAmount, decimals)!,
+        maxAmount: rule.maxAmount === undefined ? 0n : parseAmount(rule.maxAmount, decimals)!,
+        active: rule.active ?? true,
+    }));
+}
+
+/**
+ * Reads every rule stored on the gateway. Rule ids are assigned from a
+ * nonce starting at 1 and rules are never deleted, so the walk stops at
+ * the first missing id.
+ */
+export async function fetchComplianceRules(gateway: TonIdentityGatewayClient): Promise<ComplianceRule[]> {
+    const rules: ComplianceRule[] = [];
+    for (let ruleId = 1n; ; ruleId++) {
+        const rule = await gateway.getGetComplianceRule(ruleId);
+        if (!rule) {
+            return rules;
+        }
+        rules.push(rule);
+    }
+}
+
+export type RuleChange =
+    | { kind: 'add'; rule: CompiledComplianceRule; ruleId: bigint }
+    | { kind: 'replace'; rule: CompiledComplianceRule; ruleId: bigint; previous: ComplianceRule }
+    | { kind: 'activate' | 'deactivate'; ruleId: bigint; name: string }
+    | { kind: 'unchanged'; ruleId: bigint; name: string };
+
+export type RuleSyncPlan = {
+    changes: RuleChange[];
+    messages: (AddComplianceRule | UpdateComplianceRule)[];   // in send order
+}
+
+function sameContent(rule: CompiledComplianceRule, onChain: ComplianceRule): boolean {
+    const sameList = <T>(a: T[], b: T[]) => a.length === b.length && a.every((v, i) => v === b[i]);
+    return rule.description === onChain.description
+        && sameList(rule.requiredClaims, onChain.requiredClaims)
+        && sameList(rule.jurisdictions, onChain.jurisdictions)
+        && rule.minAmount === onChain.minAmount
+        && rule.maxAmount === onChain.maxAmount;
+}
+
+/**
+ * Works out the messages that bring the gateway in line with `rules`.
+ *
+ * The gateway can only add rules and toggle `active`, so a rule whose
+ * content changed is replaced: the old rule is deactivated and a new one
+ * added. Ids of added rules are predicted from the gateway's nonce, which
+ * holds as long as nothing else adds rules before the plan is sent. With
+ * `deactivateUnlisted` (the default) active on-chain rules missing from
+ * `rules` are deactivated.
+ */
+export function planComplianceRuleSync(
+    rules: CompiledComplianceRule[],
+    onChain: ComplianceRule[],
+    opts: { deactivateUnlisted?: boolean } = {}
+): RuleSyncPlan {
+    const changes: RuleChange[] = [];
+    const messages: (AddComplianceRule | UpdateComplianceRule)[] = [];
+    let nextRuleId = onChain.reduce((max, r) => (r.ruleId > max ? r.ruleId : max), 0n) + 1n;
+
+    const setActive = (ruleId: bigint, active: boolean) =>
+        messages.push({ $$type: 'UpdateComplianceRule', ruleId, active });
+
+    const add = (rule: CompiledComplianceRule) => {
+        const ruleId = nextRuleId++;
+        messages.push({
+            $$type: 'AddComplianceRule',
+            name: rule.name,
+            description: rule.description,
+            requiredClaims: rule.requiredClaims,
+            jurisdictions: rule.jurisdictions,
+            minAmount: rule.minAmount,
+            maxAmount: rule.maxAmount
+        });
+        // Rules are always added active
+        if (!rule.active) {
+            setActive(ruleId, false);
+        }
+        return ruleId;
+    };
+
+    // Latest rule per name wins; older ones are leftovers from replacements
+    const current = new Map<string, ComplianceRule>();
+    for (const rule of onChain) {
+        const seen = current.get(rule.name);
+        if (!seen || (rule.active && !seen.active) || (rule.active === seen.active && rule.ruleId > seen.ruleId)) {
+            current.set(rule.name, rule);
+        }
+    }
+
+    for (const rule of rules) {
+        const existing = current.get(rule.name);
+        if (!existing) {
+            changes.push({ kind: 'add', rule, ruleId: add(rule) });
+        } else if (!sameContent(rule, existing)) {
+            if (existing.active) {
+                setActive(existing.ruleId, false);
+            }
+            changes.push({ kind: 'replace', rule, ruleId: add(rule), previous: existing });
+        } else if (rule.active !== existing.active) {
+            setActive(existing.ruleId, rule.active);
+            changes.push({ kind: rule.active ? 'activate' : 'deactivate', ruleId: existing.ruleId, name: rule.name });
+        } else {
+            changes.push({ kind: 'unchanged', ruleId: existing.ruleId, name: rule.name });
+        }
+    }
+
+    if (opts.deactivateUnlisted ?? true) {
+        const listed = new Set(rules.map((r) => r.name));
+        for (const rule of onChain) {
+            if (rule.active && !listed.has(rule.name)) {
+                setActive(rule.ruleId, false);
+                changes.push({ kind: 'deactivate', ruleId: rule.ruleId, name: rule.name });
+            }
+        }
+    }
+
+    // Replaced rules can leave older active duplicates behind
+    for (const rule of onChain) {
+        const latest = current.get(rule.name);
+        if (rule.active && latest && latest !== rule && rules.some((r) => r.name === rule.name)) {
+            setActive(rule.ruleId, false);
+            changes.push({ kind: 'deactivate', ruleId: rule.ruleId, name: rule.name });
+        }
+    }
+
+    return { changes, messages };
+}
+
+/**
+ * Sends a plan's messages to the gateway in order. Only the gateway owner
+ * can add or update rules.
+ */
+export async function applyComplianceRuleSync(
+    gateway: TonIdentityGatewayClient,
+    via: Sender,
+    plan: RuleSyncPlan,
+    opts: { value?: bigint } = {}
+) {
+    const value = opts.value ?? toNano('0.05');
+    for (const message of plan.messages) {
+        if (message.$$type === 'AddComplianceRule') {
+            await gateway.sendAddComplianceRule(via, {
+                value,
+                name: message.name,
+                description: message.description,
+                requiredClaims: message.requiredClaims,
+                jurisdictions: message.jurisdictions,
+                minAmount: message.minAmount,
+                maxAmount: message.maxAmount
+            });
+        } else {
+            await gateway.sendUpdateComplianceRule(via, { value, ruleId: message.ruleId, active: message.active });
+        }
+    }
+}
+
+// Reads the gateway's rules, plans and sends the sync; returns the plan
+export async function syncComplianceRules(
+    gateway: TonIdentityGatewayClient,
+    via: Sender,
+    ruleSet: ComplianceRuleSetSpec,
+    opts: { value?: bigint; deactivateUnlisted?: boolean } = {}
+): Promise<RuleSyncPlan> {
+    const plan = planComplianceRuleSync(compileComplianceRuleSet(ruleSet), await fetchComplianceRules(gateway), opts);
+    await applyComplianceRuleSync(gateway, via, plan, opts);
+    return plan;
+}
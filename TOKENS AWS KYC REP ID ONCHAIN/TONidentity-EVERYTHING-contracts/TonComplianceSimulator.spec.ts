@@ -0,0 +1,298 @@
+import { Blockchain, SandboxContract, TreasuryContract } from '@ton/sandbox';
+import { Address, beginCell, Cell, toNano } from '@ton/core';
+import { AmlClaimCodec, AmlRiskLevel, ClaimTopic, KycClaimCodec, KycLevel } from '../wrappers/TonClaimSchemas';
+import { TonIdentity } from '../wrappers/TonIdentity';
+import { loadTransferValidationResponse, TonIdentityGateway } from '../wrappers/TonIdentityGateway';
+import {
+    ComplianceSimulator,
+    GatewaySnapshot,
+    simulateTransfer
+} from '../wrappers/TonComplianceSimulator';
+import '@ton/test-utils';
+
+describe('ComplianceSimulator', () => {
+    describe('Evaluation', () => {
+        const alice = new Address(0, Buffer.alloc(32, 1));
+        const bob = new Address(0, Buffer.alloc(32, 2));
+        const carol = new Address(0, Buffer.alloc(32, 3));
+        const token = new Address(0, Buffer.alloc(32, 9));
+
+        // alice holds KYC and AML, bob only KYC, carol has no identity
+        const snapshot: GatewaySnapshot = {
+            defaultRequiredClaims: [1n, 2n],
+            rules: [],
+            trustedIssuers: [],
+            identities: new Map([
+                [alice.toRawString(), alice],
+                [bob.toRawString(), bob],
+                [carol.toRawString(), null],
+            ]),
+            claims: new Map([
+                [alice.toRawString(), [1n, 2n]],
+                [bob.toRawString(), [1n]],
+            ])
+        };
+        const simulator = new ComplianceSimulator(snapshot);
+
+        it('should name the missing claims of a non-compliant receiver', () => {
+            expect(simulator.validateTransfer({ from: alice, to: bob, amount: 10n, token })).toEqual({
+                allowed: false,
+                reason: 'Receiver not compliant: Missing required claims',
+                requiredClaims: [1n, 2n],
+                missingClaims: [2n]
+            });
+        });
+
+        it('should check the sender first', () => {
+            const result = simulator.validateTransfer({ from: carol, to: bob, amount: 10n, token });
+
+            expect(result.reason).toBe('Sender not compliant: No identity contract found');
+            expect(result.missingClaims).toEqual([1n, 2n]);
+        });
+
+        it('should reject non-positive amounts only after both parties pass', () => {
+            expect(simulator.validateTransfer({ from: alice, to: alice, amount: 0n, token })).toEqual({
+                allowed: false,
+                reason: 'Invalid transfer amount',
+                requiredClaims: [],
+                missingClaims: []
+            });
+        });
+
+        it('should ignore topics the gateway does not check', () => {
+            expect(simulator.checkUserClaims(bob, [1n, 5n]).allowed).toBe(true);
+        });
+
+        it('should refuse users outside the snapshot', () => {
+            expect(() => simulator.checkUserClaims(token, [1n])).toThrow('not in the snapshot');
+        });
+    });
+
+    // The gateway's claim getters are placeholders, so with the default claim
+    // source the only non-compliant outcome on-chain is the amount check
+    describe('Conformance', () => {
+        let blockchain: Blockchain;
+        let deployer: SandboxContract<TreasuryContract>;
+        let users: SandboxContract<TreasuryContract>[];
+        let token: SandboxContract<TreasuryContract>;
+        let gateway: SandboxContract<TonIdentityGateway>;
+
+        beforeEach(async () => {
+            blockchain = await Blockchain.create();
+
+            deployer = await blockchain.treasury('deployer');
+            token = await blockchain.treasury('token');
+            users = [];
+            for (let i = 0; i < 4; i++) {
+                users.push(await blockchain.treasury(`user-${i}`));
+            }
+
+            gateway = blockchain.openContract(
+                await TonIdentityGateway.fromInit(deployer.address)
+            );
+
+            await gateway.sendDeploy(deployer.getSender(), toNano('0.05'));
+            await gateway.sendSetDefaultRequiredClaims(deployer.getSender(), {
+                value: toNano('0.05'),
+                requiredClaims: [BigInt(ClaimTopic.KYC), BigInt(ClaimTopic.AML)]
+            });
+        });
+
+        // Deterministic scenario generator (mulberry32)
+        function random(seed: number) {
+            return () => {
+                seed = (seed + 0x6d2b79f5) | 0;
+                let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+                t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+                return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+            };
+        }
+
+        it('should agree with validateTransferCompliance on random transfers', async () => {
+            const next = random(17);
+            const simulator = await ComplianceSimulator.load(gateway, users.map((u) => u.address));
+
+            for (let i = 0; i < 40; i++) {
+                const from = users[Math.floor(next() * users.length)].address;
+                const to = users[Math.floor(next() * users.length)].address;
+                const amount = BigInt(Math.floor(next() * 2000)) - 500n;
+
+                const local = simulator.validateTransfer({ from, to, amount, token: token.address });
+                const onChain = await gateway.getValidateTransferCompliance(from, to, amount, token.address);
+                expect(local).toEqual(onChain);
+            }
+        });
+
+        it('should agree with checkUserClaims on random topic sets', async () => {
+            const next = random(42);
+            const simulator = await ComplianceSimulator.load(gateway, users.map((u) => u.address));
+
+            for (let i = 0; i < 40; i++) {
+                const user = users[Math.floor(next() * users.length)].address;
+                const topics = [1n, 2n, 3n, 4n, 5n, 6n].filter(() => next() < 0.5);
+
+                expect(simulator.checkUserClaims(user, topics)).toEqual(await gateway.getCheckUserClaims(user, topics));
+            }
+        });
+
+        it('should predict the ValidateTransfer response', async () => {
+            const next = random(7);
+
+            for (let i = 0; i < 10; i++) {
+                const sender = users[Math.floor(next() * users.length)];
+                const to = users[Math.floor(next() * users.length)].address;
+                const amount = BigInt(Math.floor(next() * 200)) - 50n;
+                const transfer = { from: sender.address, to, amount, token: token.address };
+
+                const predicted = await simulateTransfer(gateway, transfer);
+                const result = await gateway.sendValidateTransfer(sender.getSender(), { value: toNano('0.1'), ...transfer });
+
+                const reply = result.transactions.find((t) =>
+                    t.inMessage?.info.type === 'internal' &&
+                    t.inMessage.info.src.equals(gateway.address) &&
+                    t.inMessage.info.dest.equals(sender.address));
+                const response = loadTransferValidationResponse(reply!.inMessage!.body.beginParse());
+                expect(response.allowed).toBe(predicted.allowed);
+                expect(response.reason).toBe(predicted.reason);
+            }
+        });
+    });
+
+    describe('Identity claims', () => {
+        const NOW = 1800000000n;
+        const KYC = BigInt(ClaimTopic.KYC);
+        const AML = BigInt(ClaimTopic.AML);
+
+        let blockchain: Blockchain;
+        let deployer: SandboxContract<TreasuryContract>;
+        let issuer: SandboxContract<TreasuryContract>;
+        let untrustedIssuer: SandboxContract<TreasuryContract>;
+        let token: SandboxContract<TreasuryContract>;
+        let gateway: SandboxContract<TonIdentityGateway>;
+        let identities: Record<'alice' | 'bob' | 'carol' | 'dave', Address>;
+
+        const kyc = (expiresAt: bigint) =>
+            beginCell().store(KycClaimCodec.store({ subjectCommitment: 1n, level: KycLevel.STANDARD, verifiedAt: NOW - 1000n, expiresAt })).endCell();
+        const aml = (expiresAt: bigint) =>
+            beginCell().store(AmlClaimCodec.store({ subjectCommitment: 1n, riskLevel: AmlRiskLevel.LOW, screenedAt: NOW - 1000n, expiresAt })).endCell();
+
+        // Deploys an identity held by `name` and adds the given claims to it
+        async function identityWith(name: string, claims: { topic: bigint; issuer: Address; data: Cell }[]) {
+            const holder = await blockchain.treasury(name);
+            const identity = blockchain.openContract(await TonIdentity.fromInit(holder.address));
+            await identity.sendDeploy(holder.getSender(), toNano('0.05'));
+            for (const claim of claims) {
+                await identity.sendAddClaim(holder.getSender(), {
+                    value: toNano('0.05'),
+                    topic: claim.topic,
+                    scheme: 1n,
+                    issuer: claim.issuer,
+                    signature: beginCell().endCell(),
+                    data: claim.data,
+                    uri: ''
+                });
+            }
+            return identity.address;
+        }
+
+        const openIdentity = (address: Address) => blockchain.openContract(TonIdentity.createFromAddress(address));
+
+        // The gateway maps every user to itself, so the identities are the users
+        const load = () => ComplianceSimulator.load(gateway, Object.values(identities), {
+            candidateIssuers: [issuer.address, untrustedIssuer.address],
+            identityClaims: { openIdentity, now: () => NOW }
+        });
+
+        beforeEach(async () => {
+            blockchain = await Blockchain.create();
+
+            deployer = await blockchain.treasury('deployer');
+            issuer = await blockchain.treasury('issuer');
+            untrustedIssuer = await blockchain.treasury('untrusted-issuer');
+            token = await blockchain.treasury('token');
+
+            gateway = blockchain.openContract(await TonIdentityGateway.fromInit(deployer.address));
+            await gateway.sendDeploy(deployer.getSender(), toNano('0.05'));
+            await gateway.sendAddTrustedIssuer(deployer.getSender(), { value: toNano('0.05'), issuer: issuer.address });
+            await gateway.sendSetDefaultRequiredClaims(deployer.getSender(), { value: toNano('0.05'), requiredClaims: [KYC, AML] });
+
+            identities = {
+                alice: await identityWith('alice', [
+                    { topic: KYC, issuer: issuer.address, data: kyc(0n) },
+                    { topic: AML, issuer: issuer.address, data: aml(NOW + 86400n) }
+                ]),
+                bob: await identityWith('bob', [
+                    { topic: KYC, issuer: issuer.address, data: kyc(0n) }
+                ]),
+                carol: await identityWith('carol', [
+                    { topic: KYC, issuer: issuer.address, data: kyc(0n) },
+                    { topic: AML, issuer: issuer.address, data: aml(NOW - 1n) }
+                ]),
+                dave: await identityWith('dave', [
+                    { topic: KYC, issuer: issuer.address, data: kyc(0n) },
+                    { topic: AML, issuer: untrustedIssuer.address, data: aml(0n) }
+                ])
+            };
+        });
+
+        it('should read unexpired claims from trusted issuers off the identities', async () => {
+            const { snapshot } = await load();
+
+            expect(snapshot.trustedIssuers).toEqual([issuer.address]);
+            expect(snapshot.claims.get(identities.alice.toRawString())).toEqual([KYC, AML]);
+            expect(snapshot.claims.get(identities.bob.toRawString())).toEqual([KYC]);
+            expect(snapshot.claims.get(identities.carol.toRawString())).toEqual([KYC]);
+            expect(snapshot.claims.get(identities.dave.toRawString())).toEqual([KYC]);
+        });
+
+        it('should reject transfers to a receiver missing a claim', async () => {
+            const simulator = await load();
+
+            expect(simulator.validateTransfer({ from: identities.alice, to: identities.bob, amount: 10n, token: token.address })).toEqual({
+                allowed: false,
+                reason: 'Receiver not compliant: Missing required claims',
+                requiredClaims: [KYC, AML],
+                missingClaims: [AML]
+            });
+        });
+
+        it('should treat expired and untrusted claims as missing', async () => {
+            const simulator = await load();
+
+            const expired = simulator.validateTransfer({ from: identities.carol, to: identities.alice, amount: 10n, token: token.address });
+            expect(expired.reason).toBe('Sender not compliant: Missing required claims');
+            expect(expired.missingClaims).toEqual([AML]);
+
+            expect(simulator.checkUserClaims(identities.dave, [KYC, AML]).missingClaims).toEqual([AML]);
+        });
+
+        it('should count a claim until it expires', async () => {
+            const simulator = await ComplianceSimulator.load(gateway, [identities.carol], {
+                candidateIssuers: [issuer.address],
+                identityClaims: { openIdentity, now: () => NOW - 10n }
+            });
+
+            expect(simulator.checkUserClaims(identities.carol, [KYC, AML]).allowed).toBe(true);
+        });
+
+        it('should follow the gateway rather than the identities by default', async () => {
+            const transfer = { from: identities.alice, to: identities.bob, amount: 10n, token: token.address };
+
+            const predicted = await simulateTransfer(gateway, transfer);
+
+            expect(predicted.allowed).toBe(true);
+            expect(predicted).toEqual(await gateway.getValidateTransferCompliance(transfer.from, transfer.to, transfer.amount, transfer.token));
+        });
+
+        it('should allow transfers between compliant parties', async () => {
+            const simulator = await load();
+
+            expect(simulator.validateTransfer({ from: identities.alice, to: identities.alice, amount: 10n, token: token.address })).toEqual({
+                allowed: true,
+                reason: 'Transfer compliant',
+                requiredClaims: [KYC, AML],
+                missingClaims: []
+            });
+        });
+    });
+});
@@ -0,0 +1,223 @@
+import { Address } from '@ton/core';
+import { ClaimTopicRegistry } from './TonClaimSchemas';
+import { TonIdentityClient } from './TonIdentity';
+import { ComplianceResult, ComplianceRule, sortTopics, TonIdentityGatewayClient } from './TonIdentityGateway';
+import { fetchComplianceRules } from './TonComplianceRules';
+
+// checkUserClaims in TonIdentityGateway.tact looks at these topics, in this
+// order; any other required topic is never reported missing.
+export const GATEWAY_CHECKED_TOPICS = [1n, 2n, 3n, 4n];
+
+// Whether `identity` holds a valid claim for `topic`
+export type ClaimSource = (identity: Address, topic: bigint) => Promise<boolean>;
+
+// The gateway's own `hasValidClaim`, i.e. exactly what ValidateTransfer sees.
+// The contract's getters are still placeholders (every claim is valid and
+// every user is their own identity), so against the deployed gateway the only
+// transfer this predicts as non-compliant is one with a non-positive amount.
+export function gatewayClaimSource(gateway: TonIdentityGatewayClient): ClaimSource {
+    return (identity, topic) => gateway.getHasValidClaim(identity, topic);
+}
+
+export type IdentityClaimOptions = {
+    registry?: ClaimTopicRegistry;  // decodes claim data for its expiresAt
+    now?: () => bigint;             // unix time source, defaults to the wall clock
+}
+
+/**
+ * Claims held by the identity contract itself. A claim counts when one of
+ * `trustedIssuers` issued it and its data, decoded with the registered codec,
+ * has not expired (`expiresAt` of 0 never expires). Claims on topics without
+ * a codec are taken as they are; data that does not decode does not count.
+ *
+ * The deployed gateway does not look at identities yet, so results from this
+ * source predict a gateway that checks identity claims, not the current one.
+ */
+export function identityClaimSource(
+    openIdentity: (address: Address) => TonIdentityClient,
+    trustedIssuers: Address[],
+    opts: IdentityClaimOptions = {}
+): ClaimSource {
+    const registry = opts.registry ?? new ClaimTopicRegistry();
+    const now = opts.now ?? (() => BigInt(Math.floor(Date.now() / 1000)));
+    return async (identity, topic) => {
+        const contract = openIdentity(identity);
+        for (const claimId of await contract.getGetClaimIdsByTopic(topic)) {
+            const claim = await contract.getGetClaim(claimId);
+            if (!claim || !trustedIssuers.some((issuer) => issuer.equals(claim.issuer))) {
+                continue;
+            }
+            if (!registry.has(topic)) {
+                return true;
+            }
+            let expiresAt: bigint | undefined;
+            try {
+                expiresAt = (registry.decode(claim.data, topic).value as { expiresAt?: bigint }).expiresAt;
+            } catch {
+                continue;
+            }
+            if (!expiresAt || expiresAt > now()) {
+                return true;
+            }
+        }
+        return false;
+    };
+}
+
+export type GatewaySnapshot = {
+    defaultRequiredClaims: bigint[];
+    rules: ComplianceRule[];
+    trustedIssuers: Address[];
+    identities: Map<string, Address | null>;   // user -> identity, keyed by raw address
+    claims: Map<string, bigint[]>;             // identity -> topics with a valid claim
+}
+
+export type TransferRequest = {
+    from: Address;
+    to: Address;
+    amount: bigint;
+    token: Address;
+}
+
+// Reads claims with identityClaimSource over the trusted candidate issuers
+export type IdentityClaimMode = IdentityClaimOptions & {
+    openIdentity: (address: Address) => TonIdentityClient;
+}
+
+export type SnapshotOptions = {
+    candidateIssuers?: Address[];       // kept in the snapshot if the gateway trusts them
+    claimSource?: ClaimSource;          // defaults to gatewayClaimSource
+    identityClaims?: IdentityClaimMode; // used instead of the gateway when no claimSource is given
+}
+
+/**
+ * Reads what the gateway would consult for transfers between `users`:
+ * default required claims, rules, which of `candidateIssuers` it trusts,
+ * each user's identity and the checked topics each identity holds. Claims
+ * come from the gateway itself unless `identityClaims` asks for the
+ * identities' own claims.
+ */
+export async function loadGatewaySnapshot(
+    gateway: TonIdentityGatewayClient,
+    users: Address[],
+    opts: SnapshotOptions = {}
+): Promise<GatewaySnapshot> {
+    const trustedIssuers: Address[] = [];
+    for (const issuer of opts.candidateIssuers ?? []) {
+        if (await gateway.getIsTrustedIssuer(issuer)) {
+            trustedIssuers.push(issuer);
+        }
+    }
+    const claimSource = opts.claimSource ?? (opts.identityClaims
+        ? identityClaimSource(opts.identityClaims.openIdentity, trustedIssuers, opts.identityClaims)
+        : gatewayClaimSource(gateway));
+
+    const identities = new Map<string, Address | null>();
+    const claims = new Map<string, bigint[]>();
+    for (const user of users) {
+        if (identities.has(user.toRawString())) {
+            continue;
+        }
+        const identity = await gateway.getGetUserIdentity(user);
+        identities.set(user.toRawString(), identity);
+        if (identity && !claims.has(identity.toRawString())) {
+            const held: bigint[] = [];
+            for (const topic of GATEWAY_CHECKED_TOPICS) {
+                if (await claimSource(identity, topic)) {
+                    held.push(topic);
+                }
+            }
+            claims.set(identity.toRawString(), held);
+        }
+    }
+
+    return {
+        defaultRequiredClaims: await gateway.getGetDefaultRequiredClaims(),
+        rules: await fetchComplianceRules(gateway),
+        trustedIssuers,
+        identities,
+        claims
+    };
+}
+
+/**
+ * Evaluates ValidateTransfer off-chain against a GatewaySnapshot, following
+ * `validateTransferCompliance` and `checkUserClaims` in
+ * TonIdentityGateway.tact step by step, so for the same claims results
+ * match the gateway's `ComplianceResult` including reasons. Like the
+ * gateway, ValidateTransfer does not consult compliance rules or token rules
+ * yet; they are in the snapshot for callers that want to show them.
+ */
+export class ComplianceSimulator {
+    constructor(readonly snapshot: GatewaySnapshot) {}
+
+    static async load(gateway: TonIdentityGatewayClient, users: Address[], opts: SnapshotOptions = {}) {
+        return new ComplianceSimulator(await loadGatewaySnapshot(gateway, users, opts));
+    }
+
+    checkUserClaims(user: Address, requiredClaims: bigint[]): ComplianceResult {
+        const required = sortTopics(requiredClaims);
+        if (!this.snapshot.identities.has(user.toRawString())) {
+            throw new Error(`User ${user} is not in the snapshot`);
+        }
+        const identity = this.snapshot.identities.get(user.toRawString());
+        if (!identity) {
+            return {
+                allowed: false,
+                reason: 'No identity contract found',
+                requiredClaims: required,
+                missingClaims: required
+            };
+        }
+
+        const held = this.snapshot.claims.get(identity.toRawString()) ?? [];
+        const missingClaims = GATEWAY_CHECKED_TOPICS.filter((t) => required.includes(t) && !held.includes(t));
+        const allowed = missingClaims.length === 0;
+        return {
+            allowed,
+            reason: allowed ? 'All required claims present' : 'Missing required claims',
+            requiredClaims: required,
+            missingClaims
+        };
+    }
+
+    validateTransfer(transfer: TransferRequest): ComplianceResult {
+        const defaults = this.snapshot.defaultRequiredClaims;
+
+        const sender = this.checkUserClaims(transfer.from, defaults);
+        if (!sender.allowed) {
+            return {
+                allowed: false,
+                reason: 'Sender not compliant: ' + sender.reason,
+                requiredClaims: defaults,
+                missingClaims: sender.missingClaims
+            };
+        }
+
+        const receiver = this.checkUserClaims(transfer.to, defaults);
+        if (!receiver.allowed) {
+            return {
+                allowed: false,
+                reason: 'Receiver not compliant: ' + receiver.reason,
+                requiredClaims: defaults,
+                missingClaims: receiver.missingClaims
+            };
+        }
+
+        if (transfer.amount <= 0n) {
+            return { allowed: false, reason: 'Invalid transfer amount', requiredClaims: [], missingClaims: [] };
+        }
+
+        return { allowed: true, reason: 'Transfer compliant', requiredClaims: defaults, missingClaims: [] };
+    }
+}
+
+// Loads a snapshot for the two parties and evaluates a single transfer
+export async function simulateTransfer(
+    gateway: TonIdentityGatewayClient,
+    transfer: TransferRequest,
+    opts: SnapshotOptions = {}
+): Promise<ComplianceResult> {
+    const simulator = await ComplianceSimulator.load(gateway, [transfer.from, transfer.to], opts);
+    return simulator.validateTransfer(transfer);
+}
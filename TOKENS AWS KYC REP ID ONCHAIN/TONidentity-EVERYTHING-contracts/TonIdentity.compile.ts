@@ -0,0 +1,9 @@
+import { CompilerConfig } from '@ton/blueprint';
+
+export const compile: CompilerConfig = {
+    lang: 'tact',
+    target: 'contracts/TonIdentity.tact',
+    options: {
+        debug: true,
+    },
+};
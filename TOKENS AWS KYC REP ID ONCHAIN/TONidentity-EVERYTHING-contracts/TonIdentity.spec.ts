@@ -1,16 +1,11 @@
 import { Blockchain, SandboxContract, TreasuryContract } from '@ton/sandbox';
-import { Cell, toNano, beginCell, Address } from '@ton/core';
-import { TonIdentity } from '../wrappers/TonIdentity';
+import { toNano, beginCell } from '@ton/core';
+import { TonIdentity, storeExecuteAction, loadExecuteAction } from '../wrappers/TonIdentity';
+import { loadTonIdentityEvent, parseTonIdentityEvents } from '../wrappers/TonIdentityEvents';
+import { addressToKeyHash, publicKeyToKeyHash, KeyPurpose, KeyType } from '../wrappers/TonIdentityKeys';
 import '@ton/test-utils';
-import { compile } from '@ton/blueprint';
 
 describe('TonIdentity', () => {
-    let code: Cell;
-
-    beforeAll(async () => {
-        code = await compile('TonIdentity');
-    });
-
     let blockchain: Blockchain;
     let deployer: SandboxContract<TreasuryContract>;
     let tonIdentity: SandboxContract<TonIdentity>;
@@ -25,11 +20,7 @@ describe('TonIdentity', () => {
         manager = await blockchain.treasury('manager');
 
         tonIdentity = blockchain.openContract(
-            TonIdentity.createFromConfig({
-                owner: deployer.address,
-                nextKeyId: 1n,
-                executionNonce: 0n
-            }, code)
+            await TonIdentity.fromInit(deployer.address)
         );
 
         const deployResult = await tonIdentity.sendDeploy(deployer.getSender(), toNano('0.05'));
@@ -44,12 +35,13 @@ describe('TonIdentity', () => {
 
     describe('Key Management', () => {
         it('should add management key on deployment', async () => {
-            const ownerKeyHash = BigInt('0x' + deployer.address.hash.toString('hex'));
+            const ownerKeyHash = addressToKeyHash(deployer.address);
             const keyInfo = await tonIdentity.getGetKey(ownerKeyHash);
             
-            expect(keyInfo.purpose).toBe(1n); // MANAGEMENT_KEY
-            expect(keyInfo.keyType).toBe(1n); // ECDSA
-            expect(keyInfo.exists).toBe(1n);
+            expect(keyInfo).not.toBeNull();
+            expect(keyInfo!.purposes.has(1)).toBe(true); // MANAGEMENT_KEY
+            expect(keyInfo!.keyType).toBe(1n); // ECDSA
+            expect(keyInfo!.key).toBe(ownerKeyHash);
         });
 
         it('should allow management key to add new keys', async () => {
@@ -60,8 +52,8 @@ describe('TonIdentity', () => {
                 {
                     value: toNano('0.05'),
                     key: newKeyHash,
-                    purpose: 2n, // ACTION_KEY
-                    keyType: 1n  // ECDSA
+                    purpose: KeyPurpose.ACTION,
+                    keyType: KeyType.ECDSA
                 }
             );
 
@@ -72,9 +64,9 @@ describe('TonIdentity', () => {
             });
 
             const keyInfo = await tonIdentity.getGetKey(newKeyHash);
-            expect(keyInfo.purpose).toBe(2n);
-            expect(keyInfo.keyType).toBe(1n);
-            expect(keyInfo.exists).toBe(1n);
+            expect(keyInfo).not.toBeNull();
+            expect(keyInfo!.purposes).toEqual(new Set([2]));
+            expect(keyInfo!.keyType).toBe(1n);
         });
 
         it('should not allow non-management key to add keys', async () => {
@@ -85,8 +77,8 @@ describe('TonIdentity', () => {
                 {
                     value: toNano('0.05'),
                     key: newKeyHash,
-                    purpose: 2n,
-                    keyType: 1n
+                    purpose: KeyPurpose.ACTION,
+                    keyType: KeyType.ECDSA
                 }
             );
 
@@ -106,8 +98,8 @@ describe('TonIdentity', () => {
                 {
                     value: toNano('0.05'),
                     key: keyToRemove,
-                    purpose: 2n,
-                    keyType: 1n
+                    purpose: KeyPurpose.ACTION,
+                    keyType: KeyType.ECDSA
                 }
             );
 
@@ -117,7 +109,7 @@ describe('TonIdentity', () => {
                 {
                     value: toNano('0.05'),
                     key: keyToRemove,
-                    purpose: 2n
+                    purpose: KeyPurpose.ACTION
                 }
             );
 
@@ -128,18 +120,47 @@ describe('TonIdentity', () => {
             });
 
             const keyInfo = await tonIdentity.getGetKey(keyToRemove);
-            expect(keyInfo.exists).toBe(0n);
+            expect(keyInfo).toBeNull();
+        });
+
+        it('should return null for unknown keys', async () => {
+            const keyInfo = await tonIdentity.getGetKey(BigInt('0x9999999999999999'));
+            expect(keyInfo).toBeNull();
+        });
+
+        it('should not list removed keys by purpose', async () => {
+            const keyHash = BigInt('0x1234567890abcdef');
+            await tonIdentity.sendAddKey(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    key: keyHash,
+                    purpose: KeyPurpose.ACTION,
+                    keyType: KeyType.ECDSA
+                }
+            );
+            await tonIdentity.sendRemoveKey(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    key: keyHash,
+                    purpose: KeyPurpose.ACTION
+                }
+            );
+
+            const actionKeys = await tonIdentity.getGetKeysByPurpose(KeyPurpose.ACTION);
+            expect(actionKeys).not.toContain(keyHash);
         });
 
         it('should not allow removing the last management key', async () => {
-            const ownerKeyHash = BigInt('0x' + deployer.address.hash.toString('hex'));
+            const ownerKeyHash = addressToKeyHash(deployer.address);
             
             const result = await tonIdentity.sendRemoveKey(
                 deployer.getSender(),
                 {
                     value: toNano('0.05'),
                     key: ownerKeyHash,
-                    purpose: 1n
+                    purpose: KeyPurpose.MANAGEMENT
                 }
             );
 
@@ -152,13 +173,13 @@ describe('TonIdentity', () => {
         });
 
         it('should check key purposes correctly', async () => {
-            const ownerKeyHash = BigInt('0x' + deployer.address.hash.toString('hex'));
+            const ownerKeyHash = addressToKeyHash(deployer.address);
             
-            const hasManagementPurpose = await tonIdentity.getKeyHasPurpose(ownerKeyHash, 1n);
-            expect(hasManagementPurpose).toBe(1n);
+            const hasManagementPurpose = await tonIdentity.getKeyHasPurpose(ownerKeyHash, KeyPurpose.MANAGEMENT);
+            expect(hasManagementPurpose).toBe(true);
 
-            const hasActionPurpose = await tonIdentity.getKeyHasPurpose(ownerKeyHash, 2n);
-            expect(hasActionPurpose).toBe(0n);
+            const hasActionPurpose = await tonIdentity.getKeyHasPurpose(ownerKeyHash, KeyPurpose.ACTION);
+            expect(hasActionPurpose).toBe(false);
         });
 
         it('should get keys by purpose', async () => {
@@ -169,18 +190,149 @@ describe('TonIdentity', () => {
                 {
                     value: toNano('0.05'),
                     key: actionKeyHash,
-                    purpose: 2n,
-                    keyType: 1n
+                    purpose: KeyPurpose.ACTION,
+                    keyType: KeyType.ECDSA
                 }
             );
 
-            const managementKeys = await tonIdentity.getGetKeysByPurpose(1n);
-            const actionKeys = await tonIdentity.getGetKeysByPurpose(2n);
+            const managementKeys = await tonIdentity.getGetKeysByPurpose(KeyPurpose.MANAGEMENT);
+            const actionKeys = await tonIdentity.getGetKeysByPurpose(KeyPurpose.ACTION);
 
             // Should have at least one management key (owner)
-            expect(managementKeys).toBeDefined();
+            const ownerKeyHash = addressToKeyHash(deployer.address);
+            expect(managementKeys).toContain(ownerKeyHash);
             // Should have the action key we added
-            expect(actionKeys).toBeDefined();
+            expect(actionKeys).toEqual([actionKeyHash]);
+        });
+    });
+
+    describe('Key Quorum', () => {
+        const managerKey = () => addressToKeyHash(manager.address);
+
+        beforeEach(async () => {
+            await tonIdentity.sendAddKey(deployer.getSender(), {
+                value: toNano('0.05'),
+                key: managerKey(),
+                purpose: KeyPurpose.MANAGEMENT,
+                keyType: KeyType.ECDSA
+            });
+        });
+
+        it('should remove one of two management keys', async () => {
+            const result = await tonIdentity.sendRemoveKey(deployer.getSender(), {
+                value: toNano('0.05'),
+                key: managerKey(),
+                purpose: KeyPurpose.MANAGEMENT
+            });
+
+            expect(result.transactions).toHaveTransaction({
+                from: deployer.address,
+                to: tonIdentity.address,
+                success: true,
+            });
+            expect(await tonIdentity.getGetKey(managerKey())).toBeNull();
+            expect(await tonIdentity.getGetKeysByPurpose(KeyPurpose.MANAGEMENT)).toEqual([addressToKeyHash(deployer.address)]);
+        });
+
+        it('should hold key changes until the approval quorum is reached', async () => {
+            await tonIdentity.sendSetRequiredApprovals(deployer.getSender(), { value: toNano('0.05'), requiredApprovals: 2n });
+            expect(await tonIdentity.getGetRequiredApprovals()).toBe(2n);
+
+            const userKey = addressToKeyHash(user.address);
+            await tonIdentity.sendAddKey(deployer.getSender(), {
+                value: toNano('0.05'),
+                key: userKey,
+                purpose: KeyPurpose.ACTION,
+                keyType: KeyType.ECDSA
+            });
+
+            const executionId = await tonIdentity.getGetExecutionNonce();
+            expect(await tonIdentity.getGetKey(userKey)).toBeNull();
+            expect((await tonIdentity.getGetExecutionRequest(executionId))?.executed).toBe(false);
+
+            await tonIdentity.sendApproveExecution(manager.getSender(), {
+                value: toNano('0.05'),
+                executionId,
+                approve: true
+            });
+
+            expect(await tonIdentity.getKeyHasPurpose(userKey, KeyPurpose.ACTION)).toBe(true);
+            expect((await tonIdentity.getGetExecutionRequest(executionId))?.executed).toBe(true);
+        });
+
+        it('should not remove management keys below the approval quorum', async () => {
+            await tonIdentity.sendSetRequiredApprovals(deployer.getSender(), { value: toNano('0.05'), requiredApprovals: 2n });
+            await tonIdentity.sendRemoveKey(deployer.getSender(), {
+                value: toNano('0.05'),
+                key: managerKey(),
+                purpose: KeyPurpose.MANAGEMENT
+            });
+            const executionId = await tonIdentity.getGetExecutionNonce();
+
+            const result = await tonIdentity.sendApproveExecution(manager.getSender(), {
+                value: toNano('0.05'),
+                executionId,
+                approve: true
+            });
+
+            const events = result.transactions.flatMap((tx) => parseTonIdentityEvents(tx, tonIdentity.address));
+            expect(events.map((e) => e.$$type)).toEqual(['ExecutionFailed', 'Approved']);
+            expect(await tonIdentity.getKeyHasPurpose(managerKey(), KeyPurpose.MANAGEMENT)).toBe(true);
+            expect(await tonIdentity.getGetExecutionRequest(executionId)).toMatchObject({ approved: true, executed: false });
+        });
+
+        it('should not set a quorum larger than the management keys', async () => {
+            const result = await tonIdentity.sendSetRequiredApprovals(deployer.getSender(), {
+                value: toNano('0.05'),
+                requiredApprovals: 3n
+            });
+
+            expect(result.transactions).toHaveTransaction({
+                from: deployer.address,
+                to: tonIdentity.address,
+                success: false,
+                exitCode: 101,
+            });
+            expect(await tonIdentity.getGetRequiredApprovals()).toBe(1n);
+        });
+    });
+
+    describe('Key Derivation', () => {
+        it('should authorise a wallet registered by its derived key hash', async () => {
+            await tonIdentity.sendAddKey(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    key: addressToKeyHash(manager.address),
+                    purpose: KeyPurpose.MANAGEMENT,
+                    keyType: KeyType.ECDSA
+                }
+            );
+
+            const result = await tonIdentity.sendAddKey(
+                manager.getSender(),
+                {
+                    value: toNano('0.05'),
+                    key: addressToKeyHash(user.address),
+                    purpose: KeyPurpose.ACTION,
+                    keyType: KeyType.ECDSA
+                }
+            );
+
+            expect(result.transactions).toHaveTransaction({
+                from: manager.address,
+                to: tonIdentity.address,
+                success: true,
+            });
+            expect(await tonIdentity.getKeyHasPurpose(addressToKeyHash(user.address), KeyPurpose.ACTION)).toBe(true);
+        });
+
+        it('should derive public key hashes deterministically', async () => {
+            const publicKey = Buffer.alloc(32, 7);
+
+            expect(publicKeyToKeyHash(publicKey)).toBe(publicKeyToKeyHash(Buffer.from(publicKey)));
+            expect(publicKeyToKeyHash(publicKey)).not.toBe(publicKeyToKeyHash(Buffer.alloc(32, 8)));
+            expect(() => publicKeyToKeyHash(Buffer.alloc(33))).toThrow();
         });
     });
 
@@ -193,8 +345,8 @@ describe('TonIdentity', () => {
                 {
                     value: toNano('0.05'),
                     key: actionKeyHash,
-                    purpose: 2n,
-                    keyType: 1n
+                    purpose: KeyPurpose.ACTION,
+                    keyType: KeyType.ECDSA
                 }
             );
 
@@ -265,36 +417,311 @@ describe('TonIdentity', () => {
         });
     });
 
+    describe('Message Encoding', () => {
+        it('should send AddKey and RemoveKey with the contract opcodes', async () => {
+            const keyHash = BigInt('0x1234567890abcdef');
+
+            const addResult = await tonIdentity.sendAddKey(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    queryId: 7n,
+                    key: keyHash,
+                    purpose: KeyPurpose.ACTION,
+                    keyType: KeyType.ECDSA
+                }
+            );
+
+            expect(addResult.transactions).toHaveTransaction({
+                from: deployer.address,
+                to: tonIdentity.address,
+                op: 0x97bdca54, // AddKey
+                success: true,
+            });
+
+            const removeResult = await tonIdentity.sendRemoveKey(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    queryId: 8n,
+                    key: keyHash,
+                    purpose: KeyPurpose.ACTION
+                }
+            );
+
+            expect(removeResult.transactions).toHaveTransaction({
+                from: deployer.address,
+                to: tonIdentity.address,
+                op: 0x61dfb77a, // RemoveKey
+                success: true,
+            });
+        });
+
+        it('should round-trip message bodies through the Tact layouts', async () => {
+            const body = beginCell()
+                .store(storeExecuteAction({
+                    $$type: 'ExecuteAction',
+                    queryId: 42n,
+                    to: user.address,
+                    value: toNano('0.01'),
+                    data: beginCell().storeUint(1, 8).endCell().asSlice()
+                }))
+                .endCell();
+
+            const decoded = loadExecuteAction(body.beginParse());
+            expect(decoded.queryId).toBe(42n);
+            expect(decoded.to.equals(user.address)).toBe(true);
+            expect(decoded.value).toBe(toNano('0.01'));
+            expect(decoded.data.loadUint(8)).toBe(1);
+        });
+    });
+
+    describe('Execution Approval', () => {
+        it('should allow management key to approve a pending execution', async () => {
+            await tonIdentity.sendExecute(
+                deployer.getSender(),
+                {
+                    value: toNano('0.1'),
+                    to: user.address,
+                    amount: toNano('0.01'),
+                    data: beginCell().endCell()
+                }
+            );
+            const executionId = await tonIdentity.getGetExecutionNonce();
+
+            const result = await tonIdentity.sendApproveExecution(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    executionId,
+                    approve: true
+                }
+            );
+
+            expect(result.transactions).toHaveTransaction({
+                from: deployer.address,
+                to: tonIdentity.address,
+                op: 0x88d30dbb, // ApproveExecution
+            });
+        });
+
+        it('should not allow non-management key to approve', async () => {
+            const result = await tonIdentity.sendApproveExecution(
+                user.getSender(),
+                {
+                    value: toNano('0.05'),
+                    executionId: 1n,
+                    approve: true
+                }
+            );
+
+            expect(result.transactions).toHaveTransaction({
+                from: user.address,
+                to: tonIdentity.address,
+                success: false,
+            });
+        });
+    });
+
+    describe('Claim Management', () => {
+        it('should allow management key to add and remove claims', async () => {
+            const addResult = await tonIdentity.sendAddClaim(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    topic: 1n, // KYC_CLAIM
+                    scheme: 1n, // ECDSA_SIGNATURE
+                    issuer: manager.address,
+                    signature: beginCell().storeUint(0xdeadbeef, 32).endCell(),
+                    data: beginCell().storeUint(1, 8).endCell(),
+                    uri: 'https://kyc.accredefi.com/claims/1'
+                }
+            );
+
+            expect(addResult.transactions).toHaveTransaction({
+                from: deployer.address,
+                to: tonIdentity.address,
+                op: 0x992814bb, // AddClaim
+                success: true,
+            });
+
+            const claimId = beginCell()
+                .storeAddress(manager.address)
+                .storeInt(1n, 256)
+                .endCell()
+                .hash();
+
+            const claim = await tonIdentity.getGetClaim(BigInt('0x' + claimId.toString('hex')));
+            expect(claim).not.toBeNull();
+            expect(claim!.topic).toBe(1n);
+            expect(claim!.issuer.equals(manager.address)).toBe(true);
+            expect(claim!.uri).toBe('https://kyc.accredefi.com/claims/1');
+            expect(await tonIdentity.getGetClaimIdsByTopic(1n)).toEqual([BigInt('0x' + claimId.toString('hex'))]);
+            expect(await tonIdentity.getHasValidClaim(1n, manager.address)).toBe(true);
+
+            const removeResult = await tonIdentity.sendRemoveClaim(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    claimId: BigInt('0x' + claimId.toString('hex'))
+                }
+            );
+
+            expect(removeResult.transactions).toHaveTransaction({
+                from: deployer.address,
+                to: tonIdentity.address,
+                op: 0x6ec8cfb0, // RemoveClaim
+                success: true,
+            });
+
+            expect(await tonIdentity.getGetClaim(BigInt('0x' + claimId.toString('hex')))).toBeNull();
+            expect(await tonIdentity.getGetClaimIdsByTopic(1n)).toEqual([]);
+            expect(await tonIdentity.getHasValidClaim(1n, manager.address)).toBe(false);
+        });
+
+        it('should not allow keys without claim purpose to add claims', async () => {
+            const result = await tonIdentity.sendAddClaim(
+                user.getSender(),
+                {
+                    value: toNano('0.05'),
+                    topic: 1n,
+                    scheme: 1n,
+                    issuer: manager.address,
+                    signature: beginCell().endCell(),
+                    data: beginCell().endCell(),
+                    uri: ''
+                }
+            );
+
+            expect(result.transactions).toHaveTransaction({
+                from: user.address,
+                to: tonIdentity.address,
+                success: false,
+            });
+        });
+    });
+
+    describe('Events', () => {
+        it('should emit KeyAdded and KeyRemoved', async () => {
+            const keyHash = BigInt('0x1234567890abcdef');
+
+            const addResult = await tonIdentity.sendAddKey(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    key: keyHash,
+                    purpose: KeyPurpose.ACTION,
+                    keyType: KeyType.ECDSA
+                }
+            );
+            const addEvents = addResult.transactions.flatMap((tx) => parseTonIdentityEvents(tx, tonIdentity.address));
+            expect(addEvents).toEqual([
+                { $$type: 'KeyAdded', key: keyHash, purpose: 2n, keyType: 1n }
+            ]);
+
+            const removeResult = await tonIdentity.sendRemoveKey(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    key: keyHash,
+                    purpose: KeyPurpose.ACTION
+                }
+            );
+            const removeEvents = removeResult.transactions.flatMap((tx) => parseTonIdentityEvents(tx, tonIdentity.address));
+            expect(removeEvents).toEqual([
+                { $$type: 'KeyRemoved', key: keyHash, purpose: 2n, keyType: 1n }
+            ]);
+        });
+
+        it('should emit ExecutionRequested followed by Executed for management keys', async () => {
+            const result = await tonIdentity.sendExecute(
+                deployer.getSender(),
+                {
+                    value: toNano('0.1'),
+                    to: user.address,
+                    amount: toNano('0.01'),
+                    data: beginCell().endCell()
+                }
+            );
+
+            const events = result.transactions.flatMap((tx) => parseTonIdentityEvents(tx, tonIdentity.address));
+            expect(events.map((e) => e.$$type)).toEqual(['ExecutionRequested', 'Executed']);
+
+            const requested = events[0];
+            if (requested.$$type !== 'ExecutionRequested') {
+                throw new Error('Unexpected event order');
+            }
+            expect(requested.to.equals(user.address)).toBe(true);
+            expect(requested.value).toBe(toNano('0.01'));
+        });
+
+        it('should emit ClaimAdded then ClaimChanged for the same issuer and topic', async () => {
+            const claim = {
+                value: toNano('0.05'),
+                topic: 1n,
+                scheme: 1n,
+                issuer: manager.address,
+                signature: beginCell().storeUint(0xdeadbeef, 32).endCell(),
+                data: beginCell().storeUint(1, 8).endCell(),
+                uri: 'https://kyc.accredefi.com/claims/1'
+            };
+
+            const first = await tonIdentity.sendAddClaim(deployer.getSender(), claim);
+            const firstEvents = first.transactions.flatMap((tx) => parseTonIdentityEvents(tx, tonIdentity.address));
+            expect(firstEvents).toHaveLength(1);
+            expect(firstEvents[0].$$type).toBe('ClaimAdded');
+
+            const second = await tonIdentity.sendAddClaim(deployer.getSender(), { ...claim, uri: 'https://kyc.accredefi.com/claims/2' });
+            const secondEvents = second.transactions.flatMap((tx) => parseTonIdentityEvents(tx, tonIdentity.address));
+            expect(secondEvents).toHaveLength(1);
+
+            const changed = secondEvents[0];
+            if (changed.$$type !== 'ClaimChanged') {
+                throw new Error('Expected ClaimChanged');
+            }
+            expect(changed.issuer.equals(manager.address)).toBe(true);
+            expect(changed.uri).toBe('https://kyc.accredefi.com/claims/2');
+        });
+
+        it('should ignore bodies that are not identity events', async () => {
+            expect(loadTonIdentityEvent(beginCell().endCell())).toBeNull();
+            expect(loadTonIdentityEvent(beginCell().storeUint(0, 32).storeStringTail('hello').endCell())).toBeNull();
+        });
+    });
+
     describe('Access Control', () => {
         it('should validate key purposes for operations', async () => {
-            // Add a claim signer key
-            const claimSignerKey = BigInt('0xabcdef1234567890');
+            // Give the user a claim signer key
+            const claimSignerKey = addressToKeyHash(user.address);
             await tonIdentity.sendAddKey(
                 deployer.getSender(),
                 {
                     value: toNano('0.05'),
                     key: claimSignerKey,
-                    purpose: 3n, // CLAIM_SIGNER_KEY
-                    keyType: 1n
+                    purpose: KeyPurpose.CLAIM_SIGNER,
+                    keyType: KeyType.ECDSA
                 }
             );
 
             // Claim signer should not be able to add keys
             const newKey = BigInt('0x9876543210fedcba');
             const result = await tonIdentity.sendAddKey(
-                { address: Address.parse('0:' + claimSignerKey.toString(16).padStart(64, '0')) } as any,
+                user.getSender(),
                 {
                     value: toNano('0.05'),
                     key: newKey,
-                    purpose: 2n,
-                    keyType: 1n
+                    purpose: KeyPurpose.ACTION,
+                    keyType: KeyType.ECDSA
                 }
             );
 
             expect(result.transactions).toHaveTransaction({
+                from: user.address,
+                to: tonIdentity.address,
                 success: false,
                 exitCode: 100, // Unauthorized
             });
+            expect(await tonIdentity.getKeyHasPurpose(claimSignerKey, KeyPurpose.CLAIM_SIGNER)).toBe(true);
         });
 
         it('should handle multiple keys with same purpose', async () => {
@@ -307,8 +734,8 @@ describe('TonIdentity', () => {
                 {
                     value: toNano('0.05'),
                     key: actionKey1,
-                    purpose: 2n,
-                    keyType: 1n
+                    purpose: KeyPurpose.ACTION,
+                    keyType: KeyType.ECDSA
                 }
             );
 
@@ -317,17 +744,17 @@ describe('TonIdentity', () => {
                 {
                     value: toNano('0.05'),
                     key: actionKey2,
-                    purpose: 2n,
-                    keyType: 1n
+                    purpose: KeyPurpose.ACTION,
+                    keyType: KeyType.ECDSA
                 }
             );
 
             // Both should have action purpose
-            const key1Purpose = await tonIdentity.getKeyHasPurpose(actionKey1, 2n);
-            const key2Purpose = await tonIdentity.getKeyHasPurpose(actionKey2, 2n);
+            const key1Purpose = await tonIdentity.getKeyHasPurpose(actionKey1, KeyPurpose.ACTION);
+            const key2Purpose = await tonIdentity.getKeyHasPurpose(actionKey2, KeyPurpose.ACTION);
 
-            expect(key1Purpose).toBe(1n);
-            expect(key2Purpose).toBe(1n);
+            expect(key1Purpose).toBe(true);
+            expect(key2Purpose).toBe(true);
         });
     });
 
@@ -341,7 +768,7 @@ describe('TonIdentity', () => {
                 {
                     value: toNano('0.05'),
                     key: nonExistentKey,
-                    purpose: 2n
+                    purpose: KeyPurpose.ACTION
                 }
             );
 
@@ -362,8 +789,8 @@ describe('TonIdentity', () => {
                 {
                     value: toNano('0.05'),
                     key: keyHash,
-                    purpose: 2n,
-                    keyType: 1n
+                    purpose: KeyPurpose.ACTION,
+                    keyType: KeyType.ECDSA
                 }
             );
 
@@ -373,8 +800,8 @@ describe('TonIdentity', () => {
                 {
                     value: toNano('0.05'),
                     key: keyHash,
-                    purpose: 2n,
-                    keyType: 1n
+                    purpose: KeyPurpose.ACTION,
+                    keyType: KeyType.ECDSA
                 }
             );
 
@@ -395,7 +822,7 @@ describe('TonIdentity', () => {
                 {
                     value: toNano('0.05'),
                     key: keyHash,
-                    purpose: 2n,
+                    purpose: KeyPurpose.ACTION,
                     keyType: 99n // Invalid key type
                 }
             );
@@ -418,7 +845,7 @@ describe('TonIdentity', () => {
                     value: toNano('0.05'),
                     key: keyHash,
                     purpose: 99n, // Invalid purpose
-                    keyType: 1n
+                    keyType: KeyType.ECDSA
                 }
             );
 
@@ -19,19 +19,323 @@ import {
     TupleBuilder,
     DictionaryValue
 } from '@ton/core';
+import { KeyPurpose, KeyType } from './TonIdentityKeys';
+import { TonIdentity as TactTonIdentity } from '../build/TonIdentity/tact_TonIdentity';
 
-export type TonIdentityConfig = {
-    owner: Address;
-    nextKeyId: bigint;
-    executionNonce: bigint;
-};
+// Message layouts below mirror the Tact definitions in TonIdentity.tact.
+// Opcodes are the first 32 bits of sha256 over each message signature,
+// which is how the Tact compiler assigns headers to untagged messages.
+
+export type Deploy = {
+    $$type: 'Deploy';
+    queryId: bigint;
+}
+
+export function storeDeploy(src: Deploy) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0x946a98b6, 32); // Deploy{queryId:uint64}
+        b_0.storeUint(src.queryId, 64);
+    };
+}
+
+export function loadDeploy(slice: Slice): Deploy {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x946a98b6) { throw Error('Invalid prefix'); }
+    const _queryId = sc_0.loadUintBig(64);
+    return { $$type: 'Deploy' as const, queryId: _queryId };
+}
+
+export type AddKey = {
+    $$type: 'AddKey';
+    queryId: bigint;
+    key: bigint;
+    purpose: bigint;
+    keyType: bigint;
+}
+
+export function storeAddKey(src: AddKey) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0x97bdca54, 32); // AddKey{queryId:uint64,key:int257,purpose:int257,keyType:int257}
+        b_0.storeUint(src.queryId, 64);
+        b_0.storeInt(src.key, 257);
+        b_0.storeInt(src.purpose, 257);
+        b_0.storeInt(src.keyType, 257);
+    };
+}
+
+export function loadAddKey(slice: Slice): AddKey {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x97bdca54) { throw Error('Invalid prefix'); }
+    const _queryId = sc_0.loadUintBig(64);
+    const _key = sc_0.loadIntBig(257);
+    const _purpose = sc_0.loadIntBig(257);
+    const _keyType = sc_0.loadIntBig(257);
+    return { $$type: 'AddKey' as const, queryId: _queryId, key: _key, purpose: _purpose, keyType: _keyType };
+}
+
+export type RemoveKey = {
+    $$type: 'RemoveKey';
+    queryId: bigint;
+    key: bigint;
+    purpose: bigint;
+}
+
+export function storeRemoveKey(src: RemoveKey) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0x61dfb77a, 32); // RemoveKey{queryId:uint64,key:int257,purpose:int257}
+        b_0.storeUint(src.queryId, 64);
+        b_0.storeInt(src.key, 257);
+        b_0.storeInt(src.purpose, 257);
+    };
+}
+
+export function loadRemoveKey(slice: Slice): RemoveKey {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x61dfb77a) { throw Error('Invalid prefix'); }
+    const _queryId = sc_0.loadUintBig(64);
+    const _key = sc_0.loadIntBig(257);
+    const _purpose = sc_0.loadIntBig(257);
+    return { $$type: 'RemoveKey' as const, queryId: _queryId, key: _key, purpose: _purpose };
+}
+
+export type ExecuteAction = {
+    $$type: 'ExecuteAction';
+    queryId: bigint;
+    to: Address;
+    value: bigint;
+    data: Slice;
+}
+
+export function storeExecuteAction(src: ExecuteAction) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0x9b3a70e0, 32); // ExecuteAction{queryId:uint64,to:address,value:int257,data:^slice}
+        b_0.storeUint(src.queryId, 64);
+        b_0.storeAddress(src.to);
+        b_0.storeInt(src.value, 257);
+        b_0.storeRef(src.data.asCell());
+    };
+}
+
+export function loadExecuteAction(slice: Slice): ExecuteAction {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x9b3a70e0) { throw Error('Invalid prefix'); }
+    const _queryId = sc_0.loadUintBig(64);
+    const _to = sc_0.loadAddress();
+    const _value = sc_0.loadIntBig(257);
+    const _data = sc_0.loadRef().asSlice();
+    return { $$type: 'ExecuteAction' as const, queryId: _queryId, to: _to, value: _value, data: _data };
+}
+
+export type ApproveExecution = {
+    $$type: 'ApproveExecution';
+    queryId: bigint;
+    executionId: bigint;
+    approve: boolean;
+}
+
+export function storeApproveExecution(src: ApproveExecution) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0x88d30dbb, 32); // ApproveExecution{queryId:uint64,executionId:int257,approve:bool}
+        b_0.storeUint(src.queryId, 64);
+        b_0.storeInt(src.executionId, 257);
+        b_0.storeBit(src.approve);
+    };
+}
+
+export function loadApproveExecution(slice: Slice): ApproveExecution {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x88d30dbb) { throw Error('Invalid prefix'); }
+    const _queryId = sc_0.loadUintBig(64);
+    const _executionId = sc_0.loadIntBig(257);
+    const _approve = sc_0.loadBit();
+    return { $$type: 'ApproveExecution' as const, queryId: _queryId, executionId: _executionId, approve: _approve };
+}
+
+export type SetRequiredApprovals = {
+    $$type: 'SetRequiredApprovals';
+    queryId: bigint;
+    requiredApprovals: bigint;
+}
+
+export function storeSetRequiredApprovals(src: SetRequiredApprovals) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0xb03d7372, 32); // SetRequiredApprovals{queryId:uint64,requiredApprovals:int257}
+        b_0.storeUint(src.queryId, 64);
+        b_0.storeInt(src.requiredApprovals, 257);
+    };
+}
+
+export function loadSetRequiredApprovals(slice: Slice): SetRequiredApprovals {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xb03d7372) { throw Error('Invalid prefix'); }
+    const _queryId = sc_0.loadUintBig(64);
+    const _requiredApprovals = sc_0.loadIntBig(257);
+    return { $$type: 'SetRequiredApprovals' as const, queryId: _queryId, requiredApprovals: _requiredApprovals };
+}
+
+export type AddClaim = {
+    $$type: 'AddClaim';
+    queryId: bigint;
+    topic: bigint;
+    scheme: bigint;
+    issuer: Address;
+    signature: Slice;
+    data: Slice;
+    uri: string;
+}
+
+export function storeAddClaim(src: AddClaim) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0x992814bb, 32); // AddClaim{queryId:uint64,topic:int257,scheme:int257,issuer:address,signature:^slice,data:^slice,uri:^string}
+        b_0.storeUint(src.queryId, 64);
+        b_0.storeInt(src.topic, 257);
+        b_0.storeInt(src.scheme, 257);
+        b_0.storeAddress(src.issuer);
+        b_0.storeRef(src.signature.asCell());
+        b_0.storeRef(src.data.asCell());
+        b_0.storeStringRefTail(src.uri);
+    };
+}
 
-export function tonIdentityConfigToCell(config: TonIdentityConfig): Cell {
-    return beginCell()
-        .storeAddress(config.owner)
-        .storeUint(config.nextKeyId, 64)
-        .storeUint(config.executionNonce, 64)
-        .endCell();
+export function loadAddClaim(slice: Slice): AddClaim {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x992814bb) { throw Error('Invalid prefix'); }
+    const _queryId = sc_0.loadUintBig(64);
+    const _topic = sc_0.loadIntBig(257);
+    const _scheme = sc_0.loadIntBig(257);
+    const _issuer = sc_0.loadAddress();
+    const _signature = sc_0.loadRef().asSlice();
+    const _data = sc_0.loadRef().asSlice();
+    const _uri = sc_0.loadStringRefTail();
+    return { $$type: 'AddClaim' as const, queryId: _queryId, topic: _topic, scheme: _scheme, issuer: _issuer, signature: _signature, data: _data, uri: _uri };
+}
+
+export type RemoveClaim = {
+    $$type: 'RemoveClaim';
+    queryId: bigint;
+    claimId: bigint;
+}
+
+export function storeRemoveClaim(src: RemoveClaim) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0x6ec8cfb0, 32); // RemoveClaim{queryId:uint64,claimId:int257}
+        b_0.storeUint(src.queryId, 64);
+        b_0.storeInt(src.claimId, 257);
+    };
+}
+
+export function loadRemoveClaim(slice: Slice): RemoveClaim {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x6ec8cfb0) { throw Error('Invalid prefix'); }
+    const _queryId = sc_0.loadUintBig(64);
+    const _claimId = sc_0.loadIntBig(257);
+    return { $$type: 'RemoveClaim' as const, queryId: _queryId, claimId: _claimId };
+}
+
+export type UpgradeCode = {
+    $$type: 'UpgradeCode';
+    queryId: bigint;
+    code: Cell;
+    version: string;
+}
+
+export function storeUpgradeCode(src: UpgradeCode) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0x6cc779a7, 32); // UpgradeCode{queryId:uint64,code:^cell,version:^string}
+        b_0.storeUint(src.queryId, 64);
+        b_0.storeRef(src.code);
+        b_0.storeStringRefTail(src.version);
+    };
+}
+
+export function loadUpgradeCode(slice: Slice): UpgradeCode {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x6cc779a7) { throw Error('Invalid prefix'); }
+    const _queryId = sc_0.loadUintBig(64);
+    const _code = sc_0.loadRef();
+    const _version = sc_0.loadStringRefTail();
+    return { $$type: 'UpgradeCode' as const, queryId: _queryId, code: _code, version: _version };
+}
+
+// Getter results. Tact returns structs as tuples and maps as dictionary
+// cells; removed entries stay in the map with a `false` value, so only
+// `true` entries are surfaced here.
+
+export type Key = {
+    purposes: Set<KeyPurpose>;
+    keyType: bigint;
+    key: bigint;
+}
+
+export type Claim = {
+    topic: bigint;
+    scheme: bigint;
+    issuer: Address;
+    signature: Slice;
+    data: Slice;
+    uri: string;
+}
+
+export type ExecutionRequest = {
+    to: Address;
+    value: bigint;
+    data: Slice;
+    approved: boolean;
+    executed: boolean;
+    rejected: boolean;
+    approvals: bigint[];   // key hashes that approved
+    rejections: bigint[];  // key hashes that rejected
+}
+
+function loadBoolMapKeys(cell: Cell | null, value = true): bigint[] {
+    const dict = Dictionary.loadDirect(Dictionary.Keys.BigInt(257), Dictionary.Values.Bool(), cell);
+    return dict.keys().filter((k) => dict.get(k) === value);
+}
+
+function loadTupleKey(source: TupleReader): Key {
+    const _purposes = loadBoolMapKeys(source.readCellOpt());
+    const _keyType = source.readBigNumber();
+    const _key = source.readBigNumber();
+    return { purposes: new Set(_purposes.map((p) => Number(p))), keyType: _keyType, key: _key };
+}
+
+function loadTupleExecutionRequest(source: TupleReader): ExecutionRequest {
+    const _to = source.readAddress();
+    const _value = source.readBigNumber();
+    const _data = source.readCell().asSlice();
+    const _approved = source.readBoolean();
+    const _executed = source.readBoolean();
+    const _rejected = source.readBoolean();
+    const _approvals = source.readCellOpt();
+    return {
+        to: _to,
+        value: _value,
+        data: _data,
+        approved: _approved,
+        executed: _executed,
+        rejected: _rejected,
+        approvals: loadBoolMapKeys(_approvals, true),
+        rejections: loadBoolMapKeys(_approvals, false)
+    };
+}
+
+function loadTupleClaim(source: TupleReader): Claim {
+    const _topic = source.readBigNumber();
+    const _scheme = source.readBigNumber();
+    const _issuer = source.readAddress();
+    const _signature = source.readCell().asSlice();
+    const _data = source.readCell().asSlice();
+    const _uri = source.readString();
+    return { topic: _topic, scheme: _scheme, issuer: _issuer, signature: _signature, data: _data, uri: _uri };
 }
 
 const TonIdentityABI: ContractABI = {
@@ -57,19 +361,38 @@ const TonIdentityABI: ContractABI = {
                     }
                 }
             ]
-        }
+        },
+        {"name": "Deploy", "header": 2490013878, "fields": [{"name": "queryId", "type": {"kind": "simple", "type": "uint", "optional": false, "format": 64}}]},
+        {"name": "AddKey", "header": 2545797716, "fields": [{"name": "queryId", "type": {"kind": "simple", "type": "uint", "optional": false, "format": 64}}, {"name": "key", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}, {"name": "purpose", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}, {"name": "keyType", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}]},
+        {"name": "RemoveKey", "header": 1642051450, "fields": [{"name": "queryId", "type": {"kind": "simple", "type": "uint", "optional": false, "format": 64}}, {"name": "key", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}, {"name": "purpose", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}]},
+        {"name": "ExecuteAction", "header": 2604298464, "fields": [{"name": "queryId", "type": {"kind": "simple", "type": "uint", "optional": false, "format": 64}}, {"name": "to", "type": {"kind": "simple", "type": "address", "optional": false}}, {"name": "value", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}, {"name": "data", "type": {"kind": "simple", "type": "slice", "optional": false}}]},
+        {"name": "ApproveExecution", "header": 2295532987, "fields": [{"name": "queryId", "type": {"kind": "simple", "type": "uint", "optional": false, "format": 64}}, {"name": "executionId", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}, {"name": "approve", "type": {"kind": "simple", "type": "bool", "optional": false}}]},
+        {"name": "SetRequiredApprovals", "header": 2956817266, "fields": [{"name": "queryId", "type": {"kind": "simple", "type": "uint", "optional": false, "format": 64}}, {"name": "requiredApprovals", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}]},
+        {"name": "AddClaim", "header": 2569540795, "fields": [{"name": "queryId", "type": {"kind": "simple", "type": "uint", "optional": false, "format": 64}}, {"name": "topic", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}, {"name": "scheme", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}, {"name": "issuer", "type": {"kind": "simple", "type": "address", "optional": false}}, {"name": "signature", "type": {"kind": "simple", "type": "slice", "optional": false}}, {"name": "data", "type": {"kind": "simple", "type": "slice", "optional": false}}, {"name": "uri", "type": {"kind": "simple", "type": "string", "optional": false}}]},
+        {"name": "RemoveClaim", "header": 1858654128, "fields": [{"name": "queryId", "type": {"kind": "simple", "type": "uint", "optional": false, "format": 64}}, {"name": "claimId", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}]},
+        {"name": "UpgradeCode", "header": 1825012135, "fields": [{"name": "queryId", "type": {"kind": "simple", "type": "uint", "optional": false, "format": 64}}, {"name": "code", "type": {"kind": "simple", "type": "cell", "optional": false}}, {"name": "version", "type": {"kind": "simple", "type": "string", "optional": false}}]}
     ],
     receivers: [
         {"receiver": "internal", "message": {"kind": "typed", "type": "AddKey"}},
         {"receiver": "internal", "message": {"kind": "typed", "type": "RemoveKey"}},
-        {"receiver": "internal", "message": {"kind": "typed", "type": "Execute"}},
-        {"receiver": "internal", "message": {"kind": "text", "text": "Deploy"}}
+        {"receiver": "internal", "message": {"kind": "typed", "type": "ExecuteAction"}},
+        {"receiver": "internal", "message": {"kind": "typed", "type": "ApproveExecution"}},
+        {"receiver": "internal", "message": {"kind": "typed", "type": "SetRequiredApprovals"}},
+        {"receiver": "internal", "message": {"kind": "typed", "type": "AddClaim"}},
+        {"receiver": "internal", "message": {"kind": "typed", "type": "RemoveClaim"}},
+        {"receiver": "internal", "message": {"kind": "typed", "type": "UpgradeCode"}},
+        {"receiver": "internal", "message": {"kind": "typed", "type": "Deploy"}}
     ],
     getters: [
-        {"name": "getKey", "arguments": [{"name": "key", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}], "returnType": {"kind": "simple", "type": "int", "optional": false, "format": 257}},
-        {"name": "keyHasPurpose", "arguments": [{"name": "key", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}, {"name": "purpose", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}], "returnType": {"kind": "simple", "type": "int", "optional": false, "format": 257}},
-        {"name": "getKeysByPurpose", "arguments": [{"name": "purpose", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}], "returnType": {"kind": "simple", "type": "cell", "optional": false}},
-        {"name": "getExecutionNonce", "arguments": [], "returnType": {"kind": "simple", "type": "int", "optional": false, "format": 257}}
+        {"name": "getKey", "arguments": [{"name": "key", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}], "returnType": {"kind": "simple", "type": "Key", "optional": true}},
+        {"name": "keyHasPurpose", "arguments": [{"name": "key", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}, {"name": "purpose", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}], "returnType": {"kind": "simple", "type": "bool", "optional": false}},
+        {"name": "getKeysByPurpose", "arguments": [{"name": "purpose", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}], "returnType": {"kind": "dict", "key": "int", "value": "bool"}},
+        {"name": "getClaim", "arguments": [{"name": "claimId", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}], "returnType": {"kind": "simple", "type": "Claim", "optional": true}},
+        {"name": "getClaimIdsByTopic", "arguments": [{"name": "topic", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}], "returnType": {"kind": "dict", "key": "int", "value": "bool"}},
+        {"name": "hasValidClaim", "arguments": [{"name": "topic", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}, {"name": "issuer", "type": {"kind": "simple", "type": "address", "optional": false}}], "returnType": {"kind": "simple", "type": "bool", "optional": false}},
+        {"name": "getExecutionRequest", "arguments": [{"name": "executionId", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}], "returnType": {"kind": "simple", "type": "ExecutionRequest", "optional": true}},
+        {"name": "getExecutionNonce", "arguments": [], "returnType": {"kind": "simple", "type": "int", "optional": false, "format": 257}},
+        {"name": "getRequiredApprovals", "arguments": [], "returnType": {"kind": "simple", "type": "int", "optional": false, "format": 257}}
     ],
     errors: {
         2: { message: "Stack underflow" },
@@ -108,17 +431,27 @@ const TonIdentityABI: ContractABI = {
 }
 
 const TonIdentity_getters: ABIGetter[] = [
-    {"name": "getKey", "arguments": [{"name": "key", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}], "returnType": {"kind": "simple", "type": "int", "optional": false, "format": 257}},
-    {"name": "keyHasPurpose", "arguments": [{"name": "key", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}, {"name": "purpose", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}], "returnType": {"kind": "simple", "type": "int", "optional": false, "format": 257}},
-    {"name": "getKeysByPurpose", "arguments": [{"name": "purpose", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}], "returnType": {"kind": "simple", "type": "cell", "optional": false}},
-    {"name": "getExecutionNonce", "arguments": [], "returnType": {"kind": "simple", "type": "int", "optional": false, "format": 257}}
+    {"name": "getKey", "arguments": [{"name": "key", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}], "returnType": {"kind": "simple", "type": "Key", "optional": true}},
+    {"name": "keyHasPurpose", "arguments": [{"name": "key", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}, {"name": "purpose", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}], "returnType": {"kind": "simple", "type": "bool", "optional": false}},
+    {"name": "getKeysByPurpose", "arguments": [{"name": "purpose", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}], "returnType": {"kind": "dict", "key": "int", "value": "bool"}},
+    {"name": "getClaim", "arguments": [{"name": "claimId", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}], "returnType": {"kind": "simple", "type": "Claim", "optional": true}},
+    {"name": "getClaimIdsByTopic", "arguments": [{"name": "topic", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}], "returnType": {"kind": "dict", "key": "int", "value": "bool"}},
+    {"name": "hasValidClaim", "arguments": [{"name": "topic", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}, {"name": "issuer", "type": {"kind": "simple", "type": "address", "optional": false}}], "returnType": {"kind": "simple", "type": "bool", "optional": false}},
+    {"name": "getExecutionRequest", "arguments": [{"name": "executionId", "type": {"kind": "simple", "type": "int", "optional": false, "format": 257}}], "returnType": {"kind": "simple", "type": "ExecutionRequest", "optional": true}},
+    {"name": "getExecutionNonce", "arguments": [], "returnType": {"kind": "simple", "type": "int", "optional": false, "format": 257}},
+    {"name": "getRequiredApprovals", "arguments": [], "returnType": {"kind": "simple", "type": "int", "optional": false, "format": 257}}
 ];
 
 const TonIdentity_receivers: ABIReceiver[] = [
     {"receiver": "internal", "message": {"kind": "typed", "type": "AddKey"}},
     {"receiver": "internal", "message": {"kind": "typed", "type": "RemoveKey"}},
-    {"receiver": "internal", "message": {"kind": "typed", "type": "Execute"}},
-    {"receiver": "internal", "message": {"kind": "text", "text": "Deploy"}}
+    {"receiver": "internal", "message": {"kind": "typed", "type": "ExecuteAction"}},
+    {"receiver": "internal", "message": {"kind": "typed", "type": "ApproveExecution"}},
+    {"receiver": "internal", "message": {"kind": "typed", "type": "SetRequiredApprovals"}},
+    {"receiver": "internal", "message": {"kind": "typed", "type": "AddClaim"}},
+    {"receiver": "internal", "message": {"kind": "typed", "type": "RemoveClaim"}},
+    {"receiver": "internal", "message": {"kind": "typed", "type": "UpgradeCode"}},
+    {"receiver": "internal", "message": {"kind": "typed", "type": "Deploy"}}
 ];
 
 export class TonIdentity implements Contract {
@@ -127,19 +460,19 @@ export class TonIdentity implements Contract {
         return new TonIdentity(address);
     }
     
-    static createFromConfig(config: TonIdentityConfig, code: Cell, workchain = 0) {
-        const data = tonIdentityConfigToCell(config);
-        const init = { code, data };
-        return new TonIdentity(contractAddress(workchain, init), init);
+    // Code and initial data as compiled by Tact for init(initialManagementKey)
+    static async fromInit(initialManagementKey: Address, workchain = 0) {
+        const { init } = await TactTonIdentity.fromInit(initialManagementKey);
+        return new TonIdentity(contractAddress(workchain, init!), init);
     }
     
     constructor(readonly address: Address, readonly init?: { code: Cell; data: Cell }) {}
     
-    async sendDeploy(provider: ContractProvider, via: Sender, value: bigint) {
+    async sendDeploy(provider: ContractProvider, via: Sender, value: bigint, queryId: bigint = 0n) {
         await provider.internal(via, {
             value,
             sendMode: 1,
-            body: beginCell().storeUint(0, 32).storeStringTail("Deploy").endCell(),
+            body: beginCell().store(storeDeploy({ $$type: 'Deploy', queryId })).endCell(),
         });
     }
     
@@ -148,19 +481,23 @@ export class TonIdentity implements Contract {
         via: Sender,
         opts: {
             value: bigint;
+            queryId?: bigint;
             key: bigint;
-            purpose: bigint;
-            keyType: bigint;
+            purpose: KeyPurpose | bigint;
+            keyType: KeyType | bigint;
         }
     ) {
         await provider.internal(via, {
             value: opts.value,
             sendMode: 1,
             body: beginCell()
-                .storeUint(0x12345678, 32) // AddKey opcode
-                .storeUint(opts.key, 256)
-                .storeUint(opts.purpose, 8)
-                .storeUint(opts.keyType, 8)
+                .store(storeAddKey({
+                    $$type: 'AddKey',
+                    queryId: opts.queryId ?? 0n,
+                    key: opts.key,
+                    purpose: BigInt(opts.purpose),
+                    keyType: BigInt(opts.keyType)
+                }))
                 .endCell(),
         });
     }
@@ -170,17 +507,21 @@ export class TonIdentity implements Contract {
         via: Sender,
         opts: {
             value: bigint;
+            queryId?: bigint;
             key: bigint;
-            purpose: bigint;
+            purpose: KeyPurpose | bigint;
         }
     ) {
         await provider.internal(via, {
             value: opts.value,
             sendMode: 1,
             body: beginCell()
-                .storeUint(0x87654321, 32) // RemoveKey opcode
-                .storeUint(opts.key, 256)
-                .storeUint(opts.purpose, 8)
+                .store(storeRemoveKey({
+                    $$type: 'RemoveKey',
+                    queryId: opts.queryId ?? 0n,
+                    key: opts.key,
+                    purpose: BigInt(opts.purpose)
+                }))
                 .endCell(),
         });
     }
@@ -190,6 +531,7 @@ export class TonIdentity implements Contract {
         via: Sender,
         opts: {
             value: bigint;
+            queryId?: bigint;
             to: Address;
             amount: bigint;
             data: Cell;
@@ -199,47 +541,221 @@ export class TonIdentity implements Contract {
             value: opts.value,
             sendMode: 1,
             body: beginCell()
-                .storeUint(0xabcdef12, 32) // Execute opcode
-                .storeAddress(opts.to)
-                .storeCoins(opts.amount)
-                .storeRef(opts.data)
+                .store(storeExecuteAction({
+                    $$type: 'ExecuteAction',
+                    queryId: opts.queryId ?? 0n,
+                    to: opts.to,
+                    value: opts.amount,
+                    data: opts.data.asSlice()
+                }))
                 .endCell(),
         });
     }
     
-    async getGetKey(provider: ContractProvider, key: bigint): Promise<{
-        purpose: bigint;
-        keyType: bigint;
-        exists: bigint;
-    }> {
+    async sendApproveExecution(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            queryId?: bigint;
+            executionId: bigint;
+            approve: boolean;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeApproveExecution({
+                    $$type: 'ApproveExecution',
+                    queryId: opts.queryId ?? 0n,
+                    executionId: opts.executionId,
+                    approve: opts.approve
+                }))
+                .endCell(),
+        });
+    }
+    
+    async sendSetRequiredApprovals(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            queryId?: bigint;
+            requiredApprovals: bigint;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeSetRequiredApprovals({
+                    $$type: 'SetRequiredApprovals',
+                    queryId: opts.queryId ?? 0n,
+                    requiredApprovals: opts.requiredApprovals
+                }))
+                .endCell(),
+        });
+    }
+    
+    async sendAddClaim(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            queryId?: bigint;
+            topic: bigint;
+            scheme: bigint;
+            issuer: Address;
+            signature: Cell;
+            data: Cell;
+            uri: string;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeAddClaim({
+                    $$type: 'AddClaim',
+                    queryId: opts.queryId ?? 0n,
+                    topic: opts.topic,
+                    scheme: opts.scheme,
+                    issuer: opts.issuer,
+                    signature: opts.signature.asSlice(),
+                    data: opts.data.asSlice(),
+                    uri: opts.uri
+                }))
+                .endCell(),
+        });
+    }
+    
+    async sendRemoveClaim(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            queryId?: bigint;
+            claimId: bigint;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeRemoveClaim({
+                    $$type: 'RemoveClaim',
+                    queryId: opts.queryId ?? 0n,
+                    claimId: opts.claimId
+                }))
+                .endCell(),
+        });
+    }
+    
+    async sendUpgradeCode(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            queryId?: bigint;
+            code: Cell;
+            version: string;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeUpgradeCode({
+                    $$type: 'UpgradeCode',
+                    queryId: opts.queryId ?? 0n,
+                    code: opts.code,
+                    version: opts.version
+                }))
+                .endCell(),
+        });
+    }
+    
+    async getGetKey(provider: ContractProvider, key: bigint): Promise<Key | null> {
         const result = await provider.get('getKey', [
             { type: 'int', value: key }
         ]);
-        return {
-            purpose: result.stack.readBigNumber(),
-            keyType: result.stack.readBigNumber(),
-            exists: result.stack.readBigNumber()
-        };
+        const tuple = result.stack.readTupleOpt();
+        return tuple ? loadTupleKey(tuple) : null;
     }
     
-    async getKeyHasPurpose(provider: ContractProvider, key: bigint, purpose: bigint): Promise<bigint> {
+    async getKeyHasPurpose(provider: ContractProvider, key: bigint, purpose: KeyPurpose | bigint): Promise<boolean> {
         const result = await provider.get('keyHasPurpose', [
             { type: 'int', value: key },
-            { type: 'int', value: purpose }
+            { type: 'int', value: BigInt(purpose) }
         ]);
-        return result.stack.readBigNumber();
+        return result.stack.readBoolean();
     }
     
-    async getGetKeysByPurpose(provider: ContractProvider, purpose: bigint): Promise<Cell> {
+    async getGetKeysByPurpose(provider: ContractProvider, purpose: KeyPurpose | bigint): Promise<bigint[]> {
         const result = await provider.get('getKeysByPurpose', [
-            { type: 'int', value: purpose }
+            { type: 'int', value: BigInt(purpose) }
         ]);
-        return result.stack.readCell();
+        return loadBoolMapKeys(result.stack.readCellOpt());
+    }
+    
+    async getGetClaim(provider: ContractProvider, claimId: bigint): Promise<Claim | null> {
+        const result = await provider.get('getClaim', [
+            { type: 'int', value: claimId }
+        ]);
+        const tuple = result.stack.readTupleOpt();
+        return tuple ? loadTupleClaim(tuple) : null;
+    }
+    
+    async getGetClaimIdsByTopic(provider: ContractProvider, topic: bigint): Promise<bigint[]> {
+        const result = await provider.get('getClaimIdsByTopic', [
+            { type: 'int', value: topic }
+        ]);
+        return loadBoolMapKeys(result.stack.readCellOpt());
+    }
+    
+    async getHasValidClaim(provider: ContractProvider, topic: bigint, issuer: Address): Promise<boolean> {
+        const result = await provider.get('hasValidClaim', [
+            { type: 'int', value: topic },
+            { type: 'slice', cell: beginCell().storeAddress(issuer).endCell() }
+        ]);
+        return result.stack.readBoolean();
+    }
+    
+    async getGetExecutionRequest(provider: ContractProvider, executionId: bigint): Promise<ExecutionRequest | null> {
+        const result = await provider.get('getExecutionRequest', [
+            { type: 'int', value: executionId }
+        ]);
+        const tuple = result.stack.readTupleOpt();
+        return tuple ? loadTupleExecutionRequest(tuple) : null;
     }
     
     async getGetExecutionNonce(provider: ContractProvider): Promise<bigint> {
         const result = await provider.get('getExecutionNonce', []);
         return result.stack.readBigNumber();
     }
+    
+    async getGetRequiredApprovals(provider: ContractProvider): Promise<bigint> {
+        const result = await provider.get('getRequiredApprovals', []);
+        return result.stack.readBigNumber();
+    }
+    
+    // Hash of the code the account currently runs; null until it is active
+    async getCodeHash(provider: ContractProvider): Promise<Buffer | null> {
+        const state = await provider.getState();
+        if (state.state.type !== 'active' || !state.state.code) {
+            return null;
+        }
+        return Cell.fromBoc(state.state.code)[0].hash();
+    }
 }
 
+
+// An opened TonIdentity, whether provider-backed (`provider.open`) or a
+// SandboxContract. Send methods differ in what they resolve with, so only
+// completion is relied upon.
+export type TonIdentityClient = {
+    [K in keyof TonIdentity]: TonIdentity[K] extends (provider: ContractProvider, ...args: infer A) => Promise<infer R>
+        ? (...args: A) => Promise<K extends `send${string}` ? unknown : R>
+        : TonIdentity[K];
+};
@@ -0,0 +1,124 @@
+import { Blockchain, SandboxContract, TreasuryContract } from '@ton/sandbox';
+import { Address, Cell, toNano } from '@ton/core';
+import { TonIdentityFactory } from '../wrappers/TonIdentityFactory';
+import {
+    buildIdentityStateInit,
+    IdentityAddressPredictor,
+    predictIdentityAddress
+} from '../wrappers/TonIdentityAddress';
+import '@ton/test-utils';
+import { compile } from '@ton/blueprint';
+
+describe('TonIdentityAddress', () => {
+    let identityCode: Cell;
+
+    beforeAll(async () => {
+        identityCode = await compile('TonIdentity');
+    });
+
+    let blockchain: Blockchain;
+    let deployer: SandboxContract<TreasuryContract>;
+    let factory: SandboxContract<TonIdentityFactory>;
+
+    beforeEach(async () => {
+        blockchain = await Blockchain.create();
+
+        deployer = await blockchain.treasury('deployer');
+
+        factory = blockchain.openContract(
+            await TonIdentityFactory.fromInit(identityCode, '1.0.0', toNano('0.05'))
+        );
+
+        await factory.sendDeploy(deployer.getSender(), toNano('0.05'));
+    });
+
+    // Deterministic pseudo-random salts across the whole int256 range
+    function saltAt(i: number): bigint {
+        let x = BigInt(i + 1) * 0x9e3779b97f4a7c15n;
+        x = (x ^ (x << 64n) ^ (x << 128n) ^ (x << 192n)) & (2n ** 256n - 1n);
+        return x - 2n ** 255n;
+    }
+
+    describe('Parity', () => {
+        it('should match calculateIdentityAddress for random owners and salts', async () => {
+            for (let i = 0; i < 25; i++) {
+                const owner = await blockchain.treasury(`owner-${i}`);
+                const salt = saltAt(i);
+
+                const onChain = await factory.getCalculateIdentityAddress(owner.address, salt);
+                expect(predictIdentityAddress(identityCode, owner.address, salt).equals(onChain)).toBe(true);
+            }
+        });
+
+        it('should match at the edges of the salt range', async () => {
+            for (const salt of [0n, 1n, -1n, 2n ** 255n - 1n, -(2n ** 255n)]) {
+                const onChain = await factory.getCalculateIdentityAddress(deployer.address, salt);
+                expect(predictIdentityAddress(identityCode, deployer.address, salt).equals(onChain)).toBe(true);
+            }
+        });
+
+        it('should match the address the factory actually deploys to', async () => {
+            const owner = await blockchain.treasury('deployed-owner');
+            const salt = 424242n;
+
+            await factory.sendDeployIdentity(
+                owner.getSender(),
+                {
+                    value: toNano('1'),
+                    managementKey: owner.address,
+                    salt: salt
+                }
+            );
+
+            const entry = await factory.getGetIdentityByOwner(owner.address);
+            expect(predictIdentityAddress(identityCode, owner.address, salt).equals(entry!.identity)).toBe(true);
+        });
+
+        it('should follow implementation updates after refresh', async () => {
+            const predictor = await IdentityAddressPredictor.fromFactory(factory);
+            const newImplementation = await compile('TonClaimIssuer'); // any different code cell
+
+            await factory.sendUpdateImplementation(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    newImplementation: newImplementation,
+                    version: '2.0.0'
+                }
+            );
+
+            const onChain = await factory.getCalculateIdentityAddress(deployer.address, 7n);
+            expect(predictor.predict(deployer.address, 7n).equals(onChain)).toBe(false);
+
+            await predictor.refresh(factory);
+            expect(predictor.predict(deployer.address, 7n).equals(onChain)).toBe(true);
+        });
+    });
+
+    describe('Local Prediction', () => {
+        it('should predict a batch without network calls', async () => {
+            const predictor = new IdentityAddressPredictor(identityCode);
+            const entries = Array.from({ length: 1000 }, (_, i) => ({
+                owner: new Address(0, Buffer.alloc(32, i % 256)),
+                salt: BigInt(i)
+            }));
+
+            const addresses = predictor.predictAll(entries);
+
+            expect(new Set(addresses.map((a) => a.toString())).size).toBe(entries.length);
+        });
+
+        it('should lay out state init data as owner followed by int256 salt', () => {
+            const init = buildIdentityStateInit(identityCode, deployer.address, -5n);
+            const data = init.data!.beginParse();
+
+            expect(data.loadAddress().equals(deployer.address)).toBe(true);
+            expect(data.loadIntBig(256)).toBe(-5n);
+            expect(data.remainingBits).toBe(0);
+        });
+
+        it('should reject salts outside int256', () => {
+            expect(() => predictIdentityAddress(identityCode, deployer.address, 2n ** 255n)).toThrow('int256');
+        });
+    });
+});
@@ -0,0 +1,60 @@
+import { Address, beginCell, Cell, contractAddress, StateInit } from '@ton/core';
+import { TonIdentityFactoryClient } from './TonIdentityFactory';
+
+const MIN_SALT = -(2n ** 255n);
+const MAX_SALT = 2n ** 255n - 1n;
+
+/**
+ * State init the factory deploys for `owner`/`salt`. Mirrors
+ * `buildIdentityStateInit` in TonIdentityFactory.tact: the data cell is the
+ * owner address followed by the salt as a signed 256-bit integer.
+ */
+export function buildIdentityStateInit(identityCode: Cell, owner: Address, salt: bigint): StateInit {
+    if (salt < MIN_SALT || salt > MAX_SALT) {
+        throw new Error(`Salt ${salt} does not fit in int256`);
+    }
+    return {
+        code: identityCode,
+        data: beginCell()
+            .storeAddress(owner)
+            .storeInt(salt, 256)
+            .endCell()
+    };
+}
+
+/**
+ * Identity address for `owner`/`salt`, computed locally. Gives the same
+ * result as the factory's `calculateIdentityAddress` getter as long as
+ * `identityCode` is the factory's current implementation; identities
+ * deployed before an `UpdateImplementation` keep their old address. Tact's
+ * `contractAddress` always targets the basechain, hence workchain 0.
+ */
+export function predictIdentityAddress(identityCode: Cell, owner: Address, salt: bigint, workchain = 0): Address {
+    return contractAddress(workchain, buildIdentityStateInit(identityCode, owner, salt));
+}
+
+/**
+ * Predicts addresses for many owners against one factory. The identity code
+ * is read once from `getImplementationInfo`; call `refresh` after the
+ * factory's implementation changes.
+ */
+export class IdentityAddressPredictor {
+    constructor(public identityCode: Cell, readonly workchain = 0) {}
+
+    static async fromFactory(factory: TonIdentityFactoryClient): Promise<IdentityAddressPredictor> {
+        const info = await factory.getGetImplementationInfo();
+        return new IdentityAddressPredictor(info.implementation);
+    }
+
+    async refresh(factory: TonIdentityFactoryClient) {
+        this.identityCode = (await factory.getGetImplementationInfo()).implementation;
+    }
+
+    predict(owner: Address, salt: bigint): Address {
+        return predictIdentityAddress(this.identityCode, owner, salt, this.workchain);
+    }
+
+    predictAll(entries: { owner: Address; salt: bigint }[]): Address[] {
+        return entries.map((entry) => this.predict(entry.owner, entry.salt));
+    }
+}
@@ -0,0 +1,239 @@
+import { Blockchain, SandboxContract, TreasuryContract } from '@ton/sandbox';
+import { Address, Cell, Sender, SenderArguments, toNano } from '@ton/core';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { TonIdentity } from '../wrappers/TonIdentity';
+import { TonIdentityFactory } from '../wrappers/TonIdentityFactory';
+import {
+    BatchDeployEntry,
+    BatchIdentityDeployer,
+    loadBatchReport
+} from '../wrappers/TonIdentityBatchDeployer';
+import '@ton/test-utils';
+import { compile } from '@ton/blueprint';
+
+describe('BatchIdentityDeployer', () => {
+    let identityCode: Cell;
+
+    beforeAll(async () => {
+        identityCode = await compile('TonIdentity');
+    });
+
+    let blockchain: Blockchain;
+    let deployer: SandboxContract<TreasuryContract>;
+    let factory: SandboxContract<TonIdentityFactory>;
+
+    const fastPolling = { pollIntervalMs: 0, timeoutMs: 0 };
+    const openIdentity = (address: Address) => blockchain.openContract(TonIdentity.createFromAddress(address));
+
+    async function owners(count: number, prefix = 'owner'): Promise<BatchDeployEntry[]> {
+        const entries: BatchDeployEntry[] = [];
+        for (let i = 0; i < count; i++) {
+            const owner = await blockchain.treasury(`${prefix}-${i}`);
+            entries.push({ owner: owner.address, salt: BigInt(1000 + i) });
+        }
+        return entries;
+    }
+
+    // Drops the first `drops` messages, as if they never left the wallet
+    function lossySender(inner: Sender, drops: number): Sender {
+        let dropped = 0;
+        return {
+            address: inner.address,
+            send: async (args: SenderArguments) => {
+                if (dropped < drops) {
+                    dropped++;
+                    return;
+                }
+                await inner.send(args);
+            }
+        };
+    }
+
+    beforeEach(async () => {
+        blockchain = await Blockchain.create();
+
+        deployer = await blockchain.treasury('deployer');
+
+        factory = blockchain.openContract(
+            await TonIdentityFactory.fromInit(identityCode, '1.0.0', toNano('0.05'))
+        );
+
+        await factory.sendDeploy(deployer.getSender(), toNano('0.05'));
+    });
+
+    describe('Deployment', () => {
+        it('should deploy and confirm every identity in the batch', async () => {
+            const batch = new BatchIdentityDeployer(factory, openIdentity, { ...fastPolling, batchSize: 2 });
+            batch.add(await owners(5));
+
+            const report = await batch.run(deployer.getSender());
+
+            expect(report.entries).toHaveLength(5);
+            expect(report.entries.every((e) => e.status === 'confirmed' && e.attempts === 1)).toBe(true);
+            expect((await factory.getGetFactoryStats()).totalDeployed).toBe(5n);
+        });
+
+        it('should pay the current deployment fee', async () => {
+            await factory.sendUpdateFee(deployer.getSender(), { value: toNano('0.05'), deploymentFee: toNano('2') });
+
+            const batch = new BatchIdentityDeployer(factory, openIdentity, fastPolling);
+            batch.add(await owners(2));
+
+            const report = await batch.run(deployer.getSender());
+            expect(report.entries.map((e) => e.status)).toEqual(['confirmed', 'confirmed']);
+        });
+
+        it('should wait for the wallet seqno between messages', async () => {
+            let seqno = 0;
+            const inner = deployer.getSender();
+            const counting: Sender = {
+                address: inner.address,
+                send: async (args) => {
+                    await inner.send(args);
+                    seqno++;
+                }
+            };
+
+            const batch = new BatchIdentityDeployer(factory, openIdentity, { ...fastPolling, getSeqno: async () => seqno });
+            batch.add(await owners(3));
+
+            const report = await batch.run(counting);
+            expect(seqno).toBe(3);
+            expect(report.entries.every((e) => e.status === 'confirmed')).toBe(true);
+        });
+
+        it('should skip owners that already have another identity', async () => {
+            const [entry] = await owners(1);
+            await factory.sendDeployIdentity(
+                deployer.getSender(),
+                {
+                    value: toNano('1'),
+                    managementKey: entry.owner,
+                    salt: 1n
+                }
+            );
+
+            const batch = new BatchIdentityDeployer(factory, openIdentity, fastPolling);
+            batch.add([entry]);
+
+            const report = await batch.run(deployer.getSender());
+            expect(report.entries[0].status).toBe('skipped');
+            expect(report.entries[0].attempts).toBe(0);
+        });
+    });
+
+    describe('Retry', () => {
+        it('should retry deployments that were not confirmed', async () => {
+            const progress: string[] = [];
+            const batch = new BatchIdentityDeployer(factory, openIdentity, {
+                ...fastPolling,
+                onProgress: (entry) => progress.push(entry.status)
+            });
+            batch.add(await owners(2));
+
+            const report = await batch.run(lossySender(deployer.getSender(), 1));
+
+            expect(report.entries[0].status).toBe('confirmed');
+            expect(report.entries[0].attempts).toBe(2);
+            expect(report.entries[1].attempts).toBe(1);
+            expect(progress).toContain('failed');
+        });
+
+        it('should give up after maxAttempts', async () => {
+            const batch = new BatchIdentityDeployer(factory, openIdentity, { ...fastPolling, maxAttempts: 2 });
+            batch.add(await owners(1));
+
+            const report = await batch.run(lossySender(deployer.getSender(), 5));
+
+            expect(report.entries[0].status).toBe('failed');
+            expect(report.entries[0].attempts).toBe(2);
+            expect(report.entries[0].lastError).toContain('Not deployed');
+        });
+
+        it('should not confirm identities the factory registered but never deployed', async () => {
+            // Pays only the fee, so the factory cannot fund the identity's deployment,
+            // ignores the failed send and registers the identity anyway
+            const inner = deployer.getSender();
+            const shortchanging: Sender = {
+                address: inner.address,
+                send: (args: SenderArguments) => inner.send({ ...args, value: toNano('0.05') })
+            };
+
+            const batch = new BatchIdentityDeployer(factory, openIdentity, { ...fastPolling, maxAttempts: 3 });
+            batch.add(await owners(1));
+            const report = await batch.run(shortchanging);
+
+            const identity = Address.parse(report.entries[0].identity);
+            expect(await factory.getIsValidIdentity(identity)).toBe(true);
+            expect((await blockchain.getContract(identity)).accountState?.type).not.toBe('active');
+            expect(report.entries[0]).toMatchObject({ status: 'failed', attempts: 1 });
+            expect(report.entries[0].lastError).toContain('not active');
+        });
+    });
+
+    describe('Resume', () => {
+        it('should write a report that resumes without resending confirmed entries', async () => {
+            const reportPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'batch-')), 'report.json');
+            const first = await owners(3, 'first');
+
+            const batch = new BatchIdentityDeployer(factory, openIdentity, { ...fastPolling, reportPath, maxAttempts: 1 });
+            batch.add(first);
+            await batch.run(lossySender(deployer.getSender(), 1));
+
+            const saved = await loadBatchReport(reportPath);
+            expect(saved.entries.map((e) => e.status)).toEqual(['failed', 'confirmed', 'confirmed']);
+
+            const resumed = BatchIdentityDeployer.fromReport(factory, openIdentity, saved, { ...fastPolling, reportPath, maxAttempts: 2 });
+            resumed.add(first); // re-adding the same input is a no-op
+            resumed.add(await owners(1, 'second'));
+            const report = await resumed.run(deployer.getSender());
+
+            expect(report.entries).toHaveLength(4);
+            expect(report.entries.map((e) => e.status)).toEqual(['confirmed', 'confirmed', 'confirmed', 'confirmed']);
+            expect(report.entries.map((e) => e.attempts)).toEqual([2, 1, 1, 1]);
+            expect((await loadBatchReport(reportPath)).entries).toEqual(report.entries);
+        });
+
+        it('should save the report and stop when the wallet seqno stalls', async () => {
+            const reportPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'batch-')), 'report.json');
+            const entries = await owners(3);
+            let seqno = 0;
+            let stalled = false;
+            const inner = deployer.getSender();
+            const stalling: Sender = {
+                address: inner.address,
+                send: async (args) => {
+                    if (seqno === 1) {
+                        stalled = true;
+                        return;
+                    }
+                    await inner.send(args);
+                    seqno++;
+                }
+            };
+
+            const batch = new BatchIdentityDeployer(factory, openIdentity, { ...fastPolling, reportPath, getSeqno: async () => seqno });
+            batch.add(entries);
+            await expect(batch.run(stalling)).rejects.toThrow('Wallet seqno did not advance');
+
+            expect(stalled).toBe(true);
+            const saved = await loadBatchReport(reportPath);
+            expect(saved.entries.map((e) => e.status)).toEqual(['confirmed', 'pending', 'pending']);
+            expect(saved.entries[1]).toMatchObject({ attempts: 0, lastError: 'Wallet seqno did not advance before timeout' });
+
+            const resumed = BatchIdentityDeployer.fromReport(factory, openIdentity, saved, fastPolling);
+            const report = await resumed.run(deployer.getSender());
+            expect(report.entries.map((e) => e.status)).toEqual(['confirmed', 'confirmed', 'confirmed']);
+            expect(report.entries.map((e) => e.attempts)).toEqual([1, 1, 1]);
+        });
+
+        it('should refuse a report from another factory', async () => {
+            const other = await blockchain.treasury('other');
+            const report = { factory: other.address.toString(), startedAt: '', updatedAt: '', entries: [] };
+
+            expect(() => BatchIdentityDeployer.fromReport(factory, openIdentity, report)).toThrow('belongs to factory');
+        });
+    });
+});
@@ -0,0 +1,283 @@
+import { Address, Sender, toNano } from '@ton/core';
+import { promises as fs } from 'fs';
+import { TonIdentityClient } from './TonIdentity';
+import { TonIdentityFactoryClient } from './TonIdentityFactory';
+import { IdentityAddressPredictor } from './TonIdentityAddress';
+
+// Gas the factory forwards with each identity deployment (TonIdentityFactory.tact)
+export const IDENTITY_DEPLOY_GAS = toNano('0.5');
+
+export type BatchDeployEntry = {
+    owner: Address;
+    salt: bigint;
+}
+
+export type BatchEntryStatus = 'pending' | 'sent' | 'confirmed' | 'failed' | 'skipped';
+
+// JSON-safe: addresses and bigints are kept as strings
+export type BatchEntryReport = {
+    owner: string;
+    salt: string;
+    identity: string;
+    status: BatchEntryStatus;
+    attempts: number;
+    lastError?: string;
+    confirmedAt?: string;
+}
+
+export type BatchDeployReport = {
+    factory: string;
+    startedAt: string;
+    updatedAt: string;
+    entries: BatchEntryReport[];
+}
+
+const REGISTERED_NOT_DEPLOYED = 'Registered by the factory, but the identity account is not active with its code';
+
+export type BatchDeployerOptions = {
+    batchSize?: number;                    // messages sent before each confirmation round
+    maxAttempts?: number;                  // per entry, including the first
+    extraValue?: bigint;                   // sent on top of deployment fee and gas
+    getSeqno?: () => Promise<number>;      // sending wallet's seqno, to pace one message per seqno
+    pollIntervalMs?: number;
+    timeoutMs?: number;                    // per seqno wait and per confirmation round
+    reportPath?: string;                   // rewritten after every confirmation round
+    onProgress?: (entry: BatchEntryReport) => void;
+}
+
+/**
+ * Deploys identities for many owners through a TonIdentityFactory.
+ *
+ * Entries are sent in batches of `batchSize`, one wallet message per seqno,
+ * then confirmed once the predicted identity account is active with the
+ * factory's implementation code and the factory's `isValidIdentity` agrees.
+ * The factory registers an identity in the same transaction that sends its
+ * deployment and ignores errors in that send, so a registration alone proves
+ * nothing; one whose account never became active is failed for good, since
+ * the factory refuses to deploy for that owner again. Other entries that do
+ * not confirm are retried up to `maxAttempts` times, each attempt paying the
+ * factory's current deployment fee. Owners that already have a different
+ * identity are skipped. The report can be saved and handed back to
+ * `fromReport` to resume an interrupted run; confirmed entries are never
+ * sent again. If the wallet seqno stops advancing, the run saves the report
+ * with the unsent entry back in `pending` and throws.
+ */
+export class BatchIdentityDeployer {
+    private readonly entries: BatchEntryReport[] = [];
+    private readonly startedAt: string;
+
+    private readonly batchSize: number;
+    private readonly maxAttempts: number;
+    private readonly extraValue: bigint;
+    private readonly pollIntervalMs: number;
+    private readonly timeoutMs: number;
+
+    private identityCodeHash: Buffer = Buffer.alloc(0);
+
+    constructor(
+        readonly factory: TonIdentityFactoryClient,
+        readonly openIdentity: (address: Address) => TonIdentityClient,
+        readonly opts: BatchDeployerOptions = {}
+    ) {
+        this.startedAt = new Date().toISOString();
+        this.batchSize = opts.batchSize ?? 4;
+        this.maxAttempts = opts.maxAttempts ?? 3;
+        this.extraValue = opts.extraValue ?? toNano('0.05');
+        this.pollIntervalMs = opts.pollIntervalMs ?? 3000;
+        this.timeoutMs = opts.timeoutMs ?? 60000;
+    }
+
+    static fromReport(
+        factory: TonIdentityFactoryClient,
+        openIdentity: (address: Address) => TonIdentityClient,
+        report: BatchDeployReport,
+        opts: BatchDeployerOptions = {}
+    ) {
+        if (!Address.parse(report.factory).equals(factory.address)) {
+            throw new Error(`Report belongs to factory ${report.factory}, not ${factory.address}`);
+        }
+        const deployer = new BatchIdentityDeployer(factory, openIdentity, opts);
+        for (const entry of report.entries) {
+            // Anything in flight when the run stopped is re-checked on chain first
+            deployer.entries.push({ ...entry, status: entry.status === 'sent' ? 'pending' : entry.status });
+        }
+        return deployer;
+    }
+
+    /**
+     * Queues owners for deployment. Owner/salt pairs already in the batch
+     * are ignored, so the same input list can be re-added on resume.
+     */
+    add(entries: BatchDeployEntry[]) {
+        for (const { owner, salt } of entries) {
+            const known = this.entries.some((e) => Address.parse(e.owner).equals(owner) && e.salt === salt.toString());
+            if (!known) {
+                this.entries.push({ owner: owner.toString(), salt: salt.toString(), identity: '', status: 'pending', attempts: 0 });
+            }
+        }
+    }
+
+    report(): BatchDeployReport {
+        return {
+            factory: this.factory.address.toString(),
+            startedAt: this.startedAt,
+            updatedAt: new Date().toISOString(),
+            entries: this.entries.map((e) => ({ ...e }))
+        };
+    }
+
+    async run(via: Sender): Promise<BatchDeployReport> {
+        const predictor = await IdentityAddressPredictor.fromFactory(this.factory);
+        this.identityCodeHash = predictor.identityCode.hash();
+        for (const entry of this.entries) {
+            entry.identity = predictor.predict(Address.parse(entry.owner), BigInt(entry.salt)).toString();
+        }
+
+        for (;;) {
+            const todo = this.entries.filter((e) =>
+                (e.status === 'pending' || e.status === 'failed') && e.attempts < this.maxAttempts);
+            if (todo.length === 0) {
+                break;
+            }
+
+            const { deploymentFee } = await this.factory.getGetFactoryStats();
+            const value = deploymentFee + IDENTITY_DEPLOY_GAS + this.extraValue;
+
+            // Entries settled without a message (e.g. registered but not
+            // deployed) stay failed; stop once a pass sends nothing
+            let sentAny = false;
+            for (let i = 0; i < todo.length; i += this.batchSize) {
+                const chunk = todo.slice(i, i + this.batchSize);
+                const sent: BatchEntryReport[] = [];
+                for (const entry of chunk) {
+                    if (await this.settle(entry)) {
+                        continue;
+                    }
+                    if (!(await this.send(via, entry, value))) {
+                        await this.confirm(sent);
+                        await this.persist();
+                        throw new Error(`Wallet seqno did not advance within ${this.timeoutMs} ms; resume from the saved report`);
+                    }
+                    sent.push(entry);
+                    sentAny = true;
+                }
+                await this.confirm(sent);
+                await this.persist();
+            }
+            if (!sentAny) {
+                break;
+            }
+        }
+
+        await this.persist();
+        return this.report();
+    }
+
+    // Marks entries that need no message; true when the entry is settled
+    private async settle(entry: BatchEntryReport): Promise<boolean> {
+        const identity = Address.parse(entry.identity);
+        const deployment = await this.checkDeployment(identity);
+        if (deployment === 'deployed') {
+            this.update(entry, { status: 'confirmed', confirmedAt: entry.confirmedAt ?? new Date().toISOString(), lastError: undefined });
+            return true;
+        }
+        if (deployment === 'registered') {
+            this.update(entry, { status: 'failed', lastError: REGISTERED_NOT_DEPLOYED });
+            return true;
+        }
+        const existing = await this.factory.getGetIdentityByOwner(Address.parse(entry.owner));
+        if (existing && !existing.identity.equals(identity)) {
+            this.update(entry, { status: 'skipped', lastError: `Owner already has identity ${existing.identity}` });
+            return true;
+        }
+        return false;
+    }
+
+    // False when the wallet did not take the message before the timeout
+    private async send(via: Sender, entry: BatchEntryReport, value: bigint): Promise<boolean> {
+        const seqnoBefore = this.opts.getSeqno ? await this.opts.getSeqno() : undefined;
+
+        this.update(entry, { status: 'sent', attempts: entry.attempts + 1 });
+        try {
+            await this.factory.sendDeployIdentity(via, {
+                value,
+                managementKey: Address.parse(entry.owner),
+                salt: BigInt(entry.salt)
+            });
+        } catch (e) {
+            this.update(entry, { status: 'failed', lastError: e instanceof Error ? e.message : String(e) });
+            return true;
+        }
+
+        if (seqnoBefore !== undefined && !(await this.waitUntil(async () => (await this.opts.getSeqno!()) > seqnoBefore))) {
+            // Not processed yet, so not an attempt; a resumed run checks the chain before resending
+            this.update(entry, { status: 'pending', attempts: entry.attempts - 1, lastError: 'Wallet seqno did not advance before timeout' });
+            return false;
+        }
+        return true;
+    }
+
+    private async confirm(sent: BatchEntryReport[]) {
+        const deadline = Date.now() + this.timeoutMs;
+        let waiting = sent.filter((e) => e.status === 'sent');
+        for (;;) {
+            for (const entry of waiting) {
+                if ((await this.checkDeployment(Address.parse(entry.identity))) === 'deployed') {
+                    this.update(entry, { status: 'confirmed', confirmedAt: new Date().toISOString(), lastError: undefined });
+                }
+            }
+            waiting = waiting.filter((e) => e.status === 'sent');
+            if (waiting.length === 0 || Date.now() >= deadline) {
+                break;
+            }
+            await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+        }
+        for (const entry of waiting) {
+            const registered = await this.factory.getIsValidIdentity(Address.parse(entry.identity));
+            this.update(entry, { status: 'failed', lastError: registered ? REGISTERED_NOT_DEPLOYED : 'Not deployed before timeout' });
+        }
+    }
+
+    private async checkDeployment(identity: Address): Promise<'deployed' | 'registered' | 'missing'> {
+        const registered = await this.factory.getIsValidIdentity(identity);
+        const codeHash = await this.openIdentity(identity).getCodeHash();
+        if (registered && codeHash && codeHash.equals(this.identityCodeHash)) {
+            return 'deployed';
+        }
+        return registered ? 'registered' : 'missing';
+    }
+
+    private update(entry: BatchEntryReport, changes: Partial<BatchEntryReport>) {
+        Object.assign(entry, changes);
+        if (entry.lastError === undefined) {
+            delete entry.lastError;
+        }
+        this.opts.onProgress?.({ ...entry });
+    }
+
+    private async persist() {
+        if (this.opts.reportPath) {
+            await saveBatchReport(this.opts.reportPath, this.report());
+        }
+    }
+
+    // False if `check` still fails at the timeout
+    private async waitUntil(check: () => Promise<boolean>): Promise<boolean> {
+        const deadline = Date.now() + this.timeoutMs;
+        while (!(await check())) {
+            if (Date.now() >= deadline) {
+                return false;
+            }
+            await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+        }
+        return true;
+    }
+}
+
+export async function saveBatchReport(path: string, report: BatchDeployReport) {
+    await fs.writeFile(path, JSON.stringify(report, null, 2) + '\n');
+}
+
+export async function loadBatchReport(path: string): Promise<BatchDeployReport> {
+    return JSON.parse(await fs.readFile(path, 'utf-8')) as BatchDeployReport;
+}
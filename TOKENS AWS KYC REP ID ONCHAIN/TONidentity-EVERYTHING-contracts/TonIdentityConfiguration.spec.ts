@@ -0,0 +1,212 @@
+import { Blockchain, SandboxContract, TreasuryContract } from '@ton/sandbox';
+import { Address, Sender, toNano } from '@ton/core';
+import {
+    configurationRecord,
+    configureIdentityStack,
+    ConfigurationMismatchError,
+    IdentityStackContracts,
+    parseStackSettings,
+    resolveStackSettings,
+    SettingsValidationError,
+    StackSetting,
+    verifyIdentityStack
+} from '../wrappers/TonIdentityConfiguration';
+import { TonClaimIssuer } from '../wrappers/TonClaimIssuer';
+import { TonIdentityFactory } from '../wrappers/TonIdentityFactory';
+import { TonIdentityGateway } from '../wrappers/TonIdentityGateway';
+import '@ton/test-utils';
+import { compile } from '@ton/blueprint';
+
+const SETTINGS = `{
+    "gateway": { "trustedIssuers": ["TonClaimIssuer"], "defaultRequiredTopics": ["KYC", "ACCREDITED"] },
+    "factory": { "authorizedDeployers": ["deployer", "relayer"] },
+    "claimIssuer": { "trustedSigners": ["relayer"] }
+}`;
+
+describe('Identity stack configuration', () => {
+    describe('Settings', () => {
+        const someone = Address.parse('0:' + '11'.repeat(32));
+
+        it('should resolve references and topics', () => {
+            const settings = resolveStackSettings(parseStackSettings(SETTINGS), {
+                deployer: someone,
+                relayer: someone,
+                TonClaimIssuer: someone
+            });
+
+            expect(settings.map((s) => [s.kind, s.expected])).toEqual([
+                ['trusted-issuer', true],
+                ['default-topics', [1n, 3n]],
+                ['authorized-deployer', true],
+                ['authorized-deployer', true],
+                ['trusted-signer', true],
+            ]);
+        });
+
+        it('should accept full addresses', () => {
+            const settings = resolveStackSettings(parseStackSettings(`{"claimIssuer": {"revokedSigners": ["${someone}"]}}`), {});
+
+            expect(settings).toHaveLength(1);
+            expect(settings[0]).toMatchObject({ kind: 'trusted-signer', expected: false });
+            expect(settings[0].kind === 'trusted-signer' && settings[0].address.equals(someone)).toBe(true);
+        });
+
+        it('should collect every problem in one error', () => {
+            let error: unknown;
+            try {
+                parseStackSettings(`{
+    "gateway": { "trustedIssuers": ["not-an-address"], "defaultRequiredTopics": ["KYC", "NOPE"], "owner": "deployer" },
+    "factory": { "authorizedDeployers": ["relayer"], "revokedDeployers": ["relayer"] },
+    "registry": {}
+}`);
+            } catch (e) {
+                error = e;
+            }
+
+            expect(error).toBeInstanceOf(SettingsValidationError);
+            expect((error as SettingsValidationError).issues).toEqual([
+                'registry: unknown section',
+                'gateway.owner: unknown setting',
+                `gateway.trustedIssuers: 'not-an-address' is neither an address nor a contract reference`,
+                `factory: 'relayer' is listed in both authorizedDeployers and revokedDeployers`,
+                `gateway.defaultRequiredTopics: unknown topic 'NOPE'`,
+            ]);
+        });
+
+        it('should reject unknown references', () => {
+            expect(() => resolveStackSettings(parseStackSettings(SETTINGS), { deployer: someone }))
+                .toThrow(`gateway.trustedIssuers: unknown reference 'TonClaimIssuer'`);
+        });
+
+        it('should not take object built-ins for references or sections', () => {
+            expect(() => resolveStackSettings(parseStackSettings('{"factory": {"authorizedDeployers": ["constructor", "toString"]}}'), {}))
+                .toThrow(`factory.authorizedDeployers: unknown reference 'constructor'\n  factory.authorizedDeployers: unknown reference 'toString'`);
+            expect(() => parseStackSettings('{"constructor": {}}')).toThrow('constructor: unknown section');
+        });
+    });
+
+    describe('Configure and verify', () => {
+        let blockchain: Blockchain;
+        let deployer: SandboxContract<TreasuryContract>;
+        let relayer: SandboxContract<TreasuryContract>;
+        let contracts: IdentityStackContracts;
+        let gateway: SandboxContract<TonIdentityGateway>;
+        let settings: StackSetting[];
+
+        const fastPolling = { pollIntervalMs: 0, timeoutMs: 0 };
+
+        beforeEach(async () => {
+            blockchain = await Blockchain.create();
+            deployer = await blockchain.treasury('deployer');
+            relayer = await blockchain.treasury('relayer');
+
+            const claimIssuer = blockchain.openContract(await TonClaimIssuer.fromInit('Test Issuer', 'KYC'));
+            const factory = blockchain.openContract(await TonIdentityFactory.fromInit(await compile('TonIdentity'), '1.0.0', toNano('0.05')));
+            gateway = blockchain.openContract(await TonIdentityGateway.fromInit(factory.address));
+
+            for (const contract of [claimIssuer, factory, gateway]) {
+                await contract.sendDeploy(deployer.getSender(), toNano('0.05'));
+            }
+
+            contracts = { gateway, factory, claimIssuer };
+            settings = resolveStackSettings(parseStackSettings(SETTINGS), {
+                deployer: deployer.address,
+                relayer: relayer.address,
+                TonClaimIssuer: claimIssuer.address
+            });
+        });
+
+        it('should apply the settings and read them back', async () => {
+            const report = await configureIdentityStack(contracts, deployer.getSender(), settings, fastPolling);
+
+            // The factory owner is an authorized deployer from the start
+            expect(report.applied).toEqual([
+                `gateway trusted issuer ${contracts.claimIssuer!.address}`,
+                'gateway default required topics',
+                `factory authorized deployer ${relayer.address}`,
+                `claim issuer trusted signer ${relayer.address}`,
+            ]);
+            expect(report.checks.every((c) => c.ok)).toBe(true);
+            expect(await gateway.getGetDefaultRequiredClaims()).toEqual([1n, 3n]);
+            await expect(verifyIdentityStack(contracts, settings)).resolves.toHaveLength(5);
+        });
+
+        it('should wait for the wallet seqno between messages', async () => {
+            let seqno = 0;
+            const inner = deployer.getSender();
+            const counting: Sender = {
+                address: inner.address,
+                send: async (args) => {
+                    await inner.send(args);
+                    seqno++;
+                }
+            };
+
+            const report = await configureIdentityStack(contracts, counting, settings, { ...fastPolling, getSeqno: async () => seqno });
+
+            expect(seqno).toBe(4);
+            expect(report.applied).toHaveLength(4);
+        });
+
+        it('should stop when the wallet seqno stalls', async () => {
+            const seqno = 0;
+
+            await expect(configureIdentityStack(contracts, deployer.getSender(), settings, { ...fastPolling, getSeqno: async () => seqno }))
+                .rejects.toThrow(`Wallet seqno did not advance within 0 ms after sending gateway trusted issuer ${contracts.claimIssuer!.address}`);
+        });
+
+        it('should send nothing on a re-run', async () => {
+            await configureIdentityStack(contracts, deployer.getSender(), settings, fastPolling);
+
+            const report = await configureIdentityStack(contracts, deployer.getSender(), settings, fastPolling);
+
+            expect(report.applied).toEqual([]);
+        });
+
+        it('should remove revoked entries', async () => {
+            await configureIdentityStack(contracts, deployer.getSender(), settings, fastPolling);
+            const revoke = resolveStackSettings(
+                parseStackSettings('{"factory": {"revokedDeployers": ["relayer"]}}'),
+                { relayer: relayer.address }
+            );
+
+            await configureIdentityStack(contracts, deployer.getSender(), revoke, fastPolling);
+
+            expect(await contracts.factory!.getIsAuthorizedDeployer(relayer.address)).toBe(false);
+        });
+
+        it('should fail loudly when the stack drifts', async () => {
+            await configureIdentityStack(contracts, deployer.getSender(), settings, fastPolling);
+            await gateway.sendRemoveTrustedIssuer(deployer.getSender(), { value: toNano('0.05'), issuer: contracts.claimIssuer!.address });
+
+            let error: unknown;
+            try {
+                await verifyIdentityStack(contracts, settings);
+            } catch (e) {
+                error = e;
+            }
+
+            expect(error).toBeInstanceOf(ConfigurationMismatchError);
+            expect((error as ConfigurationMismatchError).message).toContain(
+                `gateway trusted issuer ${contracts.claimIssuer!.address}: expected true, found false`
+            );
+        });
+
+        it('should fail loudly when the settings do not take', async () => {
+            const outsider = await blockchain.treasury('outsider');
+
+            await expect(configureIdentityStack(contracts, outsider.getSender(), settings, fastPolling))
+                .rejects.toThrow(ConfigurationMismatchError);
+        });
+
+        it('should record what was applied and verified', async () => {
+            const report = await configureIdentityStack(contracts, deployer.getSender(), settings, fastPolling);
+
+            const record = configurationRecord(SETTINGS, report);
+
+            expect(record.settingsHash).toMatch(/^[0-9a-f]{64}$/);
+            expect(record.applied).toEqual(report.applied);
+            expect(record.verified).toContain('gateway default required topics = [1, 3]');
+        });
+    });
+});
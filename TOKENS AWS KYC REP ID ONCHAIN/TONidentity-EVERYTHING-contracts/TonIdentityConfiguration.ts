@@ -0,0 +1,410 @@
+import { Address, Sender, toNano } from '@ton/core';
+import { createHash } from 'crypto';
+import { parseTopic } from './TonComplianceRules';
+import { TonClaimIssuerClient } from './TonClaimIssuer';
+import { ConfigurationRecord, DeploymentManifest } from './TonIdentityDeployment';
+import { TonIdentityFactoryClient } from './TonIdentityFactory';
+import { sortTopics, TonIdentityGatewayClient } from './TonIdentityGateway';
+
+// Post-deploy settings, as written in JSON:
+//
+//   {
+//     "gateway": {
+//       "trustedIssuers": ["TonClaimIssuer"],
+//       "untrustedIssuers": ["EQ..."],
+//       "defaultRequiredTopics": ["KYC", "AML"]
+//     },
+//     "factory": { "authorizedDeployers": ["deployer"], "revokedDeployers": [] },
+//     "claimIssuer": { "trustedSigners": ["deployer", "EQ..."], "revokedSigners": [] }
+//   }
+//
+// Addresses are written out in full or as a reference: a contract name from
+// the deployment manifest, or `deployer`. The contracts keep these settings
+// in maps without enumeration getters, so entries not listed are left alone;
+// list an address under untrusted/revoked to have it removed.
+
+export type IdentityStackSettingsSpec = {
+    gateway?: {
+        trustedIssuers?: string[];
+        untrustedIssuers?: string[];
+        defaultRequiredTopics?: (string | number)[];   // replaces the gateway's defaults
+    };
+    factory?: {
+        authorizedDeployers?: string[];
+        revokedDeployers?: string[];
+    };
+    claimIssuer?: {
+        trustedSigners?: string[];
+        revokedSigners?: string[];
+    };
+}
+
+// One setting, resolved against real addresses
+export type StackSetting =
+    | { kind: 'trusted-issuer'; address: Address; expected: boolean }
+    | { kind: 'default-topics'; expected: bigint[] }
+    | { kind: 'authorized-deployer'; address: Address; expected: boolean }
+    | { kind: 'trusted-signer'; address: Address; expected: boolean };
+
+export type SettingCheck = {
+    setting: StackSetting;
+    label: string;
+    actual: boolean | bigint[];
+    ok: boolean;
+}
+
+export type IdentityStackContracts = {
+    gateway?: TonIdentityGatewayClient;
+    factory?: TonIdentityFactoryClient;
+    claimIssuer?: TonClaimIssuerClient;
+}
+
+export type ConfigurationReport = {
+    applied: string[];         // labels of settings that needed a message
+    checks: SettingCheck[];    // final read-back, all ok
+}
+
+export class SettingsValidationError extends Error {
+    constructor(readonly issues: string[]) {
+        super(`Invalid identity stack settings:\n  ${issues.join('\n  ')}`);
+        this.name = 'SettingsValidationError';
+    }
+}
+
+export class ConfigurationMismatchError extends Error {
+    constructor(readonly mismatches: SettingCheck[]) {
+        super(`Identity stack does not match its settings:\n  ${mismatches.map(describeCheck).join('\n  ')}`);
+        this.name = 'ConfigurationMismatchError';
+    }
+}
+
+const ADDRESS_LISTS = {
+    gateway: ['trustedIssuers', 'untrustedIssuers'],
+    factory: ['authorizedDeployers', 'revokedDeployers'],
+    claimIssuer: ['trustedSigners', 'revokedSigners'],
+} as const;
+
+const REFERENCE = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+function isAddress(value: string): boolean {
+    try {
+        Address.parse(value);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function formatActual(actual: boolean | bigint[]): string {
+    return typeof actual === 'boolean' ? String(actual) : `[${actual.join(', ')}]`;
+}
+
+function describeCheck(check: SettingCheck): string {
+    const expected = check.setting.expected;
+    return `${check.label}: expected ${formatActual(expected)}, found ${formatActual(check.actual)}`;
+}
+
+/**
+ * Parses and validates the JSON of a settings file. Contract references stay
+ * as written until resolveStackSettings maps them to manifest addresses.
+ */
+export function parseStackSettings(source: string): IdentityStackSettingsSpec {
+    return validateStackSettings(JSON.parse(source));
+}
+
+/**
+ * Checks the shape of a settings file, collecting every problem into one
+ * SettingsValidationError. An address may not be both added and removed.
+ */
+export function validateStackSettings(input: unknown): IdentityStackSettingsSpec {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        throw new SettingsValidationError(['Expected an object with gateway, factory or claimIssuer sections']);
+    }
+    const spec = input as Record<string, Record<string, unknown> | undefined>;
+    const issues: string[] = [];
+
+    for (const key of Object.keys(spec)) {
+        if (!Object.hasOwn(ADDRESS_LISTS, key)) {
+            issues.push(`${key}: unknown section`);
+        }
+    }
+
+    for (const [section, [added, removed]] of Object.entries(ADDRESS_LISTS)) {
+        const body = spec[section];
+        if (body === undefined) {
+            continue;
+        }
+        if (typeof body !== 'object' || body === null) {
+            issues.push(`${section}: expected an object`);
+            continue;
+        }
+        const known: string[] = [added, removed];
+        if (section === 'gateway') {
+            known.push('defaultRequiredTopics');
+        }
+        for (const key of Object.keys(body)) {
+            if (!known.includes(key)) {
+                issues.push(`${section}.${key}: unknown setting`);
+            }
+        }
+
+        for (const list of [added, removed]) {
+            const entries = body[list];
+            if (entries === undefined) {
+                continue;
+            }
+            if (!Array.isArray(entries)) {
+                issues.push(`${section}.${list}: expected a list`);
+                continue;
+            }
+            for (const entry of entries) {
+                if (typeof entry !== 'string' || !(isAddress(entry) || REFERENCE.test(entry))) {
+                    issues.push(`${section}.${list}: '${entry}' is neither an address nor a contract reference`);
+                }
+            }
+        }
+        const [adds, removes] = [body[added], body[removed]];
+        if (Array.isArray(adds) && Array.isArray(removes)) {
+            for (const entry of new Set(adds.filter((e) => removes.includes(e)))) {
+                issues.push(`${section}: '${entry}' is listed in both ${added} and ${removed}`);
+            }
+        }
+    }
+
+    const topics = spec.gateway?.defaultRequiredTopics;
+    if (topics !== undefined) {
+        if (!Array.isArray(topics)) {
+            issues.push('gateway.defaultRequiredTopics: expected a list');
+        } else {
+            for (const topic of topics) {
+                if ((typeof topic !== 'string' && typeof topic !== 'number') || parseTopic(topic) === null) {
+                    issues.push(`gateway.defaultRequiredTopics: unknown topic '${topic}'`);
+                }
+            }
+        }
+    }
+
+    if (issues.length > 0) {
+        throw new SettingsValidationError(issues);
+    }
+    return input as IdentityStackSettingsSpec;
+}
+
+// `deployer` and every contract recorded in the manifest
+export function manifestReferences(manifest: DeploymentManifest): Record<string, Address> {
+    const refs: Record<string, Address> = { deployer: Address.parse(manifest.deployer) };
+    for (const [name, entry] of Object.entries(manifest.contracts)) {
+        refs[name] = Address.parse(entry!.address);
+    }
+    return refs;
+}
+
+/**
+ * Turns a validated spec into settings with real addresses. References
+ * missing from `refs` are reported together.
+ */
+export function resolveStackSettings(spec: IdentityStackSettingsSpec, refs: Record<string, Address>): StackSetting[] {
+    const issues: string[] = [];
+    const settings: StackSetting[] = [];
+
+    const addresses = (section: string, list: string, entries: string[] | undefined, expected: boolean, kind: 'trusted-issuer' | 'authorized-deployer' | 'trusted-signer') => {
+        for (const entry of entries ?? []) {
+            const address = isAddress(entry) ? Address.parse(entry) : Object.hasOwn(refs, entry) ? refs[entry] : undefined;
+            if (!address) {
+                issues.push(`${section}.${list}: unknown reference '${entry}'`);
+            } else {
+                settings.push({ kind, address, expected });
+            }
+        }
+    };
+
+    addresses('gateway', 'trustedIssuers', spec.gateway?.trustedIssuers, true, 'trusted-issuer');
+    addresses('gateway', 'untrustedIssuers', spec.gateway?.untrustedIssuers, false, 'trusted-issuer');
+    if (spec.gateway?.defaultRequiredTopics) {
+        settings.push({
+            kind: 'default-topics',
+            expected: sortTopics(spec.gateway.defaultRequiredTopics.map((t) => parseTopic(t)!))
+        });
+    }
+    addresses('factory', 'authorizedDeployers', spec.factory?.authorizedDeployers, true, 'authorized-deployer');
+    addresses('factory', 'revokedDeployers', spec.factory?.revokedDeployers, false, 'authorized-deployer');
+    addresses('claimIssuer', 'trustedSigners', spec.claimIssuer?.trustedSigners, true, 'trusted-signer');
+    addresses('claimIssuer', 'revokedSigners', spec.claimIssuer?.revokedSigners, false, 'trusted-signer');
+
+    if (issues.length > 0) {
+        throw new SettingsValidationError(issues);
+    }
+    return settings;
+}
+
+function settingLabel(setting: StackSetting): string {
+    switch (setting.kind) {
+        case 'trusted-issuer': return `gateway trusted issuer ${setting.address}`;
+        case 'default-topics': return 'gateway default required topics';
+        case 'authorized-deployer': return `factory authorized deployer ${setting.address}`;
+        case 'trusted-signer': return `claim issuer trusted signer ${setting.address}`;
+    }
+}
+
+function contractFor<K extends keyof IdentityStackContracts>(contracts: IdentityStackContracts, key: K, setting: StackSetting) {
+    const contract = contracts[key];
+    if (!contract) {
+        throw new Error(`No ${key} contract to check ${settingLabel(setting)}`);
+    }
+    return contract;
+}
+
+/**
+ * Reads every setting back through the contracts' getters.
+ */
+export async function checkStackSettings(contracts: IdentityStackContracts, settings: StackSetting[]): Promise<SettingCheck[]> {
+    const checks: SettingCheck[] = [];
+    for (const setting of settings) {
+        let actual: boolean | bigint[];
+        let ok: boolean;
+        switch (setting.kind) {
+            case 'trusted-issuer':
+                actual = await contractFor(contracts, 'gateway', setting).getIsTrustedIssuer(setting.address);
+                break;
+            case 'default-topics':
+                actual = await contractFor(contracts, 'gateway', setting).getGetDefaultRequiredClaims();
+                break;
+            case 'authorized-deployer':
+                actual = await contractFor(contracts, 'factory', setting).getIsAuthorizedDeployer(setting.address);
+                break;
+            case 'trusted-signer':
+                actual = await contractFor(contracts, 'claimIssuer', setting).getIsTrustedSigner(setting.address);
+                break;
+        }
+        if (typeof actual === 'boolean') {
+            ok = actual === setting.expected;
+        } else {
+            const expected = setting.expected as bigint[];
+            ok = actual.length === expected.length && actual.every((topic, i) => topic === expected[i]);
+        }
+        checks.push({ setting, label: settingLabel(setting), actual, ok });
+    }
+    return checks;
+}
+
+// Reads the settings back and throws ConfigurationMismatchError on any difference
+export async function verifyIdentityStack(contracts: IdentityStackContracts, settings: StackSetting[]): Promise<SettingCheck[]> {
+    const checks = await checkStackSettings(contracts, settings);
+    const mismatches = checks.filter((c) => !c.ok);
+    if (mismatches.length > 0) {
+        throw new ConfigurationMismatchError(mismatches);
+    }
+    return checks;
+}
+
+async function applySetting(contracts: IdentityStackContracts, via: Sender, setting: StackSetting, value: bigint) {
+    switch (setting.kind) {
+        case 'trusted-issuer': {
+            const gateway = contractFor(contracts, 'gateway', setting);
+            if (setting.expected) {
+                await gateway.sendAddTrustedIssuer(via, { value, issuer: setting.address });
+            } else {
+                await gateway.sendRemoveTrustedIssuer(via, { value, issuer: setting.address });
+            }
+            break;
+        }
+        case 'default-topics':
+            await contractFor(contracts, 'gateway', setting).sendSetDefaultRequiredClaims(via, { value, requiredClaims: setting.expected });
+            break;
+        case 'authorized-deployer': {
+            const factory = contractFor(contracts, 'factory', setting);
+            if (setting.expected) {
+                await factory.sendAddDeployer(via, { value, deployer: setting.address });
+            } else {
+                await factory.sendRemoveDeployer(via, { value, deployer: setting.address });
+            }
+            break;
+        }
+        case 'trusted-signer': {
+            const claimIssuer = contractFor(contracts, 'claimIssuer', setting);
+            if (setting.expected) {
+                await claimIssuer.sendAddTrustedSigner(via, { value, signer: setting.address });
+            } else {
+                await claimIssuer.sendRemoveTrustedSigner(via, { value, signer: setting.address });
+            }
+            break;
+        }
+    }
+}
+
+export type ConfigureOptions = {
+    value?: bigint;
+    getSeqno?: () => Promise<number>;   // sending wallet's seqno, to pace one message per seqno
+    pollIntervalMs?: number;
+    timeoutMs?: number;                 // per seqno wait and for the final read-back
+}
+
+// False if `check` still fails after `timeoutMs`
+async function waitUntil(check: () => Promise<boolean>, pollIntervalMs: number, timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (!(await check())) {
+        if (Date.now() >= deadline) {
+            return false;
+        }
+        await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+    return true;
+}
+
+/**
+ * Brings the deployed contracts in line with `settings` and proves it.
+ *
+ * Settings that already read back as expected are not sent again, so a
+ * re-run against a configured stack sends nothing. The rest are sent from
+ * `via`, which must own each contract, one wallet message per seqno when
+ * `getSeqno` is given; a wallet whose seqno stops advancing aborts the run,
+ * and re-running it sends only what is still missing. The getters are then
+ * polled until every setting matches; anything still different at the
+ * timeout fails with ConfigurationMismatchError.
+ */
+export async function configureIdentityStack(
+    contracts: IdentityStackContracts,
+    via: Sender,
+    settings: StackSetting[],
+    opts: ConfigureOptions = {}
+): Promise<ConfigurationReport> {
+    const value = opts.value ?? toNano('0.05');
+    const pollIntervalMs = opts.pollIntervalMs ?? 3000;
+    const timeoutMs = opts.timeoutMs ?? 60000;
+
+    const pending = (await checkStackSettings(contracts, settings)).filter((c) => !c.ok);
+    for (const check of pending) {
+        const seqnoBefore = opts.getSeqno ? await opts.getSeqno() : undefined;
+        await applySetting(contracts, via, check.setting, value);
+        if (seqnoBefore !== undefined && !(await waitUntil(async () => (await opts.getSeqno!()) > seqnoBefore, pollIntervalMs, timeoutMs))) {
+            throw new Error(`Wallet seqno did not advance within ${timeoutMs} ms after sending ${check.label}`);
+        }
+    }
+
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+        const checks = await checkStackSettings(contracts, settings);
+        const mismatches = checks.filter((c) => !c.ok);
+        if (mismatches.length === 0) {
+            return { applied: pending.map((c) => c.label), checks };
+        }
+        if (Date.now() >= deadline) {
+            throw new ConfigurationMismatchError(mismatches);
+        }
+        await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+}
+
+/**
+ * Audit entry for the deployment manifest: which settings file was applied
+ * (by hash), what had to be sent, and what was read back.
+ */
+export function configurationRecord(source: string, report: ConfigurationReport): ConfigurationRecord {
+    return {
+        settingsHash: createHash('sha256').update(source).digest('hex'),
+        verifiedAt: new Date().toISOString(),
+        applied: report.applied,
+        verified: report.checks.map((c) => `${c.label} = ${formatActual(c.actual)}`)
+    };
+}
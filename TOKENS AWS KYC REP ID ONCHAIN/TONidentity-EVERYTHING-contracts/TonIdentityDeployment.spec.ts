@@ -0,0 +1,178 @@
+import { Blockchain, SandboxContract, TreasuryContract } from '@ton/sandbox';
+import { Address, Cell, toNano } from '@ton/core';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    DeployEnvironment,
+    deployIdentityStack,
+    loadDeploymentManifest,
+    recordDeployment,
+    recordIdentityDeployment
+} from '../wrappers/TonIdentityDeployment';
+import { TonClaimIssuer } from '../wrappers/TonClaimIssuer';
+import { TonIdentity } from '../wrappers/TonIdentity';
+import { TonIdentityFactory } from '../wrappers/TonIdentityFactory';
+import { TonIdentityGateway } from '../wrappers/TonIdentityGateway';
+import { TonIdentityIntegration } from '../wrappers/TonIdentityIntegration';
+import '@ton/test-utils';
+import { compile } from '@ton/blueprint';
+
+describe('deployIdentityStack', () => {
+    const codes = new Map<string, Cell>();
+
+    beforeAll(async () => {
+        for (const name of ['TonIdentity', 'TonClaimIssuer', 'TonIdentityFactory', 'TonIdentityGateway', 'TonIdentityIntegration']) {
+            codes.set(name, await compile(name));
+        }
+    });
+
+    let blockchain: Blockchain;
+    let deployer: SandboxContract<TreasuryContract>;
+    let registry: SandboxContract<TreasuryContract>;
+    let manifestPath: string;
+    let deployed: string[];
+
+    // Blueprint's NetworkProvider, played by the sandbox
+    function sandboxEnvironment(): DeployEnvironment {
+        return {
+            network: 'sandbox',
+            deployer: deployer.address,
+            compile: async (name) => codes.get(name)!,
+            isDeployed: async (address) => (await blockchain.getContract(address)).accountState?.type === 'active',
+            getOwner: async (address) => (await blockchain.runGetMethod(address, 'owner')).stackReader.readAddress(),
+            deploy: async (contract, value) => {
+                await blockchain.openContract(contract).sendDeploy(deployer.getSender(), value);
+                deployed.push(contract.address.toString());
+            }
+        };
+    }
+
+    beforeEach(async () => {
+        blockchain = await Blockchain.create();
+        deployer = await blockchain.treasury('deployer');
+        registry = await blockchain.treasury('registry');
+        manifestPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'identity-stack-')), 'sandbox.json');
+        deployed = [];
+    });
+
+    it('should deploy the stack in order and wire real addresses', async () => {
+        const { manifest, steps } = await deployIdentityStack(sandboxEnvironment(), {
+            trc3643Registry: registry.address,
+            issuerName: 'Acme KYC',
+            issuerType: 'KYC',
+            manifestPath
+        });
+
+        expect(steps.map((s) => [s.name, s.status])).toEqual([
+            ['TonClaimIssuer', 'deployed'],
+            ['TonIdentityFactory', 'deployed'],
+            ['TonIdentityGateway', 'deployed'],
+            ['TonIdentityIntegration', 'deployed'],
+        ]);
+        expect(manifest.identityCode!.codeHash).toEqual(codes.get('TonIdentity')!.hash().toString('hex'));
+
+        const claimIssuer = blockchain.openContract(TonClaimIssuer.createFromAddress(steps[0].address));
+        expect(await claimIssuer.getGetIssuerInfo()).toMatchObject({ name: 'Acme KYC', issuerType: 'KYC', totalClaims: 0n });
+        expect((await claimIssuer.getGetIssuerInfo()).owner.equals(deployer.address)).toBe(true);
+
+        const factory = blockchain.openContract(TonIdentityFactory.createFromAddress(steps[1].address));
+        expect((await factory.getGetFactoryStats()).owner.equals(deployer.address)).toBe(true);
+
+        const gateway = blockchain.openContract(TonIdentityGateway.createFromAddress(steps[2].address));
+        expect((await gateway.getOwner()).equals(deployer.address)).toBe(true);
+
+        const integration = blockchain.openContract(TonIdentityIntegration.createFromAddress(steps[3].address));
+        const status = await integration.getGetIntegrationStatus();
+        expect(status.jumpIdGateway.equals(gateway.address)).toBe(true);
+        expect(status.trc3643Registry.equals(registry.address)).toBe(true);
+    });
+
+    it('should write a manifest for the network', async () => {
+        const { steps } = await deployIdentityStack(sandboxEnvironment(), { trc3643Registry: registry.address, manifestPath });
+
+        const manifest = (await loadDeploymentManifest(manifestPath))!;
+        expect(manifest.network).toEqual('sandbox');
+        expect(manifest.deployer).toEqual(deployer.address.toString());
+        for (const step of steps) {
+            const entry = manifest.contracts[step.name]!;
+            expect(Address.parse(entry.address).equals(step.address)).toBe(true);
+            expect(entry.codeHash).toEqual(codes.get(step.name)!.hash().toString('hex'));
+        }
+    });
+
+    it('should skip contracts that are already deployed on re-run', async () => {
+        const first = await deployIdentityStack(sandboxEnvironment(), { trc3643Registry: registry.address, manifestPath });
+        deployed = [];
+
+        const second = await deployIdentityStack(sandboxEnvironment(), { trc3643Registry: registry.address, manifestPath });
+
+        expect(deployed).toEqual([]);
+        expect(second.steps.map((s) => s.status)).toEqual(Array(4).fill('existing'));
+        for (const name of ['TonClaimIssuer', 'TonIdentityFactory', 'TonIdentityGateway', 'TonIdentityIntegration'] as const) {
+            expect(second.manifest.contracts[name]).toEqual(first.manifest.contracts[name]);
+        }
+    });
+
+    it('should resume a partial deployment', async () => {
+        const first = await deployIdentityStack(sandboxEnvironment(), { trc3643Registry: registry.address, manifestPath });
+        const manifest = (await loadDeploymentManifest(manifestPath))!;
+        delete manifest.contracts.TonIdentityIntegration;
+        await fs.writeFile(manifestPath, JSON.stringify(manifest));
+
+        // A new registry gives the integration a new address; the rest is unchanged
+        const otherRegistry = await blockchain.treasury('other-registry');
+        deployed = [];
+        const second = await deployIdentityStack(sandboxEnvironment(), { trc3643Registry: otherRegistry.address, manifestPath });
+
+        expect(second.steps.map((s) => s.status)).toEqual(['existing', 'existing', 'existing', 'deployed']);
+        expect(deployed).toEqual([second.steps[3].address.toString()]);
+        expect(second.steps[3].address.equals(first.steps[3].address)).toBe(false);
+    });
+
+    it('should refuse to adopt a contract deployed by someone else', async () => {
+        // The default issuer name and type give the same address to anyone
+        const squatter = await blockchain.treasury('squatter');
+        const claimIssuer = blockchain.openContract(await TonClaimIssuer.fromInit('TON Identity Claim Issuer', 'KYC'));
+        await claimIssuer.sendDeploy(squatter.getSender(), toNano('0.05'));
+
+        await expect(
+            deployIdentityStack(sandboxEnvironment(), { trc3643Registry: registry.address, manifestPath })
+        ).rejects.toThrow(`TonClaimIssuer: ${claimIssuer.address} is already deployed but owned by ${squatter.address}`);
+        expect(await loadDeploymentManifest(manifestPath)).toBeNull();
+    });
+
+    it('should refuse to move a contract recorded in the manifest', async () => {
+        await deployIdentityStack(sandboxEnvironment(), { trc3643Registry: registry.address, manifestPath });
+        const otherRegistry = await blockchain.treasury('other-registry');
+
+        await expect(
+            deployIdentityStack(sandboxEnvironment(), { trc3643Registry: otherRegistry.address, manifestPath })
+        ).rejects.toThrow('TonIdentityIntegration: manifest has');
+    });
+
+    it('should refuse a manifest from another network', async () => {
+        await deployIdentityStack(sandboxEnvironment(), { trc3643Registry: registry.address, manifestPath });
+
+        await expect(
+            deployIdentityStack({ ...sandboxEnvironment(), network: 'testnet' }, { trc3643Registry: registry.address, manifestPath })
+        ).rejects.toThrow('is for network sandbox');
+    });
+
+    it('should record single-contract deployments in the same manifest', async () => {
+        const { manifest: stack } = await deployIdentityStack(sandboxEnvironment(), { trc3643Registry: registry.address, manifestPath });
+        const claimIssuer = await TonClaimIssuer.fromInit('Second Issuer', 'AML');
+        const identity = await TonIdentity.fromInit(deployer.address);
+
+        await recordDeployment('sandbox', deployer.address, 'TonClaimIssuer', claimIssuer, manifestPath);
+        const manifest = await recordIdentityDeployment('sandbox', deployer.address, deployer.address, identity, manifestPath);
+
+        expect(manifest.contracts.TonClaimIssuer!.address).toEqual(claimIssuer.address.toString());
+        expect(manifest.contracts.TonIdentityGateway).toEqual(stack.contracts.TonIdentityGateway);
+        expect(manifest.identities![deployer.address.toString()]).toMatchObject({
+            address: identity.address.toString(),
+            codeHash: codes.get('TonIdentity')!.hash().toString('hex')
+        });
+        expect(await loadDeploymentManifest(manifestPath)).toEqual(manifest);
+    });
+});
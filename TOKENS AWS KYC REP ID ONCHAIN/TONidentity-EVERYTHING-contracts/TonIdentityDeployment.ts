@@ -0,0 +1,222 @@
+import { Address, Cell, Contract, ContractProvider, Sender, toNano } from '@ton/core';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TonClaimIssuer } from './TonClaimIssuer';
+import { TonIdentityFactory } from './TonIdentityFactory';
+import { TonIdentityGateway } from './TonIdentityGateway';
+import { TonIdentityIntegration } from './TonIdentityIntegration';
+
+export type StackContractName = 'TonClaimIssuer' | 'TonIdentityFactory' | 'TonIdentityGateway' | 'TonIdentityIntegration';
+
+export type ManifestEntry = {
+    address: string;
+    codeHash: string;          // hex
+    deployedAt: string;
+}
+
+// Written by configureIdentityStack
+export type ConfigurationRecord = {
+    settingsHash: string;      // sha256 of the settings file, hex
+    verifiedAt: string;
+    applied: string[];
+    verified: string[];
+}
+
+// JSON-safe record of one network's deployment
+export type DeploymentManifest = {
+    network: string;
+    deployer: string;
+    updatedAt: string;
+    identityCode?: { codeHash: string; version: string };
+    contracts: Partial<Record<StackContractName, ManifestEntry>>;
+    identities?: Record<string, ManifestEntry>;    // deployTonIdentity, by management key
+    configuration?: ConfigurationRecord;
+}
+
+export type DeployableContract = Contract & {
+    sendDeploy(provider: ContractProvider, via: Sender, value: bigint): Promise<void>;
+};
+
+// What the pipeline needs from Blueprint (or a sandbox in tests)
+export type DeployEnvironment = {
+    network: string;
+    deployer: Address;
+    compile(name: string): Promise<Cell>;
+    isDeployed(address: Address): Promise<boolean>;
+    getOwner(address: Address): Promise<Address>;                          // Ownable `owner` getter
+    deploy(contract: DeployableContract, value: bigint): Promise<void>;   // sends Deploy, waits for it
+    log?: (message: string) => void;
+}
+
+export type IdentityStackConfig = {
+    trc3643Registry: Address;
+    issuerName?: string;                   // TonClaimIssuer init, default 'TON Identity Claim Issuer'
+    issuerType?: string;                   // TonClaimIssuer init, default 'KYC'
+    identityVersion?: string;              // default '1.0.0'
+    deploymentFee?: bigint;                // factory fee per identity, default 0.05 TON
+    deployValue?: bigint;                  // attached to each Deploy, default 0.05 TON
+    manifestPath?: string;                 // default deployments/<network>.json
+}
+
+export type StepResult = {
+    name: StackContractName;
+    address: Address;
+    status: 'deployed' | 'existing';
+}
+
+export type IdentityStackDeployment = {
+    manifest: DeploymentManifest;
+    steps: StepResult[];
+}
+
+export function defaultManifestPath(network: string): string {
+    return path.join('deployments', `${network}.json`);
+}
+
+export async function loadDeploymentManifest(file: string): Promise<DeploymentManifest | null> {
+    try {
+        return JSON.parse(await fs.readFile(file, 'utf-8')) as DeploymentManifest;
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+            return null;
+        }
+        throw e;
+    }
+}
+
+export async function saveDeploymentManifest(file: string, manifest: DeploymentManifest) {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(manifest, null, 2) + '\n');
+}
+
+/**
+ * Records one contract in the network's manifest, for the single-contract
+ * deploy scripts. Keeps the first deployedAt when the address is unchanged.
+ */
+export async function recordDeployment(
+    network: string,
+    deployer: Address,
+    name: StackContractName,
+    contract: Contract,
+    file: string = defaultManifestPath(network)
+): Promise<DeploymentManifest> {
+    return updateManifest(network, deployer, file, (manifest) => {
+        manifest.contracts[name] = manifestEntry(contract, manifest.contracts[name]);
+    });
+}
+
+// Same as recordDeployment for a standalone TonIdentity
+export async function recordIdentityDeployment(
+    network: string,
+    deployer: Address,
+    managementKey: Address,
+    contract: Contract,
+    file: string = defaultManifestPath(network)
+): Promise<DeploymentManifest> {
+    return updateManifest(network, deployer, file, (manifest) => {
+        const identities = manifest.identities ?? {};
+        identities[managementKey.toString()] = manifestEntry(contract, identities[managementKey.toString()]);
+        manifest.identities = identities;
+    });
+}
+
+async function updateManifest(
+    network: string,
+    deployer: Address,
+    file: string,
+    update: (manifest: DeploymentManifest) => void
+): Promise<DeploymentManifest> {
+    const manifest = (await loadDeploymentManifest(file)) ?? emptyManifest(network, deployer);
+    update(manifest);
+    manifest.updatedAt = new Date().toISOString();
+    await saveDeploymentManifest(file, manifest);
+    return manifest;
+}
+
+function emptyManifest(network: string, deployer: Address): DeploymentManifest {
+    return { network, deployer: deployer.toString(), updatedAt: '', contracts: {} };
+}
+
+function manifestEntry(contract: Contract, previous?: ManifestEntry): ManifestEntry {
+    const address = contract.address.toString();
+    return {
+        address,
+        codeHash: contract.init!.code!.hash().toString('hex'),
+        deployedAt: previous && previous.address === address ? previous.deployedAt : new Date().toISOString()
+    };
+}
+
+/**
+ * Deploys the identity stack in dependency order: TonIdentity code (compiled
+ * only; the factory deploys from it), TonClaimIssuer, TonIdentityFactory,
+ * TonIdentityGateway wired to the factory, and TonIdentityIntegration wired
+ * to the gateway.
+ *
+ * Addresses follow from code and initial data, so a re-run computes the same
+ * addresses and skips contracts that are already active. Init data does not
+ * name the owner (each contract takes the sender of its Deploy), so an active
+ * contract is only adopted when its owner is the deployer; one deployed first
+ * by anyone else stops the run. The manifest is written after every step. If the manifest names a different address than
+ * the current code and config produce, the run stops rather than silently
+ * deploying a second copy; remove the entry to redeploy on purpose.
+ */
+export async function deployIdentityStack(env: DeployEnvironment, config: IdentityStackConfig): Promise<IdentityStackDeployment> {
+    const manifestPath = config.manifestPath ?? defaultManifestPath(env.network);
+    const deployValue = config.deployValue ?? toNano('0.05');
+    const version = config.identityVersion ?? '1.0.0';
+    const log = env.log ?? (() => {});
+
+    const manifest = (await loadDeploymentManifest(manifestPath)) ?? emptyManifest(env.network, env.deployer);
+    if (manifest.network !== env.network) {
+        throw new Error(`Manifest ${manifestPath} is for network ${manifest.network}, not ${env.network}`);
+    }
+
+    const steps: StepResult[] = [];
+    const step = async (name: StackContractName, contract: DeployableContract): Promise<Address> => {
+        const recorded = manifest.contracts[name];
+        if (recorded && !Address.parse(recorded.address).equals(contract.address)) {
+            throw new Error(
+                `${name}: manifest has ${recorded.address} but the current code and config give ${contract.address}; ` +
+                `remove the manifest entry to deploy a new instance`
+            );
+        }
+
+        let status: StepResult['status'] = 'existing';
+        if (await env.isDeployed(contract.address)) {
+            const owner = await env.getOwner(contract.address);
+            if (!owner.equals(env.deployer)) {
+                throw new Error(`${name}: ${contract.address} is already deployed but owned by ${owner}, not ${env.deployer}`);
+            }
+            log(`${name} already deployed at ${contract.address}`);
+        } else {
+            await env.deploy(contract, deployValue);
+            status = 'deployed';
+            log(`${name} deployed at ${contract.address}`);
+        }
+
+        manifest.contracts[name] = manifestEntry(contract, recorded);
+        manifest.updatedAt = new Date().toISOString();
+        await saveDeploymentManifest(manifestPath, manifest);
+        steps.push({ name, address: contract.address, status });
+        return contract.address;
+    };
+
+    const identityCode = await env.compile('TonIdentity');
+    manifest.identityCode = { codeHash: identityCode.hash().toString('hex'), version };
+
+    await step('TonClaimIssuer', await TonClaimIssuer.fromInit(
+        config.issuerName ?? 'TON Identity Claim Issuer', config.issuerType ?? 'KYC'
+    ));
+
+    const factory = await step('TonIdentityFactory', await TonIdentityFactory.fromInit(
+        identityCode, version, config.deploymentFee ?? toNano('0.05')
+    ));
+
+    const gateway = await step('TonIdentityGateway', await TonIdentityGateway.fromInit(factory));
+
+    await step('TonIdentityIntegration', await TonIdentityIntegration.fromInit(
+        env.deployer, config.trc3643Registry, gateway
+    ));
+
+    return { manifest, steps };
+}
@@ -0,0 +1,206 @@
+import {
+    Address,
+    Cell,
+    Message,
+    Slice,
+    Transaction
+} from '@ton/core';
+
+// Decoders for the events TonIdentity.tact emits as external-out messages.
+// Event bodies use the same Tact layouts as inbound messages: a sha256-derived
+// 32-bit header followed by the fields, spilling into a trailing ref once a
+// cell runs out of bits (the claim events move `issuer` onwards into a ref).
+
+export type KeyAdded = {
+    $$type: 'KeyAdded';
+    key: bigint;
+    purpose: bigint;
+    keyType: bigint;
+}
+
+export type KeyRemoved = {
+    $$type: 'KeyRemoved';
+    key: bigint;
+    purpose: bigint;
+    keyType: bigint;
+}
+
+export type ExecutionRequested = {
+    $$type: 'ExecutionRequested';
+    executionId: bigint;
+    to: Address;
+    value: bigint;
+    data: Slice;
+}
+
+export type Executed = {
+    $$type: 'Executed';
+    executionId: bigint;
+    to: Address;
+    value: bigint;
+    data: Slice;
+}
+
+export type ExecutionFailed = {
+    $$type: 'ExecutionFailed';
+    executionId: bigint;
+    to: Address;
+    value: bigint;
+    data: Slice;
+}
+
+export type Approved = {
+    $$type: 'Approved';
+    executionId: bigint;
+    approved: boolean;
+}
+
+export type ClaimAdded = {
+    $$type: 'ClaimAdded';
+    claimId: bigint;
+    topic: bigint;
+    scheme: bigint;
+    issuer: Address;
+    signature: Slice;
+    data: Slice;
+    uri: string;
+}
+
+export type ClaimRemoved = {
+    $$type: 'ClaimRemoved';
+    claimId: bigint;
+    topic: bigint;
+    scheme: bigint;
+    issuer: Address;
+    signature: Slice;
+    data: Slice;
+    uri: string;
+}
+
+export type ClaimChanged = {
+    $$type: 'ClaimChanged';
+    claimId: bigint;
+    topic: bigint;
+    scheme: bigint;
+    issuer: Address;
+    signature: Slice;
+    data: Slice;
+    uri: string;
+}
+
+export type CodeUpgraded = {
+    $$type: 'CodeUpgraded';
+    version: string;
+    codeHash: bigint;
+}
+
+export type TonIdentityEvent =
+    | KeyAdded
+    | KeyRemoved
+    | ExecutionRequested
+    | Executed
+    | ExecutionFailed
+    | Approved
+    | ClaimAdded
+    | ClaimRemoved
+    | ClaimChanged
+    | CodeUpgraded;
+
+export const TonIdentityEventOpcodes = {
+    KeyAdded: 0xcef918af,           // KeyAdded{key:int257,purpose:int257,keyType:int257}
+    KeyRemoved: 0x39bd844a,         // KeyRemoved{key:int257,purpose:int257,keyType:int257}
+    ExecutionRequested: 0xf75647ef, // ExecutionRequested{executionId:int257,to:address,value:int257,data:^slice}
+    Executed: 0x8851ffe0,           // Executed{executionId:int257,to:address,value:int257,data:^slice}
+    ExecutionFailed: 0x3efe1bba,    // ExecutionFailed{executionId:int257,to:address,value:int257,data:^slice}
+    Approved: 0xf299c001,           // Approved{executionId:int257,approved:bool}
+    ClaimAdded: 0x7f213e7f,         // ClaimAdded{claimId:int257,topic:int257,scheme:int257,issuer:address,signature:^slice,data:^slice,uri:^string}
+    ClaimRemoved: 0x65f8363e,       // ClaimRemoved{...same fields as ClaimAdded}
+    ClaimChanged: 0xcdaba06f,       // ClaimChanged{...same fields as ClaimAdded}
+    CodeUpgraded: 0x7fde45c7,       // CodeUpgraded{version:^string,codeHash:int257}
+} as const;
+
+function loadKeyFields(sc_0: Slice) {
+    const _key = sc_0.loadIntBig(257);
+    const _purpose = sc_0.loadIntBig(257);
+    const _keyType = sc_0.loadIntBig(257);
+    return { key: _key, purpose: _purpose, keyType: _keyType };
+}
+
+function loadExecutionFields(sc_0: Slice) {
+    const _executionId = sc_0.loadIntBig(257);
+    const _to = sc_0.loadAddress();
+    const _value = sc_0.loadIntBig(257);
+    const _data = sc_0.loadRef().asSlice();
+    return { executionId: _executionId, to: _to, value: _value, data: _data };
+}
+
+function loadClaimFields(sc_0: Slice) {
+    const _claimId = sc_0.loadIntBig(257);
+    const _topic = sc_0.loadIntBig(257);
+    const _scheme = sc_0.loadIntBig(257);
+    const sc_1 = sc_0.loadRef().beginParse();
+    const _issuer = sc_1.loadAddress();
+    const _signature = sc_1.loadRef().asSlice();
+    const _data = sc_1.loadRef().asSlice();
+    const _uri = sc_1.loadStringRefTail();
+    return { claimId: _claimId, topic: _topic, scheme: _scheme, issuer: _issuer, signature: _signature, data: _data, uri: _uri };
+}
+
+/**
+ * Decodes a single event body. Returns null for bodies that are not
+ * TonIdentity events (unknown header or too short to carry one).
+ */
+export function loadTonIdentityEvent(body: Cell): TonIdentityEvent | null {
+    const sc_0 = body.beginParse();
+    if (sc_0.remainingBits < 32) {
+        return null;
+    }
+    switch (sc_0.loadUint(32)) {
+        case TonIdentityEventOpcodes.KeyAdded:
+            return { $$type: 'KeyAdded', ...loadKeyFields(sc_0) };
+        case TonIdentityEventOpcodes.KeyRemoved:
+            return { $$type: 'KeyRemoved', ...loadKeyFields(sc_0) };
+        case TonIdentityEventOpcodes.ExecutionRequested:
+            return { $$type: 'ExecutionRequested', ...loadExecutionFields(sc_0) };
+        case TonIdentityEventOpcodes.Executed:
+            return { $$type: 'Executed', ...loadExecutionFields(sc_0) };
+        case TonIdentityEventOpcodes.ExecutionFailed:
+            return { $$type: 'ExecutionFailed', ...loadExecutionFields(sc_0) };
+        case TonIdentityEventOpcodes.Approved:
+            return { $$type: 'Approved', executionId: sc_0.loadIntBig(257), approved: sc_0.loadBit() };
+        case TonIdentityEventOpcodes.ClaimAdded:
+            return { $$type: 'ClaimAdded', ...loadClaimFields(sc_0) };
+        case TonIdentityEventOpcodes.ClaimRemoved:
+            return { $$type: 'ClaimRemoved', ...loadClaimFields(sc_0) };
+        case TonIdentityEventOpcodes.ClaimChanged:
+            return { $$type: 'ClaimChanged', ...loadClaimFields(sc_0) };
+        case TonIdentityEventOpcodes.CodeUpgraded:
+            return { $$type: 'CodeUpgraded', version: sc_0.loadStringRefTail(), codeHash: sc_0.loadIntBig(257) };
+        default:
+            return null;
+    }
+}
+
+/**
+ * Collects the TonIdentity events from a transaction's out-messages, in
+ * emission order. Accepts a sandbox or live `Transaction`, or the raw
+ * out-message list. When `identity` is given, events emitted by other
+ * contracts in the same transaction are skipped.
+ */
+export function parseTonIdentityEvents(source: Transaction | Message[], identity?: Address): TonIdentityEvent[] {
+    const messages = Array.isArray(source) ? source : source.outMessages.values();
+    const events: TonIdentityEvent[] = [];
+    for (const message of messages) {
+        if (message.info.type !== 'external-out') {
+            continue;
+        }
+        if (identity && !message.info.src.equals(identity)) {
+            continue;
+        }
+        const event = loadTonIdentityEvent(message.body);
+        if (event) {
+            events.push(event);
+        }
+    }
+    return events;
+}
@@ -0,0 +1,370 @@
+import { Blockchain, SandboxContract, TreasuryContract } from '@ton/sandbox';
+import { Address, toNano, beginCell } from '@ton/core';
+import { TonIdentity } from '../wrappers/TonIdentity';
+import { TonIdentityExecutionWorkflow, ExecutionRequestState } from '../wrappers/TonIdentityExecution';
+import { parseTonIdentityEvents } from '../wrappers/TonIdentityEvents';
+import { addressToKeyHash, KeyPurpose, KeyType } from '../wrappers/TonIdentityKeys';
+import '@ton/test-utils';
+
+describe('TonIdentityExecutionWorkflow', () => {
+    let blockchain: Blockchain;
+    let deployer: SandboxContract<TreasuryContract>;
+    let manager: SandboxContract<TreasuryContract>;
+    let user: SandboxContract<TreasuryContract>;
+    let tonIdentity: SandboxContract<TonIdentity>;
+    let workflow: TonIdentityExecutionWorkflow;
+    let statusChanges: ExecutionRequestState[];
+
+    beforeEach(async () => {
+        blockchain = await Blockchain.create();
+
+        deployer = await blockchain.treasury('deployer');
+        manager = await blockchain.treasury('manager');
+        user = await blockchain.treasury('user');
+
+        tonIdentity = blockchain.openContract(
+            await TonIdentity.fromInit(deployer.address)
+        );
+
+        await tonIdentity.sendDeploy(deployer.getSender(), toNano('0.05'));
+
+        // Second management key for the treasury quorum
+        await tonIdentity.sendAddKey(
+            deployer.getSender(),
+            {
+                value: toNano('0.05'),
+                key: addressToKeyHash(manager.address),
+                purpose: KeyPurpose.MANAGEMENT,
+                keyType: KeyType.ECDSA
+            }
+        );
+
+        statusChanges = [];
+        workflow = new TonIdentityExecutionWorkflow(tonIdentity, {
+            pollIntervalMs: 0,
+            timeoutMs: 1000,
+            onStatusChange: (state) => statusChanges.push(state)
+        });
+    });
+
+    describe('Single Approval', () => {
+        it('should execute immediately when one approval is required', async () => {
+            const executionId = await workflow.createRequest(deployer.getSender(), {
+                to: user.address,
+                amount: toNano('0.01')
+            });
+
+            const state = await workflow.getRequest(executionId);
+            expect(state).not.toBeNull();
+            expect(state!.status).toBe('executed');
+            expect(state!.approvals).toEqual([addressToKeyHash(deployer.address)]);
+        });
+
+        it('should send the call to its target', async () => {
+            const data = beginCell().storeUint(0, 32).storeStringTail('payout').endCell();
+
+            const result = await tonIdentity.sendExecute(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    to: user.address,
+                    amount: toNano('0.01'),
+                    data
+                }
+            );
+
+            expect(result.transactions).toHaveTransaction({
+                from: tonIdentity.address,
+                to: user.address,
+                value: toNano('0.01'),
+                body: data,
+                success: true,
+            });
+            expect((await workflow.getRequest(await tonIdentity.getGetExecutionNonce()))!.status).toBe('executed');
+        });
+
+        it('should mark a call failed when its target bounces it', async () => {
+            // Bounceable messages to an account without code come back
+            const missing = new Address(0, Buffer.alloc(32, 7));
+
+            const result = await tonIdentity.sendExecute(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    to: missing,
+                    amount: toNano('0.01'),
+                    data: beginCell().storeUint(0x1234, 32).endCell()
+                }
+            );
+            const executionId = await tonIdentity.getGetExecutionNonce();
+
+            expect(result.transactions).toHaveTransaction({
+                from: missing,
+                to: tonIdentity.address,
+                inMessageBounced: true,
+            });
+            const events = result.transactions.flatMap((tx) => parseTonIdentityEvents(tx, tonIdentity.address));
+            expect(events.map((e) => e.$$type)).toEqual(['ExecutionRequested', 'Executed', 'ExecutionFailed']);
+            expect((await workflow.getRequest(executionId))!.status).toBe('failed');
+        });
+
+        it('should mark a call failed when the identity cannot fund it', async () => {
+            const executionId = await workflow.createRequest(deployer.getSender(), {
+                to: user.address,
+                amount: toNano('1000')
+            });
+
+            expect((await workflow.getRequest(executionId))!.status).toBe('failed');
+        });
+
+        it('should keep a request open while the remaining keys can still approve it', async () => {
+            // Action keys can request but not approve
+            await tonIdentity.sendAddKey(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    key: addressToKeyHash(user.address),
+                    purpose: KeyPurpose.ACTION,
+                    keyType: KeyType.ECDSA
+                }
+            );
+            const executionId = await workflow.createRequest(user.getSender(), {
+                to: user.address,
+                amount: toNano('0.01')
+            });
+
+            expect((await workflow.reject(manager.getSender(), executionId)).status).toBe('pending');
+
+            const state = await workflow.reject(deployer.getSender(), executionId);
+            expect(state.status).toBe('rejected');
+            expect(state.rejections).toHaveLength(2);
+        });
+    });
+
+    describe('Multi Approval', () => {
+        beforeEach(async () => {
+            await tonIdentity.sendSetRequiredApprovals(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    requiredApprovals: 2n
+                }
+            );
+        });
+
+        it('should keep the request pending until the quorum approves', async () => {
+            const executionId = await workflow.createRequest(deployer.getSender(), {
+                to: user.address,
+                amount: toNano('0.01'),
+                data: beginCell().storeUint(1, 8).endCell()
+            });
+
+            const pending = await workflow.listPending();
+            expect(pending.map((p) => p.executionId)).toEqual([executionId]);
+            expect(pending[0].requiredApprovals).toBe(2n);
+            expect(pending[0].approvals).toEqual([addressToKeyHash(deployer.address)]);
+
+            const state = await workflow.collectApprovals(executionId, [manager.getSender()]);
+            expect(state.status).toBe('executed');
+            expect(state.approvals).toHaveLength(2);
+            expect(state.approvals).toContain(addressToKeyHash(manager.address));
+
+            expect(await workflow.listPending()).toEqual([]);
+            expect(statusChanges.map((s) => s.status)).toEqual(['pending', 'executed']);
+        });
+
+        it('should wait for each approval to land before sending the next', async () => {
+            // Approvals show up two getter polls after they are sent, as on a live network
+            let sends = 0;
+            let polls = 0;
+            let inFlight: (() => Promise<unknown>) | null = null;
+            const lagging = new Proxy(tonIdentity, {
+                get: (target, prop, receiver) => {
+                    if (prop === 'sendApproveExecution') {
+                        return async (...args: Parameters<typeof target.sendApproveExecution>) => {
+                            sends++;
+                            polls = 0;
+                            inFlight = () => target.sendApproveExecution(...args);
+                        };
+                    }
+                    if (prop === 'getGetExecutionRequest') {
+                        return async (executionId: bigint) => {
+                            const request = await target.getGetExecutionRequest(executionId);
+                            if (inFlight && ++polls === 2) {
+                                await inFlight();
+                                inFlight = null;
+                            }
+                            return request;
+                        };
+                    }
+                    return Reflect.get(target, prop, receiver);
+                }
+            });
+            const executionId = await workflow.createRequest(deployer.getSender(), {
+                to: user.address,
+                amount: toNano('0.01')
+            });
+
+            const state = await new TonIdentityExecutionWorkflow(lagging, { pollIntervalMs: 0, timeoutMs: 1000 })
+                .collectApprovals(executionId, [manager.getSender(), deployer.getSender()]);
+
+            expect(state.status).toBe('executed');
+            expect(sends).toBe(1);
+        });
+
+        it('should mark a request failed when its call is refused', async () => {
+            // Would leave one management key under a quorum of two
+            await tonIdentity.sendRemoveKey(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    key: addressToKeyHash(manager.address),
+                    purpose: KeyPurpose.MANAGEMENT
+                }
+            );
+            const executionId = await tonIdentity.getGetExecutionNonce();
+
+            const state = await workflow.collectApprovals(executionId, [manager.getSender()]);
+
+            expect(state.status).toBe('failed');
+            expect(await tonIdentity.getKeyHasPurpose(addressToKeyHash(manager.address), KeyPurpose.MANAGEMENT)).toBe(true);
+            expect(await workflow.listPending()).toEqual([]);
+
+            const retry = await tonIdentity.sendApproveExecution(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    executionId,
+                    approve: true
+                }
+            );
+            expect(retry.transactions).toHaveTransaction({
+                from: deployer.address,
+                to: tonIdentity.address,
+                success: false,
+            });
+        });
+
+        it('should close a request once rejections put the quorum out of reach', async () => {
+            const executionId = await workflow.createRequest(deployer.getSender(), {
+                to: user.address,
+                amount: toNano('0.01')
+            });
+
+            const state = await workflow.reject(manager.getSender(), executionId);
+            expect(state.status).toBe('rejected');
+            expect(state.rejections).toEqual([addressToKeyHash(manager.address)]);
+            expect(await workflow.listPending()).toEqual([]);
+
+            const late = await tonIdentity.sendApproveExecution(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    executionId,
+                    approve: true
+                }
+            );
+            expect(late.transactions).toHaveTransaction({
+                from: deployer.address,
+                to: tonIdentity.address,
+                success: false,
+            });
+            expect(late.transactions).not.toHaveTransaction({
+                from: tonIdentity.address,
+                to: user.address,
+            });
+        });
+
+        it('should ignore approvals from keys without management purpose', async () => {
+            const executionId = await workflow.createRequest(deployer.getSender(), {
+                to: user.address,
+                amount: toNano('0.01')
+            });
+
+            const result = await tonIdentity.sendApproveExecution(
+                user.getSender(),
+                {
+                    value: toNano('0.05'),
+                    executionId,
+                    approve: true
+                }
+            );
+
+            expect(result.transactions).toHaveTransaction({
+                from: user.address,
+                to: tonIdentity.address,
+                success: false,
+            });
+
+            const state = await workflow.getRequest(executionId);
+            expect(state!.status).toBe('pending');
+        });
+
+        it('should track status changes from emitted events', async () => {
+            const executionId = await workflow.createRequest(deployer.getSender(), {
+                to: user.address,
+                amount: toNano('0.01')
+            });
+
+            const result = await tonIdentity.sendApproveExecution(
+                manager.getSender(),
+                {
+                    value: toNano('0.05'),
+                    executionId,
+                    approve: true
+                }
+            );
+
+            const events = result.transactions.flatMap((tx) => parseTonIdentityEvents(tx, tonIdentity.address));
+            const changed = await workflow.applyEvents(events);
+
+            expect(changed).toHaveLength(1);
+            expect(changed[0].executionId).toBe(executionId);
+            expect(changed[0].status).toBe('executed');
+        });
+
+        it('should report ExecutionFailed events as failed', async () => {
+            await tonIdentity.sendRemoveKey(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    key: addressToKeyHash(manager.address),
+                    purpose: KeyPurpose.MANAGEMENT
+                }
+            );
+            const executionId = await tonIdentity.getGetExecutionNonce();
+
+            const result = await tonIdentity.sendApproveExecution(
+                manager.getSender(),
+                {
+                    value: toNano('0.05'),
+                    executionId,
+                    approve: true
+                }
+            );
+
+            const events = result.transactions.flatMap((tx) => parseTonIdentityEvents(tx, tonIdentity.address));
+            expect(events.map((e) => e.$$type)).toContain('ExecutionFailed');
+
+            const changed = await workflow.applyEvents(events);
+            expect(changed.map((c) => c.status)).toEqual(['failed']);
+        });
+
+        it('should reject a zero approval threshold', async () => {
+            const result = await tonIdentity.sendSetRequiredApprovals(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    requiredApprovals: 0n
+                }
+            );
+
+            expect(result.transactions).toHaveTransaction({
+                from: deployer.address,
+                to: tonIdentity.address,
+                success: false,
+            });
+            expect(await tonIdentity.getGetRequiredApprovals()).toBe(2n);
+        });
+    });
+});
@@ -0,0 +1,241 @@
+import { Address, Cell, Sender, Slice, toNano } from '@ton/core';
+import { ExecutionRequest, TonIdentityClient } from './TonIdentity';
+import { TonIdentityEvent } from './TonIdentityEvents';
+import { addressToKeyHash } from './TonIdentityKeys';
+
+export type ExecutionStatus = 'pending' | 'executed' | 'failed' | 'rejected';
+
+export type ExecutionRequestState = {
+    executionId: bigint;
+    to: Address;
+    value: bigint;
+    data: Slice;
+    status: ExecutionStatus;
+    approvals: bigint[];
+    rejections: bigint[];
+    requiredApprovals: bigint;
+}
+
+export type ExecutionWorkflowOptions = {
+    messageValue?: bigint;       // TON attached to each ExecuteAction/ApproveExecution
+    pollIntervalMs?: number;     // delay between getter polls on a live network
+    timeoutMs?: number;          // give up waiting after this long
+    onStatusChange?: (state: ExecutionRequestState) => void;
+}
+
+/**
+ * Multi-approval execution workflow on top of an opened TonIdentity.
+ *
+ * The contract only executes a request once `getRequiredApprovals` management
+ * keys have approved it. This class creates requests, fans approvals out to
+ * several management-key senders and tracks each request's status from both
+ * getters and emitted events. Once approved, a request to the identity
+ * itself is applied in place and any other request is sent to its target
+ * with `value` and `data` as the body. A request whose call failed on-chain
+ * (refused, unfunded, or bounced by its target) stays approved but
+ * unexecuted, and reads back as `failed`. Rejections close a request as
+ * `rejected` once the remaining management keys can no longer reach the
+ * quorum.
+ */
+export class TonIdentityExecutionWorkflow {
+    private readonly messageValue: bigint;
+    private readonly pollIntervalMs: number;
+    private readonly timeoutMs: number;
+    private readonly onStatusChange?: (state: ExecutionRequestState) => void;
+
+    private readonly lastStatus = new Map<bigint, ExecutionStatus>();
+
+    constructor(readonly identity: TonIdentityClient, opts: ExecutionWorkflowOptions = {}) {
+        this.messageValue = opts.messageValue ?? toNano('0.05');
+        this.pollIntervalMs = opts.pollIntervalMs ?? 3000;
+        this.timeoutMs = opts.timeoutMs ?? 60000;
+        this.onStatusChange = opts.onStatusChange;
+    }
+
+    /**
+     * Submits an ExecuteAction and resolves with the execution id the
+     * contract assigned to it. The id is taken from the execution nonce, so
+     * requests submitted concurrently by other keys may race with this one.
+     */
+    async createRequest(via: Sender, opts: { to: Address; amount: bigint; data?: Cell; queryId?: bigint }): Promise<bigint> {
+        const nonceBefore = await this.identity.getGetExecutionNonce();
+
+        await this.identity.sendExecute(via, {
+            value: this.messageValue,
+            queryId: opts.queryId,
+            to: opts.to,
+            amount: opts.amount,
+            data: opts.data ?? Cell.EMPTY
+        });
+
+        const executionId = nonceBefore + 1n;
+        await this.waitUntil(async () => (await this.identity.getGetExecutionNonce()) >= executionId);
+        await this.refresh(executionId);
+        return executionId;
+    }
+
+    async approve(via: Sender, executionId: bigint): Promise<ExecutionRequestState> {
+        return this.vote(via, executionId, true);
+    }
+
+    async reject(via: Sender, executionId: bigint): Promise<ExecutionRequestState> {
+        return this.vote(via, executionId, false);
+    }
+
+    /**
+     * Approves from each sender in turn, waiting for each approval to land,
+     * and stops as soon as the request leaves the pending state. Resolves
+     * with the final request state.
+     */
+    async collectApprovals(executionId: bigint, approvers: Sender[]): Promise<ExecutionRequestState> {
+        let state = await this.requireRequest(executionId);
+        for (const approver of approvers) {
+            if (state.status !== 'pending') {
+                break;
+            }
+            state = await this.approve(approver, executionId);
+        }
+        return state;
+    }
+
+    async getRequest(executionId: bigint): Promise<ExecutionRequestState | null> {
+        const request = await this.identity.getGetExecutionRequest(executionId);
+        if (!request) {
+            return null;
+        }
+        const requiredApprovals = await this.identity.getGetRequiredApprovals();
+        return this.toState(executionId, request, requiredApprovals);
+    }
+
+    /**
+     * Lists every request that has neither executed nor been seen to fail.
+     * Walks ids 1..executionNonce, one getter call per id.
+     */
+    async listPending(): Promise<ExecutionRequestState[]> {
+        const nonce = await this.identity.getGetExecutionNonce();
+        const requiredApprovals = await this.identity.getGetRequiredApprovals();
+        const pending: ExecutionRequestState[] = [];
+        for (let executionId = 1n; executionId <= nonce; executionId++) {
+            const request = await this.identity.getGetExecutionRequest(executionId);
+            if (!request) {
+                continue;
+            }
+            const state = this.toState(executionId, request, requiredApprovals);
+            if (state.status === 'pending') {
+                pending.push(state);
+            }
+        }
+        return pending;
+    }
+
+    /**
+     * Feeds decoded identity events into the tracker and re-reads every
+     * request they mention. Resolves with the requests whose status changed.
+     */
+    async applyEvents(events: TonIdentityEvent[]): Promise<ExecutionRequestState[]> {
+        const touched = new Set<bigint>();
+        for (const event of events) {
+            if (event.$$type === 'ExecutionRequested' || event.$$type === 'Approved' ||
+                event.$$type === 'Executed' || event.$$type === 'ExecutionFailed') {
+                touched.add(event.executionId);
+            }
+        }
+
+        const changed: ExecutionRequestState[] = [];
+        for (const executionId of touched) {
+            const previous = this.lastStatus.get(executionId);
+            const state = await this.refresh(executionId);
+            if (state && state.status !== previous) {
+                changed.push(state);
+            }
+        }
+        return changed;
+    }
+
+    /**
+     * Polls until the request executes, fails or is rejected, then resolves
+     * with its final state. Rejects on timeout.
+     */
+    async waitForCompletion(executionId: bigint): Promise<ExecutionRequestState> {
+        let state: ExecutionRequestState | undefined;
+        await this.waitUntil(async () => {
+            state = await this.requireRequest(executionId);
+            return state.status !== 'pending';
+        });
+        return state!;
+    }
+
+    /**
+     * Sends an approval or rejection and waits until the request records the
+     * sender's vote or leaves the pending state. A vote the contract refused
+     * never lands, so it ends in a timeout.
+     */
+    private async vote(via: Sender, executionId: bigint, approve: boolean): Promise<ExecutionRequestState> {
+        if (!via.address) {
+            throw new Error('Approving needs a sender with an address');
+        }
+        const voterKey = addressToKeyHash(via.address);
+
+        await this.identity.sendApproveExecution(via, {
+            value: this.messageValue,
+            executionId,
+            approve
+        });
+
+        let state: ExecutionRequestState | undefined;
+        await this.waitUntil(async () => {
+            state = await this.requireRequest(executionId);
+            const votes = approve ? state.approvals : state.rejections;
+            return state.status !== 'pending' || votes.includes(voterKey);
+        });
+        return state!;
+    }
+
+    private async refresh(executionId: bigint): Promise<ExecutionRequestState | null> {
+        const state = await this.getRequest(executionId);
+        if (state && this.lastStatus.get(executionId) !== state.status) {
+            this.lastStatus.set(executionId, state.status);
+            this.onStatusChange?.(state);
+        }
+        return state;
+    }
+
+    private async requireRequest(executionId: bigint): Promise<ExecutionRequestState> {
+        const state = await this.refresh(executionId);
+        if (!state) {
+            throw new Error(`Execution request ${executionId} does not exist`);
+        }
+        return state;
+    }
+
+    private toState(executionId: bigint, request: ExecutionRequest, requiredApprovals: bigint): ExecutionRequestState {
+        let status: ExecutionStatus = 'pending';
+        if (request.executed) {
+            status = 'executed';
+        } else if (request.rejected) {
+            status = 'rejected';
+        } else if (request.approved) {
+            status = 'failed';
+        }
+        return {
+            executionId,
+            to: request.to,
+            value: request.value,
+            data: request.data,
+            status,
+            approvals: request.approvals,
+            rejections: request.rejections,
+            requiredApprovals
+        };
+    }
+
+    private async waitUntil(check: () => Promise<boolean>): Promise<void> {
+        const deadline = Date.now() + this.timeoutMs;
+        while (!(await check())) {
+            if (Date.now() >= deadline) {
+                throw new Error('Timed out waiting for identity state');
+            }
+            await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+        }
+    }
+}
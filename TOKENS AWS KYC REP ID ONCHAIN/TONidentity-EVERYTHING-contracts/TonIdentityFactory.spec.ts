@@ -2,15 +2,14 @@ import { Blockchain, SandboxContract, TreasuryContract } from '@ton/sandbox';
 import { Cell, toNano, beginCell, Address } from '@ton/core';
 import { TonIdentityFactory } from '../wrappers/TonIdentityFactory';
 import { TonIdentity } from '../wrappers/TonIdentity';
+import { addressToKeyHash } from '../wrappers/TonIdentityKeys';
 import '@ton/test-utils';
 import { compile } from '@ton/blueprint';
 
 describe('TonIdentityFactory', () => {
-    let factoryCode: Cell;
     let identityCode: Cell;
 
     beforeAll(async () => {
-        factoryCode = await compile('TonIdentityFactory');
         identityCode = await compile('TonIdentity');
     });
 
@@ -30,11 +29,7 @@ describe('TonIdentityFactory', () => {
         admin = await blockchain.treasury('admin');
 
         factory = blockchain.openContract(
-            TonIdentityFactory.createFromConfig({
-                admin: deployer.address,
-                identityCode: identityCode,
-                deploymentCount: 0n
-            }, factoryCode)
+            await TonIdentityFactory.fromInit(identityCode, '1.0.0', toNano('0.05'))
         );
 
         const deployResult = await factory.sendDeploy(deployer.getSender(), toNano('0.05'));
@@ -54,8 +49,8 @@ describe('TonIdentityFactory', () => {
             const result = await factory.sendDeployIdentity(
                 user1.getSender(),
                 {
-                    value: toNano('0.1'),
-                    owner: user1.address,
+                    value: toNano('1'),
+                    managementKey: user1.address,
                     salt: salt
                 }
             );
@@ -67,7 +62,7 @@ describe('TonIdentityFactory', () => {
             });
 
             // Check if identity was deployed
-            const identityAddress = await factory.getGetIdentityAddress(user1.address, salt);
+            const identityAddress = await factory.getCalculateIdentityAddress(user1.address, salt);
             expect(identityAddress).toBeDefined();
 
             // Verify the identity contract exists and is functional
@@ -76,30 +71,30 @@ describe('TonIdentityFactory', () => {
             );
 
             // The identity should have the owner's key as management key
-            const ownerKeyHash = BigInt('0x' + user1.address.hash.toString('hex'));
+            const ownerKeyHash = addressToKeyHash(user1.address);
             const keyInfo = await identity.getGetKey(ownerKeyHash);
-            expect(keyInfo.purpose).toBe(1n); // MANAGEMENT_KEY
-            expect(keyInfo.exists).toBe(1n);
+            expect(keyInfo).not.toBeNull();
+            expect(keyInfo!.purposes.has(1)).toBe(true); // MANAGEMENT_KEY
         });
 
         it('should calculate identity address correctly', async () => {
             const salt = 54321n;
             
             // Get address before deployment
-            const predictedAddress = await factory.getGetIdentityAddress(user1.address, salt);
+            const predictedAddress = await factory.getCalculateIdentityAddress(user1.address, salt);
             
             // Deploy identity
             await factory.sendDeployIdentity(
                 user1.getSender(),
                 {
-                    value: toNano('0.1'),
-                    owner: user1.address,
+                    value: toNano('1'),
+                    managementKey: user1.address,
                     salt: salt
                 }
             );
 
             // Get address after deployment
-            const actualAddress = await factory.getGetIdentityAddress(user1.address, salt);
+            const actualAddress = await factory.getCalculateIdentityAddress(user1.address, salt);
             
             expect(predictedAddress.toString()).toBe(actualAddress.toString());
         });
@@ -110,53 +105,61 @@ describe('TonIdentityFactory', () => {
             await factory.sendDeployIdentity(
                 user1.getSender(),
                 {
-                    value: toNano('0.1'),
-                    owner: user1.address,
+                    value: toNano('1'),
+                    managementKey: user1.address,
                     salt: salt
                 }
             );
 
-            const identityAddress = await factory.getGetIdentityAddress(user1.address, salt);
+            const identityAddress = await factory.getCalculateIdentityAddress(user1.address, salt);
             const isValid = await factory.getIsValidIdentity(identityAddress);
             
-            expect(isValid).toBe(1n);
+            expect(isValid).toBe(true);
         });
 
         it('should not validate non-deployed identity', async () => {
             const salt = 11111n;
-            const identityAddress = await factory.getGetIdentityAddress(user1.address, salt);
+            const identityAddress = await factory.getCalculateIdentityAddress(user1.address, salt);
             const isValid = await factory.getIsValidIdentity(identityAddress);
             
-            expect(isValid).toBe(0n);
+            expect(isValid).toBe(false);
         });
 
-        it('should deploy multiple identities for same owner with different salts', async () => {
-            const salts = [1n, 2n, 3n];
-            const deployedAddresses: Address[] = [];
+        it('should allow only one identity per owner', async () => {
+            const first = await factory.sendDeployIdentity(
+                user1.getSender(),
+                {
+                    value: toNano('1'),
+                    managementKey: user1.address,
+                    salt: 1n
+                }
+            );
 
-            for (const salt of salts) {
-                await factory.sendDeployIdentity(
-                    user1.getSender(),
-                    {
-                        value: toNano('0.1'),
-                        owner: user1.address,
-                        salt: salt
-                    }
-                );
+            expect(first.transactions).toHaveTransaction({
+                from: user1.address,
+                to: factory.address,
+                success: true,
+            });
 
-                const identityAddress = await factory.getGetIdentityAddress(user1.address, salt);
-                deployedAddresses.push(identityAddress);
-            }
+            // A different salt still maps to the same owner
+            const second = await factory.sendDeployIdentity(
+                user1.getSender(),
+                {
+                    value: toNano('1'),
+                    managementKey: user1.address,
+                    salt: 2n
+                }
+            );
 
-            // All addresses should be different
-            const uniqueAddresses = new Set(deployedAddresses.map(addr => addr.toString()));
-            expect(uniqueAddresses.size).toBe(salts.length);
+            expect(second.transactions).toHaveTransaction({
+                from: user1.address,
+                to: factory.address,
+                success: false,
+            });
 
-            // All should be valid
-            for (const address of deployedAddresses) {
-                const isValid = await factory.getIsValidIdentity(address);
-                expect(isValid).toBe(1n);
-            }
+            const entry = await factory.getGetIdentityByOwner(user1.address);
+            expect(entry!.identity.equals(await factory.getCalculateIdentityAddress(user1.address, 1n))).toBe(true);
+            expect(await factory.getIsValidIdentity(await factory.getCalculateIdentityAddress(user1.address, 2n))).toBe(false);
         });
 
         it('should deploy identities for different owners', async () => {
@@ -168,13 +171,13 @@ describe('TonIdentityFactory', () => {
                 await factory.sendDeployIdentity(
                     owner.getSender(),
                     {
-                        value: toNano('0.1'),
-                        owner: owner.address,
+                        value: toNano('1'),
+                        managementKey: owner.address,
                         salt: salt
                     }
                 );
 
-                const identityAddress = await factory.getGetIdentityAddress(owner.address, salt);
+                const identityAddress = await factory.getCalculateIdentityAddress(owner.address, salt);
                 deployedAddresses.push(identityAddress);
             }
 
@@ -184,7 +187,7 @@ describe('TonIdentityFactory', () => {
             // Both should be valid
             for (const address of deployedAddresses) {
                 const isValid = await factory.getIsValidIdentity(address);
-                expect(isValid).toBe(1n);
+                expect(isValid).toBe(true);
             }
         });
 
@@ -195,8 +198,8 @@ describe('TonIdentityFactory', () => {
             const firstResult = await factory.sendDeployIdentity(
                 user1.getSender(),
                 {
-                    value: toNano('0.1'),
-                    owner: user1.address,
+                    value: toNano('1'),
+                    managementKey: user1.address,
                     salt: salt
                 }
             );
@@ -211,8 +214,8 @@ describe('TonIdentityFactory', () => {
             const secondResult = await factory.sendDeployIdentity(
                 user1.getSender(),
                 {
-                    value: toNano('0.1'),
-                    owner: user1.address,
+                    value: toNano('1'),
+                    managementKey: user1.address,
                     salt: salt
                 }
             );
@@ -235,7 +238,8 @@ describe('TonIdentityFactory', () => {
                 deployer.getSender(),
                 {
                     value: toNano('0.05'),
-                    newImplementation: newImplementation
+                    newImplementation: newImplementation,
+                    version: '1.1.0'
                 }
             );
 
@@ -245,8 +249,9 @@ describe('TonIdentityFactory', () => {
                 success: true,
             });
 
-            const currentImplementation = await factory.getGetImplementation();
-            expect(currentImplementation).toBeDefined();
+            const info = await factory.getGetImplementationInfo();
+            expect(info.implementation.equals(newImplementation)).toBe(true);
+            expect(info.version).toBe('1.1.0');
         });
 
         it('should not allow non-admin to update implementation', async () => {
@@ -256,7 +261,8 @@ describe('TonIdentityFactory', () => {
                 user1.getSender(),
                 {
                     value: toNano('0.05'),
-                    newImplementation: newImplementation
+                    newImplementation: newImplementation,
+                    version: '9.9.9'
                 }
             );
 
@@ -264,14 +270,193 @@ describe('TonIdentityFactory', () => {
                 from: user1.address,
                 to: factory.address,
                 success: false,
-                exitCode: 100, // Unauthorized
+                exitCode: 132, // Access denied
             });
+            expect((await factory.getGetImplementationInfo()).version).toBe('1.0.0');
         });
 
         it('should get current implementation', async () => {
-            const implementation = await factory.getGetImplementation();
-            expect(implementation).toBeDefined();
+            const info = await factory.getGetImplementationInfo();
             // Should be the identity code we set during deployment
+            expect(info.implementation.equals(identityCode)).toBe(true);
+            expect(info.version).toBe('1.0.0');
+            expect(info.deploymentFee).toBe(toNano('0.05'));
+        });
+    });
+
+    describe('Registry', () => {
+        it('should look up identities by owner and by address', async () => {
+            const salt = 8000n;
+            await factory.sendDeployIdentity(
+                user1.getSender(),
+                {
+                    value: toNano('1'),
+                    managementKey: user1.address,
+                    salt: salt
+                }
+            );
+
+            const identityAddress = await factory.getCalculateIdentityAddress(user1.address, salt);
+            const entry = await factory.getGetIdentityByOwner(user1.address);
+            expect(entry).not.toBeNull();
+            expect(entry!.identity.equals(identityAddress)).toBe(true);
+            expect(entry!.version).toBe('1.0.0');
+
+            const owner = await factory.getGetOwnerByIdentity(identityAddress);
+            expect(owner!.equals(user1.address)).toBe(true);
+
+            expect(await factory.getGetIdentityByOwner(user2.address)).toBeNull();
+            expect(await factory.getGetOwnerByIdentity(user2.address)).toBeNull();
+        });
+
+        it('should let authorized deployers register external identities', async () => {
+            const external = await blockchain.treasury('external-identity');
+
+            const result = await factory.sendRegisterIdentity(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    owner: user2.address,
+                    identity: external.address
+                }
+            );
+
+            expect(result.transactions).toHaveTransaction({
+                from: deployer.address,
+                to: factory.address,
+                success: true,
+            });
+
+            const entry = await factory.getGetIdentityByOwner(user2.address);
+            expect(entry!.identity.equals(external.address)).toBe(true);
+            expect(entry!.version).toBe('external');
+            expect(await factory.getIsValidIdentity(external.address)).toBe(true);
+        });
+
+        it('should not let others register identities', async () => {
+            const result = await factory.sendRegisterIdentity(
+                user1.getSender(),
+                {
+                    value: toNano('0.05'),
+                    owner: user1.address,
+                    identity: user2.address
+                }
+            );
+
+            expect(result.transactions).toHaveTransaction({
+                from: user1.address,
+                to: factory.address,
+                success: false,
+            });
+            expect(await factory.getGetIdentityByOwner(user1.address)).toBeNull();
+        });
+    });
+
+    describe('Deployer Management', () => {
+        it('should treat the factory owner as an authorized deployer', async () => {
+            expect(await factory.getIsAuthorizedDeployer(deployer.address)).toBe(true);
+            expect(await factory.getIsAuthorizedDeployer(admin.address)).toBe(false);
+        });
+
+        it('should allow the owner to add and remove deployers', async () => {
+            await factory.sendAddDeployer(deployer.getSender(), { value: toNano('0.05'), deployer: admin.address });
+            expect(await factory.getIsAuthorizedDeployer(admin.address)).toBe(true);
+
+            const registered = await factory.sendRegisterIdentity(
+                admin.getSender(),
+                {
+                    value: toNano('0.05'),
+                    owner: user1.address,
+                    identity: user2.address
+                }
+            );
+            expect(registered.transactions).toHaveTransaction({
+                from: admin.address,
+                to: factory.address,
+                success: true,
+            });
+
+            await factory.sendRemoveDeployer(deployer.getSender(), { value: toNano('0.05'), deployer: admin.address });
+            expect(await factory.getIsAuthorizedDeployer(admin.address)).toBe(false);
+        });
+
+        it('should not allow others to change deployers', async () => {
+            const result = await factory.sendAddDeployer(user1.getSender(), { value: toNano('0.05'), deployer: user1.address });
+
+            expect(result.transactions).toHaveTransaction({
+                from: user1.address,
+                to: factory.address,
+                success: false,
+                exitCode: 132, // Access denied
+            });
+            expect(await factory.getIsAuthorizedDeployer(user1.address)).toBe(false);
+        });
+    });
+
+    describe('Fee Management', () => {
+        it('should allow the owner to update the deployment fee', async () => {
+            await factory.sendUpdateFee(deployer.getSender(), { value: toNano('0.05'), deploymentFee: toNano('2') });
+
+            expect((await factory.getGetFactoryStats()).deploymentFee).toBe(toNano('2'));
+
+            const result = await factory.sendDeployIdentity(
+                user1.getSender(),
+                {
+                    value: toNano('1'),
+                    managementKey: user1.address,
+                    salt: 9000n
+                }
+            );
+            expect(result.transactions).toHaveTransaction({
+                from: user1.address,
+                to: factory.address,
+                success: false,
+            });
+        });
+
+        it('should reject negative fees and non-owner updates', async () => {
+            const negative = await factory.sendUpdateFee(deployer.getSender(), { value: toNano('0.05'), deploymentFee: -1n });
+            expect(negative.transactions).toHaveTransaction({
+                from: deployer.address,
+                to: factory.address,
+                success: false,
+            });
+
+            const unauthorized = await factory.sendUpdateFee(user1.getSender(), { value: toNano('0.05'), deploymentFee: 0n });
+            expect(unauthorized.transactions).toHaveTransaction({
+                from: user1.address,
+                to: factory.address,
+                success: false,
+                exitCode: 132,
+            });
+
+            expect((await factory.getGetFactoryStats()).deploymentFee).toBe(toNano('0.05'));
+        });
+
+        it('should withdraw collected fees above the reserve to the owner', async () => {
+            // The factory has no empty receiver; a non-bounceable transfer still credits it
+            await deployer.send({ to: factory.address, value: toNano('5'), bounce: false });
+
+            const result = await factory.sendWithdrawFees(deployer.getSender(), toNano('0.05'));
+
+            expect(result.transactions).toHaveTransaction({
+                from: factory.address,
+                to: deployer.address,
+                success: true,
+            });
+            const balance = (await blockchain.getContract(factory.address)).balance;
+            expect(balance).toBeLessThanOrEqual(toNano('1.1'));
+        });
+
+        it('should not let others withdraw fees', async () => {
+            const result = await factory.sendWithdrawFees(user1.getSender(), toNano('0.05'));
+
+            expect(result.transactions).toHaveTransaction({
+                from: user1.address,
+                to: factory.address,
+                success: false,
+                exitCode: 132,
+            });
         });
     });
 
@@ -281,18 +466,19 @@ describe('TonIdentityFactory', () => {
             const deployedAddresses: Address[] = [];
 
             for (let i = 0; i < deploymentCount; i++) {
+                const owner = await blockchain.treasury(`batch-${i}`);
                 const salt = BigInt(i + 1000);
                 
                 await factory.sendDeployIdentity(
-                    user1.getSender(),
+                    owner.getSender(),
                     {
-                        value: toNano('0.1'),
-                        owner: user1.address,
+                        value: toNano('1'),
+                        managementKey: owner.address,
                         salt: salt
                     }
                 );
 
-                const identityAddress = await factory.getGetIdentityAddress(user1.address, salt);
+                const identityAddress = await factory.getCalculateIdentityAddress(owner.address, salt);
                 deployedAddresses.push(identityAddress);
             }
 
@@ -303,7 +489,7 @@ describe('TonIdentityFactory', () => {
             // All should be valid identities
             for (const address of deployedAddresses) {
                 const isValid = await factory.getIsValidIdentity(address);
-                expect(isValid).toBe(1n);
+                expect(isValid).toBe(true);
             }
         });
 
@@ -317,8 +503,8 @@ describe('TonIdentityFactory', () => {
                 const result = await factory.sendDeployIdentity(
                     user.getSender(),
                     {
-                        value: toNano('0.1'),
-                        owner: user.address,
+                        value: toNano('1'),
+                        managementKey: user.address,
                         salt: salt
                     }
                 );
@@ -333,16 +519,16 @@ describe('TonIdentityFactory', () => {
             }
 
             // Verify both identities exist and are different
-            const address1 = await factory.getGetIdentityAddress(user1.address, salt);
-            const address2 = await factory.getGetIdentityAddress(user2.address, salt);
+            const address1 = await factory.getCalculateIdentityAddress(user1.address, salt);
+            const address2 = await factory.getCalculateIdentityAddress(user2.address, salt);
             
             expect(address1.toString()).not.toBe(address2.toString());
             
             const isValid1 = await factory.getIsValidIdentity(address1);
             const isValid2 = await factory.getIsValidIdentity(address2);
             
-            expect(isValid1).toBe(1n);
-            expect(isValid2).toBe(1n);
+            expect(isValid1).toBe(true);
+            expect(isValid2).toBe(true);
         });
     });
 
@@ -353,8 +539,8 @@ describe('TonIdentityFactory', () => {
             const result = await factory.sendDeployIdentity(
                 user1.getSender(),
                 {
-                    value: toNano('0.1'),
-                    owner: user1.address,
+                    value: toNano('1'),
+                    managementKey: user1.address,
                     salt: salt
                 }
             );
@@ -375,7 +561,7 @@ describe('TonIdentityFactory', () => {
             // Multiple address calculations should be consistent and fast
             const addresses = [];
             for (let i = 0; i < 10; i++) {
-                const address = await factory.getGetIdentityAddress(user1.address, salt);
+                const address = await factory.getCalculateIdentityAddress(user1.address, salt);
                 addresses.push(address.toString());
             }
 
@@ -392,8 +578,8 @@ describe('TonIdentityFactory', () => {
             const result = await factory.sendDeployIdentity(
                 user1.getSender(),
                 {
-                    value: toNano('0.1'),
-                    owner: user1.address,
+                    value: toNano('1'),
+                    managementKey: user1.address,
                     salt: salt
                 }
             );
@@ -404,19 +590,19 @@ describe('TonIdentityFactory', () => {
                 success: true,
             });
 
-            const identityAddress = await factory.getGetIdentityAddress(user1.address, salt);
+            const identityAddress = await factory.getCalculateIdentityAddress(user1.address, salt);
             const isValid = await factory.getIsValidIdentity(identityAddress);
-            expect(isValid).toBe(1n);
+            expect(isValid).toBe(true);
         });
 
         it('should handle maximum salt value', async () => {
-            const salt = 2n ** 256n - 1n; // Maximum uint256
+            const salt = 2n ** 255n - 1n; // Maximum int256, as stored by buildIdentityStateInit
             
             const result = await factory.sendDeployIdentity(
                 user1.getSender(),
                 {
-                    value: toNano('0.1'),
-                    owner: user1.address,
+                    value: toNano('1'),
+                    managementKey: user1.address,
                     salt: salt
                 }
             );
@@ -433,7 +619,7 @@ describe('TonIdentityFactory', () => {
             const randomAddress = Address.parse('0:1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef');
             
             const isValid = await factory.getIsValidIdentity(randomAddress);
-            expect(isValid).toBe(0n);
+            expect(isValid).toBe(false);
         });
 
         it('should handle insufficient deployment funds', async () => {
@@ -443,7 +629,7 @@ describe('TonIdentityFactory', () => {
                 user1.getSender(),
                 {
                     value: toNano('0.001'), // Very small amount
-                    owner: user1.address,
+                    managementKey: user1.address,
                     salt: salt
                 }
             );
@@ -451,36 +637,33 @@ describe('TonIdentityFactory', () => {
             expect(result.transactions).toHaveTransaction({
                 from: user1.address,
                 to: factory.address,
-                success: false,
-                exitCode: 102, // Insufficient balance
+                success: false, // Insufficient deployment fee
             });
         });
     });
 
     describe('State Management', () => {
         it('should track deployment count', async () => {
-            const initialCount = 0n; // Starting count
+            expect((await factory.getGetFactoryStats()).totalDeployed).toBe(0n);
             
             // Deploy a few identities
             const deployments = 3;
             for (let i = 0; i < deployments; i++) {
+                const owner = await blockchain.treasury(`count-${i}`);
                 await factory.sendDeployIdentity(
-                    user1.getSender(),
+                    owner.getSender(),
                     {
-                        value: toNano('0.1'),
-                        owner: user1.address,
+                        value: toNano('1'),
+                        managementKey: owner.address,
                         salt: BigInt(6000 + i)
                     }
                 );
             }
 
-            // Note: In a real implementation, you'd have a getter for deployment count
-            // For this test, we're just verifying the deployments succeeded
-            for (let i = 0; i < deployments; i++) {
-                const identityAddress = await factory.getGetIdentityAddress(user1.address, BigInt(6000 + i));
-                const isValid = await factory.getIsValidIdentity(identityAddress);
-                expect(isValid).toBe(1n);
-            }
+            const stats = await factory.getGetFactoryStats();
+            expect(stats.totalDeployed).toBe(BigInt(deployments));
+            expect(stats.currentVersion).toBe('1.0.0');
+            expect(stats.owner.equals(deployer.address)).toBe(true);
         });
 
         it('should maintain consistent state across operations', async () => {
@@ -490,21 +673,21 @@ describe('TonIdentityFactory', () => {
             await factory.sendDeployIdentity(
                 user1.getSender(),
                 {
-                    value: toNano('0.1'),
-                    owner: user1.address,
+                    value: toNano('1'),
+                    managementKey: user1.address,
                     salt: salt
                 }
             );
 
             // Multiple queries should return consistent results
-            const address1 = await factory.getGetIdentityAddress(user1.address, salt);
-            const address2 = await factory.getGetIdentityAddress(user1.address, salt);
+            const address1 = await factory.getCalculateIdentityAddress(user1.address, salt);
+            const address2 = await factory.getCalculateIdentityAddress(user1.address, salt);
             const isValid1 = await factory.getIsValidIdentity(address1);
             const isValid2 = await factory.getIsValidIdentity(address2);
 
             expect(address1.toString()).toBe(address2.toString());
             expect(isValid1).toBe(isValid2);
-            expect(isValid1).toBe(1n);
+            expect(isValid1).toBe(true);
         });
     });
 });
@@ -19,19 +19,223 @@ import {
     TupleBuilder,
     DictionaryValue
 } from '@ton/core';
+import { storeDeploy } from './TonIdentity';
+import { TonIdentityFactory as TactTonIdentityFactory } from '../build/TonIdentityFactory/tact_TonIdentityFactory';
 
-export type TonIdentityFactoryConfig = {
-    admin: Address;
-    identityCode: Cell;
-    deploymentCount: bigint;
-};
+// Message layouts below mirror the Tact definitions in TonIdentityFactory.tact.
+// Opcodes are the first 32 bits of sha256 over each message signature.
+
+export type DeployIdentity = {
+    $$type: 'DeployIdentity';
+    managementKey: Address;
+    salt: bigint;
+}
+
+export function storeDeployIdentity(src: DeployIdentity) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0x1ff1e35c, 32); // DeployIdentity{managementKey:address,salt:int257}
+        b_0.storeAddress(src.managementKey);
+        b_0.storeInt(src.salt, 257);
+    };
+}
+
+export function loadDeployIdentity(slice: Slice): DeployIdentity {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x1ff1e35c) { throw Error('Invalid prefix'); }
+    const _managementKey = sc_0.loadAddress();
+    const _salt = sc_0.loadIntBig(257);
+    return { $$type: 'DeployIdentity' as const, managementKey: _managementKey, salt: _salt };
+}
+
+export type UpdateImplementation = {
+    $$type: 'UpdateImplementation';
+    newImplementation: Cell;
+    version: string;
+}
+
+export function storeUpdateImplementation(src: UpdateImplementation) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0xadaf4d75, 32); // UpdateImplementation{newImplementation:^cell,version:^string}
+        b_0.storeRef(src.newImplementation);
+        b_0.storeStringRefTail(src.version);
+    };
+}
+
+export function loadUpdateImplementation(slice: Slice): UpdateImplementation {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xadaf4d75) { throw Error('Invalid prefix'); }
+    const _newImplementation = sc_0.loadRef();
+    const _version = sc_0.loadStringRefTail();
+    return { $$type: 'UpdateImplementation' as const, newImplementation: _newImplementation, version: _version };
+}
+
+export type RegisterIdentity = {
+    $$type: 'RegisterIdentity';
+    owner: Address;
+    identity: Address;
+}
+
+export function storeRegisterIdentity(src: RegisterIdentity) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0xaca47617, 32); // RegisterIdentity{owner:address,identity:address}
+        b_0.storeAddress(src.owner);
+        b_0.storeAddress(src.identity);
+    };
+}
 
-export function tonIdentityFactoryConfigToCell(config: TonIdentityFactoryConfig): Cell {
-    return beginCell()
-        .storeAddress(config.admin)
-        .storeRef(config.identityCode)
-        .storeUint(config.deploymentCount, 64)
-        .endCell();
+export function loadRegisterIdentity(slice: Slice): RegisterIdentity {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xaca47617) { throw Error('Invalid prefix'); }
+    const _owner = sc_0.loadAddress();
+    const _identity = sc_0.loadAddress();
+    return { $$type: 'RegisterIdentity' as const, owner: _owner, identity: _identity };
+}
+
+export type AddDeployer = {
+    $$type: 'AddDeployer';
+    deployer: Address;
+}
+
+export function storeAddDeployer(src: AddDeployer) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0xaf60d1a1, 32); // AddDeployer{deployer:address}
+        b_0.storeAddress(src.deployer);
+    };
+}
+
+export function loadAddDeployer(slice: Slice): AddDeployer {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xaf60d1a1) { throw Error('Invalid prefix'); }
+    const _deployer = sc_0.loadAddress();
+    return { $$type: 'AddDeployer' as const, deployer: _deployer };
+}
+
+export type RemoveDeployer = {
+    $$type: 'RemoveDeployer';
+    deployer: Address;
+}
+
+export function storeRemoveDeployer(src: RemoveDeployer) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0xf0ef4bfe, 32); // RemoveDeployer{deployer:address}
+        b_0.storeAddress(src.deployer);
+    };
+}
+
+export function loadRemoveDeployer(slice: Slice): RemoveDeployer {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xf0ef4bfe) { throw Error('Invalid prefix'); }
+    const _deployer = sc_0.loadAddress();
+    return { $$type: 'RemoveDeployer' as const, deployer: _deployer };
+}
+
+export type UpdateFee = {
+    $$type: 'UpdateFee';
+    deploymentFee: bigint;
+}
+
+export function storeUpdateFee(src: UpdateFee) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0x4b60b8ab, 32); // UpdateFee{deploymentFee:int257}
+        b_0.storeInt(src.deploymentFee, 257);
+    };
+}
+
+export function loadUpdateFee(slice: Slice): UpdateFee {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x4b60b8ab) { throw Error('Invalid prefix'); }
+    const _deploymentFee = sc_0.loadIntBig(257);
+    return { $$type: 'UpdateFee' as const, deploymentFee: _deploymentFee };
+}
+
+// Events
+
+export type IdentityDeployed = {
+    $$type: 'IdentityDeployed';
+    owner: Address;
+    identity: Address;
+    managementKey: Address;
+    salt: bigint;
+}
+
+export function loadIdentityDeployed(slice: Slice): IdentityDeployed {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x58c46a4b) { throw Error('Invalid prefix'); }
+    const _owner = sc_0.loadAddress();
+    const _identity = sc_0.loadAddress();
+    const _managementKey = sc_0.loadAddress();
+    const sc_1 = sc_0.loadRef().beginParse();
+    const _salt = sc_1.loadIntBig(257);
+    return { $$type: 'IdentityDeployed' as const, owner: _owner, identity: _identity, managementKey: _managementKey, salt: _salt };
+}
+
+export type ImplementationUpdated = {
+    $$type: 'ImplementationUpdated';
+    oldVersion: string;
+    newVersion: string;
+    implementation: Cell;
+}
+
+export function loadImplementationUpdated(slice: Slice): ImplementationUpdated {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x91f73d36) { throw Error('Invalid prefix'); }
+    const _oldVersion = sc_0.loadStringRefTail();
+    const _newVersion = sc_0.loadStringRefTail();
+    const _implementation = sc_0.loadRef();
+    return { $$type: 'ImplementationUpdated' as const, oldVersion: _oldVersion, newVersion: _newVersion, implementation: _implementation };
+}
+
+// Getter results
+
+export type IdentityEntry = {
+    owner: Address;
+    identity: Address;
+    deployedAt: bigint;
+    version: string;
+}
+
+export type ImplementationInfo = {
+    implementation: Cell;
+    version: string;
+    deploymentFee: bigint;
+    totalDeployed: bigint;
+}
+
+export type FactoryStats = {
+    totalDeployed: bigint;
+    currentVersion: string;
+    deploymentFee: bigint;
+    owner: Address;
+}
+
+function loadTupleIdentityEntry(source: TupleReader): IdentityEntry {
+    const _owner = source.readAddress();
+    const _identity = source.readAddress();
+    const _deployedAt = source.readBigNumber();
+    const _version = source.readString();
+    return { owner: _owner, identity: _identity, deployedAt: _deployedAt, version: _version };
+}
+
+function loadTupleImplementationInfo(source: TupleReader): ImplementationInfo {
+    const _implementation = source.readCell();
+    const _version = source.readString();
+    const _deploymentFee = source.readBigNumber();
+    const _totalDeployed = source.readBigNumber();
+    return { implementation: _implementation, version: _version, deploymentFee: _deploymentFee, totalDeployed: _totalDeployed };
+}
+
+function loadTupleFactoryStats(source: TupleReader): FactoryStats {
+    const _totalDeployed = source.readBigNumber();
+    const _currentVersion = source.readString();
+    const _deploymentFee = source.readBigNumber();
+    const _owner = source.readAddress();
+    return { totalDeployed: _totalDeployed, currentVersion: _currentVersion, deploymentFee: _deploymentFee, owner: _owner };
 }
 
 export class TonIdentityFactory implements Contract {
@@ -40,19 +244,20 @@ export class TonIdentityFactory implements Contract {
         return new TonIdentityFactory(address);
     }
     
-    static createFromConfig(config: TonIdentityFactoryConfig, code: Cell, workchain = 0) {
-        const data = tonIdentityFactoryConfigToCell(config);
-        const init = { code, data };
-        return new TonIdentityFactory(contractAddress(workchain, init), init);
+    // Code and initial data as compiled by Tact for
+    // init(identityImplementation, version, deploymentFee); the deployer becomes the owner
+    static async fromInit(identityImplementation: Cell, version: string, deploymentFee: bigint, workchain = 0) {
+        const { init } = await TactTonIdentityFactory.fromInit(identityImplementation, version, deploymentFee);
+        return new TonIdentityFactory(contractAddress(workchain, init!), init);
     }
     
     constructor(readonly address: Address, readonly init?: { code: Cell; data: Cell }) {}
     
-    async sendDeploy(provider: ContractProvider, via: Sender, value: bigint) {
+    async sendDeploy(provider: ContractProvider, via: Sender, value: bigint, queryId: bigint = 0n) {
         await provider.internal(via, {
             value,
             sendMode: 1,
-            body: beginCell().storeUint(0, 32).storeStringTail("Deploy").endCell(),
+            body: beginCell().store(storeDeploy({ $$type: 'Deploy', queryId })).endCell(),
         });
     }
     
@@ -61,7 +266,7 @@ export class TonIdentityFactory implements Contract {
         via: Sender,
         opts: {
             value: bigint;
-            owner: Address;
+            managementKey: Address;
             salt: bigint;
         }
     ) {
@@ -69,9 +274,7 @@ export class TonIdentityFactory implements Contract {
             value: opts.value,
             sendMode: 1,
             body: beginCell()
-                .storeUint(0x44444444, 32) // DeployIdentity opcode
-                .storeAddress(opts.owner)
-                .storeUint(opts.salt, 256)
+                .store(storeDeployIdentity({ $$type: 'DeployIdentity', managementKey: opts.managementKey, salt: opts.salt }))
                 .endCell(),
         });
     }
@@ -82,36 +285,151 @@ export class TonIdentityFactory implements Contract {
         opts: {
             value: bigint;
             newImplementation: Cell;
+            version: string;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeUpdateImplementation({
+                    $$type: 'UpdateImplementation',
+                    newImplementation: opts.newImplementation,
+                    version: opts.version
+                }))
+                .endCell(),
+        });
+    }
+    
+    async sendRegisterIdentity(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            owner: Address;
+            identity: Address;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeRegisterIdentity({ $$type: 'RegisterIdentity', owner: opts.owner, identity: opts.identity }))
+                .endCell(),
+        });
+    }
+    
+    async sendAddDeployer(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            deployer: Address;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeAddDeployer({ $$type: 'AddDeployer', deployer: opts.deployer }))
+                .endCell(),
+        });
+    }
+    
+    async sendRemoveDeployer(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            deployer: Address;
         }
     ) {
         await provider.internal(via, {
             value: opts.value,
             sendMode: 1,
             body: beginCell()
-                .storeUint(0x55555555, 32) // UpdateImplementation opcode
-                .storeRef(opts.newImplementation)
+                .store(storeRemoveDeployer({ $$type: 'RemoveDeployer', deployer: opts.deployer }))
                 .endCell(),
         });
     }
     
-    async getGetIdentityAddress(provider: ContractProvider, owner: Address, salt: bigint): Promise<Address> {
-        const result = await provider.get('getIdentityAddress', [
+    async sendUpdateFee(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            deploymentFee: bigint;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeUpdateFee({ $$type: 'UpdateFee', deploymentFee: opts.deploymentFee }))
+                .endCell(),
+        });
+    }
+    
+    // Text receiver: sends everything above the 1 TON operating reserve to the owner
+    async sendWithdrawFees(provider: ContractProvider, via: Sender, value: bigint) {
+        await provider.internal(via, {
+            value,
+            sendMode: 1,
+            body: beginCell().storeUint(0, 32).storeStringTail('withdraw_fees').endCell(),
+        });
+    }
+    
+    async getGetIdentityByOwner(provider: ContractProvider, owner: Address): Promise<IdentityEntry | null> {
+        const result = await provider.get('getIdentityByOwner', [
+            { type: 'slice', cell: beginCell().storeAddress(owner).endCell() }
+        ]);
+        const tuple = result.stack.readTupleOpt();
+        return tuple ? loadTupleIdentityEntry(tuple) : null;
+    }
+    
+    async getGetOwnerByIdentity(provider: ContractProvider, identity: Address): Promise<Address | null> {
+        const result = await provider.get('getOwnerByIdentity', [
+            { type: 'slice', cell: beginCell().storeAddress(identity).endCell() }
+        ]);
+        return result.stack.readAddressOpt();
+    }
+    
+    async getCalculateIdentityAddress(provider: ContractProvider, owner: Address, salt: bigint): Promise<Address> {
+        const result = await provider.get('calculateIdentityAddress', [
             { type: 'slice', cell: beginCell().storeAddress(owner).endCell() },
             { type: 'int', value: salt }
         ]);
         return result.stack.readAddress();
     }
     
-    async getIsValidIdentity(provider: ContractProvider, identity: Address): Promise<bigint> {
+    async getIsValidIdentity(provider: ContractProvider, identity: Address): Promise<boolean> {
         const result = await provider.get('isValidIdentity', [
             { type: 'slice', cell: beginCell().storeAddress(identity).endCell() }
         ]);
-        return result.stack.readBigNumber();
+        return result.stack.readBoolean();
+    }
+    
+    async getGetImplementationInfo(provider: ContractProvider): Promise<ImplementationInfo> {
+        const result = await provider.get('getImplementationInfo', []);
+        return loadTupleImplementationInfo(result.stack);
+    }
+    
+    async getIsAuthorizedDeployer(provider: ContractProvider, deployer: Address): Promise<boolean> {
+        const result = await provider.get('isAuthorizedDeployer', [
+            { type: 'slice', cell: beginCell().storeAddress(deployer).endCell() }
+        ]);
+        return result.stack.readBoolean();
     }
     
-    async getGetImplementation(provider: ContractProvider): Promise<Cell> {
-        const result = await provider.get('getImplementation', []);
-        return result.stack.readCell();
+    async getGetFactoryStats(provider: ContractProvider): Promise<FactoryStats> {
+        const result = await provider.get('getFactoryStats', []);
+        return loadTupleFactoryStats(result.stack);
     }
 }
 
+// An opened TonIdentityFactory, provider-backed or sandbox; see TonIdentityClient.
+export type TonIdentityFactoryClient = {
+    [K in keyof TonIdentityFactory]: TonIdentityFactory[K] extends (provider: ContractProvider, ...args: infer A) => Promise<infer R>
+        ? (...args: A) => Promise<K extends `send${string}` ? unknown : R>
+        : TonIdentityFactory[K];
+};
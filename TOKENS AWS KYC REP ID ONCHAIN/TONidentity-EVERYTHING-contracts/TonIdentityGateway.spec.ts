@@ -0,0 +1,311 @@
+import { Blockchain, SandboxContract, SendMessageResult, TreasuryContract } from '@ton/sandbox';
+import { Address, Slice, toNano } from '@ton/core';
+import {
+    jurisdictionFromKey,
+    jurisdictionKey,
+    loadComplianceRuleAdded,
+    loadTransferValidated,
+    loadTransferValidationResponse,
+    loadUserComplianceChecked,
+    loadUserComplianceResponse,
+    TonIdentityGateway
+} from '../wrappers/TonIdentityGateway';
+import { ClaimTopic } from '../wrappers/TonClaimSchemas';
+import '@ton/test-utils';
+
+const KYC = BigInt(ClaimTopic.KYC);
+const AML = BigInt(ClaimTopic.AML);
+const ACCREDITED_INVESTOR = BigInt(ClaimTopic.ACCREDITED_INVESTOR);
+const JURISDICTION = BigInt(ClaimTopic.JURISDICTION);
+
+describe('TonIdentityGateway', () => {
+    let blockchain: Blockchain;
+    let deployer: SandboxContract<TreasuryContract>;
+    let factory: SandboxContract<TreasuryContract>;
+    let user1: SandboxContract<TreasuryContract>;
+    let user2: SandboxContract<TreasuryContract>;
+    let token: SandboxContract<TreasuryContract>;
+    let gateway: SandboxContract<TonIdentityGateway>;
+
+    beforeEach(async () => {
+        blockchain = await Blockchain.create();
+
+        deployer = await blockchain.treasury('deployer');
+        factory = await blockchain.treasury('factory');
+        user1 = await blockchain.treasury('user1');
+        user2 = await blockchain.treasury('user2');
+        token = await blockchain.treasury('token');
+
+        gateway = blockchain.openContract(
+            await TonIdentityGateway.fromInit(factory.address)
+        );
+
+        const deployResult = await gateway.sendDeploy(deployer.getSender(), toNano('0.05'));
+
+        expect(deployResult.transactions).toHaveTransaction({
+            from: deployer.address,
+            to: gateway.address,
+            deploy: true,
+            success: true,
+        });
+    });
+
+    // Body of the message the gateway sent back to `to`
+    function responseTo(result: SendMessageResult, to: Address): Slice {
+        const tx = result.transactions.find((t) =>
+            t.inMessage?.info.type === 'internal' &&
+            t.inMessage.info.src.equals(gateway.address) &&
+            t.inMessage.info.dest.equals(to));
+        expect(tx).toBeDefined();
+        return tx!.inMessage!.body.beginParse();
+    }
+
+    // Body of the first event the gateway emitted in `result`
+    function eventBody(result: SendMessageResult): Slice {
+        for (const tx of result.transactions) {
+            for (const message of tx.outMessages.values()) {
+                if (message.info.type === 'external-out' && message.info.src.equals(gateway.address)) {
+                    return message.body.beginParse();
+                }
+            }
+        }
+        throw new Error('No event emitted');
+    }
+
+    describe('Defaults', () => {
+        it('should require KYC and AML claims by default', async () => {
+            expect(await gateway.getGetDefaultRequiredClaims()).toEqual([KYC, AML]);
+        });
+
+        it('should allow the default jurisdictions', async () => {
+            for (const code of ['US', 'EU', 'UK', 'CA', 'AU', 'SG', 'CH', 'AE']) {
+                expect(await gateway.getIsJurisdictionAllowed(code)).toBe(true);
+            }
+            expect(await gateway.getIsJurisdictionAllowed('KP')).toBe(false);
+        });
+
+        it('should replace the default required claims', async () => {
+            await gateway.sendSetDefaultRequiredClaims(deployer.getSender(), { value: toNano('0.05'), requiredClaims: [KYC, ACCREDITED_INVESTOR] });
+            expect(await gateway.getGetDefaultRequiredClaims()).toEqual([KYC, ACCREDITED_INVESTOR]);
+        });
+
+        it('should only allow the owner to set the default required claims', async () => {
+            const result = await gateway.sendSetDefaultRequiredClaims(user1.getSender(), { value: toNano('0.05'), requiredClaims: [] });
+
+            expect(result.transactions).toHaveTransaction({
+                from: user1.address,
+                to: gateway.address,
+                success: false,
+                exitCode: 132, // Access denied
+            });
+            expect(await gateway.getGetDefaultRequiredClaims()).toEqual([KYC, AML]);
+        });
+
+        it('should key jurisdictions by their ASCII value', () => {
+            expect(jurisdictionKey('US')).toBe(0x5553);
+            expect(jurisdictionFromKey(0x5553)).toBe('US');
+            expect(() => jurisdictionKey('USA')).toThrow('two characters');
+        });
+    });
+
+    describe('Compliance Rules', () => {
+        it('should add compliance rules', async () => {
+            const result = await gateway.sendAddComplianceRule(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    name: 'Reg D',
+                    description: 'Accredited US investors',
+                    requiredClaims: [KYC, ACCREDITED_INVESTOR],
+                    jurisdictions: ['US'],
+                    minAmount: toNano('25000'),
+                    maxAmount: 0n
+                }
+            );
+
+            expect(result.transactions).toHaveTransaction({
+                from: deployer.address,
+                to: gateway.address,
+                success: true,
+            });
+            expect(loadComplianceRuleAdded(eventBody(result))).toEqual({
+                $$type: 'ComplianceRuleAdded',
+                ruleId: 1n,
+                name: 'Reg D',
+                requiredClaims: [KYC, ACCREDITED_INVESTOR]
+            });
+
+            expect(await gateway.getGetComplianceRule(1n)).toEqual({
+                ruleId: 1n,
+                name: 'Reg D',
+                description: 'Accredited US investors',
+                requiredClaims: [KYC, ACCREDITED_INVESTOR],
+                jurisdictions: ['US'],
+                minAmount: toNano('25000'),
+                maxAmount: 0n,
+                active: true
+            });
+            expect(await gateway.getGetComplianceRule(2n)).toBeNull();
+        });
+
+        it('should deactivate compliance rules', async () => {
+            await gateway.sendAddComplianceRule(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    name: 'Retail',
+                    description: '',
+                    requiredClaims: [KYC],
+                    jurisdictions: ['EU', 'UK'],
+                    minAmount: 0n,
+                    maxAmount: toNano('1000')
+                }
+            );
+
+            await gateway.sendUpdateComplianceRule(deployer.getSender(), { value: toNano('0.05'), ruleId: 1n, active: false });
+
+            expect((await gateway.getGetComplianceRule(1n))!.active).toBe(false);
+        });
+
+        it('should fail to update a missing rule', async () => {
+            const result = await gateway.sendUpdateComplianceRule(deployer.getSender(), { value: toNano('0.05'), ruleId: 7n, active: false });
+
+            expect(result.transactions).toHaveTransaction({
+                from: deployer.address,
+                to: gateway.address,
+                success: false,
+            });
+        });
+
+        it('should only allow the owner to manage rules', async () => {
+            const result = await gateway.sendAddComplianceRule(
+                user1.getSender(),
+                {
+                    value: toNano('0.05'),
+                    name: 'Rogue',
+                    description: '',
+                    requiredClaims: [],
+                    jurisdictions: [],
+                    minAmount: 0n,
+                    maxAmount: 0n
+                }
+            );
+
+            expect(result.transactions).toHaveTransaction({
+                from: user1.address,
+                to: gateway.address,
+                success: false,
+                exitCode: 132, // Access denied
+            });
+        });
+    });
+
+    describe('Trusted Issuers', () => {
+        it('should add and remove trusted issuers', async () => {
+            const issuer = await blockchain.treasury('issuer');
+
+            await gateway.sendAddTrustedIssuer(deployer.getSender(), { value: toNano('0.05'), issuer: issuer.address });
+            expect(await gateway.getIsTrustedIssuer(issuer.address)).toBe(true);
+
+            await gateway.sendRemoveTrustedIssuer(deployer.getSender(), { value: toNano('0.05'), issuer: issuer.address });
+            expect(await gateway.getIsTrustedIssuer(issuer.address)).toBe(false);
+        });
+
+        it('should only allow the owner to add trusted issuers', async () => {
+            const result = await gateway.sendAddTrustedIssuer(user1.getSender(), { value: toNano('0.05'), issuer: user1.address });
+
+            expect(result.transactions).toHaveTransaction({
+                from: user1.address,
+                to: gateway.address,
+                success: false,
+                exitCode: 132, // Access denied
+            });
+            expect(await gateway.getIsTrustedIssuer(user1.address)).toBe(false);
+        });
+    });
+
+    describe('Transfer Validation', () => {
+        it('should validate compliant transfers', async () => {
+            const result = await gateway.getValidateTransferCompliance(user1.address, user2.address, toNano('10'), token.address);
+
+            expect(result).toEqual({
+                allowed: true,
+                reason: 'Transfer compliant',
+                requiredClaims: [KYC, AML],
+                missingClaims: []
+            });
+        });
+
+        it('should reject non-positive amounts', async () => {
+            const result = await gateway.getValidateTransferCompliance(user1.address, user2.address, 0n, token.address);
+
+            expect(result.allowed).toBe(false);
+            expect(result.reason).toBe('Invalid transfer amount');
+        });
+
+        it('should answer ValidateTransfer and emit TransferValidated', async () => {
+            const result = await gateway.sendValidateTransfer(
+                user1.getSender(),
+                {
+                    value: toNano('0.1'),
+                    from: user1.address,
+                    to: user2.address,
+                    amount: toNano('10'),
+                    token: token.address
+                }
+            );
+
+            expect(loadTransferValidationResponse(responseTo(result, user1.address))).toEqual({
+                $$type: 'TransferValidationResponse',
+                allowed: true,
+                reason: 'Transfer compliant',
+                complianceScore: 100n
+            });
+
+            const event = loadTransferValidated(eventBody(result));
+            expect(event.token.equals(token.address)).toBe(true);
+            expect(event.amount).toBe(toNano('10'));
+            expect(event.allowed).toBe(true);
+        });
+    });
+
+    describe('User Compliance', () => {
+        it('should check user claims', async () => {
+            const result = await gateway.getCheckUserClaims(user1.address, [KYC, JURISDICTION]);
+
+            expect(result).toEqual({
+                allowed: true,
+                reason: 'All required claims present',
+                requiredClaims: [KYC, JURISDICTION],
+                missingClaims: []
+            });
+        });
+
+        it('should resolve user identities and claims', async () => {
+            expect((await gateway.getGetUserIdentity(user1.address))!.equals(user1.address)).toBe(true);
+            expect(await gateway.getHasValidClaim(user1.address, KYC)).toBe(true);
+        });
+
+        it('should answer CheckUserCompliance and emit UserComplianceChecked', async () => {
+            const result = await gateway.sendCheckUserCompliance(
+                user2.getSender(),
+                {
+                    value: toNano('0.1'),
+                    user: user1.address,
+                    requiredClaims: [KYC]
+                }
+            );
+
+            expect(loadUserComplianceResponse(responseTo(result, user2.address))).toEqual({
+                $$type: 'UserComplianceResponse',
+                compliant: true,
+                missingClaims: [],
+                complianceLevel: 'FULL_COMPLIANCE'
+            });
+
+            const event = loadUserComplianceChecked(eventBody(result));
+            expect(event.user.equals(user1.address)).toBe(true);
+            expect(event.compliant).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,644 @@
+import {
+    Cell,
+    Slice,
+    Address,
+    Builder,
+    beginCell,
+    TupleItem,
+    TupleReader,
+    Dictionary,
+    contractAddress,
+    ContractProvider,
+    Sender,
+    Contract
+} from '@ton/core';
+import { storeDeploy } from './TonIdentity';
+import { TonIdentityGateway as TactTonIdentityGateway } from '../build/TonIdentityGateway/tact_TonIdentityGateway';
+
+// Claim topic maps (map<Int, Bool>) are exposed as the list of topics set to true.
+// Jurisdiction maps (map<Int as uint16, Bool>) are keyed by the two-letter code's
+// 16-bit ASCII value, as computed by `jurisdictionKey` in TonIdentityGateway.tact.
+
+export function jurisdictionKey(code: string): number {
+    if (!/^[\x20-\x7e]{2}$/.test(code)) {
+        throw new Error(`Jurisdiction code must be two characters, got '${code}'`);
+    }
+    return Buffer.from(code, 'ascii').readUInt16BE(0);
+}
+
+export function jurisdictionFromKey(key: number): string {
+    const buffer = Buffer.alloc(2);
+    buffer.writeUInt16BE(key);
+    return buffer.toString('ascii');
+}
+
+function topicDict(topics: bigint[]) {
+    const dict = Dictionary.empty(Dictionary.Keys.BigInt(257), Dictionary.Values.Bool());
+    for (const topic of topics) {
+        dict.set(topic, true);
+    }
+    return dict;
+}
+
+function jurisdictionDict(codes: string[]) {
+    const dict = Dictionary.empty(Dictionary.Keys.Uint(16), Dictionary.Values.Bool());
+    for (const code of codes) {
+        dict.set(jurisdictionKey(code), true);
+    }
+    return dict;
+}
+
+// Distinct topics in ascending order, the form every topic list here is kept in
+export function sortTopics(topics: Iterable<bigint>): bigint[] {
+    return [...new Set(topics)].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+function loadTopics(cell: Cell | null): bigint[] {
+    const dict = Dictionary.loadDirect(Dictionary.Keys.BigInt(257), Dictionary.Values.Bool(), cell);
+    return sortTopics(dict.keys().filter((k) => dict.get(k) === true));
+}
+
+function loadJurisdictions(cell: Cell | null): string[] {
+    const dict = Dictionary.loadDirect(Dictionary.Keys.Uint(16), Dictionary.Values.Bool(), cell);
+    return dict.keys().filter((k) => dict.get(k) === true).map(jurisdictionFromKey).sort();
+}
+
+function topicsTupleItem(topics: bigint[]): TupleItem {
+    return topics.length === 0
+        ? { type: 'null' }
+        : { type: 'cell', cell: beginCell().storeDictDirect(topicDict(topics)).endCell() };
+}
+
+// Message layouts below mirror the Tact definitions in TonIdentityGateway.tact.
+// Opcodes are the first 32 bits of sha256 over each message signature.
+
+export type ValidateTransfer = {
+    $$type: 'ValidateTransfer';
+    from: Address;
+    to: Address;
+    amount: bigint;
+    token: Address;
+}
+
+export function storeValidateTransfer(src: ValidateTransfer) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0xa12c032f, 32); // ValidateTransfer{from:address,to:address,amount:int257,token:address}
+        b_0.storeAddress(src.from);
+        b_0.storeAddress(src.to);
+        b_0.storeInt(src.amount, 257);
+        const b_1 = new Builder();
+        b_1.storeAddress(src.token);
+        b_0.storeRef(b_1.endCell());
+    };
+}
+
+export function loadValidateTransfer(slice: Slice): ValidateTransfer {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xa12c032f) { throw Error('Invalid prefix'); }
+    const _from = sc_0.loadAddress();
+    const _to = sc_0.loadAddress();
+    const _amount = sc_0.loadIntBig(257);
+    const sc_1 = sc_0.loadRef().beginParse();
+    const _token = sc_1.loadAddress();
+    return { $$type: 'ValidateTransfer' as const, from: _from, to: _to, amount: _amount, token: _token };
+}
+
+export type AddComplianceRule = {
+    $$type: 'AddComplianceRule';
+    name: string;
+    description: string;
+    requiredClaims: bigint[];
+    jurisdictions: string[];
+    minAmount: bigint;
+    maxAmount: bigint;
+}
+
+export function storeAddComplianceRule(src: AddComplianceRule) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0xe6ae1e3d, 32); // AddComplianceRule{name:^string,description:^string,requiredClaims:dict<int, bool>,jurisdictions:dict<uint16, bool>,minAmount:int257,maxAmount:int257}
+        b_0.storeStringRefTail(src.name);
+        b_0.storeStringRefTail(src.description);
+        const b_1 = new Builder();
+        b_1.storeDict(topicDict(src.requiredClaims));
+        b_1.storeDict(jurisdictionDict(src.jurisdictions));
+        b_1.storeInt(src.minAmount, 257);
+        b_1.storeInt(src.maxAmount, 257);
+        b_0.storeRef(b_1.endCell());
+    };
+}
+
+export function loadAddComplianceRule(slice: Slice): AddComplianceRule {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xe6ae1e3d) { throw Error('Invalid prefix'); }
+    const _name = sc_0.loadStringRefTail();
+    const _description = sc_0.loadStringRefTail();
+    const sc_1 = sc_0.loadRef().beginParse();
+    const _requiredClaims = loadTopics(sc_1.loadMaybeRef());
+    const _jurisdictions = loadJurisdictions(sc_1.loadMaybeRef());
+    const _minAmount = sc_1.loadIntBig(257);
+    const _maxAmount = sc_1.loadIntBig(257);
+    return {
+        $$type: 'AddComplianceRule' as const,
+        name: _name,
+        description: _description,
+        requiredClaims: _requiredClaims,
+        jurisdictions: _jurisdictions,
+        minAmount: _minAmount,
+        maxAmount: _maxAmount
+    };
+}
+
+export type UpdateComplianceRule = {
+    $$type: 'UpdateComplianceRule';
+    ruleId: bigint;
+    active: boolean;
+}
+
+export function storeUpdateComplianceRule(src: UpdateComplianceRule) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0x94df5226, 32); // UpdateComplianceRule{ruleId:int257,active:bool}
+        b_0.storeInt(src.ruleId, 257);
+        b_0.storeBit(src.active);
+    };
+}
+
+export function loadUpdateComplianceRule(slice: Slice): UpdateComplianceRule {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x94df5226) { throw Error('Invalid prefix'); }
+    const _ruleId = sc_0.loadIntBig(257);
+    const _active = sc_0.loadBit();
+    return { $$type: 'UpdateComplianceRule' as const, ruleId: _ruleId, active: _active };
+}
+
+export type CheckUserCompliance = {
+    $$type: 'CheckUserCompliance';
+    user: Address;
+    requiredClaims: bigint[];
+}
+
+export function storeCheckUserCompliance(src: CheckUserCompliance) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0xf15dd93b, 32); // CheckUserCompliance{user:address,requiredClaims:dict<int, bool>}
+        b_0.storeAddress(src.user);
+        b_0.storeDict(topicDict(src.requiredClaims));
+    };
+}
+
+export function loadCheckUserCompliance(slice: Slice): CheckUserCompliance {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xf15dd93b) { throw Error('Invalid prefix'); }
+    const _user = sc_0.loadAddress();
+    const _requiredClaims = loadTopics(sc_0.loadMaybeRef());
+    return { $$type: 'CheckUserCompliance' as const, user: _user, requiredClaims: _requiredClaims };
+}
+
+export type SetDefaultRequiredClaims = {
+    $$type: 'SetDefaultRequiredClaims';
+    requiredClaims: bigint[];
+}
+
+export function storeSetDefaultRequiredClaims(src: SetDefaultRequiredClaims) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0x7fb6e541, 32); // SetDefaultRequiredClaims{requiredClaims:dict<int, bool>}
+        b_0.storeDict(topicDict(src.requiredClaims));
+    };
+}
+
+export function loadSetDefaultRequiredClaims(slice: Slice): SetDefaultRequiredClaims {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x7fb6e541) { throw Error('Invalid prefix'); }
+    const _requiredClaims = loadTopics(sc_0.loadMaybeRef());
+    return { $$type: 'SetDefaultRequiredClaims' as const, requiredClaims: _requiredClaims };
+}
+
+export type AddTrustedIssuer = {
+    $$type: 'AddTrustedIssuer';
+    issuer: Address;
+}
+
+export function storeAddTrustedIssuer(src: AddTrustedIssuer) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0x2f7a2dc6, 32); // AddTrustedIssuer{issuer:address}
+        b_0.storeAddress(src.issuer);
+    };
+}
+
+export function loadAddTrustedIssuer(slice: Slice): AddTrustedIssuer {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x2f7a2dc6) { throw Error('Invalid prefix'); }
+    const _issuer = sc_0.loadAddress();
+    return { $$type: 'AddTrustedIssuer' as const, issuer: _issuer };
+}
+
+export type RemoveTrustedIssuer = {
+    $$type: 'RemoveTrustedIssuer';
+    issuer: Address;
+}
+
+export function storeRemoveTrustedIssuer(src: RemoveTrustedIssuer) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0xe8e241c8, 32); // RemoveTrustedIssuer{issuer:address}
+        b_0.storeAddress(src.issuer);
+    };
+}
+
+export function loadRemoveTrustedIssuer(slice: Slice): RemoveTrustedIssuer {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xe8e241c8) { throw Error('Invalid prefix'); }
+    const _issuer = sc_0.loadAddress();
+    return { $$type: 'RemoveTrustedIssuer' as const, issuer: _issuer };
+}
+
+// Events
+
+export type TransferValidated = {
+    $$type: 'TransferValidated';
+    from: Address;
+    to: Address;
+    amount: bigint;
+    token: Address;
+    allowed: boolean;
+    reason: string;
+}
+
+export function loadTransferValidated(slice: Slice): TransferValidated {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xfc184db0) { throw Error('Invalid prefix'); }
+    const _from = sc_0.loadAddress();
+    const _to = sc_0.loadAddress();
+    const _amount = sc_0.loadIntBig(257);
+    const sc_1 = sc_0.loadRef().beginParse();
+    const _token = sc_1.loadAddress();
+    const _allowed = sc_1.loadBit();
+    const _reason = sc_1.loadStringRefTail();
+    return { $$type: 'TransferValidated' as const, from: _from, to: _to, amount: _amount, token: _token, allowed: _allowed, reason: _reason };
+}
+
+export type ComplianceRuleAdded = {
+    $$type: 'ComplianceRuleAdded';
+    ruleId: bigint;
+    name: string;
+    requiredClaims: bigint[];
+}
+
+export function loadComplianceRuleAdded(slice: Slice): ComplianceRuleAdded {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x8c7c06fd) { throw Error('Invalid prefix'); }
+    const _ruleId = sc_0.loadIntBig(257);
+    const _name = sc_0.loadStringRefTail();
+    const _requiredClaims = loadTopics(sc_0.loadMaybeRef());
+    return { $$type: 'ComplianceRuleAdded' as const, ruleId: _ruleId, name: _name, requiredClaims: _requiredClaims };
+}
+
+export type UserComplianceChecked = {
+    $$type: 'UserComplianceChecked';
+    user: Address;
+    compliant: boolean;
+    missingClaims: bigint[];
+}
+
+export function loadUserComplianceChecked(slice: Slice): UserComplianceChecked {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x587ecfcd) { throw Error('Invalid prefix'); }
+    const _user = sc_0.loadAddress();
+    const _compliant = sc_0.loadBit();
+    const _missingClaims = loadTopics(sc_0.loadMaybeRef());
+    return { $$type: 'UserComplianceChecked' as const, user: _user, compliant: _compliant, missingClaims: _missingClaims };
+}
+
+// Responses sent back to the caller
+
+export type TransferValidationResponse = {
+    $$type: 'TransferValidationResponse';
+    allowed: boolean;
+    reason: string;
+    complianceScore: bigint;
+}
+
+export function loadTransferValidationResponse(slice: Slice): TransferValidationResponse {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xc86698e1) { throw Error('Invalid prefix'); }
+    const _allowed = sc_0.loadBit();
+    const _reason = sc_0.loadStringRefTail();
+    const _complianceScore = sc_0.loadIntBig(257);
+    return { $$type: 'TransferValidationResponse' as const, allowed: _allowed, reason: _reason, complianceScore: _complianceScore };
+}
+
+export type UserComplianceResponse = {
+    $$type: 'UserComplianceResponse';
+    compliant: boolean;
+    missingClaims: bigint[];
+    complianceLevel: string;
+}
+
+export function loadUserComplianceResponse(slice: Slice): UserComplianceResponse {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x317b04ab) { throw Error('Invalid prefix'); }
+    const _compliant = sc_0.loadBit();
+    const _missingClaims = loadTopics(sc_0.loadMaybeRef());
+    const _complianceLevel = sc_0.loadStringRefTail();
+    return { $$type: 'UserComplianceResponse' as const, compliant: _compliant, missingClaims: _missingClaims, complianceLevel: _complianceLevel };
+}
+
+// Getter results
+
+export type ComplianceResult = {
+    allowed: boolean;
+    reason: string;
+    requiredClaims: bigint[];   // topics
+    missingClaims: bigint[];    // topics
+}
+
+export type ComplianceRule = {
+    ruleId: bigint;
+    name: string;
+    description: string;
+    requiredClaims: bigint[];   // topics
+    jurisdictions: string[];    // allowed two-letter codes
+    minAmount: bigint;
+    maxAmount: bigint;
+    active: boolean;
+}
+
+function loadTupleComplianceResult(source: TupleReader): ComplianceResult {
+    const _allowed = source.readBoolean();
+    const _reason = source.readString();
+    const _requiredClaims = loadTopics(source.readCellOpt());
+    const _missingClaims = loadTopics(source.readCellOpt());
+    return { allowed: _allowed, reason: _reason, requiredClaims: _requiredClaims, missingClaims: _missingClaims };
+}
+
+function loadTupleComplianceRule(source: TupleReader): ComplianceRule {
+    const _ruleId = source.readBigNumber();
+    const _name = source.readString();
+    const _description = source.readString();
+    const _requiredClaims = loadTopics(source.readCellOpt());
+    const _jurisdictions = loadJurisdictions(source.readCellOpt());
+    const _minAmount = source.readBigNumber();
+    const _maxAmount = source.readBigNumber();
+    const _active = source.readBoolean();
+    return {
+        ruleId: _ruleId,
+        name: _name,
+        description: _description,
+        requiredClaims: _requiredClaims,
+        jurisdictions: _jurisdictions,
+        minAmount: _minAmount,
+        maxAmount: _maxAmount,
+        active: _active
+    };
+}
+
+export class TonIdentityGateway implements Contract {
+    
+    static createFromAddress(address: Address) {
+        return new TonIdentityGateway(address);
+    }
+    
+    // Code and initial data as compiled by Tact for init(identityFactory);
+    // the deployer becomes the owner
+    static async fromInit(identityFactory: Address, workchain = 0) {
+        const { init } = await TactTonIdentityGateway.fromInit(identityFactory);
+        return new TonIdentityGateway(contractAddress(workchain, init!), init);
+    }
+    
+    constructor(readonly address: Address, readonly init?: { code: Cell; data: Cell }) {}
+    
+    async sendDeploy(provider: ContractProvider, via: Sender, value: bigint, queryId: bigint = 0n) {
+        await provider.internal(via, {
+            value,
+            sendMode: 1,
+            body: beginCell().store(storeDeploy({ $$type: 'Deploy', queryId })).endCell(),
+        });
+    }
+    
+    // The gateway answers with TransferValidationResponse, returning the remaining value
+    async sendValidateTransfer(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            from: Address;
+            to: Address;
+            amount: bigint;
+            token: Address;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeValidateTransfer({
+                    $$type: 'ValidateTransfer',
+                    from: opts.from,
+                    to: opts.to,
+                    amount: opts.amount,
+                    token: opts.token
+                }))
+                .endCell(),
+        });
+    }
+    
+    async sendAddComplianceRule(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            name: string;
+            description: string;
+            requiredClaims: bigint[];
+            jurisdictions: string[];
+            minAmount: bigint;
+            maxAmount: bigint;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeAddComplianceRule({
+                    $$type: 'AddComplianceRule',
+                    name: opts.name,
+                    description: opts.description,
+                    requiredClaims: opts.requiredClaims,
+                    jurisdictions: opts.jurisdictions,
+                    minAmount: opts.minAmount,
+                    maxAmount: opts.maxAmount
+                }))
+                .endCell(),
+        });
+    }
+    
+    async sendUpdateComplianceRule(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            ruleId: bigint;
+            active: boolean;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeUpdateComplianceRule({ $$type: 'UpdateComplianceRule', ruleId: opts.ruleId, active: opts.active }))
+                .endCell(),
+        });
+    }
+    
+    // The gateway answers with UserComplianceResponse, returning the remaining value
+    async sendCheckUserCompliance(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            user: Address;
+            requiredClaims: bigint[];
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeCheckUserCompliance({ $$type: 'CheckUserCompliance', user: opts.user, requiredClaims: opts.requiredClaims }))
+                .endCell(),
+        });
+    }
+    
+    async sendSetDefaultRequiredClaims(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            requiredClaims: bigint[];
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeSetDefaultRequiredClaims({ $$type: 'SetDefaultRequiredClaims', requiredClaims: opts.requiredClaims }))
+                .endCell(),
+        });
+    }
+    
+    async sendAddTrustedIssuer(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            issuer: Address;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeAddTrustedIssuer({ $$type: 'AddTrustedIssuer', issuer: opts.issuer }))
+                .endCell(),
+        });
+    }
+    
+    async sendRemoveTrustedIssuer(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            issuer: Address;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeRemoveTrustedIssuer({ $$type: 'RemoveTrustedIssuer', issuer: opts.issuer }))
+                .endCell(),
+        });
+    }
+    
+    async getValidateTransferCompliance(
+        provider: ContractProvider,
+        from: Address,
+        to: Address,
+        amount: bigint,
+        token: Address
+    ): Promise<ComplianceResult> {
+        const result = await provider.get('validateTransferCompliance', [
+            { type: 'slice', cell: beginCell().storeAddress(from).endCell() },
+            { type: 'slice', cell: beginCell().storeAddress(to).endCell() },
+            { type: 'int', value: amount },
+            { type: 'slice', cell: beginCell().storeAddress(token).endCell() }
+        ]);
+        return loadTupleComplianceResult(result.stack);
+    }
+    
+    async getCheckUserClaims(provider: ContractProvider, user: Address, requiredClaims: bigint[]): Promise<ComplianceResult> {
+        const result = await provider.get('checkUserClaims', [
+            { type: 'slice', cell: beginCell().storeAddress(user).endCell() },
+            topicsTupleItem(requiredClaims)
+        ]);
+        return loadTupleComplianceResult(result.stack);
+    }
+    
+    async getGetUserIdentity(provider: ContractProvider, user: Address): Promise<Address | null> {
+        const result = await provider.get('getUserIdentity', [
+            { type: 'slice', cell: beginCell().storeAddress(user).endCell() }
+        ]);
+        return result.stack.readAddressOpt();
+    }
+    
+    async getHasValidClaim(provider: ContractProvider, identity: Address, topic: bigint): Promise<boolean> {
+        const result = await provider.get('hasValidClaim', [
+            { type: 'slice', cell: beginCell().storeAddress(identity).endCell() },
+            { type: 'int', value: topic }
+        ]);
+        return result.stack.readBoolean();
+    }
+    
+    async getGetComplianceRule(provider: ContractProvider, ruleId: bigint): Promise<ComplianceRule | null> {
+        const result = await provider.get('getComplianceRule', [
+            { type: 'int', value: ruleId }
+        ]);
+        const tuple = result.stack.readTupleOpt();
+        return tuple ? loadTupleComplianceRule(tuple) : null;
+    }
+    
+    async getIsTrustedIssuer(provider: ContractProvider, issuer: Address): Promise<boolean> {
+        const result = await provider.get('isTrustedIssuer', [
+            { type: 'slice', cell: beginCell().storeAddress(issuer).endCell() }
+        ]);
+        return result.stack.readBoolean();
+    }
+    
+    async getGetDefaultRequiredClaims(provider: ContractProvider): Promise<bigint[]> {
+        const result = await provider.get('getDefaultRequiredClaims', []);
+        return loadTopics(result.stack.readCellOpt());
+    }
+    
+    async getIsJurisdictionAllowed(provider: ContractProvider, jurisdiction: string): Promise<boolean> {
+        const result = await provider.get('isJurisdictionAllowed', [
+            { type: 'slice', cell: beginCell().storeStringTail(jurisdiction).endCell() }
+        ]);
+        return result.stack.readBoolean();
+    }
+    
+    async getOwner(provider: ContractProvider): Promise<Address> {
+        const result = await provider.get('owner', []);
+        return result.stack.readAddress();
+    }
+}
+
+// An opened TonIdentityGateway, provider-backed or sandbox; see TonIdentityClient.
+export type TonIdentityGatewayClient = {
+    [K in keyof TonIdentityGateway]: TonIdentityGateway[K] extends (provider: ContractProvider, ...args: infer A) => Promise<infer R>
+        ? (...args: A) => Promise<K extends `send${string}` ? unknown : R>
+        : TonIdentityGateway[K];
+};
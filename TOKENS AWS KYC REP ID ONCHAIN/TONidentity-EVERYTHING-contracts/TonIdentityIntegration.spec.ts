@@ -0,0 +1,194 @@
+import { Blockchain, SandboxContract, SendMessageResult, TreasuryContract } from '@ton/sandbox';
+import { Slice, toNano } from '@ton/core';
+import {
+    loadComplianceVerified,
+    loadIdentitySynced,
+    TonIdentityIntegration
+} from '../wrappers/TonIdentityIntegration';
+import '@ton/test-utils';
+
+describe('TonIdentityIntegration', () => {
+    let blockchain: Blockchain;
+    let deployer: SandboxContract<TreasuryContract>;
+    let registry: SandboxContract<TreasuryContract>;
+    let gateway: SandboxContract<TreasuryContract>;
+    let user1: SandboxContract<TreasuryContract>;
+    let user2: SandboxContract<TreasuryContract>;
+    let identity1: SandboxContract<TreasuryContract>;
+    let integration: SandboxContract<TonIdentityIntegration>;
+
+    beforeEach(async () => {
+        blockchain = await Blockchain.create();
+
+        deployer = await blockchain.treasury('deployer');
+        registry = await blockchain.treasury('registry');
+        gateway = await blockchain.treasury('gateway');
+        user1 = await blockchain.treasury('user1');
+        user2 = await blockchain.treasury('user2');
+        identity1 = await blockchain.treasury('identity1');
+
+        integration = blockchain.openContract(
+            await TonIdentityIntegration.fromInit(deployer.address, registry.address, gateway.address)
+        );
+
+        const deployResult = await integration.sendDeploy(deployer.getSender(), toNano('0.05'));
+
+        expect(deployResult.transactions).toHaveTransaction({
+            from: deployer.address,
+            to: integration.address,
+            deploy: true,
+            success: true,
+        });
+    });
+
+    function eventBody(result: SendMessageResult): Slice {
+        for (const tx of result.transactions) {
+            for (const message of tx.outMessages.values()) {
+                if (message.info.type === 'external-out' && message.info.src.equals(integration.address)) {
+                    return message.body.beginParse();
+                }
+            }
+        }
+        throw new Error('No event emitted');
+    }
+
+    describe('Status', () => {
+        it('should report the integration status', async () => {
+            const status = await integration.getGetIntegrationStatus();
+
+            expect(status.trc3643Registry.equals(registry.address)).toBe(true);
+            expect(status.jumpIdGateway.equals(gateway.address)).toBe(true);
+            expect(status.syncEnabled).toBe(true);
+        });
+
+        it('should toggle sync', async () => {
+            await integration.sendToggleSync(deployer.getSender(), toNano('0.05'));
+            expect((await integration.getGetIntegrationStatus()).syncEnabled).toBe(false);
+
+            await integration.sendToggleSync(deployer.getSender(), toNano('0.05'));
+            expect((await integration.getGetIntegrationStatus()).syncEnabled).toBe(true);
+        });
+
+        it('should update the gateway address', async () => {
+            const newGateway = await blockchain.treasury('new-gateway');
+
+            await integration.sendUpdateGatewayAddress(deployer.getSender(), { value: toNano('0.05'), gateway: newGateway.address });
+
+            expect((await integration.getGetIntegrationStatus()).jumpIdGateway.equals(newGateway.address)).toBe(true);
+        });
+
+        it('should only allow the owner to toggle sync', async () => {
+            const result = await integration.sendToggleSync(user1.getSender(), toNano('0.05'));
+
+            expect(result.transactions).toHaveTransaction({
+                from: user1.address,
+                to: integration.address,
+                success: false,
+                exitCode: 132, // Access denied
+            });
+        });
+    });
+
+    describe('Sync', () => {
+        it('should sync a single identity', async () => {
+            const result = await integration.sendSyncIdentityWithTRC3643(
+                user1.getSender(),
+                {
+                    value: toNano('0.05'),
+                    user: user1.address,
+                    identity: identity1.address,
+                    country: 840n
+                }
+            );
+
+            const event = loadIdentitySynced(eventBody(result));
+            expect(event.user.equals(user1.address)).toBe(true);
+            expect(event.identity.equals(identity1.address)).toBe(true);
+            expect(event.jumpIdGateway.equals(gateway.address)).toBe(true);
+
+            expect(await integration.getIsIdentitySynced(user1.address)).toBe(true);
+            expect(await integration.getIsUserCompliant(user1.address)).toBe(true);
+            const summary = await integration.getGetComplianceSummary(user1.address);
+            expect(summary.user.equals(user1.address)).toBe(true);
+            expect(summary).toMatchObject({
+                jumpIdCompliant: true,
+                trc3643Verified: true,
+                synced: true,
+                overallCompliant: true
+            });
+        });
+
+        it('should sync identities in a batch', async () => {
+            const identity2 = await blockchain.treasury('identity2');
+
+            await integration.sendBatchSyncIdentities(
+                deployer.getSender(),
+                {
+                    value: toNano('0.1'),
+                    entries: [
+                        { user: user1.address, identity: identity1.address, country: 840n },
+                        { user: user2.address, identity: identity2.address, country: 276n },
+                    ]
+                }
+            );
+
+            expect(await integration.getIsIdentitySynced(user1.address)).toBe(true);
+            expect(await integration.getIsIdentitySynced(user2.address)).toBe(true);
+        });
+
+        it('should only allow the owner to batch sync', async () => {
+            const result = await integration.sendBatchSyncIdentities(
+                user1.getSender(),
+                {
+                    value: toNano('0.1'),
+                    entries: [{ user: user1.address, identity: identity1.address, country: 840n }]
+                }
+            );
+
+            expect(result.transactions).toHaveTransaction({
+                from: user1.address,
+                to: integration.address,
+                success: false,
+                exitCode: 132, // Access denied
+            });
+            expect(await integration.getIsIdentitySynced(user1.address)).toBe(false);
+        });
+    });
+
+    describe('Compliance', () => {
+        it('should treat unsynced users as not compliant', async () => {
+            expect(await integration.getIsUserCompliant(user2.address)).toBe(false);
+            expect((await integration.getGetComplianceSummary(user2.address)).synced).toBe(false);
+        });
+
+        it('should emit ComplianceVerified for transfers', async () => {
+            await integration.sendSyncIdentityWithTRC3643(
+                user1.getSender(),
+                {
+                    value: toNano('0.05'),
+                    user: user1.address,
+                    identity: identity1.address,
+                    country: 840n
+                }
+            );
+
+            const result = await integration.sendVerifyComplianceForTransfer(
+                user1.getSender(),
+                {
+                    value: toNano('0.05'),
+                    from: user1.address,
+                    to: user2.address,
+                    amount: toNano('1')
+                }
+            );
+
+            const event = loadComplianceVerified(eventBody(result));
+            expect(event.user.equals(user1.address)).toBe(true);
+            expect(event).toMatchObject({
+                $$type: 'ComplianceVerified',
+                compliant: false,
+                reason: 'Recipient not compliant'
+            });
+        });
+    });
+});
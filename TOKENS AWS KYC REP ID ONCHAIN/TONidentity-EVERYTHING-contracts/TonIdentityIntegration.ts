@@ -0,0 +1,352 @@
+import {
+    Cell,
+    Slice,
+    Address,
+    Builder,
+    beginCell,
+    TupleReader,
+    Dictionary,
+    DictionaryValue,
+    contractAddress,
+    ContractProvider,
+    Sender,
+    Contract
+} from '@ton/core';
+import { storeDeploy } from './TonIdentity';
+import { TonIdentityIntegration as TactTonIdentityIntegration } from '../build/TonIdentityIntegration/tact_TonIdentityIntegration';
+
+// Message layouts below mirror the Tact definitions in TonIdentityIntegration.tact.
+// Opcodes are the first 32 bits of sha256 over each message signature.
+
+export type SyncIdentityWithTRC3643 = {
+    $$type: 'SyncIdentityWithTRC3643';
+    user: Address;
+    identity: Address;
+    country: bigint;
+}
+
+export function storeSyncIdentityWithTRC3643(src: SyncIdentityWithTRC3643) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0x5acf3890, 32); // SyncIdentityWithTRC3643{user:address,identity:address,country:int257}
+        b_0.storeAddress(src.user);
+        b_0.storeAddress(src.identity);
+        b_0.storeInt(src.country, 257);
+    };
+}
+
+export function loadSyncIdentityWithTRC3643(slice: Slice): SyncIdentityWithTRC3643 {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x5acf3890) { throw Error('Invalid prefix'); }
+    const _user = sc_0.loadAddress();
+    const _identity = sc_0.loadAddress();
+    const _country = sc_0.loadIntBig(257);
+    return { $$type: 'SyncIdentityWithTRC3643' as const, user: _user, identity: _identity, country: _country };
+}
+
+export type VerifyComplianceForTransfer = {
+    $$type: 'VerifyComplianceForTransfer';
+    from: Address;
+    to: Address;
+    amount: bigint;
+}
+
+export function storeVerifyComplianceForTransfer(src: VerifyComplianceForTransfer) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0xb9343306, 32); // VerifyComplianceForTransfer{from:address,to:address,amount:int257}
+        b_0.storeAddress(src.from);
+        b_0.storeAddress(src.to);
+        b_0.storeInt(src.amount, 257);
+    };
+}
+
+export function loadVerifyComplianceForTransfer(slice: Slice): VerifyComplianceForTransfer {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xb9343306) { throw Error('Invalid prefix'); }
+    const _from = sc_0.loadAddress();
+    const _to = sc_0.loadAddress();
+    const _amount = sc_0.loadIntBig(257);
+    return { $$type: 'VerifyComplianceForTransfer' as const, from: _from, to: _to, amount: _amount };
+}
+
+export type UpdateGatewayAddress = {
+    $$type: 'UpdateGatewayAddress';
+    gateway: Address;
+}
+
+export function storeUpdateGatewayAddress(src: UpdateGatewayAddress) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0xa0632375, 32); // UpdateGatewayAddress{gateway:address}
+        b_0.storeAddress(src.gateway);
+    };
+}
+
+export function loadUpdateGatewayAddress(slice: Slice): UpdateGatewayAddress {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xa0632375) { throw Error('Invalid prefix'); }
+    const _gateway = sc_0.loadAddress();
+    return { $$type: 'UpdateGatewayAddress' as const, gateway: _gateway };
+}
+
+export type SyncEntry = {
+    identity: Address;
+    country: bigint;
+}
+
+// map<Address, SyncEntry> values are stored as a ref to the struct
+function dictValueSyncEntry(): DictionaryValue<SyncEntry> {
+    return {
+        serialize: (src, builder) => {
+            builder.storeRef(beginCell().storeAddress(src.identity).storeInt(src.country, 257).endCell());
+        },
+        parse: (src) => {
+            const sc = src.loadRef().beginParse();
+            return { identity: sc.loadAddress(), country: sc.loadIntBig(257) };
+        }
+    };
+}
+
+export type BatchSyncIdentities = {
+    $$type: 'BatchSyncIdentities';
+    entries: Dictionary<Address, SyncEntry>;   // user -> identity to sync
+}
+
+export function storeBatchSyncIdentities(src: BatchSyncIdentities) {
+    return (builder: Builder) => {
+        const b_0 = builder;
+        b_0.storeUint(0x42b11612, 32); // BatchSyncIdentities{entries:dict<address, ^SyncEntry{identity:address,country:int257}>}
+        b_0.storeDict(src.entries, Dictionary.Keys.Address(), dictValueSyncEntry());
+    };
+}
+
+export function loadBatchSyncIdentities(slice: Slice): BatchSyncIdentities {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x42b11612) { throw Error('Invalid prefix'); }
+    const _entries = Dictionary.load(Dictionary.Keys.Address(), dictValueSyncEntry(), sc_0);
+    return { $$type: 'BatchSyncIdentities' as const, entries: _entries };
+}
+
+// Events
+
+export type IdentitySynced = {
+    $$type: 'IdentitySynced';
+    user: Address;
+    identity: Address;
+    trc3643Registry: Address;
+    jumpIdGateway: Address;
+}
+
+export function loadIdentitySynced(slice: Slice): IdentitySynced {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0x016bf62f) { throw Error('Invalid prefix'); }
+    const _user = sc_0.loadAddress();
+    const _identity = sc_0.loadAddress();
+    const _trc3643Registry = sc_0.loadAddress();
+    const sc_1 = sc_0.loadRef().beginParse();
+    const _jumpIdGateway = sc_1.loadAddress();
+    return { $$type: 'IdentitySynced' as const, user: _user, identity: _identity, trc3643Registry: _trc3643Registry, jumpIdGateway: _jumpIdGateway };
+}
+
+export type ComplianceVerified = {
+    $$type: 'ComplianceVerified';
+    user: Address;
+    compliant: boolean;
+    reason: string;
+}
+
+export function loadComplianceVerified(slice: Slice): ComplianceVerified {
+    const sc_0 = slice;
+    if (sc_0.loadUint(32) !== 0xd97a02b1) { throw Error('Invalid prefix'); }
+    const _user = sc_0.loadAddress();
+    const _compliant = sc_0.loadBit();
+    const _reason = sc_0.loadStringRefTail();
+    return { $$type: 'ComplianceVerified' as const, user: _user, compliant: _compliant, reason: _reason };
+}
+
+// Getter results
+
+export type IntegrationStatus = {
+    trc3643Registry: Address;
+    jumpIdGateway: Address;
+    syncEnabled: boolean;
+    lastSync: bigint;          // the contract reports now()
+}
+
+export type ComplianceSummary = {
+    user: Address;
+    jumpIdCompliant: boolean;
+    trc3643Verified: boolean;
+    synced: boolean;
+    overallCompliant: boolean;
+}
+
+function loadTupleIntegrationStatus(source: TupleReader): IntegrationStatus {
+    const _trc3643Registry = source.readAddress();
+    const _jumpIdGateway = source.readAddress();
+    const _syncEnabled = source.readBoolean();
+    const _lastSync = source.readBigNumber();
+    return { trc3643Registry: _trc3643Registry, jumpIdGateway: _jumpIdGateway, syncEnabled: _syncEnabled, lastSync: _lastSync };
+}
+
+function loadTupleComplianceSummary(source: TupleReader): ComplianceSummary {
+    const _user = source.readAddress();
+    const _jumpIdCompliant = source.readBoolean();
+    const _trc3643Verified = source.readBoolean();
+    const _synced = source.readBoolean();
+    const _overallCompliant = source.readBoolean();
+    return { user: _user, jumpIdCompliant: _jumpIdCompliant, trc3643Verified: _trc3643Verified, synced: _synced, overallCompliant: _overallCompliant };
+}
+
+export class TonIdentityIntegration implements Contract {
+    
+    static createFromAddress(address: Address) {
+        return new TonIdentityIntegration(address);
+    }
+    
+    // Code and initial data as compiled by Tact for
+    // init(owner, trc3643Registry, jumpIdGateway)
+    static async fromInit(owner: Address, trc3643Registry: Address, jumpIdGateway: Address, workchain = 0) {
+        const { init } = await TactTonIdentityIntegration.fromInit(owner, trc3643Registry, jumpIdGateway);
+        return new TonIdentityIntegration(contractAddress(workchain, init!), init);
+    }
+    
+    constructor(readonly address: Address, readonly init?: { code: Cell; data: Cell }) {}
+    
+    async sendDeploy(provider: ContractProvider, via: Sender, value: bigint, queryId: bigint = 0n) {
+        await provider.internal(via, {
+            value,
+            sendMode: 1,
+            body: beginCell().store(storeDeploy({ $$type: 'Deploy', queryId })).endCell(),
+        });
+    }
+    
+    async sendSyncIdentityWithTRC3643(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            user: Address;
+            identity: Address;
+            country: bigint;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeSyncIdentityWithTRC3643({
+                    $$type: 'SyncIdentityWithTRC3643',
+                    user: opts.user,
+                    identity: opts.identity,
+                    country: opts.country
+                }))
+                .endCell(),
+        });
+    }
+    
+    async sendVerifyComplianceForTransfer(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            from: Address;
+            to: Address;
+            amount: bigint;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeVerifyComplianceForTransfer({
+                    $$type: 'VerifyComplianceForTransfer',
+                    from: opts.from,
+                    to: opts.to,
+                    amount: opts.amount
+                }))
+                .endCell(),
+        });
+    }
+    
+    async sendUpdateGatewayAddress(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            gateway: Address;
+        }
+    ) {
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeUpdateGatewayAddress({ $$type: 'UpdateGatewayAddress', gateway: opts.gateway }))
+                .endCell(),
+        });
+    }
+    
+    async sendBatchSyncIdentities(
+        provider: ContractProvider,
+        via: Sender,
+        opts: {
+            value: bigint;
+            entries: { user: Address; identity: Address; country: bigint }[];
+        }
+    ) {
+        const entries = Dictionary.empty(Dictionary.Keys.Address(), dictValueSyncEntry());
+        for (const entry of opts.entries) {
+            entries.set(entry.user, { identity: entry.identity, country: entry.country });
+        }
+        await provider.internal(via, {
+            value: opts.value,
+            sendMode: 1,
+            body: beginCell()
+                .store(storeBatchSyncIdentities({ $$type: 'BatchSyncIdentities', entries }))
+                .endCell(),
+        });
+    }
+    
+    // Text receiver: flips syncEnabled
+    async sendToggleSync(provider: ContractProvider, via: Sender, value: bigint) {
+        await provider.internal(via, {
+            value,
+            sendMode: 1,
+            body: beginCell().storeUint(0, 32).storeStringTail('ToggleSync').endCell(),
+        });
+    }
+    
+    async getIsUserCompliant(provider: ContractProvider, user: Address): Promise<boolean> {
+        const result = await provider.get('isUserCompliant', [
+            { type: 'slice', cell: beginCell().storeAddress(user).endCell() }
+        ]);
+        return result.stack.readBoolean();
+    }
+    
+    async getGetIntegrationStatus(provider: ContractProvider): Promise<IntegrationStatus> {
+        const result = await provider.get('getIntegrationStatus', []);
+        return loadTupleIntegrationStatus(result.stack);
+    }
+    
+    async getIsIdentitySynced(provider: ContractProvider, user: Address): Promise<boolean> {
+        const result = await provider.get('isIdentitySynced', [
+            { type: 'slice', cell: beginCell().storeAddress(user).endCell() }
+        ]);
+        return result.stack.readBoolean();
+    }
+    
+    async getGetComplianceSummary(provider: ContractProvider, user: Address): Promise<ComplianceSummary> {
+        const result = await provider.get('getComplianceSummary', [
+            { type: 'slice', cell: beginCell().storeAddress(user).endCell() }
+        ]);
+        return loadTupleComplianceSummary(result.stack);
+    }
+}
+
+// An opened TonIdentityIntegration, provider-backed or sandbox; see TonIdentityClient.
+export type TonIdentityIntegrationClient = {
+    [K in keyof TonIdentityIntegration]: TonIdentityIntegration[K] extends (provider: ContractProvider, ...args: infer A) => Promise<infer R>
+        ? (...args: A) => Promise<K extends `send${string}` ? unknown : R>
+        : TonIdentityIntegration[K];
+};
@@ -0,0 +1,169 @@
+import { Blockchain, SandboxContract, TreasuryContract } from '@ton/sandbox';
+import { toNano } from '@ton/core';
+import { TonIdentity } from '../wrappers/TonIdentity';
+import { TonIdentityExecutionWorkflow } from '../wrappers/TonIdentityExecution';
+import { rotateManagementKey, recoverManagementKey } from '../wrappers/TonIdentityKeyRotation';
+import { addressToKeyHash, KeyPurpose, KeyType } from '../wrappers/TonIdentityKeys';
+import '@ton/test-utils';
+
+describe('TonIdentityKeyRotation', () => {
+    let blockchain: Blockchain;
+    let deployer: SandboxContract<TreasuryContract>;
+    let manager: SandboxContract<TreasuryContract>;
+    let backup: SandboxContract<TreasuryContract>;
+    let replacement: SandboxContract<TreasuryContract>;
+    let tonIdentity: SandboxContract<TonIdentity>;
+
+    const fastPolling = { pollIntervalMs: 0, timeoutMs: 1000 };
+
+    beforeEach(async () => {
+        blockchain = await Blockchain.create();
+
+        deployer = await blockchain.treasury('deployer');
+        manager = await blockchain.treasury('manager');
+        backup = await blockchain.treasury('backup');
+        replacement = await blockchain.treasury('replacement');
+
+        tonIdentity = blockchain.openContract(
+            await TonIdentity.fromInit(deployer.address)
+        );
+
+        await tonIdentity.sendDeploy(deployer.getSender(), toNano('0.05'));
+    });
+
+    describe('Rotation', () => {
+        it('should move the only management key to a new wallet', async () => {
+            const oldKey = addressToKeyHash(deployer.address);
+            const newKey = addressToKeyHash(replacement.address);
+
+            const result = await rotateManagementKey(tonIdentity, deployer.getSender(), oldKey, newKey, fastPolling);
+
+            expect(result.added).toBe(true);
+            expect(await tonIdentity.getKeyHasPurpose(newKey, KeyPurpose.MANAGEMENT)).toBe(true);
+            expect(await tonIdentity.getKeyHasPurpose(oldKey, KeyPurpose.MANAGEMENT)).toBe(false);
+            expect(await tonIdentity.getGetKeysByPurpose(KeyPurpose.MANAGEMENT)).toEqual([newKey]);
+        });
+
+        it('should let the new key manage the identity after rotation', async () => {
+            await rotateManagementKey(
+                tonIdentity,
+                deployer.getSender(),
+                addressToKeyHash(deployer.address),
+                addressToKeyHash(replacement.address),
+                fastPolling
+            );
+
+            const result = await tonIdentity.sendAddKey(
+                replacement.getSender(),
+                {
+                    value: toNano('0.05'),
+                    key: addressToKeyHash(manager.address),
+                    purpose: KeyPurpose.ACTION,
+                    keyType: KeyType.ECDSA
+                }
+            );
+
+            expect(result.transactions).toHaveTransaction({
+                from: replacement.address,
+                to: tonIdentity.address,
+                success: true,
+            });
+        });
+
+        it('should refuse to rotate a key that is not a management key', async () => {
+            await expect(rotateManagementKey(
+                tonIdentity,
+                deployer.getSender(),
+                addressToKeyHash(manager.address),
+                addressToKeyHash(replacement.address),
+                fastPolling
+            )).rejects.toThrow('not a management key');
+        });
+
+        it('should keep the old key when the new key never becomes active', async () => {
+            const oldKey = addressToKeyHash(deployer.address);
+
+            // Sending from a wallet without management purpose: AddKey bounces
+            await expect(rotateManagementKey(
+                tonIdentity,
+                manager.getSender(),
+                oldKey,
+                addressToKeyHash(replacement.address),
+                fastPolling
+            )).rejects.toThrow('Timed out');
+
+            expect(await tonIdentity.getKeyHasPurpose(oldKey, KeyPurpose.MANAGEMENT)).toBe(true);
+        });
+    });
+
+    describe('Recovery', () => {
+        let workflow: TonIdentityExecutionWorkflow;
+
+        beforeEach(async () => {
+            for (const treasury of [manager, backup]) {
+                await tonIdentity.sendAddKey(
+                    deployer.getSender(),
+                    {
+                        value: toNano('0.05'),
+                        key: addressToKeyHash(treasury.address),
+                        purpose: KeyPurpose.MANAGEMENT,
+                        keyType: KeyType.ECDSA
+                    }
+                );
+            }
+            await tonIdentity.sendSetRequiredApprovals(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    requiredApprovals: 2n
+                }
+            );
+
+            workflow = new TonIdentityExecutionWorkflow(tonIdentity, fastPolling);
+        });
+
+        it('should replace a lost key with approval from the remaining quorum', async () => {
+            const lostKey = addressToKeyHash(deployer.address);
+            const newKey = addressToKeyHash(replacement.address);
+
+            const result = await recoverManagementKey(
+                workflow,
+                manager.getSender(),
+                [backup.getSender()],
+                lostKey,
+                newKey,
+                fastPolling
+            );
+
+            expect(result.added).toBe(true);
+            expect(await tonIdentity.getKeyHasPurpose(newKey, KeyPurpose.MANAGEMENT)).toBe(true);
+            expect(await tonIdentity.getKeyHasPurpose(lostKey, KeyPurpose.MANAGEMENT)).toBe(false);
+        });
+
+        it('should leave quorum identities to recovery', async () => {
+            await expect(rotateManagementKey(
+                tonIdentity,
+                deployer.getSender(),
+                addressToKeyHash(deployer.address),
+                addressToKeyHash(replacement.address),
+                fastPolling
+            )).rejects.toThrow('use recoverManagementKey');
+        });
+
+        it('should not apply key changes without a quorum', async () => {
+            const lostKey = addressToKeyHash(deployer.address);
+
+            await expect(recoverManagementKey(
+                workflow,
+                manager.getSender(),
+                [],
+                lostKey,
+                addressToKeyHash(replacement.address),
+                fastPolling
+            )).rejects.toThrow('Quorum not reached');
+
+            expect(await tonIdentity.getKeyHasPurpose(lostKey, KeyPurpose.MANAGEMENT)).toBe(true);
+            expect(await tonIdentity.getKeyHasPurpose(addressToKeyHash(replacement.address), KeyPurpose.MANAGEMENT)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,151 @@
+import { beginCell, Sender, toNano } from '@ton/core';
+import { storeAddKey, storeRemoveKey, TonIdentityClient } from './TonIdentity';
+import { ExecutionRequestState, TonIdentityExecutionWorkflow } from './TonIdentityExecution';
+import { KeyPurpose, KeyType } from './TonIdentityKeys';
+
+export type RotationOptions = {
+    value?: bigint;            // TON attached to each AddKey/RemoveKey
+    keyType?: KeyType;         // type recorded for the new key
+    pollIntervalMs?: number;
+    timeoutMs?: number;
+}
+
+export type RotationResult = {
+    oldKey: bigint;
+    newKey: bigint;
+    added: boolean;            // false when the new key already held MANAGEMENT
+}
+
+async function waitForPurpose(
+    identity: TonIdentityClient,
+    key: bigint,
+    expected: boolean,
+    opts: { pollIntervalMs: number; timeoutMs: number }
+) {
+    const deadline = Date.now() + opts.timeoutMs;
+    while ((await identity.getKeyHasPurpose(key, KeyPurpose.MANAGEMENT)) !== expected) {
+        if (Date.now() >= deadline) {
+            throw new Error(`Timed out waiting for key ${key.toString(16)} management purpose to become ${expected}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, opts.pollIntervalMs));
+    }
+}
+
+/**
+ * Moves a management key from `oldKey` to `newKey` without ever leaving the
+ * identity with zero management keys (the contract refuses that with 203).
+ *
+ * The new key is added and confirmed active via `keyHasPurpose` before the
+ * old one is removed; if confirmation times out, the old key is left in
+ * place. `via` must be a current management key, typically the old one.
+ * Identities that need more than one approval queue key changes instead;
+ * rotate those with `recoverManagementKey`.
+ */
+export async function rotateManagementKey(
+    identity: TonIdentityClient,
+    via: Sender,
+    oldKey: bigint,
+    newKey: bigint,
+    opts: RotationOptions = {}
+): Promise<RotationResult> {
+    const value = opts.value ?? toNano('0.05');
+    const wait = { pollIntervalMs: opts.pollIntervalMs ?? 3000, timeoutMs: opts.timeoutMs ?? 60000 };
+
+    if (oldKey === newKey) {
+        throw new Error('Old and new management keys are the same');
+    }
+    if (!(await identity.getKeyHasPurpose(oldKey, KeyPurpose.MANAGEMENT))) {
+        throw new Error(`Key ${oldKey.toString(16)} is not a management key`);
+    }
+    const requiredApprovals = await identity.getGetRequiredApprovals();
+    if (requiredApprovals > 1n) {
+        throw new Error(`Key changes need ${requiredApprovals} approvals; use recoverManagementKey`);
+    }
+
+    const added = !(await identity.getKeyHasPurpose(newKey, KeyPurpose.MANAGEMENT));
+    if (added) {
+        await identity.sendAddKey(via, {
+            value,
+            key: newKey,
+            purpose: KeyPurpose.MANAGEMENT,
+            keyType: opts.keyType ?? KeyType.ECDSA
+        });
+        await waitForPurpose(identity, newKey, true, wait);
+    }
+
+    await identity.sendRemoveKey(via, {
+        value,
+        key: oldKey,
+        purpose: KeyPurpose.MANAGEMENT
+    });
+    await waitForPurpose(identity, oldKey, false, wait);
+
+    return { oldKey, newKey, added };
+}
+
+function requireExecuted(state: ExecutionRequestState, action: string) {
+    if (state.status === 'failed') {
+        throw new Error(`Identity refused to ${action}`);
+    }
+    if (state.status === 'rejected') {
+        throw new Error(`Management keys rejected the request to ${action}`);
+    }
+    if (state.status !== 'executed') {
+        throw new Error(`Quorum not reached to ${action} (${state.approvals.length}/${state.requiredApprovals})`);
+    }
+}
+
+/**
+ * Replaces a lost management key by quorum. Both the AddKey for `newKey` and
+ * the RemoveKey for `lostKey` go through execution requests addressed to the
+ * identity itself, which the contract applies only once `getRequiredApprovals`
+ * management keys have approved. `initiator` and `approvers` must be
+ * remaining management keys; the initiator's request counts as its approval.
+ */
+export async function recoverManagementKey(
+    workflow: TonIdentityExecutionWorkflow,
+    initiator: Sender,
+    approvers: Sender[],
+    lostKey: bigint,
+    newKey: bigint,
+    opts: RotationOptions = {}
+): Promise<RotationResult> {
+    const identity = workflow.identity;
+    const wait = { pollIntervalMs: opts.pollIntervalMs ?? 3000, timeoutMs: opts.timeoutMs ?? 60000 };
+
+    if (!(await identity.getKeyHasPurpose(lostKey, KeyPurpose.MANAGEMENT))) {
+        throw new Error(`Key ${lostKey.toString(16)} is not a management key`);
+    }
+
+    const added = !(await identity.getKeyHasPurpose(newKey, KeyPurpose.MANAGEMENT));
+    if (added) {
+        const addId = await workflow.createRequest(initiator, {
+            to: identity.address,
+            amount: 0n,
+            data: beginCell().store(storeAddKey({
+                $$type: 'AddKey',
+                queryId: 0n,
+                key: newKey,
+                purpose: BigInt(KeyPurpose.MANAGEMENT),
+                keyType: BigInt(opts.keyType ?? KeyType.ECDSA)
+            })).endCell()
+        });
+        requireExecuted(await workflow.collectApprovals(addId, approvers), `add key ${newKey.toString(16)}`);
+        await waitForPurpose(identity, newKey, true, wait);
+    }
+
+    const removeId = await workflow.createRequest(initiator, {
+        to: identity.address,
+        amount: 0n,
+        data: beginCell().store(storeRemoveKey({
+            $$type: 'RemoveKey',
+            queryId: 0n,
+            key: lostKey,
+            purpose: BigInt(KeyPurpose.MANAGEMENT)
+        })).endCell()
+    });
+    requireExecuted(await workflow.collectApprovals(removeId, approvers), `remove key ${lostKey.toString(16)}`);
+    await waitForPurpose(identity, lostKey, false, wait);
+
+    return { oldKey: lostKey, newKey, added };
+}
@@ -0,0 +1,40 @@
+import { Address } from '@ton/core';
+import { sha256_sync } from '@ton/crypto';
+
+// Key purposes (ERC734), as declared in TonIdentity.tact
+export enum KeyPurpose {
+    MANAGEMENT = 1,
+    ACTION = 2,
+    CLAIM_SIGNER = 3,
+    ENCRYPTION = 4,
+}
+
+// Key types (ERC734), as declared in TonIdentity.tact
+export enum KeyType {
+    ECDSA = 1,
+    RSA = 2,
+}
+
+/**
+ * Key hash TonIdentity assigns to a sender address. Mirrors the contract's
+ * `addressToKeyHash`, which takes the 256-bit account id and ignores the
+ * workchain, so the same wallet maps to the same key on any workchain.
+ */
+export function addressToKeyHash(address: Address): bigint {
+    return BigInt('0x' + address.hash.toString('hex'));
+}
+
+/**
+ * Key hash for a raw Ed25519 public key: sha256 of the 32 key bytes.
+ *
+ * Use this for keys that never send messages themselves (claim signers
+ * checked off-chain, encryption keys). Keys that authorise on-chain actions
+ * must be registered with `addressToKeyHash` of the wallet that sends them,
+ * since the contract only ever sees the sender address.
+ */
+export function publicKeyToKeyHash(publicKey: Buffer): bigint {
+    if (publicKey.length !== 32) {
+        throw new Error(`Expected a 32-byte Ed25519 public key, got ${publicKey.length} bytes`);
+    }
+    return BigInt('0x' + sha256_sync(publicKey).toString('hex'));
+}
@@ -0,0 +1,295 @@
+import { Blockchain, SandboxContract, TreasuryContract } from '@ton/sandbox';
+import { Address, beginCell, Cell, toNano } from '@ton/core';
+import { TonIdentity } from '../wrappers/TonIdentity';
+import { TonIdentityFactory } from '../wrappers/TonIdentityFactory';
+import { parseTonIdentityEvents } from '../wrappers/TonIdentityEvents';
+import { addressToKeyHash, KeyPurpose, KeyType } from '../wrappers/TonIdentityKeys';
+import {
+    diffStorageLayouts,
+    IdentityUpgradeManager,
+    StorageLayout,
+    storageLayoutFromAbi,
+    TON_IDENTITY_STORAGE_V1
+} from '../wrappers/TonIdentityUpgrade';
+import { TonIdentityV2 } from '../build/TonIdentityV2/tact_TonIdentityV2';
+import '@ton/test-utils';
+import { compile } from '@ton/blueprint';
+
+describe('IdentityUpgradeManager', () => {
+    let v1Code: Cell;
+    let v2Code: Cell;
+    let v2Layout: StorageLayout;
+
+    beforeAll(async () => {
+        v1Code = await compile('TonIdentity');
+        // TonIdentityV2.tact is TonIdentity plus a version getter
+        v2Code = await compile('TonIdentityV2');
+        v2Layout = storageLayoutFromAbi(TonIdentityV2.fromAddress(new Address(0, Buffer.alloc(32))).abi);
+    });
+
+    let blockchain: Blockchain;
+    let deployer: SandboxContract<TreasuryContract>;
+    let owners: SandboxContract<TreasuryContract>[];
+    let identities: SandboxContract<TonIdentity>[];
+    let factory: SandboxContract<TonIdentityFactory>;
+    let manager: IdentityUpgradeManager;
+
+    beforeEach(async () => {
+        blockchain = await Blockchain.create();
+
+        deployer = await blockchain.treasury('deployer');
+
+        owners = [];
+        identities = [];
+        for (let i = 0; i < 3; i++) {
+            const owner = await blockchain.treasury(`owner-${i}`);
+            const identity = blockchain.openContract(
+                await TonIdentity.fromInit(owner.address)
+            );
+            await identity.sendDeploy(owner.getSender(), toNano('0.05'));
+            owners.push(owner);
+            identities.push(identity);
+        }
+
+        factory = blockchain.openContract(
+            await TonIdentityFactory.fromInit(v1Code, '1.0.0', toNano('0.05'))
+        );
+        await factory.sendDeploy(deployer.getSender(), toNano('0.05'));
+
+        manager = new IdentityUpgradeManager(
+            (address) => blockchain.openContract(TonIdentity.createFromAddress(address)),
+            factory
+        );
+        manager.recordVersion('1.0.0', v1Code, TON_IDENTITY_STORAGE_V1);
+        manager.recordVersion('2.0.0', v2Code, v2Layout);
+    });
+
+    const senderFor = (address: Address) => owners[identities.findIndex((i) => i.address.equals(address))].getSender();
+
+    describe('Storage Layouts', () => {
+        it('should read the layout from the compiled contract', () => {
+            expect(TON_IDENTITY_STORAGE_V1.map((f) => f.name)).toEqual([
+                'keys', 'keysByPurpose', 'claims', 'claimsByTopic', 'executionRequests', 'sentCalls', 'executionNonce', 'requiredApprovals', 'owner'
+            ]);
+            expect(TON_IDENTITY_STORAGE_V1[0]).toEqual({
+                name: 'keys',
+                type: 'dict',
+                of: 'int -> Key as ref',
+                struct: {
+                    name: 'Key',
+                    fields: [
+                        { name: 'purposes', type: 'dict', of: 'int -> bool' },
+                        { name: 'keyType', type: 'int', bits: 257 },
+                        { name: 'key', type: 'int', bits: 257 }
+                    ]
+                }
+            });
+            expect(TON_IDENTITY_STORAGE_V1[6]).toEqual({ name: 'executionNonce', type: 'int', bits: 257 });
+            expect(diffStorageLayouts(TON_IDENTITY_STORAGE_V1, v2Layout)).toEqual({ compatible: true, changes: [] });
+        });
+
+        it('should accept appended fields and renames', () => {
+            const appended: StorageLayout = [...TON_IDENTITY_STORAGE_V1, { name: 'recoveryDelay', type: 'uint', bits: 32 }];
+            const renamed: StorageLayout = [{ ...TON_IDENTITY_STORAGE_V1[0], name: 'managementKeys' }, ...TON_IDENTITY_STORAGE_V1.slice(1)];
+
+            expect(diffStorageLayouts(TON_IDENTITY_STORAGE_V1, appended)).toEqual({
+                compatible: true,
+                changes: [{ kind: 'added', index: TON_IDENTITY_STORAGE_V1.length, field: appended[TON_IDENTITY_STORAGE_V1.length] }]
+            });
+            expect(diffStorageLayouts(TON_IDENTITY_STORAGE_V1, renamed).compatible).toBe(true);
+        });
+
+        it('should reject removed and retyped fields', () => {
+            expect(diffStorageLayouts(TON_IDENTITY_STORAGE_V1, TON_IDENTITY_STORAGE_V1.slice(0, -1)).compatible).toBe(false);
+
+            const narrowed = TON_IDENTITY_STORAGE_V1.map((f) => f.name === 'executionNonce' ? { ...f, type: 'uint' as const, bits: 64 } : f);
+            const diff = diffStorageLayouts(TON_IDENTITY_STORAGE_V1, narrowed);
+            expect(diff.compatible).toBe(false);
+            expect(diff.changes).toEqual([{ kind: 'retyped', index: 6, from: TON_IDENTITY_STORAGE_V1[6], to: narrowed[6] }]);
+
+            const revalued = TON_IDENTITY_STORAGE_V1.map((f) => f.name === 'claims' ? { ...f, of: 'int -> IdSet as ref' } : f);
+            expect(diffStorageLayouts(TON_IDENTITY_STORAGE_V1, revalued).compatible).toBe(false);
+        });
+
+        it('should reject changed fields inside stored structs', async () => {
+            const withStruct = (name: string, change: (fields: StorageLayout) => StorageLayout): StorageLayout =>
+                TON_IDENTITY_STORAGE_V1.map((f) => f.struct?.name === name ? { ...f, struct: { name, fields: change(f.struct.fields) } } : f);
+            const key = TON_IDENTITY_STORAGE_V1[0].struct!.fields;
+
+            const narrowed = withStruct('Key', (fields) => fields.map((f) => f.name === 'keyType' ? { ...f, type: 'uint' as const, bits: 8 } : f));
+            expect(diffStorageLayouts(TON_IDENTITY_STORAGE_V1, narrowed)).toEqual({
+                compatible: false,
+                changes: [{ kind: 'retyped', struct: 'Key', index: 1, from: key[1], to: { name: 'keyType', type: 'uint', bits: 8 } }]
+            });
+
+            const extended = withStruct('Key', (fields) => [...fields, { name: 'expiresAt', type: 'uint', bits: 32 }]);
+            expect(diffStorageLayouts(TON_IDENTITY_STORAGE_V1, extended)).toEqual({
+                compatible: false,
+                changes: [{ kind: 'added', struct: 'Key', index: 3, field: { name: 'expiresAt', type: 'uint', bits: 32 } }]
+            });
+
+            // IdSet backs two maps but is reported once
+            const shrunk = withStruct('IdSet', () => []);
+            expect(diffStorageLayouts(TON_IDENTITY_STORAGE_V1, shrunk).changes).toEqual([
+                { kind: 'removed', struct: 'IdSet', index: 0, field: { name: 'ids', type: 'dict', of: 'int -> bool' } }
+            ]);
+
+            const renamed = withStruct('ExecutionRequest', (fields) => fields.map((f) => f.name === 'approvals' ? { ...f, name: 'votes' } : f));
+            expect(diffStorageLayouts(TON_IDENTITY_STORAGE_V1, renamed).compatible).toBe(true);
+
+            manager.recordVersion('3.0.0', beginCell().storeUint(3, 8).endCell(), extended);
+            await expect(manager.planUpgrade(identities.map((i) => i.address), '3.0.0'))
+                .rejects.toThrow('incompatible storage (added field #3 of Key)');
+        });
+    });
+
+    describe('Versions', () => {
+        it('should list identities by code hash', async () => {
+            const groups = await manager.listByCodeHash(identities.map((i) => i.address));
+
+            expect([...groups.keys()]).toEqual([v1Code.hash().toString('hex')]);
+            expect(groups.get(v1Code.hash().toString('hex'))).toHaveLength(3);
+            expect(manager.versionOf(v1Code.hash().toString('hex'))!.version).toBe('1.0.0');
+        });
+
+        it('should refuse to record the same code under two versions', () => {
+            expect(() => manager.recordVersion('1.0.1', v1Code, TON_IDENTITY_STORAGE_V1)).toThrow('already recorded');
+        });
+    });
+
+    describe('Upgrade', () => {
+        it('should upgrade identities from v1 to v2', async () => {
+            const plan = await manager.planUpgrade(identities.map((i) => i.address), '2.0.0');
+
+            expect(plan.steps).toHaveLength(3);
+            expect(plan.steps.every((s) => s.fromVersion === '1.0.0')).toBe(true);
+            expect(plan.updateFactory).toBe(true);
+
+            const results = await manager.execute(plan, senderFor, {
+                factorySender: deployer.getSender(),
+                pollIntervalMs: 0,
+                timeoutMs: 0
+            });
+
+            expect(results.every((r) => r.upgraded)).toBe(true);
+            const groups = await manager.listByCodeHash(identities.map((i) => i.address));
+            expect(groups.get(v2Code.hash().toString('hex'))).toHaveLength(3);
+            expect((await factory.getGetImplementationInfo()).version).toBe('2.0.0');
+
+            // The v2 code runs and reads the storage v1 left behind
+            for (let i = 0; i < identities.length; i++) {
+                const upgraded = blockchain.openContract(TonIdentityV2.fromAddress(identities[i].address));
+                expect(await upgraded.getVersion()).toBe('2.0.0');
+                expect(await upgraded.getKeyHasPurpose(addressToKeyHash(owners[i].address), BigInt(KeyPurpose.MANAGEMENT))).toBe(true);
+            }
+
+            const replan = await manager.planUpgrade(identities.map((i) => i.address), '2.0.0');
+            expect(replan.steps).toEqual([]);
+            expect(replan.upToDate).toHaveLength(3);
+            expect(replan.updateFactory).toBe(false);
+
+            // v2 takes the same messages, including another upgrade back to v1
+            const added = await identities[0].sendAddKey(owners[0].getSender(), {
+                value: toNano('0.05'),
+                key: addressToKeyHash(deployer.address),
+                purpose: KeyPurpose.ACTION,
+                keyType: KeyType.ECDSA
+            });
+            expect(added.transactions).toHaveTransaction({ to: identities[0].address, success: true });
+            const v2Identity = blockchain.openContract(TonIdentityV2.fromAddress(identities[0].address));
+            expect(await v2Identity.getKeyHasPurpose(addressToKeyHash(deployer.address), BigInt(KeyPurpose.ACTION))).toBe(true);
+
+            await identities[0].sendUpgradeCode(owners[0].getSender(), {
+                value: toNano('0.05'),
+                code: v1Code,
+                version: '1.0.0'
+            });
+            expect((await identities[0].getCodeHash())!.equals(v1Code.hash())).toBe(true);
+            expect(await identities[0].getKeyHasPurpose(addressToKeyHash(deployer.address), KeyPurpose.ACTION)).toBe(true);
+        });
+
+        it('should emit CodeUpgraded with the new code hash', async () => {
+            const result = await identities[0].sendUpgradeCode(
+                owners[0].getSender(),
+                {
+                    value: toNano('0.05'),
+                    code: v2Code,
+                    version: '2.0.0'
+                }
+            );
+
+            const events = parseTonIdentityEvents(result.transactions[1], identities[0].address);
+            expect(events).toEqual([{
+                $$type: 'CodeUpgraded',
+                version: '2.0.0',
+                codeHash: BigInt('0x' + v2Code.hash().toString('hex'))
+            }]);
+        });
+
+        it('should only accept upgrades from management keys', async () => {
+            const result = await identities[0].sendUpgradeCode(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    code: v2Code,
+                    version: '2.0.0'
+                }
+            );
+
+            expect(result.transactions).toHaveTransaction({
+                from: deployer.address,
+                to: identities[0].address,
+                success: false,
+            });
+            expect((await identities[0].getCodeHash())!.equals(v1Code.hash())).toBe(true);
+        });
+
+        it('should hold upgrades until the approval quorum is reached', async () => {
+            const identity = identities[0];
+            await identity.sendAddKey(owners[0].getSender(), {
+                value: toNano('0.05'),
+                key: addressToKeyHash(deployer.address),
+                purpose: KeyPurpose.MANAGEMENT,
+                keyType: KeyType.ECDSA
+            });
+            await identity.sendSetRequiredApprovals(owners[0].getSender(), { value: toNano('0.05'), requiredApprovals: 2n });
+
+            const [result] = await manager.execute(
+                { ...await manager.planUpgrade([identity.address], '2.0.0'), updateFactory: false },
+                () => owners[0].getSender(),
+                { pollIntervalMs: 0, timeoutMs: 0 }
+            );
+            expect(result).toEqual({ identity: identity.address, upgraded: false, error: 'Code hash unchanged after UpgradeCode' });
+            expect((await identity.getCodeHash())!.equals(v1Code.hash())).toBe(true);
+
+            await identity.sendApproveExecution(deployer.getSender(), {
+                value: toNano('0.05'),
+                executionId: await identity.getGetExecutionNonce(),
+                approve: true
+            });
+            expect((await identity.getCodeHash())!.equals(v2Code.hash())).toBe(true);
+        });
+
+        it('should refuse upgrades with an incompatible storage layout', async () => {
+            const v3Code = beginCell()
+                .storeSlice(v1Code.beginParse())
+                .storeRef(beginCell().storeStringTail('TonIdentity v3').endCell())
+                .endCell();
+            manager.recordVersion('3.0.0', v3Code, [TON_IDENTITY_STORAGE_V1[0]]);
+
+            await expect(manager.planUpgrade(identities.map((i) => i.address), '3.0.0'))
+                .rejects.toThrow('Refusing upgrade 1.0.0 -> 3.0.0');
+        });
+
+        it('should refuse identities running unrecorded code', async () => {
+            // A wallet is active but runs none of the recorded versions
+            const stranger = await blockchain.treasury('stranger');
+
+            await expect(manager.planUpgrade([stranger.address], '2.0.0')).rejects.toThrow('unrecorded code');
+        });
+
+        it('should refuse unknown target versions', async () => {
+            await expect(manager.planUpgrade(identities.map((i) => i.address), '9.9.9')).rejects.toThrow('Unknown implementation version');
+        });
+    });
+});
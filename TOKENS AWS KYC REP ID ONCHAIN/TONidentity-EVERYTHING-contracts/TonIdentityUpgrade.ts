@@ -0,0 +1,343 @@
+import { ABITypeRef, Address, Cell, ContractABI, Sender, toNano } from '@ton/core';
+import { TonIdentityClient } from './TonIdentity';
+import { TonIdentityFactoryClient } from './TonIdentityFactory';
+import { TonIdentity as TactTonIdentity } from '../build/TonIdentity/tact_TonIdentity';
+
+export type StorageFieldType = 'address' | 'uint' | 'int' | 'coins' | 'bool' | 'ref' | 'string' | 'dict' | 'struct';
+
+export type StorageField = {
+    name: string;
+    type: StorageFieldType;
+    bits?: number;             // width for uint/int
+    of?: string;               // struct name, dict key and value, or other integer format
+    optional?: boolean;
+    struct?: StructLayout;     // fields of a struct, or of a dict's struct values
+}
+
+export type StorageLayout = StorageField[];
+
+export type StructLayout = {
+    name: string;
+    fields: StorageLayout;
+}
+
+type AbiTypes = NonNullable<ContractABI['types']>;
+
+function withFormat(type: string, format: unknown): string {
+    return format === undefined || format === null ? type : `${type} as ${format}`;
+}
+
+function structLayout(name: string, types: AbiTypes): StructLayout | undefined {
+    const type = types.find((t) => t.name === name);
+    return type && { name, fields: type.fields.map((field) => storageField(field.name, field.type, types)) };
+}
+
+function storageField(name: string, ref: ABITypeRef, types: AbiTypes): StorageField {
+    if (ref.kind === 'dict') {
+        const struct = structLayout(ref.value, types);
+        return {
+            name,
+            type: 'dict',
+            of: `${withFormat(ref.key, ref.keyFormat)} -> ${withFormat(ref.value, ref.valueFormat)}`,
+            ...(struct ? { struct } : {})
+        };
+    }
+    const optional = ref.optional ? { optional: true } : {};
+    switch (ref.type) {
+        case 'int':
+        case 'uint':
+            if (ref.format === 'coins') {
+                return { name, type: 'coins', ...optional };
+            }
+            return typeof ref.format === 'string'
+                ? { name, type: ref.type, of: ref.format, ...optional }
+                : { name, type: ref.type, bits: Number(ref.format ?? 257), ...optional };
+        case 'address':
+        case 'bool':
+        case 'string':
+            return { name, type: ref.type, ...optional };
+        case 'cell':
+        case 'slice':
+        case 'builder':
+            return { name, type: 'ref', ...optional };
+        default: {
+            const struct = structLayout(ref.type, types);
+            return { name, type: 'struct', of: ref.type, ...optional, ...(struct ? { struct } : {}) };
+        }
+    }
+}
+
+/**
+ * Storage layout of a Tact contract, read from the `<Contract>$Data` type
+ * in its compiled ABI. Structs, held directly or as dict values, are
+ * expanded from the ABI's types so their fields are compared too.
+ */
+export function storageLayoutFromAbi(abi: ContractABI): StorageLayout {
+    const types = abi.types ?? [];
+    const data = types.find((type) => type.name.endsWith('$Data'));
+    if (!data) {
+        throw new Error('ABI declares no contract storage type');
+    }
+    return data.fields.map((field) => storageField(field.name, field.type, types));
+}
+
+// Storage of TonIdentity as compiled. Tact puts the ABI on wrapper instances
+// only; the address is irrelevant.
+export const TON_IDENTITY_STORAGE_V1: StorageLayout =
+    storageLayoutFromAbi(TactTonIdentity.fromAddress(new Address(0, Buffer.alloc(32))).abi);
+
+// `struct` names the struct a nested field belongs to; top-level storage
+// fields have none
+export type StorageFieldChange = (
+    | { kind: 'added'; index: number; field: StorageField }
+    | { kind: 'removed'; index: number; field: StorageField }
+    | { kind: 'retyped'; index: number; from: StorageField; to: StorageField }
+    | { kind: 'renamed'; index: number; from: StorageField; to: StorageField }
+) & { struct?: string };
+
+export type StorageLayoutDiff = {
+    compatible: boolean;
+    changes: StorageFieldChange[];
+}
+
+function sameEncoding(a: StorageField, b: StorageField): boolean {
+    return a.type === b.type && (a.bits ?? 0) === (b.bits ?? 0) && a.of === b.of && !a.optional === !b.optional;
+}
+
+/**
+ * Compares two storage layouts field by field. Storage survives a code
+ * upgrade untouched, so the new code must parse every existing field at the
+ * same position with the same encoding. Renames are harmless; fields may
+ * only be added at the end of storage. Structs are compared the same way,
+ * once per struct, except that no field may be added to one: entries
+ * already stored would lack it. Anything else makes the diff incompatible.
+ */
+export function diffStorageLayouts(from: StorageLayout, to: StorageLayout): StorageLayoutDiff {
+    const changes: StorageFieldChange[] = [];
+    const compatible = diffFields(from, to, undefined, changes, new Set());
+    return { compatible, changes };
+}
+
+function diffFields(
+    from: StorageLayout,
+    to: StorageLayout,
+    struct: string | undefined,
+    changes: StorageFieldChange[],
+    compared: Set<string>
+): boolean {
+    const within = struct === undefined ? {} : { struct };
+    let compatible = true;
+
+    for (let index = 0; index < Math.max(from.length, to.length); index++) {
+        const a = from[index];
+        const b = to[index];
+        if (a && !b) {
+            changes.push({ kind: 'removed', index, field: a, ...within });
+            compatible = false;
+        } else if (!a && b) {
+            changes.push({ kind: 'added', index, field: b, ...within });
+            compatible = compatible && struct === undefined;
+        } else if (!sameEncoding(a, b)) {
+            changes.push({ kind: 'retyped', index, from: a, to: b, ...within });
+            compatible = false;
+        } else {
+            if (a.name !== b.name) {
+                changes.push({ kind: 'renamed', index, from: a, to: b, ...within });
+            }
+            if (a.struct && b.struct && !compared.has(a.struct.name)) {
+                compared.add(a.struct.name);
+                compatible = diffFields(a.struct.fields, b.struct.fields, a.struct.name, changes, compared) && compatible;
+            }
+        }
+    }
+
+    return compatible;
+}
+
+export type ImplementationVersion = {
+    version: string;
+    code: Cell;
+    codeHash: string;          // hex
+    layout: StorageLayout;
+}
+
+export type UpgradeStep = {
+    identity: Address;
+    fromVersion: string;
+    fromCodeHash: string;
+}
+
+export type UpgradePlan = {
+    target: ImplementationVersion;
+    steps: UpgradeStep[];
+    upToDate: Address[];
+    updateFactory: boolean;    // factory still deploys an older implementation
+    diffs: Map<string, StorageLayoutDiff>;   // per source version
+}
+
+export type UpgradeResult = {
+    identity: Address;
+    upgraded: boolean;
+    error?: string;
+}
+
+/**
+ * Tracks TonIdentity implementation versions and moves deployed identities
+ * between them.
+ *
+ * `UpdateImplementation` on the factory only affects future deployments;
+ * each existing identity has to be sent `UpgradeCode` by one of its
+ * management keys. Where more than one approval is required, that only
+ * opens an execution request for the other keys to approve (see
+ * `TonIdentityExecutionWorkflow`). The manager finds which identities run which code,
+ * plans the upgrade and refuses it when a source version's storage layout
+ * cannot be read by the target.
+ */
+export class IdentityUpgradeManager {
+    private readonly versions = new Map<string, ImplementationVersion>();
+    private readonly byCodeHash = new Map<string, ImplementationVersion>();
+
+    constructor(
+        readonly openIdentity: (address: Address) => TonIdentityClient,
+        readonly factory?: TonIdentityFactoryClient
+    ) {}
+
+    recordVersion(version: string, code: Cell, layout: StorageLayout): ImplementationVersion {
+        const codeHash = code.hash().toString('hex');
+        const existing = this.byCodeHash.get(codeHash);
+        if (existing && existing.version !== version) {
+            throw new Error(`Code ${codeHash} is already recorded as version ${existing.version}`);
+        }
+        if (this.versions.has(version) && this.versions.get(version)!.codeHash !== codeHash) {
+            throw new Error(`Version ${version} is already recorded with different code`);
+        }
+        const entry = { version, code, codeHash, layout };
+        this.versions.set(version, entry);
+        this.byCodeHash.set(codeHash, entry);
+        return entry;
+    }
+
+    getVersion(version: string): ImplementationVersion | undefined {
+        return this.versions.get(version);
+    }
+
+    versionOf(codeHash: string): ImplementationVersion | undefined {
+        return this.byCodeHash.get(codeHash);
+    }
+
+    /**
+     * Groups identities by the hash of the code they run. Accounts that are
+     * not active are grouped under `'inactive'`.
+     */
+    async listByCodeHash(identities: Address[]): Promise<Map<string, Address[]>> {
+        const groups = new Map<string, Address[]>();
+        for (const address of identities) {
+            const hash = await this.openIdentity(address).getCodeHash();
+            const key = hash ? hash.toString('hex') : 'inactive';
+            groups.set(key, [...(groups.get(key) ?? []), address]);
+        }
+        return groups;
+    }
+
+    /**
+     * Builds the plan for moving `identities` to `targetVersion`. Throws when
+     * an identity runs unrecorded code or when any source layout is
+     * incompatible with the target, so a bad plan never reaches `execute`.
+     */
+    async planUpgrade(identities: Address[], targetVersion: string): Promise<UpgradePlan> {
+        const target = this.versions.get(targetVersion);
+        if (!target) {
+            throw new Error(`Unknown implementation version ${targetVersion}`);
+        }
+
+        const steps: UpgradeStep[] = [];
+        const upToDate: Address[] = [];
+        const diffs = new Map<string, StorageLayoutDiff>();
+
+        for (const [codeHash, addresses] of await this.listByCodeHash(identities)) {
+            if (codeHash === target.codeHash) {
+                upToDate.push(...addresses);
+                continue;
+            }
+            const source = this.byCodeHash.get(codeHash);
+            if (!source) {
+                throw new Error(`Identities ${addresses.join(', ')} run unrecorded code ${codeHash}`);
+            }
+            const diff = diffStorageLayouts(source.layout, target.layout);
+            if (!diff.compatible) {
+                const reasons = diff.changes
+                    .filter((c) => c.kind === 'removed' || c.kind === 'retyped' || (c.kind === 'added' && c.struct))
+                    .map((c) => `${c.kind} field #${c.index}${c.struct ? ` of ${c.struct}` : ''}`)
+                    .join(', ');
+                throw new Error(`Refusing upgrade ${source.version} -> ${target.version}: incompatible storage (${reasons})`);
+            }
+            diffs.set(source.version, diff);
+            steps.push(...addresses.map((identity) => ({ identity, fromVersion: source.version, fromCodeHash: codeHash })));
+        }
+
+        let updateFactory = false;
+        if (this.factory) {
+            const info = await this.factory.getGetImplementationInfo();
+            updateFactory = info.implementation.hash().toString('hex') !== target.codeHash;
+        }
+
+        return { target, steps, upToDate, updateFactory, diffs };
+    }
+
+    /**
+     * Sends `UpgradeCode` for every step, then `UpdateImplementation` to the
+     * factory if the plan asks for it. `senderFor` returns a management-key
+     * sender for each identity. Per-identity failures are reported, not
+     * thrown, so one unreachable key does not stop the rollout; identities
+     * still waiting for approvals come back as not upgraded.
+     */
+    async execute(
+        plan: UpgradePlan,
+        senderFor: (identity: Address) => Sender,
+        opts: { value?: bigint; factorySender?: Sender; pollIntervalMs?: number; timeoutMs?: number } = {}
+    ): Promise<UpgradeResult[]> {
+        const value = opts.value ?? toNano('0.05');
+        const pollIntervalMs = opts.pollIntervalMs ?? 3000;
+        const timeoutMs = opts.timeoutMs ?? 60000;
+        const results: UpgradeResult[] = [];
+
+        for (const step of plan.steps) {
+            const identity = this.openIdentity(step.identity);
+            try {
+                await identity.sendUpgradeCode(senderFor(step.identity), {
+                    value,
+                    code: plan.target.code,
+                    version: plan.target.version
+                });
+                const deadline = Date.now() + timeoutMs;
+                let upgraded = false;
+                for (;;) {
+                    const hash = await identity.getCodeHash();
+                    upgraded = hash !== null && hash.toString('hex') === plan.target.codeHash;
+                    if (upgraded || Date.now() >= deadline) {
+                        break;
+                    }
+                    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+                }
+                results.push(upgraded
+                    ? { identity: step.identity, upgraded }
+                    : { identity: step.identity, upgraded, error: 'Code hash unchanged after UpgradeCode' });
+            } catch (e) {
+                results.push({ identity: step.identity, upgraded: false, error: e instanceof Error ? e.message : String(e) });
+            }
+        }
+
+        if (plan.updateFactory) {
+            if (!this.factory || !opts.factorySender) {
+                throw new Error('Plan updates the factory implementation but no factory sender was given');
+            }
+            await this.factory.sendUpdateImplementation(opts.factorySender, {
+                value,
+                newImplementation: plan.target.code,
+                version: plan.target.version
+            });
+        }
+
+        return results;
+    }
+}
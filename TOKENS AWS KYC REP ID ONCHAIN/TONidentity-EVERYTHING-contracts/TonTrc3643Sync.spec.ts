@@ -0,0 +1,152 @@
+import { Blockchain, SandboxContract, TreasuryContract } from '@ton/sandbox';
+import { Address, toNano } from '@ton/core';
+import { TonIdentityIntegration } from '../wrappers/TonIdentityIntegration';
+import { TonIdentityFactory } from '../wrappers/TonIdentityFactory';
+import { SyncCandidate, Trc3643Registry, Trc3643SyncService } from '../wrappers/TonTrc3643Sync';
+import '@ton/test-utils';
+import { compile } from '@ton/blueprint';
+
+describe('Trc3643SyncService', () => {
+    let blockchain: Blockchain;
+    let deployer: SandboxContract<TreasuryContract>;
+    let integration: SandboxContract<TonIdentityIntegration>;
+    let candidates: SyncCandidate[];
+
+    const fastPolling = { pollIntervalMs: 0, timeoutMs: 0 };
+
+    // TRC3643 registry contents, user -> identity
+    function memoryRegistry(entries: [Address, Address][]): Trc3643Registry {
+        const byUser = new Map(entries.map(([user, identity]) => [user.toRawString(), identity]));
+        return {
+            identityOf: async (user) => byUser.get(user.toRawString()) ?? null,
+            users: async () => entries.map(([user]) => user),
+        };
+    }
+
+    beforeEach(async () => {
+        blockchain = await Blockchain.create();
+
+        deployer = await blockchain.treasury('deployer');
+        const registry = await blockchain.treasury('registry');
+        const gateway = await blockchain.treasury('gateway');
+
+        integration = blockchain.openContract(
+            await TonIdentityIntegration.fromInit(deployer.address, registry.address, gateway.address)
+        );
+
+        await integration.sendDeploy(deployer.getSender(), toNano('0.05'));
+
+        candidates = [];
+        for (let i = 0; i < 5; i++) {
+            candidates.push({
+                user: (await blockchain.treasury(`user-${i}`)).address,
+                identity: (await blockchain.treasury(`identity-${i}`)).address,
+                country: 840n
+            });
+        }
+    });
+
+    describe('Sync', () => {
+        it('should submit unsynced identities in batches', async () => {
+            const batches: number[] = [];
+            const service = new Trc3643SyncService(integration, {
+                ...fastPolling,
+                batchSize: 2,
+                onBatch: (batch) => batches.push(batch.length)
+            });
+
+            const report = await service.sync(deployer.getSender(), candidates);
+
+            expect(batches).toEqual([2, 2, 1]);
+            expect(report.confirmed).toHaveLength(5);
+            expect(report.failed).toEqual([]);
+            expect(await service.findUnsynced(candidates)).toEqual([]);
+        });
+
+        it('should skip identities that are already synced', async () => {
+            await integration.sendSyncIdentityWithTRC3643(
+                deployer.getSender(),
+                {
+                    value: toNano('0.05'),
+                    ...candidates[0]
+                }
+            );
+
+            const service = new Trc3643SyncService(integration, fastPolling);
+            const report = await service.sync(deployer.getSender(), candidates);
+
+            expect(report.skipped).toEqual([candidates[0].user]);
+            expect(report.confirmed).toHaveLength(4);
+        });
+
+        it('should fail batches the integration rejects', async () => {
+            const outsider = await blockchain.treasury('outsider');
+            const service = new Trc3643SyncService(integration, fastPolling);
+
+            const report = await service.sync(outsider.getSender(), candidates.slice(0, 2));
+
+            expect(report.confirmed).toEqual([]);
+            expect(report.failed.map((f) => f.error)).toEqual([
+                'Not confirmed by isIdentitySynced before timeout',
+                'Not confirmed by isIdentitySynced before timeout',
+            ]);
+        });
+
+        it('should refuse to sync while sync is disabled', async () => {
+            await integration.sendToggleSync(deployer.getSender(), toNano('0.05'));
+
+            const service = new Trc3643SyncService(integration, fastPolling);
+            await expect(service.sync(deployer.getSender(), candidates)).rejects.toThrow('Sync is disabled');
+        });
+
+        it('should build candidates from factory identities', async () => {
+            const factory = blockchain.openContract(
+                await TonIdentityFactory.fromInit(await compile('TonIdentity'), '1.0.0', toNano('0.05'))
+            );
+            await factory.sendDeploy(deployer.getSender(), toNano('0.05'));
+
+            const owner = await blockchain.treasury('owner');
+            await factory.sendDeployIdentity(owner.getSender(), { value: toNano('1'), managementKey: owner.address, salt: 1n });
+
+            const found = await Trc3643SyncService.candidatesFromFactory(factory, [
+                { user: owner.address, country: 840n },
+                { user: candidates[0].user, country: 840n },
+            ]);
+
+            expect(found).toHaveLength(1);
+            expect(found[0].identity.equals((await factory.getGetIdentityByOwner(owner.address))!.identity)).toBe(true);
+        });
+    });
+
+    describe('Drift', () => {
+        it('should report every kind of drift', async () => {
+            const stranger = await blockchain.treasury('stranger');
+            const service = new Trc3643SyncService(integration, {
+                ...fastPolling,
+                registry: memoryRegistry([
+                    [candidates[0].user, candidates[0].identity],
+                    [candidates[2].user, candidates[3].identity],
+                    [stranger.address, stranger.address],
+                ])
+            });
+            await service.sync(deployer.getSender(), candidates.slice(0, 2));
+
+            const drift = await service.reportDrift(candidates.slice(0, 3));
+
+            expect(drift.map((d) => [d.user.toRawString(), d.kind])).toEqual([
+                [candidates[1].user.toRawString(), 'missing-in-registry'],
+                [candidates[2].user.toRawString(), 'not-synced'],
+                [candidates[2].user.toRawString(), 'identity-mismatch'],
+                [stranger.address.toRawString(), 'unknown-to-jump-id'],
+            ]);
+        });
+
+        it('should only report unsynced identities without a registry', async () => {
+            const service = new Trc3643SyncService(integration, fastPolling);
+
+            const drift = await service.reportDrift(candidates);
+
+            expect(drift.map((d) => d.kind)).toEqual(Array(5).fill('not-synced'));
+        });
+    });
+});
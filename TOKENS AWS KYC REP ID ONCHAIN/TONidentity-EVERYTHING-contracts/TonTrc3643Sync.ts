@@ -0,0 +1,188 @@
+import { Address, Sender, toNano } from '@ton/core';
+import { TonIdentityFactoryClient } from './TonIdentityFactory';
+import { TonIdentityIntegrationClient } from './TonIdentityIntegration';
+
+export type SyncCandidate = {
+    user: Address;
+    identity: Address;         // the user's Jump_ID identity contract
+    country: bigint;           // ISO 3166-1 numeric code
+}
+
+// Read side of the TRC3643 IdentityRegistry, whichever way it is reached
+export type Trc3643Registry = {
+    identityOf(user: Address): Promise<Address | null>;
+    users?(): Promise<Address[]>;          // enables 'unknown-to-jump-id' drift
+}
+
+export type DriftKind =
+    | 'not-synced'             // has a Jump_ID identity, integration has not synced it
+    | 'missing-in-registry'    // integration says synced, registry has no identity
+    | 'identity-mismatch'      // registry holds a different identity
+    | 'unknown-to-jump-id';    // registry user without a Jump_ID identity
+
+export type DriftEntry = {
+    user: Address;
+    kind: DriftKind;
+    jumpIdIdentity?: Address;
+    registryIdentity?: Address | null;
+}
+
+export type SyncReport = {
+    skipped: Address[];        // already synced
+    confirmed: Address[];
+    failed: { user: Address; error: string }[];
+}
+
+export type Trc3643SyncOptions = {
+    registry?: Trc3643Registry;
+    batchSize?: number;                    // entries per BatchSyncIdentities
+    baseValue?: bigint;                    // per message
+    valuePerEntry?: bigint;                // added per entry in the batch
+    pollIntervalMs?: number;
+    timeoutMs?: number;                    // per batch confirmation
+    onBatch?: (batch: SyncCandidate[], confirmed: Address[]) => void;
+}
+
+/**
+ * Keeps the TRC3643 side of TonIdentityIntegration in step with Jump_ID
+ * identities.
+ *
+ * Candidates not yet marked synced on the integration contract are sent in
+ * `BatchSyncIdentities` messages of `batchSize` entries and confirmed
+ * through `isIdentitySynced`. The contract checks every entry and rejects
+ * the whole batch if one fails, so an unconfirmed batch fails all of its
+ * entries. `reportDrift` compares the integration's view with the TRC3643
+ * registry when one is given.
+ */
+export class Trc3643SyncService {
+    private readonly batchSize: number;
+    private readonly baseValue: bigint;
+    private readonly valuePerEntry: bigint;
+    private readonly pollIntervalMs: number;
+    private readonly timeoutMs: number;
+
+    constructor(readonly integration: TonIdentityIntegrationClient, readonly opts: Trc3643SyncOptions = {}) {
+        this.batchSize = opts.batchSize ?? 16;
+        this.baseValue = opts.baseValue ?? toNano('0.05');
+        this.valuePerEntry = opts.valuePerEntry ?? toNano('0.02');
+        this.pollIntervalMs = opts.pollIntervalMs ?? 3000;
+        this.timeoutMs = opts.timeoutMs ?? 60000;
+    }
+
+    /**
+     * Builds candidates from the identities a TonIdentityFactory deployed.
+     * Users without an identity are left out.
+     */
+    static async candidatesFromFactory(
+        factory: TonIdentityFactoryClient,
+        users: { user: Address; country: bigint }[]
+    ): Promise<SyncCandidate[]> {
+        const candidates: SyncCandidate[] = [];
+        for (const { user, country } of users) {
+            const entry = await factory.getGetIdentityByOwner(user);
+            if (entry) {
+                candidates.push({ user, identity: entry.identity, country });
+            }
+        }
+        return candidates;
+    }
+
+    async findUnsynced(candidates: SyncCandidate[]): Promise<SyncCandidate[]> {
+        const unsynced: SyncCandidate[] = [];
+        for (const candidate of candidates) {
+            if (!(await this.integration.getIsIdentitySynced(candidate.user))) {
+                unsynced.push(candidate);
+            }
+        }
+        return unsynced;
+    }
+
+    async sync(via: Sender, candidates: SyncCandidate[]): Promise<SyncReport> {
+        const { syncEnabled } = await this.integration.getGetIntegrationStatus();
+        if (!syncEnabled) {
+            throw new Error('Sync is disabled on the integration contract');
+        }
+
+        const unsynced = await this.findUnsynced(candidates);
+        const report: SyncReport = {
+            skipped: candidates.filter((c) => !unsynced.includes(c)).map((c) => c.user),
+            confirmed: [],
+            failed: []
+        };
+
+        for (let i = 0; i < unsynced.length; i += this.batchSize) {
+            const batch = unsynced.slice(i, i + this.batchSize);
+            try {
+                await this.integration.sendBatchSyncIdentities(via, {
+                    value: this.baseValue + this.valuePerEntry * BigInt(batch.length),
+                    entries: batch
+                });
+            } catch (e) {
+                const error = e instanceof Error ? e.message : String(e);
+                report.failed.push(...batch.map((c) => ({ user: c.user, error })));
+                continue;
+            }
+
+            const confirmed = await this.confirm(batch);
+            report.confirmed.push(...confirmed);
+            report.failed.push(...batch
+                .filter((c) => !confirmed.includes(c.user))
+                .map((c) => ({ user: c.user, error: 'Not confirmed by isIdentitySynced before timeout' })));
+            this.opts.onBatch?.(batch, confirmed);
+        }
+
+        return report;
+    }
+
+    async reportDrift(candidates: SyncCandidate[]): Promise<DriftEntry[]> {
+        const registry = this.opts.registry;
+        const drift: DriftEntry[] = [];
+
+        for (const { user, identity } of candidates) {
+            const synced = await this.integration.getIsIdentitySynced(user);
+            if (!synced) {
+                drift.push({ user, kind: 'not-synced', jumpIdIdentity: identity });
+            }
+            if (!registry) {
+                continue;
+            }
+            const registryIdentity = await registry.identityOf(user);
+            if (registryIdentity === null) {
+                if (synced) {
+                    drift.push({ user, kind: 'missing-in-registry', jumpIdIdentity: identity, registryIdentity });
+                }
+            } else if (!registryIdentity.equals(identity)) {
+                drift.push({ user, kind: 'identity-mismatch', jumpIdIdentity: identity, registryIdentity });
+            }
+        }
+
+        if (registry?.users) {
+            for (const user of await registry.users()) {
+                if (!candidates.some((c) => c.user.equals(user))) {
+                    drift.push({ user, kind: 'unknown-to-jump-id', registryIdentity: await registry.identityOf(user) });
+                }
+            }
+        }
+
+        return drift;
+    }
+
+    // Users in `batch` that isIdentitySynced confirms before the timeout
+    private async confirm(batch: SyncCandidate[]): Promise<Address[]> {
+        const deadline = Date.now() + this.timeoutMs;
+        const confirmed: Address[] = [];
+        let waiting = batch;
+        for (;;) {
+            for (const candidate of waiting) {
+                if (await this.integration.getIsIdentitySynced(candidate.user)) {
+                    confirmed.push(candidate.user);
+                }
+            }
+            waiting = waiting.filter((c) => !confirmed.includes(c.user));
+            if (waiting.length === 0 || Date.now() >= deadline) {
+                return confirmed;
+            }
+            await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+        }
+    }
+}
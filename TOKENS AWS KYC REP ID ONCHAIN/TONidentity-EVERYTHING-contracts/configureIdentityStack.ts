@@ -0,0 +1,56 @@
+import { Address } from '@ton/core';
+import { promises as fs } from 'fs';
+import { TonClaimIssuer } from '../wrappers/TonClaimIssuer';
+import { TonIdentityFactory } from '../wrappers/TonIdentityFactory';
+import { TonIdentityGateway } from '../wrappers/TonIdentityGateway';
+import {
+    configurationRecord,
+    configureIdentityStack,
+    IdentityStackContracts,
+    manifestReferences,
+    parseStackSettings,
+    resolveStackSettings,
+    verifyIdentityStack
+} from '../wrappers/TonIdentityConfiguration';
+import { defaultManifestPath, loadDeploymentManifest, saveDeploymentManifest } from '../wrappers/TonIdentityDeployment';
+import { NetworkProvider } from '@ton/blueprint';
+
+// Usage: configureIdentityStack [settings.json] [--verify]
+// Settings default to deployments/<network>.settings.json; --verify only reads back.
+export async function run(provider: NetworkProvider, args: string[]) {
+    const verifyOnly = args.includes('--verify');
+    const settingsPath = args.find((a) => !a.startsWith('--')) ?? `deployments/${provider.network()}.settings.json`;
+    const manifestPath = defaultManifestPath(provider.network());
+
+    const manifest = await loadDeploymentManifest(manifestPath);
+    if (!manifest) {
+        throw new Error(`No deployment manifest at ${manifestPath}; run deployIdentityStack first`);
+    }
+    const source = await fs.readFile(settingsPath, 'utf-8');
+    const settings = resolveStackSettings(parseStackSettings(source), manifestReferences(manifest));
+
+    const { TonIdentityGateway: gateway, TonIdentityFactory: factory, TonClaimIssuer: claimIssuer } = manifest.contracts;
+    const contracts: IdentityStackContracts = {
+        gateway: gateway && provider.open(TonIdentityGateway.createFromAddress(Address.parse(gateway.address))),
+        factory: factory && provider.open(TonIdentityFactory.createFromAddress(Address.parse(factory.address))),
+        claimIssuer: claimIssuer && provider.open(TonClaimIssuer.createFromAddress(Address.parse(claimIssuer.address))),
+    };
+
+    if (verifyOnly) {
+        const checks = await verifyIdentityStack(contracts, settings);
+        console.log(`All ${checks.length} settings verified against ${settingsPath}`);
+        return;
+    }
+
+    const via = provider.sender();
+    const wallet = provider.provider(via.address!);
+    const report = await configureIdentityStack(contracts, via, settings, {
+        getSeqno: async () => (await wallet.get('seqno', [])).stack.readNumber()
+    });
+    manifest.configuration = configurationRecord(source, report);
+    manifest.updatedAt = manifest.configuration.verifiedAt;
+    await saveDeploymentManifest(manifestPath, manifest);
+
+    console.log('Applied:', report.applied);
+    console.log(`All ${report.checks.length} settings verified; recorded in ${manifestPath}`);
+}
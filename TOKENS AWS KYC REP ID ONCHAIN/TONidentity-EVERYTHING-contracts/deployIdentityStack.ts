@@ -0,0 +1,27 @@
+import { Address } from '@ton/core';
+import { deployIdentityStack, DeployableContract } from '../wrappers/TonIdentityDeployment';
+import { compile, NetworkProvider } from '@ton/blueprint';
+
+// Usage: deployIdentityStack [trc3643Registry] [issuerName] [issuerType]
+export async function run(provider: NetworkProvider, args: string[]) {
+    const ui = provider.ui();
+    const trc3643Registry = args.length > 0
+        ? Address.parse(args[0])
+        : await ui.inputAddress('TRC3643 identity registry address:');
+
+    const { manifest, steps } = await deployIdentityStack({
+        network: provider.network(),
+        deployer: provider.sender().address!,
+        compile,
+        isDeployed: (address) => provider.isContractDeployed(address),
+        getOwner: async (address) => (await provider.provider(address).get('owner', [])).stack.readAddress(),
+        deploy: async (contract: DeployableContract, value) => {
+            await provider.open(contract).sendDeploy(provider.sender(), value);
+            await provider.waitForDeploy(contract.address);
+        },
+        log: (message) => ui.write(message)
+    }, { trc3643Registry, issuerName: args[1], issuerType: args[2] });
+
+    console.log('Identity stack:', steps.map((s) => `${s.name} ${s.status} at ${s.address}`));
+    console.log('Manifest:', manifest);
+}
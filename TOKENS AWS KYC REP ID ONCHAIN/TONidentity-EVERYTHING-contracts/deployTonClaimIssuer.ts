@@ -1,26 +1,23 @@
 import { toNano } from '@ton/core';
 import { TonClaimIssuer } from '../wrappers/TonClaimIssuer';
+import { recordDeployment } from '../wrappers/TonIdentityDeployment';
 import { NetworkProvider } from '@ton/blueprint';
 
-export async function run(provider: NetworkProvider) {
-    const tonClaimIssuer = provider.open(await TonClaimIssuer.fromInit(provider.sender().address!));
+// Usage: deployTonClaimIssuer [issuerName] [issuerType]
+export async function run(provider: NetworkProvider, args: string[]) {
+    const ui = provider.ui();
+    const issuerName = args[0] ?? await ui.input('Issuer name:');
+    const issuerType = args[1] ?? await ui.input('Issuer type (KYC, AML, ACCREDITATION, ...):');
 
-    await tonClaimIssuer.send(
-        provider.sender(),
-        {
-            value: toNano('0.05'),
-        },
-        {
-            $$type: 'Deploy',
-            queryId: 0n,
-        }
-    );
+    const tonClaimIssuer = provider.open(await TonClaimIssuer.fromInit(issuerName, issuerType));
+
+    await tonClaimIssuer.sendDeploy(provider.sender(), toNano('0.05'));
 
     await provider.waitForDeploy(tonClaimIssuer.address);
 
     console.log('TonClaimIssuer deployed at:', tonClaimIssuer.address);
-    
-    // The deployer is automatically added as a trusted issuer in the constructor
-    console.log('Deployer automatically set as trusted issuer');
-}
+    await recordDeployment(provider.network(), provider.sender().address!, 'TonClaimIssuer', tonClaimIssuer);
 
+    // The deployer becomes the owner and a trusted signer in init
+    console.log('Issuer info:', await tonClaimIssuer.getGetIssuerInfo());
+}
@@ -1,38 +1,29 @@
-import { toNano, Address } from '@ton/core';
+import { toNano } from '@ton/core';
 import { TonIdentityFactory } from '../wrappers/TonIdentityFactory';
-import { NetworkProvider } from '@ton/blueprint';
+import { recordDeployment } from '../wrappers/TonIdentityDeployment';
+import { compile, NetworkProvider } from '@ton/blueprint';
 
 export async function run(provider: NetworkProvider) {
-    // For now, we'll use a placeholder implementation address
-    // In a real deployment, this would be the address of the deployed TonIdentity implementation
-    const implementationAddress = Address.parse('EQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAM9c');
-    
+    // The factory deploys identities from this code, so it must be the compiled TonIdentity
+    const identityCode = await compile('TonIdentity');
+
     const tonIdentityFactory = provider.open(
-        await TonIdentityFactory.fromInit(provider.sender().address!, implementationAddress)
+        await TonIdentityFactory.fromInit(identityCode, '1.0.0', toNano('0.05'))
     );
 
-    await tonIdentityFactory.send(
-        provider.sender(),
-        {
-            value: toNano('0.05'),
-        },
-        {
-            $$type: 'Deploy',
-            queryId: 0n,
-        }
-    );
+    await tonIdentityFactory.sendDeploy(provider.sender(), toNano('0.05'));
 
     await provider.waitForDeploy(tonIdentityFactory.address);
 
     console.log('TonIdentityFactory deployed at:', tonIdentityFactory.address);
-    console.log('Implementation address set to:', implementationAddress);
-    
+    await recordDeployment(provider.network(), provider.sender().address!, 'TonIdentityFactory', tonIdentityFactory);
+
     // Get initial factory stats
-    const stats = await tonIdentityFactory.getFactoryStats();
+    const stats = await tonIdentityFactory.getGetFactoryStats();
     console.log('Factory stats:', {
-        totalIdentities: stats.totalIdentities,
+        totalDeployed: stats.totalDeployed,
         currentVersion: stats.currentVersion,
-        implementation: stats.implementation
+        deploymentFee: stats.deploymentFee,
+        owner: stats.owner
     });
 }
-
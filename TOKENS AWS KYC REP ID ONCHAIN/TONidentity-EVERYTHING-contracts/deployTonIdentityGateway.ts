@@ -1,47 +1,32 @@
 import { toNano, Address } from '@ton/core';
 import { TonIdentityGateway } from '../wrappers/TonIdentityGateway';
+import { defaultManifestPath, loadDeploymentManifest, recordDeployment } from '../wrappers/TonIdentityDeployment';
 import { NetworkProvider } from '@ton/blueprint';
 
 export async function run(provider: NetworkProvider) {
-    // These would be the addresses of previously deployed contracts
-    // For now, using placeholder addresses
-    const claimIssuerAddress = Address.parse('EQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAM9c');
-    const identityFactoryAddress = Address.parse('EQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAM9c');
-    
+    // The factory recorded by deployTonIdentityFactory or deployIdentityStack on this network
+    const manifest = await loadDeploymentManifest(defaultManifestPath(provider.network()));
+    const factory = manifest?.contracts.TonIdentityFactory;
+    if (!factory) {
+        throw new Error(`No TonIdentityFactory in ${defaultManifestPath(provider.network())}; deploy the factory first`);
+    }
+    const identityFactoryAddress = Address.parse(factory.address);
+
     const tonIdentityGateway = provider.open(
-        await TonIdentityGateway.fromInit(
-            provider.sender().address!,
-            claimIssuerAddress,
-            identityFactoryAddress
-        )
+        await TonIdentityGateway.fromInit(identityFactoryAddress)
     );
 
-    await tonIdentityGateway.send(
-        provider.sender(),
-        {
-            value: toNano('0.05'),
-        },
-        {
-            $$type: 'Deploy',
-            queryId: 0n,
-        }
-    );
+    await tonIdentityGateway.sendDeploy(provider.sender(), toNano('0.05'));
 
     await provider.waitForDeploy(tonIdentityGateway.address);
 
     console.log('TonIdentityGateway deployed at:', tonIdentityGateway.address);
-    
+    await recordDeployment(provider.network(), provider.sender().address!, 'TonIdentityGateway', tonIdentityGateway);
+
     // Get gateway configuration
-    const config = await tonIdentityGateway.getGatewayConfig();
     console.log('Gateway configuration:', {
-        claimIssuer: config.claimIssuer,
-        identityFactory: config.identityFactory,
-        identityRegistry: config.identityRegistry,
-        cacheExpiry: config.cacheExpiry
+        owner: await tonIdentityGateway.getOwner(),
+        identityFactory: identityFactoryAddress,
+        defaultRequiredClaims: await tonIdentityGateway.getGetDefaultRequiredClaims()
     });
-    
-    // Get required topics
-    const requiredTopics = await tonIdentityGateway.getRequiredTopics();
-    console.log('Required compliance topics configured');
 }
-
@@ -0,0 +1,80 @@
+// SPDX-License-Identifier: BUSL-1.1
+// License-Filename: LICENSE.md
+
+import { Address } from '@ton/ton';
+import { ReputationCalculator, ReputationMetrics } from '../services/ReputationCalculator';
+import { InMemoryReputationRepository, recordReputation } from '../services/ReputationRepository';
+import { compareScoringModels } from '../services/ModelComparison';
+import { resolveScoringModels } from '../services/ScoringModel';
+
+const user = (byte: string) => Address.parse('0:' + byte.repeat(32)).toString();
+const CLEAN = user('11');
+const VIOLATOR = user('22');
+const UNKNOWN = user('33');
+
+const metrics = (overrides: Partial<ReputationMetrics> = {}): ReputationMetrics => ({
+    transactionVolume: 1000000,
+    transactionFrequency: 5.2,
+    complianceScore: 85,
+    violationCount: 0,
+    stakingAmount: 500000000,
+    referralCount: 3,
+    platformAge: 120,
+    diversityScore: 75,
+    consistencyScore: 80,
+    communityEngagement: 60,
+    ...overrides
+});
+
+describe('compareScoringModels', () => {
+    it('should re-score stored metrics under both models without storing anything', async () => {
+        const repository = new InMemoryReputationRepository();
+        const current = new ReputationCalculator();
+        await recordReputation(repository, current, CLEAN, metrics(), 1);
+        await recordReputation(repository, current, VIOLATOR, metrics({ violationCount: 3 }), 1);
+
+        // Violations cost four times as much; users without any are unaffected
+        const [, model] = resolveScoringModels({
+            models: [{ name: 'strict', version: '2', penalties: { perViolation: 100 } }]
+        }).models;
+        const candidate = new ReputationCalculator(undefined, undefined, model);
+
+        const comparison = await compareScoringModels(repository, current, candidate, [CLEAN, VIOLATOR, UNKNOWN]);
+
+        const before = current.calculateReputationScore(VIOLATOR, metrics({ violationCount: 3 }));
+        const after = candidate.calculateReputationScore(VIOLATOR, metrics({ violationCount: 3 }));
+        expect(after.totalScore).toBe(before.totalScore - 3 * 75);
+
+        expect(comparison.currentModel).toBe('default@1.0.0');
+        expect(comparison.candidateModel).toBe('strict@2');
+        expect(comparison.missing).toEqual([UNKNOWN]);
+        expect(comparison.users.map(entry => [entry.userAddress, entry.scoreChange])).toEqual([
+            [CLEAN, 0],
+            [VIOLATOR, -225]
+        ]);
+        expect(comparison.users[1].current).toEqual({ totalScore: before.totalScore, level: before.level });
+        expect(comparison.summary).toMatchObject({ users: 2, averageChange: -112.5, largestIncrease: 0, largestDecrease: -225 });
+        expect(await repository.getScoreHistory(CLEAN)).toHaveLength(1);
+    });
+
+    it('should count level changes', async () => {
+        const repository = new InMemoryReputationRepository();
+        const current = new ReputationCalculator();
+        await recordReputation(repository, current, CLEAN, metrics(), 1);     // GOLD, about 554 points
+
+        const [, lower, higher] = resolveScoringModels({
+            models: [
+                { name: 'lower', version: '1', levelThresholds: { PLATINUM: 500, DIAMOND: 550 } },
+                { name: 'higher', version: '1', levelThresholds: { SILVER: 600, GOLD: 800, PLATINUM: 900, DIAMOND: 950 } }
+            ]
+        }).models;
+
+        const up = await compareScoringModels(repository, current, new ReputationCalculator(undefined, undefined, lower), [CLEAN]);
+        const down = await compareScoringModels(repository, current, new ReputationCalculator(undefined, undefined, higher), [CLEAN]);
+
+        expect(up.users[0]).toMatchObject({ levelChange: 'UP', current: { level: 'GOLD' }, candidate: { level: 'DIAMOND' }, scoreChange: 0 });
+        expect(up.summary).toMatchObject({ promoted: 1, demoted: 0 });
+        expect(down.users[0]).toMatchObject({ levelChange: 'DOWN', candidate: { level: 'BRONZE' } });
+        expect(down.summary).toMatchObject({ promoted: 0, demoted: 1 });
+    });
+});
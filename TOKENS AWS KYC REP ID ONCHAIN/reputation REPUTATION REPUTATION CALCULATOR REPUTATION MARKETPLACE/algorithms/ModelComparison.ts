@@ -0,0 +1,88 @@
+// SPDX-License-Identifier: BUSL-1.1
+// License-Filename: LICENSE.md
+
+import { ReputationCalculator } from './ReputationCalculator';
+import { ReputationRepository } from './ReputationRepository';
+import { REPUTATION_LEVELS } from './ScoringModel';
+
+// Scoring Model Comparison
+// Re-scores users from their stored metrics under the current and a
+// candidate model, without storing anything, to preview a model rollout
+
+export interface RescoredUser {
+    userAddress: string;
+    current: { totalScore: number; level: string };
+    candidate: { totalScore: number; level: string };
+    scoreChange: number;
+    levelChange: 'UP' | 'DOWN' | 'NONE';
+}
+
+export interface ModelComparison {
+    currentModel: string;
+    candidateModel: string;
+    users: RescoredUser[];
+    missing: string[];          // addresses without stored metrics
+    summary: {
+        users: number;
+        averageChange: number;
+        largestIncrease: number;
+        largestDecrease: number;
+        promoted: number;
+        demoted: number;
+    };
+}
+
+function levelRank(level: string): number {
+    return REPUTATION_LEVELS.indexOf(level as typeof REPUTATION_LEVELS[number]);
+}
+
+/**
+ * Score each address's latest metrics under both calculators. Both get the
+ * same stored history, so only the model differs.
+ */
+export async function compareScoringModels(
+    repository: ReputationRepository,
+    current: ReputationCalculator,
+    candidate: ReputationCalculator,
+    addresses: string[]
+): Promise<ModelComparison> {
+    const users: RescoredUser[] = [];
+    const missing: string[] = [];
+
+    for (const userAddress of addresses) {
+        const snapshot = await repository.getLatestMetrics(userAddress);
+        if (!snapshot) {
+            missing.push(userAddress);
+            continue;
+        }
+
+        const history = (await repository.getScoreHistory(userAddress, { limit: 10 })).map(entry => entry.score.totalScore);
+        const before = current.calculateReputationScore(userAddress, snapshot.metrics, history);
+        const after = candidate.calculateReputationScore(userAddress, snapshot.metrics, history);
+        const levelDelta = levelRank(after.level) - levelRank(before.level);
+
+        users.push({
+            userAddress,
+            current: { totalScore: before.totalScore, level: before.level },
+            candidate: { totalScore: after.totalScore, level: after.level },
+            scoreChange: Math.round((after.totalScore - before.totalScore) * 100) / 100,
+            levelChange: levelDelta > 0 ? 'UP' : levelDelta < 0 ? 'DOWN' : 'NONE'
+        });
+    }
+
+    const changes = users.map(user => user.scoreChange);
+    return {
+        currentModel: current.modelVersion,
+        candidateModel: candidate.modelVersion,
+        users,
+        missing,
+        summary: {
+            users: users.length,
+            averageChange: users.length === 0 ? 0 : Math.round(changes.reduce((sum, change) => sum + change, 0) / users.length * 100) / 100,
+            largestIncrease: Math.max(0, ...changes),
+            largestDecrease: Math.min(0, ...changes),
+            promoted: users.filter(user => user.levelChange === 'UP').length,
+            demoted: users.filter(user => user.levelChange === 'DOWN').length
+        }
+    };
+}
@@ -0,0 +1,193 @@
+// SPDX-License-Identifier: BUSL-1.1
+// License-Filename: LICENSE.md
+
+import { Address } from '@ton/ton';
+import { ReputationCalculator, ReputationMetrics, ReputationScore } from '../services/ReputationCalculator';
+import { ReputationHistory } from '../services/ReputationRepository';
+import {
+    pearsonCorrelation,
+    percentile,
+    ReputationAnalytics,
+    spearmanCorrelation
+} from '../services/ReputationAnalytics';
+
+const USER = Address.parse('0:' + '11'.repeat(32)).toString();
+const DAY = 86400000;
+
+const metrics = (overrides: Partial<ReputationMetrics> = {}): ReputationMetrics => ({
+    transactionVolume: 1000000,
+    transactionFrequency: 5.2,
+    complianceScore: 95,
+    violationCount: 0,
+    stakingAmount: 500000000,
+    referralCount: 3,
+    platformAge: 120,
+    diversityScore: 75,
+    consistencyScore: 80,
+    communityEngagement: 60,
+    ...overrides
+});
+
+const score = (totalScore: number, overrides: Partial<ReputationScore> = {}): ReputationScore => ({
+    baseScore: totalScore,
+    complianceScore: 0,
+    activityScore: 0,
+    totalScore,
+    level: new ReputationCalculator().getReputationLevel(totalScore),
+    percentile: 50,
+    trend: 'STABLE',
+    riskLevel: 'LOW',
+    ...overrides
+});
+
+const history = (points: [number, number][]): ReputationHistory => ({
+    userAddress: USER,
+    scores: points.map(([day, value]) => ({ timestamp: day * DAY, score: value, level: 'GOLD' })),
+    milestones: [],
+    violations: [],
+    achievements: []
+});
+
+describe('statistics', () => {
+    it('should interpolate percentiles between ranks', () => {
+        const sorted = [10, 20, 30, 40, 50];
+
+        expect(percentile(sorted, 0)).toBe(10);
+        expect(percentile(sorted, 50)).toBe(30);
+        expect(percentile(sorted, 90)).toBe(46);
+        expect(percentile(sorted, 100)).toBe(50);
+        expect(percentile([], 50)).toBe(0);
+    });
+
+    it('should compute Pearson correlation', () => {
+        expect(pearsonCorrelation([1, 2, 3, 4], [2, 4, 6, 8])).toBeCloseTo(1);
+        expect(pearsonCorrelation([1, 2, 3, 4], [8, 6, 4, 2])).toBeCloseTo(-1);
+        expect(pearsonCorrelation([1, 2, 3], [1, 3, 2])).toBeCloseTo(0.5);
+        expect(pearsonCorrelation([1, 2, 3], [5, 5, 5])).toBeNull();
+        expect(pearsonCorrelation([1], [1])).toBeNull();
+        expect(() => pearsonCorrelation([1, 2], [1])).toThrow();
+    });
+
+    it('should compute Spearman correlation over ranks with ties', () => {
+        // Monotonic but not linear
+        expect(spearmanCorrelation([1, 2, 3, 4, 5], [1, 4, 9, 16, 1000])).toBeCloseTo(1);
+        expect(pearsonCorrelation([1, 2, 3, 4, 5], [1, 4, 9, 16, 1000])!).toBeLessThan(0.8);
+
+        // Ranks [1.5, 1.5, 3, 4] against [1, 2, 3, 4]
+        expect(spearmanCorrelation([7, 7, 8, 9], [1, 2, 3, 4])).toBeCloseTo(0.9487, 4);
+    });
+});
+
+describe('ReputationAnalytics', () => {
+    const calculator = new ReputationCalculator();
+    const analytics = new ReputationAnalytics(calculator);
+
+    it('should report the next level and the components that help or hurt', () => {
+        const current = metrics({ stakingAmount: 0, referralCount: 0 });
+        const currentScore = calculator.calculateReputationScore(USER, current);
+        const breakdown = calculator.calculateScoreBreakdown(current);
+
+        const insights = analytics.generateUserInsights(USER, currentScore, current, breakdown, history([[1, 300], [2, 350]]));
+
+        const threshold = Object.values(calculator.getLevelThresholds()).filter(t => t > currentScore.totalScore).sort((a, b) => a - b)[0];
+        expect(insights.nextLevel?.pointsNeeded).toBe(Math.ceil(threshold - currentScore.totalScore));
+        expect(insights.strengths).toContain('Perfect compliance record');
+        expect(insights.strengths).toContain('Strong consistency bonus (40/50)');
+        expect(insights.weaknesses).toEqual(['Low staking bonus (0/100)', 'Low referrals bonus (0/75)']);
+        expect(insights.recommendations).toEqual(calculator.generateInsights(current, currentScore, breakdown));
+        expect(insights.scoreChange).toBe(Math.round(currentScore.totalScore - 300));
+    });
+
+    it('should have no next level at the top', () => {
+        const top = score(1000);
+        const insights = analytics.generateUserInsights(USER, top, metrics(), calculator.calculateScoreBreakdown(metrics()), history([]));
+
+        expect(insights.nextLevel).toBeNull();
+        expect(insights.scoreChange).toBe(0);
+    });
+
+    it('should extrapolate the score per day of history', () => {
+        // 5 points a day, sampled every other day
+        const points: [number, number][] = Array.from({ length: 10 }, (_, i) => [i * 2, 300 + i * 10]);
+
+        const predictions = analytics.generatePredictions(USER, score(390), metrics(), history(points));
+
+        expect(predictions.dailyChange).toBe(5);
+        expect(predictions.confidence).toBe('HIGH');
+        expect(predictions.predictions).toEqual([
+            { daysAhead: 7, predictedScore: 425, predictedLevel: 'GOLD' },
+            { daysAhead: 30, predictedScore: 540, predictedLevel: 'GOLD' },
+            { daysAhead: 90, predictedScore: 840, predictedLevel: 'PLATINUM' }
+        ]);
+    });
+
+    it('should not project growth with too little history or open violations', () => {
+        const rising = history([[0, 300], [1, 320], [2, 340]]);
+
+        expect(analytics.generatePredictions(USER, score(340), metrics(), history([[0, 300], [1, 320]])).dailyChange).toBe(0);
+        expect(analytics.generatePredictions(USER, score(340), metrics({ violationCount: 1 }), rising).dailyChange).toBe(0);
+        expect(analytics.generatePredictions(USER, score(340), metrics(), rising).confidence).toBe('MEDIUM');
+    });
+
+    it('should summarise the platform distribution', () => {
+        const scores = [100, 250, 450, 450, 750, 950].map((total, i) =>
+            score(total, { riskLevel: i < 2 ? 'HIGH' : 'LOW', trend: i % 2 ? 'INCREASING' : 'STABLE' }));
+
+        const stats = analytics.analyzePlatformStats(scores);
+
+        expect(stats.totalUsers).toBe(6);
+        expect(stats.averageScore).toBe(491.67);
+        expect(stats.medianScore).toBe(450);
+        expect(stats.percentiles.p25).toBe(300);
+        expect(stats.percentiles.p90).toBe(850);
+        expect(stats.levelDistribution).toEqual({
+            BRONZE: { count: 1, percentage: 16.67 },
+            SILVER: { count: 1, percentage: 16.67 },
+            GOLD: { count: 2, percentage: 33.33 },
+            PLATINUM: { count: 1, percentage: 16.67 },
+            DIAMOND: { count: 1, percentage: 16.67 }
+        });
+        expect(stats.riskDistribution).toEqual({ LOW: 4, MEDIUM: 0, HIGH: 2 });
+        expect(stats.trendDistribution).toEqual({ INCREASING: 3, STABLE: 3, DECREASING: 0 });
+    });
+
+    it('should compare each period with the one before', () => {
+        const trends = analytics.analyzeTrends([
+            { period: 'week 1', userScores: [score(200), score(400)] },
+            { period: 'week 2', userScores: [score(300), score(420), score(480)] },
+            { period: 'week 3', userScores: [] }
+        ]);
+
+        expect(trends[0]).toEqual({
+            period: 'week 1',
+            userCount: 2,
+            averageScore: 300,
+            medianScore: 300,
+            change: 0,
+            changePercent: 0,
+            levelDistribution: { BRONZE: 0, SILVER: 1, GOLD: 1, PLATINUM: 0, DIAMOND: 0 }
+        });
+        expect(trends[1].change).toBe(100);
+        expect(trends[1].changePercent).toBe(33.33);
+        expect(trends[2].userCount).toBe(0);
+    });
+
+    it('should rank metrics by how they track the total score', () => {
+        const samples = [1, 2, 3, 4, 5].map(i => ({
+            userAddress: USER,
+            metrics: metrics({ complianceScore: i * 10, violationCount: 5 - i, referralCount: i * i * i, platformAge: 30 }),
+            score: i * 100
+        }));
+
+        const correlations = analytics.calculateCorrelations(samples);
+        const byMetric = Object.fromEntries(correlations.map(c => [c.metric, c]));
+
+        expect(byMetric.complianceScore).toEqual({ metric: 'complianceScore', pearson: 1, spearman: 1, sampleSize: 5 });
+        expect(byMetric.violationCount.spearman).toBe(-1);
+        expect(byMetric.referralCount.spearman).toBe(1);
+        expect(byMetric.referralCount.pearson!).toBeLessThan(1);
+        expect(byMetric.platformAge.pearson).toBeNull();
+        expect(correlations[correlations.length - 1].spearman).toBeNull();
+        expect(analytics.calculateCorrelations([])).toEqual([]);
+    });
+});
@@ -0,0 +1,335 @@
+// SPDX-License-Identifier: BUSL-1.1
+// License-Filename: LICENSE.md
+
+import { ReputationCalculator, ReputationMetrics, ReputationScore, ScoreBreakdown } from './ReputationCalculator';
+import { ReputationHistory } from './ReputationRepository';
+import { BonusCaps } from './ScoringModel';
+
+// Reputation Analytics Service
+// User insights, score predictions and platform-wide statistics
+
+const DAY = 86400000;
+
+export interface ReputationInsights {
+    userAddress: string;
+    totalScore: number;
+    level: string;
+    percentile: number;
+    trend: ReputationScore['trend'];
+    riskLevel: ReputationScore['riskLevel'];
+    nextLevel: { level: string; pointsNeeded: number } | null;
+    strengths: string[];
+    weaknesses: string[];
+    recommendations: string[];
+    scoreChange: number;        // over the history given
+    milestones: ReputationHistory['milestones'];
+}
+
+export interface ReputationPredictions {
+    userAddress: string;
+    currentScore: number;
+    currentLevel: string;
+    dailyChange: number;        // fitted over the score history
+    confidence: 'LOW' | 'MEDIUM' | 'HIGH';
+    predictions: { daysAhead: number; predictedScore: number; predictedLevel: string }[];
+}
+
+export interface PlatformReputationStats {
+    totalUsers: number;
+    averageScore: number;
+    medianScore: number;
+    standardDeviation: number;
+    percentiles: { p10: number; p25: number; p50: number; p75: number; p90: number; p99: number };
+    levelDistribution: Record<string, { count: number; percentage: number }>;
+    riskDistribution: Record<ReputationScore['riskLevel'], number>;
+    trendDistribution: Record<ReputationScore['trend'], number>;
+}
+
+export interface ReputationTrend {
+    period: string;
+    userCount: number;
+    averageScore: number;
+    medianScore: number;
+    change: number;             // average score against the previous period
+    changePercent: number;
+    levelDistribution: Record<string, number>;
+}
+
+export interface MetricCorrelation {
+    metric: keyof ReputationMetrics;
+    pearson: number | null;     // null when either side is constant
+    spearman: number | null;
+    sampleSize: number;
+}
+
+// Bonus components by display name, with their cap in the scoring model
+const BONUSES: Record<string, { key: keyof ScoreBreakdown; cap: keyof BonusCaps }> = {
+    staking: { key: 'stakingBonus', cap: 'staking' },
+    referrals: { key: 'referralBonus', cap: 'referral' },
+    consistency: { key: 'consistencyBonus', cap: 'consistency' },
+    diversity: { key: 'diversityBonus', cap: 'diversity' },
+    'community engagement': { key: 'communityBonus', cap: 'community' }
+};
+
+const PREDICTION_HORIZONS = [7, 30, 90];
+
+function mean(values: number[]): number {
+    return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function round(value: number, digits: number = 2): number {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+}
+
+/**
+ * Value at percentile p (0-100) of an ascending list, interpolating
+ * linearly between the closest ranks
+ */
+export function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    const rank = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Pearson product-moment correlation; null for fewer than two pairs or when
+ * either series has no variance
+ */
+export function pearsonCorrelation(x: number[], y: number[]): number | null {
+    if (x.length !== y.length) throw new Error('Series must have the same length');
+    if (x.length < 2) return null;
+
+    const meanX = mean(x);
+    const meanY = mean(y);
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    for (let i = 0; i < x.length; i++) {
+        covariance += (x[i] - meanX) * (y[i] - meanY);
+        varianceX += (x[i] - meanX) ** 2;
+        varianceY += (y[i] - meanY) ** 2;
+    }
+    if (varianceX === 0 || varianceY === 0) return null;
+    return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * 1-based ranks; tied values share the average of their ranks
+ */
+function ranks(values: number[]): number[] {
+    const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+    const result = new Array<number>(values.length);
+    for (let start = 0; start < order.length;) {
+        let end = start;
+        while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+        const rank = (start + end) / 2 + 1;
+        for (let i = start; i <= end; i++) result[order[i].index] = rank;
+        start = end + 1;
+    }
+    return result;
+}
+
+/**
+ * Spearman rank correlation: Pearson over the ranks, which handles ties
+ */
+export function spearmanCorrelation(x: number[], y: number[]): number | null {
+    if (x.length !== y.length) throw new Error('Series must have the same length');
+    return pearsonCorrelation(ranks(x), ranks(y));
+}
+
+export class ReputationAnalytics {
+    constructor(private calculator: ReputationCalculator = new ReputationCalculator()) {}
+
+    /**
+     * Where the user stands, what helps and hurts their score, and what to
+     * do next
+     */
+    generateUserInsights(
+        userAddress: string,
+        score: ReputationScore,
+        metrics: ReputationMetrics,
+        breakdown: ScoreBreakdown,
+        history: ReputationHistory
+    ): ReputationInsights {
+        const strengths: string[] = [];
+        const weaknesses: string[] = [];
+        for (const [name, { key, cap }] of Object.entries(BONUSES)) {
+            const max = this.calculator.model.bonusCaps[cap];
+            if (max === 0) continue;
+            const share = breakdown[key] / max;
+            if (share >= 0.7) strengths.push(`Strong ${name} bonus (${Math.round(breakdown[key])}/${max})`);
+            else if (share < 0.3) weaknesses.push(`Low ${name} bonus (${Math.round(Math.max(0, breakdown[key]))}/${max})`);
+        }
+        if (metrics.violationCount === 0 && metrics.complianceScore > 90) {
+            strengths.unshift('Perfect compliance record');
+        }
+        if (breakdown.penalties > 0) {
+            weaknesses.unshift(`Penalties of ${breakdown.penalties} points`);
+        }
+
+        const first = history.scores[0];
+        return {
+            userAddress,
+            totalScore: score.totalScore,
+            level: score.level,
+            percentile: score.percentile,
+            trend: score.trend,
+            riskLevel: score.riskLevel,
+            nextLevel: this.nextLevel(score.totalScore),
+            strengths,
+            weaknesses,
+            recommendations: this.calculator.generateInsights(metrics, score, breakdown),
+            scoreChange: first ? Math.round(score.totalScore - first.score) : 0,
+            milestones: history.milestones
+        };
+    }
+
+    /**
+     * Extrapolate the score with a least-squares line over the history's
+     * timestamps. Confidence follows the number of points and the fit.
+     */
+    generatePredictions(
+        userAddress: string,
+        score: ReputationScore,
+        metrics: ReputationMetrics,
+        history: ReputationHistory
+    ): ReputationPredictions {
+        const days = history.scores.map(entry => entry.timestamp / DAY);
+        const values = history.scores.map(entry => entry.score);
+
+        let dailyChange = 0;
+        let confidence: ReputationPredictions['confidence'] = 'LOW';
+        const fit = history.scores.length >= 3 ? pearsonCorrelation(days, values) : null;
+        if (fit !== null) {
+            const meanDay = mean(days);
+            const meanValue = mean(values);
+            const numerator = days.reduce((sum, day, i) => sum + (day - meanDay) * (values[i] - meanValue), 0);
+            const denominator = days.reduce((sum, day) => sum + (day - meanDay) ** 2, 0);
+            dailyChange = numerator / denominator;
+
+            const rSquared = fit * fit;
+            if (history.scores.length >= 10 && rSquared >= 0.7) confidence = 'HIGH';
+            else if (rSquared >= 0.4) confidence = 'MEDIUM';
+        }
+
+        // Open violations keep pulling the score down, so do not project growth past them
+        if (metrics.violationCount > 0) dailyChange = Math.min(0, dailyChange);
+
+        return {
+            userAddress,
+            currentScore: score.totalScore,
+            currentLevel: score.level,
+            dailyChange: round(dailyChange),
+            confidence,
+            predictions: PREDICTION_HORIZONS.map(daysAhead => {
+                const predictedScore = Math.max(0, Math.min(1000, Math.round(score.totalScore + dailyChange * daysAhead)));
+                return { daysAhead, predictedScore, predictedLevel: this.calculator.getReputationLevel(predictedScore) };
+            })
+        };
+    }
+
+    /**
+     * Distribution of the current scores across the platform
+     */
+    analyzePlatformStats(scores: ReputationScore[]): PlatformReputationStats {
+        const totals = scores.map(score => score.totalScore).sort((a, b) => a - b);
+        const average = mean(totals);
+        const variance = mean(totals.map(total => (total - average) ** 2));
+
+        const levelDistribution: PlatformReputationStats['levelDistribution'] = {};
+        for (const [level, count] of Object.entries(this.countLevels(scores))) {
+            levelDistribution[level] = { count, percentage: scores.length === 0 ? 0 : round((count / scores.length) * 100) };
+        }
+
+        const riskDistribution = { LOW: 0, MEDIUM: 0, HIGH: 0 };
+        const trendDistribution = { INCREASING: 0, STABLE: 0, DECREASING: 0 };
+        for (const score of scores) {
+            riskDistribution[score.riskLevel]++;
+            trendDistribution[score.trend]++;
+        }
+
+        return {
+            totalUsers: scores.length,
+            averageScore: round(average),
+            medianScore: round(percentile(totals, 50)),
+            standardDeviation: round(Math.sqrt(variance)),
+            percentiles: {
+                p10: round(percentile(totals, 10)),
+                p25: round(percentile(totals, 25)),
+                p50: round(percentile(totals, 50)),
+                p75: round(percentile(totals, 75)),
+                p90: round(percentile(totals, 90)),
+                p99: round(percentile(totals, 99))
+            },
+            levelDistribution,
+            riskDistribution,
+            trendDistribution
+        };
+    }
+
+    /**
+     * Period-over-period change in the score distribution; periods are given
+     * oldest first
+     */
+    analyzeTrends(periods: { period: string; userScores: ReputationScore[] }[]): ReputationTrend[] {
+        let previous: number | null = null;
+        return periods.map(({ period, userScores }) => {
+            const totals = userScores.map(score => score.totalScore).sort((a, b) => a - b);
+            const average = mean(totals);
+            const change = previous === null ? 0 : average - previous;
+            const changePercent = previous ? (change / previous) * 100 : 0;
+            previous = average;
+
+            return {
+                period,
+                userCount: userScores.length,
+                averageScore: round(average),
+                medianScore: round(percentile(totals, 50)),
+                change: round(change),
+                changePercent: round(changePercent),
+                levelDistribution: this.countLevels(userScores)
+            };
+        });
+    }
+
+    /**
+     * Pearson and Spearman correlation between each metric and the total
+     * score, strongest (by Spearman) first
+     */
+    calculateCorrelations(samples: { userAddress: string; metrics: ReputationMetrics; score: number }[]): MetricCorrelation[] {
+        if (samples.length === 0) return [];
+
+        const scores = samples.map(sample => sample.score);
+        const metrics = Object.keys(samples[0].metrics) as (keyof ReputationMetrics)[];
+        const correlations = metrics.map(metric => {
+            const values = samples.map(sample => sample.metrics[metric]);
+            const pearson = pearsonCorrelation(values, scores);
+            const spearman = spearmanCorrelation(values, scores);
+            return {
+                metric,
+                pearson: pearson === null ? null : round(pearson, 4),
+                spearman: spearman === null ? null : round(spearman, 4),
+                sampleSize: samples.length
+            };
+        });
+
+        return correlations.sort((a, b) => Math.abs(b.spearman ?? 0) - Math.abs(a.spearman ?? 0));
+    }
+
+    private nextLevel(totalScore: number): ReputationInsights['nextLevel'] {
+        const next = Object.entries(this.calculator.getLevelThresholds())
+            .sort((a, b) => a[1] - b[1])
+            .find(([, threshold]) => threshold > totalScore);
+        return next ? { level: next[0], pointsNeeded: Math.ceil(next[1] - totalScore) } : null;
+    }
+
+    private countLevels(scores: ReputationScore[]): Record<string, number> {
+        const counts: Record<string, number> = {};
+        for (const level of Object.keys(this.calculator.getLevelThresholds())) counts[level] = 0;
+        for (const score of scores) counts[score.level] = (counts[score.level] ?? 0) + 1;
+        return counts;
+    }
+}
@@ -2,6 +2,8 @@
 // License-Filename: LICENSE.md
 
 import { Address } from '@ton/ton';
+import { ScoreDistribution } from './ScoreDistribution';
+import { DEFAULT_SCORING_MODEL, REPUTATION_LEVELS, ScoringModel, scoringModelId } from './ScoringModel';
 
 // Reputation Calculator Service
 // Advanced scoring algorithms for AccreDeFi reputation system
@@ -55,29 +57,22 @@ export interface ScoreBreakdown {
 }
 
 export class ReputationCalculator {
-    private defaultWeights: ScoringWeights = {
-        transaction: 25,
-        compliance: 35,
-        activity: 15,
-        staking: 10,
-        referral: 5,
-        consistency: 5,
-        diversity: 3,
-        community: 2
-    };
-
-    private levelThresholds = {
-        BRONZE: 0,
-        SILVER: 200,
-        GOLD: 400,
-        PLATINUM: 700,
-        DIAMOND: 900
-    };
-
-    constructor(private customWeights?: Partial<ScoringWeights>) {
-        if (customWeights) {
-            this.defaultWeights = { ...this.defaultWeights, ...customWeights };
-        }
+    private weights: ScoringWeights;
+
+    constructor(
+        private customWeights?: Partial<ScoringWeights>,
+        readonly distribution?: ScoreDistribution,
+        readonly model: ScoringModel = DEFAULT_SCORING_MODEL
+    ) {
+        this.weights = { ...model.weights, ...customWeights };
+    }
+
+    /**
+     * Id of the model scores are computed with; custom weights are marked
+     * since they no longer match the named model
+     */
+    get modelVersion(): string {
+        return scoringModelId(this.model) + (this.customWeights ? '+custom' : '');
     }
 
     /**
@@ -102,7 +97,7 @@ export class ReputationCalculator {
         
         // Determine level and additional metrics
         const level = this.getReputationLevel(totalScore);
-        const percentile = this.calculatePercentile(totalScore);
+        const percentile = this.calculatePercentile(totalScore, userAddress);
         const trend = this.calculateTrend(historicalScores);
         const riskLevel = this.assessRiskLevel(metrics, totalScore);
 
@@ -162,9 +157,9 @@ export class ReputationCalculator {
         const activityScore = this.calculateActivityScore(metrics);
         
         return Math.round(
-            (transactionScore * this.defaultWeights.transaction +
-             complianceScore * this.defaultWeights.compliance +
-             activityScore * this.defaultWeights.activity) / 100
+            (transactionScore * this.weights.transaction +
+             complianceScore * this.weights.compliance +
+             activityScore * this.weights.activity) / 100
         );
     }
 
@@ -192,7 +187,7 @@ export class ReputationCalculator {
         let score = metrics.complianceScore * 8;
         
         // Violation penalty
-        const violationPenalty = metrics.violationCount * 50;
+        const violationPenalty = metrics.violationCount * this.model.penalties.complianceViolation;
         score = Math.max(0, score - violationPenalty);
         
         // Perfect compliance bonus
@@ -223,82 +218,91 @@ export class ReputationCalculator {
      * Calculate staking bonus
      */
     private calculateStakingBonus(stakingAmount: number): number {
-        // Logarithmic scaling for staking bonus (0-100 points)
+        // Logarithmic scaling for staking bonus, up to the model's cap
         if (stakingAmount <= 0) return 0;
-        return Math.min(100, Math.log10(stakingAmount / 1000000000) * 20); // Assuming nanotons
+        return Math.min(this.model.bonusCaps.staking, Math.log10(stakingAmount / 1000000000) * 20); // Assuming nanotons
     }
 
     /**
      * Calculate referral bonus
      */
     private calculateReferralBonus(referralCount: number): number {
-        // Diminishing returns for referrals (0-75 points)
-        return Math.min(75, referralCount * 10 - Math.pow(referralCount, 1.5));
+        // Diminishing returns for referrals, up to the model's cap
+        return Math.min(this.model.bonusCaps.referral, referralCount * 10 - Math.pow(referralCount, 1.5));
     }
 
     /**
      * Calculate consistency bonus
      */
     private calculateConsistencyBonus(consistencyScore: number): number {
-        // Linear scaling for consistency (0-50 points)
-        return Math.round(consistencyScore * 0.5);
+        // Linear scaling for consistency, 100 earns the full cap
+        return Math.round(consistencyScore * this.model.bonusCaps.consistency / 100);
     }
 
     /**
      * Calculate diversity bonus
      */
     private calculateDiversityBonus(diversityScore: number): number {
-        // Linear scaling for diversity (0-30 points)
-        return Math.round(diversityScore * 0.3);
+        // Linear scaling for diversity, 100 earns the full cap
+        return Math.round(diversityScore * this.model.bonusCaps.diversity / 100);
     }
 
     /**
      * Calculate community engagement bonus
      */
     private calculateCommunityBonus(communityEngagement: number): number {
-        // Linear scaling for community engagement (0-20 points)
-        return Math.round(communityEngagement * 0.2);
+        // Linear scaling for community engagement, 100 earns the full cap
+        return Math.round(communityEngagement * this.model.bonusCaps.community / 100);
     }
 
     /**
      * Calculate penalties
      */
     private calculatePenalties(metrics: ReputationMetrics): number {
+        const rules = this.model.penalties;
         let penalties = 0;
         
         // Violation penalties
-        penalties += metrics.violationCount * 25;
+        penalties += metrics.violationCount * rules.perViolation;
         
         // Inactivity penalty (if very low activity)
-        if (metrics.transactionFrequency < 1) {
-            penalties += 20;
+        if (metrics.transactionFrequency < rules.inactivityBelowFrequency) {
+            penalties += rules.inactivity;
         }
         
         // Risk-based penalties
-        if (metrics.complianceScore < 50) {
-            penalties += 50;
+        if (metrics.complianceScore < rules.lowComplianceBelow) {
+            penalties += rules.lowCompliance;
         }
         
         return penalties;
     }
 
+    /**
+     * Minimum total score for each level, lowest first
+     */
+    getLevelThresholds(): Record<string, number> {
+        return { ...this.model.levelThresholds };
+    }
+
     /**
      * Determine reputation level based on score
      */
-    private getReputationLevel(score: number): string {
-        if (score >= this.levelThresholds.DIAMOND) return 'DIAMOND';
-        if (score >= this.levelThresholds.PLATINUM) return 'PLATINUM';
-        if (score >= this.levelThresholds.GOLD) return 'GOLD';
-        if (score >= this.levelThresholds.SILVER) return 'SILVER';
-        return 'BRONZE';
+    getReputationLevel(score: number): string {
+        for (let i = REPUTATION_LEVELS.length - 1; i > 0; i--) {
+            if (score >= this.model.levelThresholds[REPUTATION_LEVELS[i]]) return REPUTATION_LEVELS[i];
+        }
+        return REPUTATION_LEVELS[0];
     }
 
     /**
-     * Calculate percentile ranking
+     * Calculate percentile ranking against the other users in the
+     * distribution. Without one, or before anyone else has a score, fall
+     * back to the position on the 0-1000 scale.
      */
-    private calculatePercentile(score: number): number {
-        // Simplified percentile calculation
-        // In production, this would compare against actual user distribution
+    private calculatePercentile(score: number, userAddress: string): number {
+        const ranked = this.distribution?.percentile(score, userAddress);
+        if (ranked !== undefined && ranked !== null) return ranked;
         return Math.min(99, Math.round((score / 1000) * 100));
     }
 
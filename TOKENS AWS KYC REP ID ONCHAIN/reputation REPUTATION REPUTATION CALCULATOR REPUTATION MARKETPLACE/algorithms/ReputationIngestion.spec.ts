@@ -0,0 +1,204 @@
+// SPDX-License-Identifier: BUSL-1.1
+// License-Filename: LICENSE.md
+
+import { Address, beginCell, Cell } from '@ton/ton';
+import { ReputationCalculator } from '../services/ReputationCalculator';
+import { InMemoryReputationRepository } from '../services/ReputationRepository';
+import {
+    ActivityEventOpcodes,
+    ContractEventSource,
+    decodeActivityEvent,
+    FixtureActivitySource,
+    ReputationIngestionService
+} from '../services/ReputationIngestion';
+
+const address = (byte: string) => Address.parse('0:' + byte.repeat(32)).toString();
+
+const ALICE = address('11');
+const BOB = address('22');
+const CAROL = address('33');
+const DAVE = address('44');
+const ISSUER = address('55');
+const WRAPPER = address('66');
+const ACCREDI = address('77');
+const IDENTITY = address('88');
+const BASE_TOKEN = address('99');
+const DAY = 86400000;
+
+// Recorded activity for Alice: staking, transfers on two tokens, KYC and AML
+// claims, and one failed compliance check
+const FIXTURES = [
+    { kind: 'claim-added', contract: IDENTITY, user: ALICE, topic: 1, issuer: ISSUER, timestamp: 2 * DAY },
+    { kind: 'claim-added', contract: IDENTITY, user: ALICE, topic: 2, issuer: ISSUER, timestamp: 3 * DAY },
+    { kind: 'deposit', contract: WRAPPER, user: ALICE, baseToken: BASE_TOKEN, amount: '1000000000000', timestamp: 5 * DAY },
+    { kind: 'transfer', contract: WRAPPER, from: ALICE, to: BOB, amount: '100000000000', timestamp: 12 * DAY },
+    { kind: 'transfer', contract: ACCREDI, from: CAROL, to: ALICE, amount: '50000000000', timestamp: 20 * DAY },
+    { kind: 'transfer', contract: WRAPPER, from: ALICE, to: BOB, amount: '25000000000', timestamp: 35 * DAY },
+    { kind: 'compliance-check', contract: ACCREDI, from: ALICE, to: BOB, amount: '25000000000', approved: true, timestamp: 35 * DAY },
+    { kind: 'compliance-check', contract: ACCREDI, from: ALICE, to: DAVE, amount: '10000000000', approved: false, timestamp: 36 * DAY }
+] as const;
+
+describe('ReputationIngestionService', () => {
+    let repository: InMemoryReputationRepository;
+    let calculator: ReputationCalculator;
+
+    beforeEach(() => {
+        repository = new InMemoryReputationRepository();
+        calculator = new ReputationCalculator();
+    });
+
+    it('should derive metrics over the rolling window', async () => {
+        const service = new ReputationIngestionService(repository, calculator, [new FixtureActivitySource([...FIXTURES])]);
+
+        const report = await service.runOnce(40 * DAY);
+
+        expect(report.events).toBe(FIXTURES.length);
+        expect(report.snapshots).toHaveLength(4);      // Alice, Bob, Carol, Dave
+        expect((await repository.getLatestMetrics(ALICE))?.metrics).toEqual({
+            transactionVolume: 175,
+            transactionFrequency: 0.7,                 // 3 transfers over 30 days
+            complianceScore: 35,                       // (KYC 40 + AML 30) * half the checks passed
+            violationCount: 1,
+            stakingAmount: 1000000000000,
+            referralCount: 0,
+            platformAge: 38,
+            diversityScore: 48,                        // 2 tokens, 2 counterparties
+            consistencyScore: 60,                      // active in 3 of 5 weeks
+            communityEngagement: 0
+        });
+        expect((await repository.getLatestScore(ALICE))?.computedAt).toBe(40 * DAY);
+    });
+
+    it('should roll the window forward without new events', async () => {
+        const service = new ReputationIngestionService(repository, calculator, [new FixtureActivitySource([...FIXTURES])]);
+        await service.runOnce(40 * DAY);
+
+        const report = await service.runOnce(50 * DAY);
+        const metrics = (await repository.getLatestMetrics(ALICE))!.metrics;
+
+        expect(report.events).toBe(0);
+        expect(metrics.transactionVolume).toBe(75);
+        expect(metrics.transactionFrequency).toBe(0.47);
+        expect(metrics.stakingAmount).toBe(1000000000000);
+        expect(metrics.platformAge).toBe(48);
+        expect(await repository.getMetricsHistory(ALICE)).toHaveLength(2);
+    });
+
+    it('should drop claims that were removed', async () => {
+        const service = new ReputationIngestionService(repository, calculator, [new FixtureActivitySource([
+            ...FIXTURES,
+            { kind: 'claim-removed', contract: IDENTITY, user: ALICE, topic: 2, issuer: ISSUER, timestamp: 37 * DAY }
+        ])]);
+
+        await service.runOnce(40 * DAY);
+
+        expect((await repository.getLatestMetrics(ALICE))?.metrics.complianceScore).toBe(20);
+    });
+
+    it('should carry over off-chain metrics and age from the stored snapshot', async () => {
+        const stored = (await repository.saveMetrics(ALICE, {
+            transactionVolume: 0, transactionFrequency: 0, complianceScore: 0, violationCount: 0, stakingAmount: 0,
+            referralCount: 7, platformAge: 100, diversityScore: 0, consistencyScore: 0, communityEngagement: 55
+        }, DAY)).metrics;
+        const service = new ReputationIngestionService(repository, calculator, [new FixtureActivitySource([...FIXTURES])]);
+
+        await service.runOnce(40 * DAY);
+        const metrics = (await repository.getLatestMetrics(ALICE))!.metrics;
+
+        expect(metrics.referralCount).toBe(stored.referralCount);
+        expect(metrics.communityEngagement).toBe(stored.communityEngagement);
+        expect(metrics.platformAge).toBe(139);
+    });
+
+    it('should only fetch events after the last run', async () => {
+        const source = new FixtureActivitySource([...FIXTURES]);
+        const ranges: [number, number][] = [];
+        const fetchEvents = source.fetchEvents.bind(source);
+        source.fetchEvents = async (since, until) => {
+            ranges.push([since, until]);
+            return fetchEvents(since, until);
+        };
+        const service = new ReputationIngestionService(repository, calculator, [source], { since: DAY });
+
+        await service.runOnce(20 * DAY);
+        await service.runOnce(40 * DAY);
+
+        expect(ranges).toEqual([[DAY, 20 * DAY], [20 * DAY, 40 * DAY]]);
+        expect((await repository.getLatestMetrics(ALICE))?.metrics.transactionVolume).toBe(175);
+    });
+});
+
+describe('decodeActivityEvent', () => {
+    const claimEvent = (opcode: number, topic: number) => beginCell()
+        .storeUint(opcode, 32)
+        .storeInt(1n, 257)
+        .storeInt(topic, 257)
+        .storeInt(1n, 257)
+        .storeRef(beginCell()
+            .storeAddress(Address.parse(ISSUER))
+            .storeRef(Cell.EMPTY)
+            .storeRef(Cell.EMPTY)
+            .storeRef(beginCell().storeStringTail('https://claims.example').endCell()))
+        .endCell();
+
+    it('should decode UniversalWrapper deposits and forced transfers', () => {
+        const wrapper = { kind: 'UniversalWrapper' as const, address: WRAPPER };
+        const deposit = beginCell()
+            .storeUint(ActivityEventOpcodes.DepositEvent, 32)
+            .storeAddress(Address.parse(ALICE))
+            .storeAddress(Address.parse(BASE_TOKEN))
+            .storeCoins(500n)
+            .storeCoins(500n)
+            .endCell();
+        const move = beginCell()
+            .storeUint(ActivityEventOpcodes.ControllerMoveEvent, 32)
+            .storeAddress(Address.parse(ISSUER))
+            .storeAddress(Address.parse(ALICE))
+            .storeAddress(Address.parse(BOB))
+            .storeCoins(200n)
+            .endCell();
+
+        expect(decodeActivityEvent(wrapper, deposit, 7)).toEqual({
+            kind: 'deposit', contract: WRAPPER, user: ALICE, baseToken: BASE_TOKEN, amount: 500n, timestamp: 7
+        });
+        expect(decodeActivityEvent(wrapper, move, 8)).toEqual({
+            kind: 'forced-transfer', contract: WRAPPER, from: ALICE, to: BOB, amount: 200n, timestamp: 8
+        });
+    });
+
+    it('should decode AccrediWrapToken mints with no sender', () => {
+        const token = { kind: 'AccrediWrapToken' as const, address: ACCREDI };
+        const body = beginCell()
+            .storeUint(ActivityEventOpcodes.AccrediTransfer, 32)
+            .storeAddress(null)
+            .storeAddress(Address.parse(ALICE))
+            .storeCoins(300n)
+            .endCell();
+
+        expect(decodeActivityEvent(token, body, 9)).toEqual({
+            kind: 'transfer', contract: ACCREDI, from: null, to: ALICE, amount: 300n, timestamp: 9
+        });
+    });
+
+    it('should attribute identity claims to the identity owner', () => {
+        const identity = { kind: 'TonIdentity' as const, address: IDENTITY, owner: ALICE };
+
+        expect(decodeActivityEvent(identity, claimEvent(ActivityEventOpcodes.ClaimAdded, 1), 10)).toEqual({
+            kind: 'claim-added', contract: IDENTITY, user: ALICE, topic: 1, issuer: ISSUER, timestamp: 10
+        });
+        expect(decodeActivityEvent(identity, claimEvent(0x12345678, 1), 10)).toBeNull();
+    });
+
+    it('should feed decoded events from watched contracts', async () => {
+        const source = new ContractEventSource(
+            [{ kind: 'TonIdentity', address: IDENTITY, owner: ALICE }],
+            async (_address, since, until) => [
+                { body: claimEvent(ActivityEventOpcodes.ClaimAdded, 1), timestamp: 2 * DAY },
+                { body: claimEvent(ActivityEventOpcodes.ClaimRemoved, 1), timestamp: 4 * DAY }
+            ].filter(message => message.timestamp >= since && message.timestamp < until)
+        );
+
+        expect((await source.fetchEvents(0, 3 * DAY)).map(event => event.kind)).toEqual(['claim-added']);
+        expect((await source.fetchEvents(0, 5 * DAY)).map(event => event.kind)).toEqual(['claim-added', 'claim-removed']);
+    });
+});
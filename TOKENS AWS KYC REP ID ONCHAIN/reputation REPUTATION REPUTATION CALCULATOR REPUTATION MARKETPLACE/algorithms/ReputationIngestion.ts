@@ -0,0 +1,364 @@
+// SPDX-License-Identifier: BUSL-1.1
+// License-Filename: LICENSE.md
+
+import { Address, Cell, Slice } from '@ton/ton';
+import { ReputationCalculator, ReputationMetrics } from './ReputationCalculator';
+import { addressKey, MetricsSnapshot, recordReputation, ReputationRepository } from './ReputationRepository';
+import { logger } from '../utils/logger';
+
+// Reputation Ingestion Service
+// Derives ReputationMetrics from AccrediWrapToken, UniversalWrapper and
+// TonIdentity claim events, over a rolling window per address:
+//
+//   transactionVolume     tokens moved in or out (amounts / 10^decimals)
+//   transactionFrequency  transfers per week
+//   complianceScore       claim topics held (KYC 40, AML 30, accredited 15,
+//                         jurisdiction 15) times the share of passed checks
+//   violationCount        failed compliance checks and forced transfers
+//   stakingAmount         net UniversalWrapper deposits, all time (nano units)
+//   platformAge           days since first seen
+//   diversityScore        distinct tokens (20 each, max 60) and
+//                         counterparties (4 each, max 40)
+//   consistencyScore      share of weeks in the window with a transfer
+//
+// referralCount and communityEngagement have no on-chain source; they are
+// carried over from the address's latest stored snapshot.
+
+const DAY = 86400000;
+
+export type ActivityEvent =
+    | { kind: 'transfer'; contract: string; from: string | null; to: string; amount: bigint; timestamp: number }
+    | { kind: 'forced-transfer'; contract: string; from: string; to: string; amount: bigint; timestamp: number }
+    | { kind: 'compliance-check'; contract: string; from: string; to: string; amount: bigint; approved: boolean; timestamp: number }
+    | { kind: 'deposit' | 'withdraw'; contract: string; user: string; baseToken: string; amount: bigint; timestamp: number }
+    | { kind: 'claim-added' | 'claim-removed'; contract: string; user: string; topic: number; issuer: string; timestamp: number };
+
+// Event as stored in JSON fixtures, with amounts as strings
+export type RecordedActivityEvent = ActivityEvent extends infer E
+    ? E extends { amount: bigint } ? Omit<E, 'amount'> & { amount: bigint | string | number } : E
+    : never;
+
+/**
+ * Anything that can list activity in a time range: an indexer, a node
+ * client, or recorded fixtures
+ */
+export interface ActivitySource {
+    name: string;
+    fetchEvents(since: number, until: number): Promise<ActivityEvent[]>;   // since <= timestamp < until
+}
+
+export interface IngestionOptions {
+    windowDays?: number;        // default 30
+    intervalMs?: number;        // schedule, default 1 hour
+    decimals?: number;          // token decimals for volume, default 9
+    since?: number;             // first cursor, default 0 (full history)
+}
+
+export interface IngestionReport {
+    events: number;
+    snapshots: MetricsSnapshot[];
+}
+
+interface AddressActivity {
+    userAddress: string;
+    firstSeen: number;
+    events: ActivityEvent[];                    // inside the window
+    claims: Map<number, Set<string>>;           // topic -> issuers, all time
+    staked: bigint;                             // net deposits, all time
+}
+
+const CLAIM_TOPIC_WEIGHTS: Record<number, number> = {
+    1: 40,      // KYC
+    2: 30,      // AML
+    3: 15,      // accredited investor
+    4: 15       // jurisdiction
+};
+
+// ============ Event Decoding ============
+
+export type WatchedContract =
+    | { kind: 'AccrediWrapToken'; address: string }
+    | { kind: 'UniversalWrapper'; address: string }
+    | { kind: 'TonIdentity'; address: string; owner: string };
+
+// First 32 bits of sha256 over each event signature
+export const ActivityEventOpcodes = {
+    AccrediTransfer: 0x2192b769,        // Transfer{from:address?,to:address,amount:coins}
+    ComplianceCheck: 0x1f2c3922,        // ComplianceCheck{from:address,to:address,amount:coins,result:bool}
+    DepositEvent: 0x7e325b4c,           // DepositEvent{user:address,baseToken:address,amount:coins,wrappedAmount:coins}
+    WithdrawEvent: 0x5ba1ff5e,          // WithdrawEvent{user:address,baseToken:address,amount:coins,wrappedAmount:coins}
+    TransferEvent: 0x8a2a1524,          // TransferEvent{from:address,to:address,amount:coins}
+    ControllerMoveEvent: 0xe0f1c17c,    // ControllerMoveEvent{controller:address,from:address,to:address,amount:coins}
+    ClaimAdded: 0x7f213e7f,             // ClaimAdded{claimId:int257,topic:int257,scheme:int257,issuer:address,...}
+    ClaimRemoved: 0x65f8363e            // ClaimRemoved{...same fields as ClaimAdded}
+} as const;
+
+function maybeAddress(slice: Slice): string | null {
+    return slice.loadMaybeAddress()?.toString() ?? null;
+}
+
+/**
+ * Decode one emitted event body from a watched contract. Returns null for
+ * events that do not feed reputation metrics.
+ */
+export function decodeActivityEvent(contract: WatchedContract, body: Cell, timestamp: number): ActivityEvent | null {
+    const slice = body.beginParse();
+    if (slice.remainingBits < 32) return null;
+    const opcode = slice.loadUint(32);
+    const source = contract.address;
+
+    if (contract.kind === 'AccrediWrapToken') {
+        if (opcode === ActivityEventOpcodes.AccrediTransfer) {
+            // Emitted with a null `from` on mint and wrap
+            const from = maybeAddress(slice);
+            const to = slice.loadAddress().toString();
+            return { kind: 'transfer', contract: source, from, to, amount: slice.loadCoins(), timestamp };
+        }
+        if (opcode === ActivityEventOpcodes.ComplianceCheck) {
+            const from = slice.loadAddress().toString();
+            const to = slice.loadAddress().toString();
+            const amount = slice.loadCoins();
+            return { kind: 'compliance-check', contract: source, from, to, amount, approved: slice.loadBit(), timestamp };
+        }
+        return null;
+    }
+
+    if (contract.kind === 'UniversalWrapper') {
+        switch (opcode) {
+            case ActivityEventOpcodes.DepositEvent:
+            case ActivityEventOpcodes.WithdrawEvent: {
+                const user = slice.loadAddress().toString();
+                const baseToken = slice.loadAddress().toString();
+                const amount = slice.loadCoins();
+                const kind = opcode === ActivityEventOpcodes.DepositEvent ? 'deposit' : 'withdraw';
+                return { kind, contract: source, user, baseToken, amount, timestamp };
+            }
+            case ActivityEventOpcodes.TransferEvent: {
+                const from = slice.loadAddress().toString();
+                const to = slice.loadAddress().toString();
+                return { kind: 'transfer', contract: source, from, to, amount: slice.loadCoins(), timestamp };
+            }
+            case ActivityEventOpcodes.ControllerMoveEvent: {
+                slice.loadAddress();    // controller
+                const from = slice.loadAddress().toString();
+                const to = slice.loadAddress().toString();
+                return { kind: 'forced-transfer', contract: source, from, to, amount: slice.loadCoins(), timestamp };
+            }
+        }
+        return null;
+    }
+
+    if (opcode === ActivityEventOpcodes.ClaimAdded || opcode === ActivityEventOpcodes.ClaimRemoved) {
+        slice.loadIntBig(257);  // claimId
+        const topic = Number(slice.loadIntBig(257));
+        slice.loadIntBig(257);  // scheme
+        const issuer = slice.loadRef().beginParse().loadAddress().toString();
+        const kind = opcode === ActivityEventOpcodes.ClaimAdded ? 'claim-added' : 'claim-removed';
+        return { kind, contract: source, user: contract.owner, topic, issuer, timestamp };
+    }
+    return null;
+}
+
+/**
+ * Source over the raw events of watched contracts. `fetchMessages` returns
+ * the external-out bodies a contract emitted in the range, e.g. from a
+ * TonClient transaction walk or an indexer.
+ */
+export class ContractEventSource implements ActivitySource {
+    name = 'contract-events';
+
+    constructor(
+        private contracts: WatchedContract[],
+        private fetchMessages: (address: string, since: number, until: number) => Promise<{ body: Cell; timestamp: number }[]>
+    ) {}
+
+    async fetchEvents(since: number, until: number): Promise<ActivityEvent[]> {
+        const events: ActivityEvent[] = [];
+        for (const contract of this.contracts) {
+            for (const message of await this.fetchMessages(contract.address, since, until)) {
+                const event = decodeActivityEvent(contract, message.body, message.timestamp);
+                if (event) events.push(event);
+            }
+        }
+        return events;
+    }
+}
+
+/**
+ * Replays recorded events, e.g. fixtures in tests
+ */
+export class FixtureActivitySource implements ActivitySource {
+    name = 'fixtures';
+    private events: ActivityEvent[];
+
+    constructor(events: RecordedActivityEvent[]) {
+        this.events = events.map(event => ('amount' in event ? { ...event, amount: BigInt(event.amount) } : event) as ActivityEvent);
+    }
+
+    async fetchEvents(since: number, until: number): Promise<ActivityEvent[]> {
+        return this.events.filter(event => event.timestamp >= since && event.timestamp < until);
+    }
+}
+
+// ============ Ingestion ============
+
+export class ReputationIngestionService {
+    private activity = new Map<string, AddressActivity>();
+    private cursor: number;
+    private timer?: ReturnType<typeof setInterval>;
+    private running = false;
+    private windowMs: number;
+    private decimals: number;
+
+    constructor(
+        private repository: ReputationRepository,
+        private calculator: ReputationCalculator,
+        private sources: ActivitySource[],
+        private options: IngestionOptions = {}
+    ) {
+        this.cursor = options.since ?? 0;
+        this.windowMs = (options.windowDays ?? 30) * DAY;
+        this.decimals = options.decimals ?? 9;
+    }
+
+    /**
+     * Pull new events from every source, then store a metrics snapshot and
+     * score for every address seen so far. Windows roll forward even when an
+     * address has no new events.
+     */
+    async runOnce(now: number = Date.now()): Promise<IngestionReport> {
+        let count = 0;
+        for (const source of this.sources) {
+            const events = await source.fetchEvents(this.cursor, now);
+            events.sort((a, b) => a.timestamp - b.timestamp).forEach(event => this.ingest(event));
+            count += events.length;
+        }
+        this.cursor = now;
+
+        const snapshots: MetricsSnapshot[] = [];
+        for (const activity of this.activity.values()) {
+            activity.events = activity.events.filter(event => event.timestamp >= now - this.windowMs);
+
+            const baseline = await this.repository.getLatestMetrics(activity.userAddress);
+            if (baseline) {
+                activity.firstSeen = Math.min(activity.firstSeen, baseline.recordedAt - baseline.metrics.platformAge * DAY);
+            }
+            const metrics = this.metricsFor(activity, now, baseline?.metrics);
+            const { snapshot } = await recordReputation(this.repository, this.calculator, activity.userAddress, metrics, now);
+            snapshots.push(snapshot);
+        }
+
+        return { events: count, snapshots };
+    }
+
+    /**
+     * Run on the configured interval until stop(). A run still in progress
+     * when the next one is due is not overlapped.
+     */
+    start() {
+        if (this.timer) return;
+        this.timer = setInterval(async () => {
+            if (this.running) return;
+            this.running = true;
+            try {
+                const report = await this.runOnce();
+                logger.info(`Reputation ingestion: ${report.events} events, ${report.snapshots.length} snapshots`);
+            } catch (error) {
+                logger.error('Reputation ingestion failed:', error);
+            } finally {
+                this.running = false;
+            }
+        }, this.options.intervalMs ?? 3600000);
+    }
+
+    stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    private track(userAddress: string, timestamp: number): AddressActivity {
+        const key = addressKey(userAddress);
+        let activity = this.activity.get(key);
+        if (!activity) {
+            activity = { userAddress, firstSeen: timestamp, events: [], claims: new Map(), staked: 0n };
+            this.activity.set(key, activity);
+        }
+        activity.firstSeen = Math.min(activity.firstSeen, timestamp);
+        return activity;
+    }
+
+    private ingest(event: ActivityEvent) {
+        switch (event.kind) {
+            case 'transfer':
+            case 'forced-transfer':
+            case 'compliance-check':
+                for (const party of [event.from, event.to]) {
+                    if (party) this.track(party, event.timestamp).events.push(event);
+                }
+                break;
+            case 'deposit':
+            case 'withdraw': {
+                const activity = this.track(event.user, event.timestamp);
+                activity.staked += event.kind === 'deposit' ? event.amount : -event.amount;
+                activity.events.push(event);
+                break;
+            }
+            case 'claim-added':
+            case 'claim-removed': {
+                const activity = this.track(event.user, event.timestamp);
+                const issuers = activity.claims.get(event.topic) ?? new Set<string>();
+                if (event.kind === 'claim-added') issuers.add(addressKey(event.issuer));
+                else issuers.delete(addressKey(event.issuer));
+                activity.claims.set(event.topic, issuers);
+                break;
+            }
+        }
+    }
+
+    private metricsFor(activity: AddressActivity, now: number, baseline?: ReputationMetrics): ReputationMetrics {
+        const key = addressKey(activity.userAddress);
+        const isUser = (party: string | null) => party !== null && addressKey(party) === key;
+        const windowDays = this.windowMs / DAY;
+
+        const transfers = activity.events.filter(event =>
+            event.kind === 'transfer' || event.kind === 'forced-transfer') as
+            Extract<ActivityEvent, { kind: 'transfer' | 'forced-transfer' }>[];
+        const checks = activity.events.filter(event =>
+            event.kind === 'compliance-check' && isUser(event.from)) as
+            Extract<ActivityEvent, { kind: 'compliance-check' }>[];
+
+        const volume = transfers.reduce((sum, event) => sum + event.amount, 0n);
+
+        let claimScore = 0;
+        for (const [topic, issuers] of activity.claims) {
+            if (issuers.size > 0) claimScore += CLAIM_TOPIC_WEIGHTS[topic] ?? 0;
+        }
+        const passRate = checks.length === 0 ? 1 : checks.filter(check => check.approved).length / checks.length;
+
+        const violations = checks.filter(check => !check.approved).length +
+            transfers.filter(event => event.kind === 'forced-transfer' && isUser(event.from)).length;
+
+        const tokens = new Set(transfers.map(event => addressKey(event.contract)));
+        const counterparties = new Set<string>();
+        for (const event of transfers) {
+            const other = isUser(event.from) ? event.to : event.from;
+            if (other) counterparties.add(addressKey(other));
+        }
+
+        const weeks = Math.ceil(windowDays / 7);
+        const activeWeeks = new Set(transfers.map(event => Math.floor((now - event.timestamp) / (7 * DAY))));
+
+        return {
+            transactionVolume: Number(volume) / Math.pow(10, this.decimals),
+            transactionFrequency: Math.round(transfers.length / (windowDays / 7) * 100) / 100,
+            complianceScore: Math.round(claimScore * passRate),
+            violationCount: violations,
+            stakingAmount: activity.staked > 0n ? Number(activity.staked) : 0,
+            referralCount: baseline?.referralCount ?? 0,
+            platformAge: Math.floor((now - activity.firstSeen) / DAY),
+            diversityScore: Math.min(60, tokens.size * 20) + Math.min(40, counterparties.size * 4),
+            consistencyScore: Math.round(Math.min(weeks, activeWeeks.size) / weeks * 100),
+            communityEngagement: baseline?.communityEngagement ?? 0
+        };
+    }
+}
@@ -0,0 +1,244 @@
+// SPDX-License-Identifier: BUSL-1.1
+// License-Filename: LICENSE.md
+
+import { Pool } from 'pg';
+import { Address } from '@ton/ton';
+import { ReputationCalculator, ReputationMetrics } from '../services/ReputationCalculator';
+import {
+    addressKey,
+    buildReputationHistory,
+    InMemoryReputationRepository,
+    PostgresReputationRepository,
+    recordReputation
+} from '../services/ReputationRepository';
+
+const USER = Address.parse('0:' + '11'.repeat(32));
+const DAY = 86400000;
+
+const metrics = (overrides: Partial<ReputationMetrics> = {}): ReputationMetrics => ({
+    transactionVolume: 1000000,
+    transactionFrequency: 5.2,
+    complianceScore: 85,
+    violationCount: 0,
+    stakingAmount: 500000000,
+    referralCount: 3,
+    platformAge: 120,
+    diversityScore: 75,
+    consistencyScore: 80,
+    communityEngagement: 60,
+    ...overrides
+});
+
+describe('InMemoryReputationRepository', () => {
+    let repository: InMemoryReputationRepository;
+
+    beforeEach(() => {
+        repository = new InMemoryReputationRepository();
+    });
+
+    it('should return null for unknown addresses', async () => {
+        expect(await repository.getLatestMetrics(USER.toString())).toBeNull();
+        expect(await repository.getLatestScore(USER.toString())).toBeNull();
+        expect(await repository.getScoreHistory(USER.toString())).toEqual([]);
+    });
+
+    it('should share history between address forms', async () => {
+        await repository.saveMetrics(USER.toString(), metrics(), 1000);
+
+        const snapshot = await repository.getLatestMetrics(USER.toRawString());
+
+        expect(snapshot?.metrics).toEqual(metrics());
+        expect(addressKey(USER.toString({ bounceable: false }))).toBe(USER.toRawString());
+    });
+
+    it('should keep history oldest-first whatever the insert order', async () => {
+        await repository.saveMetrics(USER.toString(), metrics({ violationCount: 2 }), 3 * DAY);
+        await repository.saveMetrics(USER.toString(), metrics({ violationCount: 0 }), 1 * DAY);
+        await repository.saveMetrics(USER.toString(), metrics({ violationCount: 1 }), 2 * DAY);
+
+        const history = await repository.getMetricsHistory(USER.toString());
+
+        expect(history.map(s => s.metrics.violationCount)).toEqual([0, 1, 2]);
+        expect((await repository.getLatestMetrics(USER.toString()))?.recordedAt).toBe(3 * DAY);
+    });
+
+    it('should filter history by time and keep the newest entries', async () => {
+        const calculator = new ReputationCalculator();
+        for (let day = 1; day <= 5; day++) {
+            await repository.saveScore(USER.toString(), calculator.calculateReputationScore(USER.toString(), metrics()), day * DAY);
+        }
+
+        expect((await repository.getScoreHistory(USER.toString(), { since: 3 * DAY })).map(r => r.computedAt))
+            .toEqual([3 * DAY, 4 * DAY, 5 * DAY]);
+        expect((await repository.getScoreHistory(USER.toString(), { limit: 2 })).map(r => r.computedAt))
+            .toEqual([4 * DAY, 5 * DAY]);
+    });
+
+    it('should list the latest score of each user, highest first', async () => {
+        const calculator = new ReputationCalculator();
+        const other = Address.parse('0:' + '22'.repeat(32));
+        const low = calculator.calculateReputationScore(USER.toString(), metrics({ complianceScore: 10, transactionFrequency: 0 }));
+        const high = calculator.calculateReputationScore(USER.toString(), metrics({ complianceScore: 95 }));
+
+        await repository.saveScore(USER.toString(), high, DAY);
+        await repository.saveScore(USER.toString(), low, 2 * DAY);
+        await repository.saveScore(other.toString(), high, DAY);
+
+        const latest = await repository.getLatestScores();
+
+        expect(latest.map(r => [addressKey(r.userAddress), r.score.totalScore])).toEqual([
+            [other.toRawString(), high.totalScore],
+            [USER.toRawString(), low.totalScore]
+        ]);
+        expect(await repository.getLatestScores({ limit: 1 })).toHaveLength(1);
+        expect((await repository.getLatestScores({ level: low.level })).map(r => r.score)).toEqual([low]);
+    });
+
+    it('should read several histories at once, keyed by the addresses given', async () => {
+        const calculator = new ReputationCalculator();
+        const other = Address.parse('0:' + '22'.repeat(32)).toString();
+        for (let day = 1; day <= 3; day++) {
+            await repository.saveScore(USER.toString(), calculator.calculateReputationScore(USER.toString(), metrics()), day * DAY);
+        }
+
+        const histories = await repository.getScoreHistories([USER.toRawString(), other], { limit: 2 });
+
+        expect(histories.get(USER.toRawString())?.map(r => r.computedAt)).toEqual([2 * DAY, 3 * DAY]);
+        expect(histories.get(other)).toEqual([]);
+    });
+});
+
+describe('PostgresReputationRepository', () => {
+    let queries: { text: string; values?: unknown[] }[];
+    let rows: Record<string, unknown>[];
+    let columnType: string;
+    let pool: Pool;
+
+    beforeEach(() => {
+        queries = [];
+        rows = [];
+        columnType = 'double precision';
+        pool = {
+            query: async (text: string, values?: unknown[]) => {
+                queries.push({ text, values });
+                if (text.includes('information_schema.columns')) {
+                    return { rows: [{ data_type: columnType }] };
+                }
+                return { rows: values === undefined ? [] : rows };
+            }
+        } as unknown as Pool;
+    });
+
+    it('should store fractional scores as they are', async () => {
+        const score = new ReputationCalculator().calculateReputationScore(USER.toString(), metrics());
+        expect(Number.isInteger(score.totalScore)).toBe(false);
+
+        await new PostgresReputationRepository(pool).saveScore(USER.toString(), score, DAY);
+
+        const schema = queries.filter(query => query.text.includes('reputation_scores')).map(query => query.text).join('\n');
+        expect(schema).toMatch(/total_score DOUBLE PRECISION NOT NULL/);
+        const insert = queries.find(query => query.text.includes('INSERT INTO reputation_scores'));
+        expect(insert?.values?.[1]).toBe(score.totalScore);
+    });
+
+    it('should widen integer scores of older tables once', async () => {
+        const alters = () => queries.filter(query => /ALTER COLUMN total_score TYPE DOUBLE PRECISION/.test(query.text));
+
+        columnType = 'integer';
+        await new PostgresReputationRepository(pool).getLatestScores({ limit: 1 });
+        expect(alters()).toHaveLength(1);
+
+        columnType = 'double precision';
+        await new PostgresReputationRepository(pool).getLatestScores({ limit: 1 });
+        expect(alters()).toHaveLength(1);
+    });
+
+    it('should keep the latest score table in step with each saved score', async () => {
+        const score = new ReputationCalculator().calculateReputationScore(USER.toString(), metrics());
+        await new PostgresReputationRepository(pool).saveScore(USER.toString(), score, DAY);
+
+        const saves = queries.filter(query => query.values !== undefined);
+        expect(saves).toHaveLength(1);
+        expect(saves[0].text).toMatch(/INSERT INTO reputation_latest_scores[\s\S]*ON CONFLICT \(user_address\) DO UPDATE/);
+    });
+
+    it('should list leaders from the latest score table', async () => {
+        const repository = new PostgresReputationRepository(pool);
+        await repository.getLatestScores({ limit: 10 });
+
+        const read = queries[queries.length - 1];
+        expect(read.text).toMatch(/FROM reputation_latest_scores/);
+        expect(read.text).not.toMatch(/DISTINCT ON/);
+        expect(read.values).toEqual([null, 10]);
+    });
+
+    it('should read several histories with one query', async () => {
+        const other = Address.parse('0:' + '22'.repeat(32));
+        const row = (address: Address, day: number) => ({
+            user_address: address.toRawString(),
+            score: { totalScore: day },
+            model_version: 'default@1.0.0',
+            computed_at: new Date(day * DAY)
+        });
+        rows = [row(USER, 1), row(other, 1), row(USER, 2)];
+
+        const histories = await new PostgresReputationRepository(pool).getScoreHistories([USER.toString(), other.toString()], { limit: 2 });
+
+        expect(queries.filter(query => query.values !== undefined)).toHaveLength(1);
+        expect(queries[queries.length - 1].values).toEqual([[USER.toRawString(), other.toRawString()], null, 2]);
+        expect(histories.get(USER.toString())?.map(r => [r.userAddress, r.computedAt])).toEqual([
+            [USER.toString(), DAY],
+            [USER.toString(), 2 * DAY]
+        ]);
+        expect(histories.get(other.toString())).toHaveLength(1);
+    });
+});
+
+describe('recordReputation', () => {
+    it('should store the snapshot and the score computed from it', async () => {
+        const repository = new InMemoryReputationRepository();
+        const calculator = new ReputationCalculator();
+
+        const { record } = await recordReputation(repository, calculator, USER.toString(), metrics(), DAY);
+
+        expect(record.score).toEqual(calculator.calculateReputationScore(USER.toString(), metrics()));
+        expect(await repository.getLatestScore(USER.toString())).toEqual(record);
+        expect((await repository.getLatestMetrics(USER.toString()))?.recordedAt).toBe(DAY);
+    });
+
+    it('should use stored scores for the trend', async () => {
+        const repository = new InMemoryReputationRepository();
+        const calculator = new ReputationCalculator();
+
+        await recordReputation(repository, calculator, USER.toString(), metrics({ complianceScore: 40, transactionFrequency: 0 }), DAY);
+        const { record } = await recordReputation(repository, calculator, USER.toString(), metrics({ complianceScore: 95 }), 2 * DAY);
+
+        expect(record.score.trend).toBe('STABLE');      // one earlier score is not a trend yet
+
+        const third = await recordReputation(repository, calculator, USER.toString(), metrics({ complianceScore: 95 }), 3 * DAY);
+        expect(third.record.score.trend).toBe('INCREASING');
+    });
+});
+
+describe('buildReputationHistory', () => {
+    it('should derive milestones from level changes and violations from snapshots', async () => {
+        const repository = new InMemoryReputationRepository();
+        const calculator = new ReputationCalculator();
+        const address = USER.toString();
+
+        await recordReputation(repository, calculator, address, metrics({ complianceScore: 40, transactionFrequency: 0 }), DAY);
+        await recordReputation(repository, calculator, address, metrics({ complianceScore: 40, transactionFrequency: 0, violationCount: 1 }), 2 * DAY);
+        await recordReputation(repository, calculator, address, metrics({ complianceScore: 95 }), 3 * DAY);
+
+        const scores = await repository.getScoreHistory(address);
+        const history = buildReputationHistory(address, scores, await repository.getMetricsHistory(address));
+
+        expect(history.scores.map(s => s.timestamp)).toEqual([DAY, 2 * DAY, 3 * DAY]);
+        expect(history.violations).toEqual([{ timestamp: 2 * DAY, violationCount: 1 }]);
+        expect(history.milestones).toEqual([{
+            timestamp: 3 * DAY,
+            milestone: `Reached ${scores[2].score.level} Level`,
+            scoreChange: Math.round(scores[2].score.totalScore - scores[1].score.totalScore)
+        }]);
+    });
+});
@@ -0,0 +1,453 @@
+// SPDX-License-Identifier: BUSL-1.1
+// License-Filename: LICENSE.md
+
+import { Pool } from 'pg';
+import { Address } from '@ton/ton';
+import { ReputationCalculator, ReputationMetrics, ReputationScore } from './ReputationCalculator';
+import { DEFAULT_SCORING_MODEL, scoringModelId } from './ScoringModel';
+import { logger } from '../utils/logger';
+
+// Reputation Repository
+// Stores metrics snapshots and computed score history per TON address
+
+export interface MetricsSnapshot {
+    userAddress: string;
+    metrics: ReputationMetrics;
+    recordedAt: number;
+}
+
+export interface ScoreRecord {
+    userAddress: string;
+    score: ReputationScore;
+    computedAt: number;
+    modelVersion: string;       // id of the scoring model that produced the score
+}
+
+export interface HistoryQuery {
+    since?: number;
+    limit?: number;
+}
+
+export interface LatestScoresQuery {
+    level?: string;
+    limit?: number;
+}
+
+export interface ReputationHistory {
+    userAddress: string;
+    scores: { timestamp: number; score: number; level: string }[];
+    milestones: { timestamp: number; milestone: string; scoreChange: number }[];
+    violations: { timestamp: number; violationCount: number }[];
+    achievements: { timestamp: number; achievement: string; bonus: number }[];
+}
+
+export interface ReputationRepository {
+    saveMetrics(userAddress: string, metrics: ReputationMetrics, recordedAt?: number): Promise<MetricsSnapshot>;
+    getLatestMetrics(userAddress: string): Promise<MetricsSnapshot | null>;
+    getMetricsHistory(userAddress: string, query?: HistoryQuery): Promise<MetricsSnapshot[]>;
+    saveScore(userAddress: string, score: ReputationScore, computedAt?: number, modelVersion?: string): Promise<ScoreRecord>;
+    getLatestScore(userAddress: string): Promise<ScoreRecord | null>;
+    getScoreHistory(userAddress: string, query?: HistoryQuery): Promise<ScoreRecord[]>;
+    /** Score history of several users in one go, keyed by the addresses as given; `limit` applies per user */
+    getScoreHistories(userAddresses: string[], query?: HistoryQuery): Promise<Map<string, ScoreRecord[]>>;
+    /** Latest score of each user, highest first */
+    getLatestScores(query?: LatestScoresQuery): Promise<ScoreRecord[]>;
+}
+
+/**
+ * Canonical key for an address, so friendly and raw forms of the same
+ * account share one history
+ */
+export function addressKey(userAddress: string): string {
+    return Address.parse(userAddress).toRawString();
+}
+
+// Scores stored without a version were computed with the original constants
+const LEGACY_MODEL_VERSION = scoringModelId(DEFAULT_SCORING_MODEL);
+
+/**
+ * Keep the newest `limit` entries of an oldest-first list
+ */
+function applyQuery<T>(entries: T[], at: (entry: T) => number, query: HistoryQuery = {}): T[] {
+    const filtered = query.since === undefined ? entries : entries.filter(entry => at(entry) >= query.since!);
+    return query.limit === undefined ? filtered : filtered.slice(Math.max(0, filtered.length - query.limit));
+}
+
+/**
+ * In-memory adapter for tests and local development
+ */
+export class InMemoryReputationRepository implements ReputationRepository {
+    private metrics = new Map<string, MetricsSnapshot[]>();
+    private scores = new Map<string, ScoreRecord[]>();
+
+    async saveMetrics(userAddress: string, metrics: ReputationMetrics, recordedAt: number = Date.now()): Promise<MetricsSnapshot> {
+        const snapshot = { userAddress, metrics: { ...metrics }, recordedAt };
+        this.insert(this.metrics, addressKey(userAddress), snapshot, entry => entry.recordedAt);
+        return snapshot;
+    }
+
+    async getLatestMetrics(userAddress: string): Promise<MetricsSnapshot | null> {
+        const snapshots = this.metrics.get(addressKey(userAddress)) ?? [];
+        return snapshots[snapshots.length - 1] ?? null;
+    }
+
+    async getMetricsHistory(userAddress: string, query?: HistoryQuery): Promise<MetricsSnapshot[]> {
+        return applyQuery(this.metrics.get(addressKey(userAddress)) ?? [], entry => entry.recordedAt, query);
+    }
+
+    async saveScore(
+        userAddress: string,
+        score: ReputationScore,
+        computedAt: number = Date.now(),
+        modelVersion: string = LEGACY_MODEL_VERSION
+    ): Promise<ScoreRecord> {
+        const record = { userAddress, score: { ...score }, computedAt, modelVersion };
+        this.insert(this.scores, addressKey(userAddress), record, entry => entry.computedAt);
+        return record;
+    }
+
+    async getLatestScore(userAddress: string): Promise<ScoreRecord | null> {
+        const records = this.scores.get(addressKey(userAddress)) ?? [];
+        return records[records.length - 1] ?? null;
+    }
+
+    async getScoreHistory(userAddress: string, query?: HistoryQuery): Promise<ScoreRecord[]> {
+        return applyQuery(this.scores.get(addressKey(userAddress)) ?? [], entry => entry.computedAt, query);
+    }
+
+    async getScoreHistories(userAddresses: string[], query?: HistoryQuery): Promise<Map<string, ScoreRecord[]>> {
+        const histories = new Map<string, ScoreRecord[]>();
+        for (const userAddress of userAddresses) {
+            histories.set(userAddress, await this.getScoreHistory(userAddress, query));
+        }
+        return histories;
+    }
+
+    async getLatestScores(query: LatestScoresQuery = {}): Promise<ScoreRecord[]> {
+        const latest = [...this.scores.values()]
+            .map(records => records[records.length - 1])
+            .filter(record => query.level === undefined || record.score.level === query.level)
+            .sort((a, b) => b.score.totalScore - a.score.totalScore);
+        return query.limit === undefined ? latest : latest.slice(0, query.limit);
+    }
+
+    /**
+     * Insert keeping each list oldest-first; entries with equal times keep insertion order
+     */
+    private insert<T>(store: Map<string, T[]>, key: string, entry: T, at: (entry: T) => number) {
+        const entries = store.get(key) ?? [];
+        let index = entries.length;
+        while (index > 0 && at(entries[index - 1]) > at(entry)) index--;
+        entries.splice(index, 0, entry);
+        store.set(key, entries);
+    }
+}
+
+/**
+ * Postgres adapter. Tables are created on first use. Each user's latest score
+ * is also kept in reputation_latest_scores, so leaderboards read an index
+ * instead of the whole history.
+ */
+export class PostgresReputationRepository implements ReputationRepository {
+    private schema?: Promise<void>;
+
+    constructor(private pool: Pool) {}
+
+    async saveMetrics(userAddress: string, metrics: ReputationMetrics, recordedAt: number = Date.now()): Promise<MetricsSnapshot> {
+        await this.ensureSchema();
+        await this.pool.query(
+            'INSERT INTO reputation_metrics (user_address, metrics, recorded_at) VALUES ($1, $2, $3)',
+            [addressKey(userAddress), JSON.stringify(metrics), new Date(recordedAt)]
+        );
+        return { userAddress, metrics, recordedAt };
+    }
+
+    async getLatestMetrics(userAddress: string): Promise<MetricsSnapshot | null> {
+        const history = await this.getMetricsHistory(userAddress, { limit: 1 });
+        return history[0] ?? null;
+    }
+
+    async getMetricsHistory(userAddress: string, query: HistoryQuery = {}): Promise<MetricsSnapshot[]> {
+        await this.ensureSchema();
+        const { rows } = await this.pool.query(
+            `SELECT metrics, recorded_at FROM reputation_metrics
+             WHERE user_address = $1 AND ($2::timestamptz IS NULL OR recorded_at >= $2)
+             ORDER BY recorded_at DESC, id DESC
+             LIMIT $3`,
+            [addressKey(userAddress), query.since === undefined ? null : new Date(query.since), query.limit ?? null]
+        );
+        return rows.reverse().map(row => ({
+            userAddress,
+            metrics: row.metrics,
+            recordedAt: new Date(row.recorded_at).getTime()
+        }));
+    }
+
+    async saveScore(
+        userAddress: string,
+        score: ReputationScore,
+        computedAt: number = Date.now(),
+        modelVersion: string = LEGACY_MODEL_VERSION
+    ): Promise<ScoreRecord> {
+        await this.ensureSchema();
+        // One statement, so the history and the latest score cannot disagree
+        await this.pool.query(
+            `WITH inserted AS (
+                 INSERT INTO reputation_scores (user_address, total_score, level, score, model_version, computed_at)
+                 VALUES ($1, $2, $3, $4, $5, $6)
+                 RETURNING user_address, total_score, level, score, model_version, computed_at
+             )
+             INSERT INTO reputation_latest_scores (user_address, total_score, level, score, model_version, computed_at)
+             SELECT * FROM inserted
+             ON CONFLICT (user_address) DO UPDATE SET
+                 total_score = EXCLUDED.total_score,
+                 level = EXCLUDED.level,
+                 score = EXCLUDED.score,
+                 model_version = EXCLUDED.model_version,
+                 computed_at = EXCLUDED.computed_at
+             WHERE reputation_latest_scores.computed_at <= EXCLUDED.computed_at`,
+            [addressKey(userAddress), score.totalScore, score.level, JSON.stringify(score), modelVersion, new Date(computedAt)]
+        );
+        return { userAddress, score, computedAt, modelVersion };
+    }
+
+    async getLatestScore(userAddress: string): Promise<ScoreRecord | null> {
+        const history = await this.getScoreHistory(userAddress, { limit: 1 });
+        return history[0] ?? null;
+    }
+
+    async getScoreHistory(userAddress: string, query: HistoryQuery = {}): Promise<ScoreRecord[]> {
+        await this.ensureSchema();
+        const { rows } = await this.pool.query(
+            `SELECT score, model_version, computed_at FROM reputation_scores
+             WHERE user_address = $1 AND ($2::timestamptz IS NULL OR computed_at >= $2)
+             ORDER BY computed_at DESC, id DESC
+             LIMIT $3`,
+            [addressKey(userAddress), query.since === undefined ? null : new Date(query.since), query.limit ?? null]
+        );
+        return rows.reverse().map(row => ({
+            userAddress,
+            score: row.score,
+            computedAt: new Date(row.computed_at).getTime(),
+            modelVersion: row.model_version
+        }));
+    }
+
+    async getScoreHistories(userAddresses: string[], query: HistoryQuery = {}): Promise<Map<string, ScoreRecord[]>> {
+        await this.ensureSchema();
+        const keys = userAddresses.map(addressKey);
+        const { rows } = await this.pool.query(
+            `SELECT user_address, score, model_version, computed_at FROM (
+                 SELECT user_address, score, model_version, computed_at, id,
+                        ROW_NUMBER() OVER (PARTITION BY user_address ORDER BY computed_at DESC, id DESC) AS newest
+                 FROM reputation_scores
+                 WHERE user_address = ANY($1) AND ($2::timestamptz IS NULL OR computed_at >= $2)
+             ) recent
+             WHERE $3::int IS NULL OR newest <= $3
+             ORDER BY computed_at, id`,
+            [[...new Set(keys)], query.since === undefined ? null : new Date(query.since), query.limit ?? null]
+        );
+
+        const byKey = new Map<string, ScoreRecord[]>();
+        for (const row of rows) {
+            const records = byKey.get(row.user_address) ?? [];
+            records.push({
+                userAddress: row.user_address,
+                score: row.score,
+                computedAt: new Date(row.computed_at).getTime(),
+                modelVersion: row.model_version
+            });
+            byKey.set(row.user_address, records);
+        }
+        return new Map(userAddresses.map((userAddress, i) => [
+            userAddress,
+            (byKey.get(keys[i]) ?? []).map(record => ({ ...record, userAddress }))
+        ]));
+    }
+
+    async getLatestScores(query: LatestScoresQuery = {}): Promise<ScoreRecord[]> {
+        await this.ensureSchema();
+        const { rows } = await this.pool.query(
+            `SELECT user_address, score, model_version, computed_at FROM reputation_latest_scores
+             WHERE $1::text IS NULL OR level = $1
+             ORDER BY total_score DESC
+             LIMIT $2`,
+            [query.level ?? null, query.limit ?? null]
+        );
+        return rows.map(row => ({
+            userAddress: row.user_address,
+            score: row.score,
+            computedAt: new Date(row.computed_at).getTime(),
+            modelVersion: row.model_version
+        }));
+    }
+
+    private ensureSchema(): Promise<void> {
+        if (!this.schema) {
+            this.schema = this.createSchema().catch(error => {
+                this.schema = undefined;
+                throw error;
+            });
+        }
+        return this.schema;
+    }
+
+    private async createSchema(): Promise<void> {
+        await this.pool.query(`
+            CREATE TABLE IF NOT EXISTS reputation_metrics (
+                id BIGSERIAL PRIMARY KEY,
+                user_address TEXT NOT NULL,
+                metrics JSONB NOT NULL,
+                recorded_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+        await this.pool.query(`
+            CREATE INDEX IF NOT EXISTS reputation_metrics_user_time
+            ON reputation_metrics (user_address, recorded_at DESC)
+        `);
+
+        await this.pool.query(`
+            CREATE TABLE IF NOT EXISTS reputation_scores (
+                id BIGSERIAL PRIMARY KEY,
+                user_address TEXT NOT NULL,
+                total_score DOUBLE PRECISION NOT NULL,
+                level TEXT NOT NULL,
+                score JSONB NOT NULL,
+                model_version TEXT NOT NULL,
+                computed_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+        // Tables created before scores recorded their model, or kept fractional scores
+        await this.pool.query(
+            `ALTER TABLE reputation_scores ADD COLUMN IF NOT EXISTS model_version TEXT NOT NULL DEFAULT '${LEGACY_MODEL_VERSION}'`
+        );
+        const { rows: [totalScore] } = await this.pool.query(`
+            SELECT data_type FROM information_schema.columns
+            WHERE table_schema = current_schema() AND table_name = 'reputation_scores' AND column_name = 'total_score'
+        `);
+        if (totalScore && totalScore.data_type !== 'double precision') {
+            // Rewrites the whole table, so only once
+            await this.pool.query('ALTER TABLE reputation_scores ALTER COLUMN total_score TYPE DOUBLE PRECISION');
+        }
+        await this.pool.query(`
+            CREATE INDEX IF NOT EXISTS reputation_scores_user_time
+            ON reputation_scores (user_address, computed_at DESC)
+        `);
+
+        await this.pool.query(`
+            CREATE TABLE IF NOT EXISTS reputation_latest_scores (
+                user_address TEXT PRIMARY KEY,
+                total_score DOUBLE PRECISION NOT NULL,
+                level TEXT NOT NULL,
+                score JSONB NOT NULL,
+                model_version TEXT NOT NULL,
+                computed_at TIMESTAMPTZ NOT NULL
+            )
+        `);
+        await this.pool.query(`
+            CREATE INDEX IF NOT EXISTS reputation_latest_scores_total
+            ON reputation_latest_scores (total_score DESC)
+        `);
+        await this.pool.query(`
+            CREATE INDEX IF NOT EXISTS reputation_latest_scores_level_total
+            ON reputation_latest_scores (level, total_score DESC)
+        `);
+        // Fill in from the history when the table is new
+        await this.pool.query(`
+            INSERT INTO reputation_latest_scores (user_address, total_score, level, score, model_version, computed_at)
+            SELECT DISTINCT ON (user_address) user_address, total_score, level, score, model_version, computed_at
+            FROM reputation_scores
+            WHERE NOT EXISTS (SELECT 1 FROM reputation_latest_scores)
+            ORDER BY user_address, computed_at DESC, id DESC
+            ON CONFLICT (user_address) DO NOTHING
+        `);
+    }
+}
+
+/**
+ * Postgres when DATABASE_URL is set, otherwise an in-memory store. TLS
+ * follows the URL's sslmode parameter.
+ */
+export function createReputationRepository(): ReputationRepository {
+    if (process.env.DATABASE_URL) {
+        return new PostgresReputationRepository(new Pool({
+            connectionString: process.env.DATABASE_URL,
+            max: 20,
+            connectionTimeoutMillis: 30000,
+            idleTimeoutMillis: 30000
+        }));
+    }
+    logger.warn('DATABASE_URL not set, reputation data is kept in memory only');
+    return new InMemoryReputationRepository();
+}
+
+/**
+ * Store a metrics snapshot and the score computed from it, tagged with the
+ * calculator's model version and using the stored history for the trend.
+ * The calculator's score distribution, if any, moves the user to the new
+ * score.
+ */
+export async function recordReputation(
+    repository: ReputationRepository,
+    calculator: ReputationCalculator,
+    userAddress: string,
+    metrics: ReputationMetrics,
+    at: number = Date.now()
+): Promise<{ snapshot: MetricsSnapshot; record: ScoreRecord }> {
+    const history = await repository.getScoreHistory(userAddress, { limit: 10 });
+    const score = calculator.calculateReputationScore(
+        userAddress,
+        metrics,
+        history.map(entry => entry.score.totalScore)
+    );
+
+    const snapshot = await repository.saveMetrics(userAddress, metrics, at);
+    const record = await repository.saveScore(userAddress, score, at, calculator.modelVersion);
+    calculator.distribution?.record(userAddress, score.totalScore);
+    return { snapshot, record };
+}
+
+/**
+ * Build the history view used by the API and analytics. Milestones are level
+ * changes; violations are snapshots where the violation count went up.
+ */
+export function buildReputationHistory(
+    userAddress: string,
+    scores: ScoreRecord[],
+    snapshots: MetricsSnapshot[] = []
+): ReputationHistory {
+    const milestones: ReputationHistory['milestones'] = [];
+    for (let i = 1; i < scores.length; i++) {
+        const previous = scores[i - 1].score;
+        const current = scores[i].score;
+        if (current.level !== previous.level) {
+            milestones.push({
+                timestamp: scores[i].computedAt,
+                milestone: `Reached ${current.level} Level`,
+                scoreChange: Math.round(current.totalScore - previous.totalScore)
+            });
+        }
+    }
+
+    const violations: ReputationHistory['violations'] = [];
+    for (let i = 1; i < snapshots.length; i++) {
+        if (snapshots[i].metrics.violationCount > snapshots[i - 1].metrics.violationCount) {
+            violations.push({
+                timestamp: snapshots[i].recordedAt,
+                violationCount: snapshots[i].metrics.violationCount
+            });
+        }
+    }
+
+    return {
+        userAddress,
+        scores: scores.map(entry => ({
+            timestamp: entry.computedAt,
+            score: entry.score.totalScore,
+            level: entry.score.level
+        })),
+        milestones,
+        violations,
+        achievements: []
+    };
+}
@@ -0,0 +1,126 @@
+// SPDX-License-Identifier: BUSL-1.1
+// License-Filename: LICENSE.md
+
+import { Address } from '@ton/ton';
+import { ReputationCalculator, ReputationMetrics } from '../services/ReputationCalculator';
+import { InMemoryReputationRepository, recordReputation, ScoreRecord } from '../services/ReputationRepository';
+import { HistogramScoreDistribution } from '../services/ScoreDistribution';
+
+const user = (i: number) => Address.parse('0:' + i.toString(16).padStart(64, '0')).toString();
+
+const metrics = (overrides: Partial<ReputationMetrics> = {}): ReputationMetrics => ({
+    transactionVolume: 1000000,
+    transactionFrequency: 5.2,
+    complianceScore: 85,
+    violationCount: 0,
+    stakingAmount: 500000000,
+    referralCount: 3,
+    platformAge: 120,
+    diversityScore: 75,
+    consistencyScore: 80,
+    communityEngagement: 60,
+    ...overrides
+});
+
+describe('HistogramScoreDistribution', () => {
+    let distribution: HistogramScoreDistribution;
+
+    beforeEach(() => {
+        distribution = new HistogramScoreDistribution();
+        [100, 200, 300, 400, 500].forEach((score, i) => distribution.record(user(i + 1), score));
+    });
+
+    it('should rank against the other users', () => {
+        expect(distribution.size()).toBe(5);
+        expect(distribution.percentile(350)).toBe(60);
+        expect(distribution.rank(350)).toBe(3);
+        expect(distribution.percentile(1000)).toBe(100);
+        expect(distribution.rank(1000)).toBe(1);
+        expect(distribution.percentile(0)).toBe(0);
+        expect(distribution.rank(0)).toBe(6);
+    });
+
+    it('should treat scores in the same bucket as ties', () => {
+        expect(distribution.rank(300.4)).toBe(distribution.rank(300));
+        expect(distribution.rank(300)).toBe(3);
+        expect(distribution.percentile(300)).toBe(40);
+    });
+
+    it('should leave the user out of their own percentile and rank', () => {
+        expect(distribution.percentile(500, user(5))).toBe(100);
+        expect(distribution.percentile(50, user(1))).toBe(0);
+        expect(distribution.rank(450, user(5))).toBe(1);
+        expect(distribution.percentile(100, user(1))).toBe(0);
+    });
+
+    it('should move users instead of counting them twice', () => {
+        distribution.record(user(1), 600);
+
+        expect(distribution.size()).toBe(5);
+        expect(distribution.rank(600)).toBe(1);
+        expect(distribution.rank(150)).toBe(6);
+        expect(distribution.percentile(600, user(1))).toBe(100);
+    });
+
+    it('should have no percentile without anyone to compare against', () => {
+        const empty = new HistogramScoreDistribution();
+        expect(empty.percentile(500)).toBeNull();
+
+        empty.record(user(1), 500);
+        expect(empty.percentile(500, user(1))).toBeNull();
+        expect(empty.rank(500, user(1))).toBe(1);
+    });
+
+    it('should clamp scores to the histogram range', () => {
+        const coarse = new HistogramScoreDistribution(100);
+        coarse.record(user(1), -5);
+        coarse.record(user(2), 1200);
+        coarse.record(user(3), 950);
+
+        expect(coarse.rank(1000)).toBe(1);
+        expect(coarse.rank(960)).toBe(2);     // 950 and 960 share a bucket, 1200 counts as 1000
+        expect(coarse.percentile(0)).toBe(0);
+    });
+
+    it('should load the latest score of every stored user', async () => {
+        const repository = new InMemoryReputationRepository();
+        const calculator = new ReputationCalculator();
+        await repository.saveScore(user(1), { ...calculator.calculateReputationScore(user(1), metrics()), totalScore: 100 }, 1);
+        await repository.saveScore(user(1), { ...calculator.calculateReputationScore(user(1), metrics()), totalScore: 700 }, 2);
+        await repository.saveScore(user(2), { ...calculator.calculateReputationScore(user(2), metrics()), totalScore: 400 }, 1);
+
+        await distribution.load(repository);
+
+        expect(distribution.size()).toBe(2);
+        expect(distribution.rank(700)).toBe(1);
+        expect(distribution.rank(400)).toBe(2);
+    });
+});
+
+describe('ReputationCalculator percentiles', () => {
+    it('should fall back to the score scale without a population', () => {
+        const score = new ReputationCalculator().calculateReputationScore(user(1), metrics());
+
+        expect(score.percentile).toBe(Math.min(99, Math.round(score.totalScore / 10)));
+    });
+
+    it('should rank recorded scores against the population', async () => {
+        const repository = new InMemoryReputationRepository();
+        const distribution = new HistogramScoreDistribution();
+        const calculator = new ReputationCalculator(undefined, distribution);
+
+        // Compliance from 10 to 100: each user scores higher than the one before
+        const records: ScoreRecord[] = [];
+        for (let i = 1; i <= 10; i++) {
+            records.push((await recordReputation(repository, calculator, user(i), metrics({ complianceScore: i * 10 }))).record);
+        }
+        const again = await recordReputation(repository, calculator, user(1), metrics({ complianceScore: 10 }));
+
+        expect(distribution.size()).toBe(10);
+        expect(records[9].score.percentile).toBe(100);                          // above all 9 others
+        expect(again.record.score.percentile).toBe(0);                          // below all 9 others, not itself
+        expect(distribution.rank(records[9].score.totalScore)).toBe(1);
+        expect(distribution.rank(records[4].score.totalScore)).toBe(6);
+        expect(distribution.percentile(records[4].score.totalScore, user(5))).toBe(44);  // 4 of the 9 others
+    });
+});
@@ -0,0 +1,99 @@
+// SPDX-License-Identifier: BUSL-1.1
+// License-Filename: LICENSE.md
+
+import { addressKey, ReputationRepository } from './ReputationRepository';
+
+// Score Distribution
+// Population of current total scores, one per user, for percentile and
+// leaderboard rank lookups
+
+export interface ScoreDistribution {
+    size(): number;
+    record(userAddress: string, totalScore: number): void;
+    /** Share of other users with a lower score, 0-100; null when there is no one to compare against */
+    percentile(totalScore: number, excludeUser?: string): number | null;
+    /** 1 + number of other users with a higher score */
+    rank(totalScore: number, excludeUser?: string): number;
+}
+
+/**
+ * Fixed-width histogram over the 0-1000 score range. Bucket counts sit in a
+ * Fenwick tree, so recording a score and looking up a percentile or rank are
+ * both O(log buckets) whatever the population size. Scores in the same bucket
+ * count as equal.
+ */
+export class HistogramScoreDistribution implements ScoreDistribution {
+    private tree: number[];                         // Fenwick tree, 1-based
+    private userBuckets = new Map<string, number>();
+    private bucketCount: number;
+
+    constructor(private bucketWidth: number = 1, maxScore: number = 1000) {
+        this.bucketCount = Math.floor(maxScore / bucketWidth) + 1;
+        this.tree = new Array(this.bucketCount + 1).fill(0);
+    }
+
+    /**
+     * Replace the population with the latest stored score of every user. The
+     * old population answers lookups until the new one is complete.
+     */
+    async load(repository: ReputationRepository): Promise<void> {
+        const loaded = new HistogramScoreDistribution(this.bucketWidth, (this.bucketCount - 1) * this.bucketWidth);
+        for (const record of await repository.getLatestScores()) {
+            loaded.record(record.userAddress, record.score.totalScore);
+        }
+        this.tree = loaded.tree;
+        this.userBuckets = loaded.userBuckets;
+    }
+
+    size(): number {
+        return this.userBuckets.size;
+    }
+
+    record(userAddress: string, totalScore: number) {
+        const key = addressKey(userAddress);
+        const previous = this.userBuckets.get(key);
+        if (previous !== undefined) this.add(previous, -1);
+
+        const bucket = this.bucket(totalScore);
+        this.add(bucket, 1);
+        this.userBuckets.set(key, bucket);
+    }
+
+    percentile(totalScore: number, excludeUser?: string): number | null {
+        const bucket = this.bucket(totalScore);
+        const own = this.ownBucket(excludeUser);
+        const others = this.size() - (own === undefined ? 0 : 1);
+        if (others === 0) return null;
+
+        const below = this.countBelow(bucket) - (own !== undefined && own < bucket ? 1 : 0);
+        return Math.floor((below / others) * 100);
+    }
+
+    rank(totalScore: number, excludeUser?: string): number {
+        const bucket = this.bucket(totalScore);
+        const own = this.ownBucket(excludeUser);
+        const above = this.size() - this.countBelow(bucket + 1) - (own !== undefined && own > bucket ? 1 : 0);
+        return above + 1;
+    }
+
+    private ownBucket(userAddress?: string): number | undefined {
+        return userAddress === undefined ? undefined : this.userBuckets.get(addressKey(userAddress));
+    }
+
+    private bucket(totalScore: number): number {
+        return Math.min(this.bucketCount - 1, Math.max(0, Math.floor(totalScore / this.bucketWidth)));
+    }
+
+    private add(bucket: number, delta: number) {
+        for (let i = bucket + 1; i < this.tree.length; i += i & -i) this.tree[i] += delta;
+    }
+
+    /**
+     * Users in buckets below `bucket`
+     */
+    private countBelow(bucket: number): number {
+        let count = 0;
+        for (let i = Math.min(bucket, this.bucketCount); i > 0; i -= i & -i) count += this.tree[i];
+        return count;
+    }
+}
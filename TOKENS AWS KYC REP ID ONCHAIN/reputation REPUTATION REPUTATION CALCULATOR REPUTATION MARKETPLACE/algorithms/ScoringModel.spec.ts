@@ -0,0 +1,146 @@
+// SPDX-License-Identifier: BUSL-1.1
+// License-Filename: LICENSE.md
+
+import { Address } from '@ton/ton';
+import { ReputationCalculator, ReputationMetrics } from '../services/ReputationCalculator';
+import { InMemoryReputationRepository, recordReputation } from '../services/ReputationRepository';
+import {
+    DEFAULT_SCORING_MODEL,
+    resolveScoringModels,
+    ScoringModelError,
+    scoringModelId,
+    ScoringModelRegistry
+} from '../services/ScoringModel';
+
+const USER = Address.parse('0:' + '11'.repeat(32)).toString();
+
+const metrics = (overrides: Partial<ReputationMetrics> = {}): ReputationMetrics => ({
+    transactionVolume: 1000000,
+    transactionFrequency: 5.2,
+    complianceScore: 85,
+    violationCount: 0,
+    stakingAmount: 500000000,
+    referralCount: 3,
+    platformAge: 120,
+    diversityScore: 75,
+    consistencyScore: 80,
+    communityEngagement: 60,
+    ...overrides
+});
+
+const issuesOf = (config: unknown): string[] => {
+    try {
+        resolveScoringModels(config);
+    } catch (e) {
+        if (e instanceof ScoringModelError) return e.issues;
+        throw e;
+    }
+    return [];
+};
+
+describe('resolveScoringModels', () => {
+    it('should build models over the default model', () => {
+        const { active, models } = resolveScoringModels({
+            active: 'compliance-heavy@2.0.0',
+            models: [{ name: 'compliance-heavy', version: '2.0.0', weights: { compliance: 50 }, penalties: { perViolation: 40 } }]
+        });
+
+        expect(active).toBe('compliance-heavy@2.0.0');
+        expect(models.map(scoringModelId)).toEqual(['default@1.0.0', 'compliance-heavy@2.0.0']);
+        expect(models[1].weights).toEqual({ ...DEFAULT_SCORING_MODEL.weights, compliance: 50 });
+        expect(models[1].penalties.perViolation).toBe(40);
+        expect(models[1].levelThresholds).toEqual(DEFAULT_SCORING_MODEL.levelThresholds);
+    });
+
+    it('should keep the default model active unless told otherwise', () => {
+        expect(resolveScoringModels({ models: [] }).active).toBe(scoringModelId(DEFAULT_SCORING_MODEL));
+    });
+
+    it('should list every problem', () => {
+        expect(issuesOf({
+            active: 'missing@1',
+            models: [
+                { name: 'bad name', version: '1', weights: { compliance: -1, luck: 5 } },
+                { name: 'steps', version: '1', levelThresholds: { SILVER: 500, GOLD: 400 } },
+                { name: 'default', version: '1.0.0' },
+                'not a model'
+            ]
+        })).toEqual([
+            "models[0].name: expected letters, digits, '.', '-' or '_'",
+            'models[0].weights.compliance: expected a non-negative number',
+            'models[0].weights.luck: unknown setting',
+            'models[1].levelThresholds: expected BRONZE at 0 and each level above the one before',
+            'models[2]: default@1.0.0 is defined twice',
+            'models[3]: expected an object',
+            'active: missing@1 is not a defined model'
+        ]);
+        expect(issuesOf([])).toEqual(['expected an object with a models list']);
+    });
+
+    it('should reject settings inherited from Object.prototype', () => {
+        expect(issuesOf({
+            models: [{ name: 'proto', version: '1', weights: { constructor: 5 }, penalties: { toString: 1 } }]
+        })).toEqual([
+            'models[0].weights.constructor: unknown setting',
+            'models[0].penalties.toString: unknown setting'
+        ]);
+    });
+});
+
+describe('ScoringModelRegistry', () => {
+    it('should look models up by id', () => {
+        const registry = ScoringModelRegistry.fromConfig({ models: [{ name: 'candidate', version: '1' }] });
+
+        expect(registry.active()).toBe(DEFAULT_SCORING_MODEL);
+        expect(registry.has('candidate@1')).toBe(true);
+        expect(registry.get('candidate@1').name).toBe('candidate');
+        expect(() => registry.get('candidate@2')).toThrow('Unknown scoring model candidate@2');
+        expect(() => new ScoringModelRegistry([DEFAULT_SCORING_MODEL], 'candidate@1')).toThrow();
+    });
+});
+
+describe('ReputationCalculator models', () => {
+    const model = (definition: object) =>
+        resolveScoringModels({ models: [{ name: 'candidate', version: '1', ...definition }] }).models[1];
+
+    it('should score with the default model unless given another', () => {
+        const calculator = new ReputationCalculator();
+
+        expect(calculator.model).toBe(DEFAULT_SCORING_MODEL);
+        expect(calculator.modelVersion).toBe('default@1.0.0');
+        expect(new ReputationCalculator({ compliance: 40 }).modelVersion).toBe('default@1.0.0+custom');
+    });
+
+    it('should take level thresholds from the model', () => {
+        const calculator = new ReputationCalculator(undefined, undefined, model({ levelThresholds: { SILVER: 100, GOLD: 150 } }));
+
+        expect(calculator.getReputationLevel(120)).toBe('SILVER');
+        expect(calculator.getReputationLevel(150)).toBe('GOLD');
+        expect(calculator.getReputationLevel(899)).toBe('PLATINUM');
+        expect(calculator.getReputationLevel(50)).toBe('BRONZE');
+    });
+
+    it('should take bonus caps and penalties from the model', () => {
+        const current = new ReputationCalculator();
+        const candidate = new ReputationCalculator(undefined, undefined, model({
+            bonusCaps: { consistency: 100, referral: 5 },
+            penalties: { perViolation: 100, inactivity: 0 }
+        }));
+        const inactive = metrics({ violationCount: 2, transactionFrequency: 0.5 });
+
+        expect(candidate.calculateScoreBreakdown(inactive).consistencyBonus).toBe(80);
+        expect(candidate.calculateScoreBreakdown(inactive).referralBonus).toBe(5);
+        expect(current.calculateScoreBreakdown(inactive).penalties).toBe(2 * 25 + 20);
+        expect(candidate.calculateScoreBreakdown(inactive).penalties).toBe(2 * 100);
+    });
+
+    it('should record the model version with stored scores', async () => {
+        const repository = new InMemoryReputationRepository();
+        const candidate = new ReputationCalculator(undefined, undefined, model({}));
+
+        await recordReputation(repository, new ReputationCalculator(), USER, metrics(), 1);
+        await recordReputation(repository, candidate, USER, metrics(), 2);
+
+        expect((await repository.getScoreHistory(USER)).map(record => record.modelVersion)).toEqual(['default@1.0.0', 'candidate@1']);
+    });
+});
@@ -0,0 +1,226 @@
+// SPDX-License-Identifier: BUSL-1.1
+// License-Filename: LICENSE.md
+
+import { readFileSync } from 'fs';
+import { ScoringWeights } from './ReputationCalculator';
+
+// Scoring Models
+// Named, versioned parameter sets for ReputationCalculator. A model is
+// identified as name@version; stored scores record the id of the model that
+// produced them.
+
+export const REPUTATION_LEVELS = ['BRONZE', 'SILVER', 'GOLD', 'PLATINUM', 'DIAMOND'] as const;
+
+export type LevelThresholds = Record<typeof REPUTATION_LEVELS[number], number>;
+
+// Maximum points for each bonus
+export interface BonusCaps {
+    staking: number;
+    referral: number;
+    consistency: number;
+    diversity: number;
+    community: number;
+}
+
+export interface PenaltyRules {
+    perViolation: number;
+    inactivity: number;
+    inactivityBelowFrequency: number;   // transactions per week
+    lowCompliance: number;
+    lowComplianceBelow: number;
+    complianceViolation: number;        // taken off the compliance component per violation
+}
+
+export interface ScoringModel {
+    name: string;
+    version: string;
+    weights: ScoringWeights;
+    levelThresholds: LevelThresholds;
+    bonusCaps: BonusCaps;
+    penalties: PenaltyRules;
+}
+
+// Model definition in config; anything left out comes from the default model
+export type ScoringModelDefinition = {
+    name: string;
+    version: string;
+    weights?: Partial<ScoringWeights>;
+    levelThresholds?: Partial<LevelThresholds>;
+    bonusCaps?: Partial<BonusCaps>;
+    penalties?: Partial<PenaltyRules>;
+};
+
+// The constants the calculator used before models were configurable
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+    name: 'default',
+    version: '1.0.0',
+    weights: {
+        transaction: 25,
+        compliance: 35,
+        activity: 15,
+        staking: 10,
+        referral: 5,
+        consistency: 5,
+        diversity: 3,
+        community: 2
+    },
+    levelThresholds: {
+        BRONZE: 0,
+        SILVER: 200,
+        GOLD: 400,
+        PLATINUM: 700,
+        DIAMOND: 900
+    },
+    bonusCaps: {
+        staking: 100,
+        referral: 75,
+        consistency: 50,
+        diversity: 30,
+        community: 20
+    },
+    penalties: {
+        perViolation: 25,
+        inactivity: 20,
+        inactivityBelowFrequency: 1,
+        lowCompliance: 50,
+        lowComplianceBelow: 50,
+        complianceViolation: 50
+    }
+};
+
+export class ScoringModelError extends Error {
+    constructor(public issues: string[]) {
+        super(`Invalid scoring models:\n  ${issues.join('\n  ')}`);
+        this.name = 'ScoringModelError';
+    }
+}
+
+export function scoringModelId(model: { name: string; version: string }): string {
+    return `${model.name}@${model.version}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that every given number in a section is a known, non-negative key
+ */
+function checkSection(issues: string[], where: string, section: unknown, known: object) {
+    if (section === undefined) return;
+    if (!isRecord(section)) {
+        issues.push(`${where}: expected an object`);
+        return;
+    }
+    for (const [key, value] of Object.entries(section)) {
+        if (!Object.hasOwn(known, key)) issues.push(`${where}.${key}: unknown setting`);
+        else if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+            issues.push(`${where}.${key}: expected a non-negative number`);
+        }
+    }
+}
+
+/**
+ * Validate a config of the form { active?: id, models: ScoringModelDefinition[] }
+ * and build its models over the default model, which is always available.
+ * Throws ScoringModelError listing every problem.
+ */
+export function resolveScoringModels(config: unknown): { active: string; models: ScoringModel[] } {
+    const issues: string[] = [];
+    if (!isRecord(config) || !Array.isArray(config.models)) {
+        throw new ScoringModelError(['expected an object with a models list']);
+    }
+
+    const models: ScoringModel[] = [DEFAULT_SCORING_MODEL];
+    config.models.forEach((definition: unknown, index: number) => {
+        const where = `models[${index}]`;
+        if (!isRecord(definition)) {
+            issues.push(`${where}: expected an object`);
+            return;
+        }
+        if (typeof definition.name !== 'string' || !/^[\w.-]+$/.test(definition.name)) {
+            issues.push(`${where}.name: expected letters, digits, '.', '-' or '_'`);
+        }
+        if (typeof definition.version !== 'string' || !/^[\w.-]+$/.test(definition.version)) {
+            issues.push(`${where}.version: expected letters, digits, '.', '-' or '_'`);
+        }
+        checkSection(issues, `${where}.weights`, definition.weights, DEFAULT_SCORING_MODEL.weights);
+        checkSection(issues, `${where}.levelThresholds`, definition.levelThresholds, DEFAULT_SCORING_MODEL.levelThresholds);
+        checkSection(issues, `${where}.bonusCaps`, definition.bonusCaps, DEFAULT_SCORING_MODEL.bonusCaps);
+        checkSection(issues, `${where}.penalties`, definition.penalties, DEFAULT_SCORING_MODEL.penalties);
+
+        const { name, version, weights, levelThresholds, bonusCaps, penalties } = definition as ScoringModelDefinition;
+        const model: ScoringModel = {
+            name,
+            version,
+            weights: { ...DEFAULT_SCORING_MODEL.weights, ...weights },
+            levelThresholds: { ...DEFAULT_SCORING_MODEL.levelThresholds, ...levelThresholds },
+            bonusCaps: { ...DEFAULT_SCORING_MODEL.bonusCaps, ...bonusCaps },
+            penalties: { ...DEFAULT_SCORING_MODEL.penalties, ...penalties }
+        };
+
+        const thresholds = REPUTATION_LEVELS.map(level => model.levelThresholds[level]);
+        if (thresholds[0] !== 0 || thresholds.some((threshold, i) => i > 0 && threshold <= thresholds[i - 1])) {
+            issues.push(`${where}.levelThresholds: expected BRONZE at 0 and each level above the one before`);
+        }
+        if (models.some(existing => scoringModelId(existing) === scoringModelId(model))) {
+            issues.push(`${where}: ${scoringModelId(model)} is defined twice`);
+        }
+        models.push(model);
+    });
+
+    const active = config.active ?? scoringModelId(DEFAULT_SCORING_MODEL);
+    if (typeof active !== 'string' || !models.some(model => scoringModelId(model) === active)) {
+        issues.push(`active: ${String(active)} is not a defined model`);
+    }
+
+    if (issues.length > 0) throw new ScoringModelError(issues);
+    return { active: active as string, models };
+}
+
+/**
+ * Defined models and the one new scores are computed with
+ */
+export class ScoringModelRegistry {
+    private models = new Map<string, ScoringModel>();
+    private activeId: string;
+
+    constructor(models: ScoringModel[] = [DEFAULT_SCORING_MODEL], active: string = scoringModelId(models[0])) {
+        models.forEach(model => this.models.set(scoringModelId(model), model));
+        if (!this.models.has(active)) throw new Error(`Unknown scoring model ${active}`);
+        this.activeId = active;
+    }
+
+    static fromConfig(config: unknown): ScoringModelRegistry {
+        const { active, models } = resolveScoringModels(config);
+        return new ScoringModelRegistry(models, active);
+    }
+
+    get(id: string): ScoringModel {
+        const model = this.models.get(id);
+        if (!model) throw new Error(`Unknown scoring model ${id}`);
+        return model;
+    }
+
+    has(id: string): boolean {
+        return this.models.has(id);
+    }
+
+    active(): ScoringModel {
+        return this.get(this.activeId);
+    }
+
+    list(): ScoringModel[] {
+        return [...this.models.values()];
+    }
+}
+
+/**
+ * Models from the JSON file named by REPUTATION_SCORING_MODELS, otherwise
+ * only the default model
+ */
+export function createScoringModelRegistry(): ScoringModelRegistry {
+    const file = process.env.REPUTATION_SCORING_MODELS;
+    if (!file) return new ScoringModelRegistry();
+    return ScoringModelRegistry.fromConfig(JSON.parse(readFileSync(file, 'utf-8')));
+}
@@ -5,11 +5,71 @@ import express from 'express';
 import { Address } from '@ton/ton';
 import { ReputationCalculator, ReputationMetrics, ReputationScore } from '../services/ReputationCalculator';
 import { ReputationAnalytics, ReputationInsights, PlatformReputationStats } from '../services/ReputationAnalytics';
+import {
+    buildReputationHistory,
+    createReputationRepository,
+    recordReputation,
+    ReputationRepository
+} from '../services/ReputationRepository';
+import { ActivitySource, IngestionOptions, ReputationIngestionService } from '../services/ReputationIngestion';
+import { HistogramScoreDistribution } from '../services/ScoreDistribution';
+import { createScoringModelRegistry, scoringModelId } from '../services/ScoringModel';
+import { compareScoringModels } from '../services/ModelComparison';
 import { logger } from '../utils/logger';
 
 const router = express.Router();
-const reputationCalculator = new ReputationCalculator();
-const reputationAnalytics = new ReputationAnalytics();
+const scoringModels = createScoringModelRegistry();
+const scoreDistribution = new HistogramScoreDistribution();
+const reputationCalculator = new ReputationCalculator(undefined, scoreDistribution, scoringModels.active());
+const reputationAnalytics = new ReputationAnalytics(reputationCalculator);
+let reputationRepository: ReputationRepository = createReputationRepository();
+
+// Scores recorded by other processes reach the distribution when it is reloaded
+const DISTRIBUTION_REFRESH_MS = Number(process.env.REPUTATION_DISTRIBUTION_REFRESH_MS ?? 300000);
+let distributionLoaded = loadScoreDistribution();
+let distributionLoadedAt = Date.now();
+
+/**
+ * Replace the repository, e.g. with an in-memory one in tests
+ */
+export function useReputationRepository(repository: ReputationRepository) {
+    reputationRepository = repository;
+    distributionLoaded = loadScoreDistribution();
+    distributionLoadedAt = Date.now();
+}
+
+/**
+ * Ingestion service that scores with this router's calculator, so ingested
+ * scores move the leaderboard and percentiles straight away. Create it after
+ * any useReputationRepository call.
+ */
+export function createReputationIngestion(sources: ActivitySource[], options?: IngestionOptions): ReputationIngestionService {
+    return new ReputationIngestionService(reputationRepository, reputationCalculator, sources, options);
+}
+
+// Percentiles fall back to the score scale if the store cannot be read
+function loadScoreDistribution(): Promise<void> {
+    return scoreDistribution.load(reputationRepository).catch(error => {
+        logger.error('Error loading score distribution:', error);
+    });
+}
+
+function scoreDistributionReady(): Promise<void> {
+    if (Date.now() - distributionLoadedAt >= DISTRIBUTION_REFRESH_MS) {
+        distributionLoaded = distributionLoaded.then(loadScoreDistribution);
+        distributionLoadedAt = Date.now();
+    }
+    return distributionLoaded;
+}
+
+const MAX_COMPARISON_COHORT = 1000;
+
+const HISTORY_PERIODS: Record<string, number> = {
+    '7d': 7 * 86400000,
+    '30d': 30 * 86400000,
+    '90d': 90 * 86400000,
+    '1y': 365 * 86400000
+};
 
 // Middleware for address validation
 const validateAddress = (req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -32,6 +92,158 @@ const authenticate = (req: express.Request, res: express.Response, next: express
     next();
 };
 
+// Single-segment routes go before '/:address', whose validation would reject them
+
+/**
+ * GET /api/reputation/models
+ * List scoring models and the one new scores use
+ */
+router.get('/models', async (req, res) => {
+    res.json({
+        success: true,
+        data: {
+            active: reputationCalculator.modelVersion,
+            models: scoringModels.list().map(model => ({ id: scoringModelId(model), ...model }))
+        }
+    });
+});
+
+/**
+ * POST /api/reputation/models/compare
+ * Re-score users under a candidate model and compare with the active one.
+ * Takes { candidate, addresses } or, for a cohort of stored users,
+ * { candidate, level?, limit? }. Nothing is stored.
+ */
+router.post('/models/compare', authenticate, async (req, res) => {
+    try {
+        const { candidate, addresses, level, limit = MAX_COMPARISON_COHORT } = req.body ?? {};
+
+        if (typeof candidate !== 'string' || !scoringModels.has(candidate)) {
+            return res.status(404).json({ error: 'Unknown scoring model' });
+        }
+        if (addresses !== undefined) {
+            const valid = Array.isArray(addresses) && addresses.length <= MAX_COMPARISON_COHORT && addresses.every((address: unknown) => {
+                try {
+                    Address.parse(String(address));
+                    return true;
+                } catch {
+                    return false;
+                }
+            });
+            if (!valid) {
+                return res.status(400).json({ error: `Invalid addresses, expected up to ${MAX_COMPARISON_COHORT} TON addresses` });
+            }
+        }
+        const count = Number(limit);
+        if (!Number.isInteger(count) || count < 1 || count > MAX_COMPARISON_COHORT) {
+            return res.status(400).json({ error: `Invalid limit, expected 1-${MAX_COMPARISON_COHORT}` });
+        }
+
+        const cohort: string[] = addresses ?? (await reputationRepository.getLatestScores({
+            level: level ? String(level) : undefined,
+            limit: count
+        })).map(record => Address.parse(record.userAddress).toString());
+
+        const comparison = await compareScoringModels(
+            reputationRepository,
+            reputationCalculator,
+            new ReputationCalculator(undefined, undefined, scoringModels.get(candidate)),
+            cohort
+        );
+
+        res.json({
+            success: true,
+            data: comparison
+        });
+
+    } catch (error) {
+        logger.error('Error comparing scoring models:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+/**
+ * GET /api/reputation/leaderboard
+ * Get reputation leaderboard
+ */
+router.get('/leaderboard', async (req, res) => {
+    try {
+        const { limit = 50, level } = req.query;
+
+        const count = Number(limit);
+        if (!Number.isInteger(count) || count < 1 || count > 500) {
+            return res.status(400).json({ error: 'Invalid limit, expected 1-500' });
+        }
+
+        await scoreDistributionReady();
+        const top = await reputationRepository.getLatestScores({ limit: count, level: level ? String(level) : undefined });
+        const histories = await reputationRepository.getScoreHistories(top.map(record => record.userAddress), { limit: 2 });
+
+        // Rank and percentile both come from the score distribution, so they agree
+        const leaderboard = top.map(record => {
+            const recent = histories.get(record.userAddress) ?? [];
+            return {
+                rank: scoreDistribution.rank(record.score.totalScore),
+                userAddress: Address.parse(record.userAddress).toString(),
+                score: record.score.totalScore,
+                level: record.score.level,
+                percentile: scoreDistribution.percentile(record.score.totalScore, record.userAddress) ?? record.score.percentile,
+                change: recent.length === 2 ? Math.round(recent[1].score.totalScore - recent[0].score.totalScore) : 0
+            };
+        });
+
+        res.json({
+            success: true,
+            data: {
+                leaderboard,
+                totalUsers: scoreDistribution.size(),
+                lastUpdated: new Date().toISOString()
+            }
+        });
+
+    } catch (error) {
+        logger.error('Error fetching leaderboard:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+/**
+ * GET /api/reputation/correlations
+ * Get reputation correlations analysis
+ */
+router.get('/correlations', async (req, res) => {
+    try {
+        // Mock correlation data
+        const mockUserMetrics = Array.from({ length: 100 }, () => ({
+            userAddress: `EQ${Math.random().toString(36).substring(2, 15)}...`,
+            metrics: {
+                transactionVolume: Math.random() * 10000000,
+                transactionFrequency: Math.random() * 10,
+                complianceScore: Math.random() * 100,
+                violationCount: Math.floor(Math.random() * 5),
+                stakingAmount: Math.random() * 1000000000,
+                referralCount: Math.floor(Math.random() * 20),
+                platformAge: Math.random() * 365,
+                diversityScore: Math.random() * 100,
+                consistencyScore: Math.random() * 100,
+                communityEngagement: Math.random() * 100
+            },
+            score: Math.random() * 1000
+        }));
+
+        const correlations = reputationAnalytics.calculateCorrelations(mockUserMetrics);
+
+        res.json({
+            success: true,
+            data: correlations
+        });
+
+    } catch (error) {
+        logger.error('Error calculating correlations:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
 /**
  * GET /api/reputation/:address
  * Get user's current reputation score and details
@@ -40,37 +252,22 @@ router.get('/:address', validateAddress, async (req, res) => {
     try {
         const { address } = req.params;
         
-        // In production, fetch from database
-        const mockMetrics: ReputationMetrics = {
-            transactionVolume: 1000000,
-            transactionFrequency: 5.2,
-            complianceScore: 85,
-            violationCount: 0,
-            stakingAmount: 500000000,
-            referralCount: 3,
-            platformAge: 120,
-            diversityScore: 75,
-            consistencyScore: 80,
-            communityEngagement: 60
-        };
-
-        const historicalScores = [450, 465, 480, 495, 510]; // Mock historical data
-        const reputationScore = reputationCalculator.calculateReputationScore(
-            address,
-            mockMetrics,
-            historicalScores
-        );
+        const snapshot = await reputationRepository.getLatestMetrics(address);
+        const latest = await reputationRepository.getLatestScore(address);
+        if (!snapshot || !latest) {
+            return res.status(404).json({ error: 'No reputation data for this address' });
+        }
 
-        const breakdown = reputationCalculator.calculateScoreBreakdown(mockMetrics);
+        const breakdown = reputationCalculator.calculateScoreBreakdown(snapshot.metrics);
 
         res.json({
             success: true,
             data: {
                 userAddress: address,
-                score: reputationScore,
+                score: latest.score,
                 breakdown,
-                metrics: mockMetrics,
-                lastUpdated: new Date().toISOString()
+                metrics: snapshot.metrics,
+                lastUpdated: new Date(latest.computedAt).toISOString()
             }
         });
 
@@ -88,41 +285,25 @@ router.get('/:address/insights', validateAddress, async (req, res) => {
     try {
         const { address } = req.params;
         
-        // Mock data - in production, fetch from database
-        const mockMetrics: ReputationMetrics = {
-            transactionVolume: 1000000,
-            transactionFrequency: 5.2,
-            complianceScore: 85,
-            violationCount: 0,
-            stakingAmount: 500000000,
-            referralCount: 3,
-            platformAge: 120,
-            diversityScore: 75,
-            consistencyScore: 80,
-            communityEngagement: 60
-        };
+        const snapshot = await reputationRepository.getLatestMetrics(address);
+        const latest = await reputationRepository.getLatestScore(address);
+        if (!snapshot || !latest) {
+            return res.status(404).json({ error: 'No reputation data for this address' });
+        }
 
-        const reputationScore = reputationCalculator.calculateReputationScore(address, mockMetrics);
-        const breakdown = reputationCalculator.calculateScoreBreakdown(mockMetrics);
-        
-        const mockHistory = {
-            userAddress: address,
-            scores: [
-                { timestamp: Date.now() - 86400000 * 30, score: 450, level: 'GOLD' },
-                { timestamp: Date.now() - 86400000 * 20, score: 480, level: 'GOLD' },
-                { timestamp: Date.now() - 86400000 * 10, score: 510, level: 'PLATINUM' }
-            ],
-            milestones: [],
-            violations: [],
-            achievements: []
-        };
+        const breakdown = reputationCalculator.calculateScoreBreakdown(snapshot.metrics);
+        const history = buildReputationHistory(
+            address,
+            await reputationRepository.getScoreHistory(address),
+            await reputationRepository.getMetricsHistory(address)
+        );
 
         const insights = reputationAnalytics.generateUserInsights(
             address,
-            reputationScore,
-            mockMetrics,
+            latest.score,
+            snapshot.metrics,
             breakdown,
-            mockHistory
+            history
         );
 
         res.json({
@@ -144,36 +325,21 @@ router.get('/:address/history', validateAddress, async (req, res) => {
     try {
         const { address } = req.params;
         const { period = '30d' } = req.query;
-        
-        // Mock historical data
-        const history = {
-            userAddress: address,
-            period,
-            scores: Array.from({ length: 30 }, (_, i) => ({
-                timestamp: Date.now() - (29 - i) * 86400000,
-                score: 450 + Math.random() * 100,
-                level: 'GOLD'
-            })),
-            milestones: [
-                {
-                    timestamp: Date.now() - 86400000 * 15,
-                    milestone: 'Reached Gold Level',
-                    scoreChange: 50
-                }
-            ],
-            violations: [],
-            achievements: [
-                {
-                    timestamp: Date.now() - 86400000 * 10,
-                    achievement: '100 Transactions Milestone',
-                    bonus: 25
-                }
-            ]
-        };
+
+        if (period !== 'all' && !Object.hasOwn(HISTORY_PERIODS, String(period))) {
+            return res.status(400).json({ error: `Invalid period, expected one of ${[...Object.keys(HISTORY_PERIODS), 'all'].join(', ')}` });
+        }
+        const since = period === 'all' ? undefined : Date.now() - HISTORY_PERIODS[String(period)];
+
+        const history = buildReputationHistory(
+            address,
+            await reputationRepository.getScoreHistory(address, { since }),
+            await reputationRepository.getMetricsHistory(address, { since })
+        );
 
         res.json({
             success: true,
-            data: history
+            data: { ...history, period }
         });
 
     } catch (error) {
@@ -190,39 +356,22 @@ router.get('/:address/predictions', validateAddress, async (req, res) => {
     try {
         const { address } = req.params;
         
-        // Mock data for predictions
-        const mockMetrics: ReputationMetrics = {
-            transactionVolume: 1000000,
-            transactionFrequency: 5.2,
-            complianceScore: 85,
-            violationCount: 0,
-            stakingAmount: 500000000,
-            referralCount: 3,
-            platformAge: 120,
-            diversityScore: 75,
-            consistencyScore: 80,
-            communityEngagement: 60
-        };
+        const snapshot = await reputationRepository.getLatestMetrics(address);
+        const latest = await reputationRepository.getLatestScore(address);
+        if (!snapshot || !latest) {
+            return res.status(404).json({ error: 'No reputation data for this address' });
+        }
 
-        const reputationScore = reputationCalculator.calculateReputationScore(address, mockMetrics);
-        
-        const mockHistory = {
-            userAddress: address,
-            scores: Array.from({ length: 30 }, (_, i) => ({
-                timestamp: Date.now() - (29 - i) * 86400000,
-                score: 450 + i * 2,
-                level: 'GOLD'
-            })),
-            milestones: [],
-            violations: [],
-            achievements: []
-        };
+        const history = buildReputationHistory(
+            address,
+            await reputationRepository.getScoreHistory(address, { limit: 30 })
+        );
 
         const predictions = reputationAnalytics.generatePredictions(
             address,
-            reputationScore,
-            mockMetrics,
-            mockHistory
+            latest.score,
+            snapshot.metrics,
+            history
         );
 
         res.json({
@@ -236,6 +385,37 @@ router.get('/:address/predictions', validateAddress, async (req, res) => {
     }
 });
 
+/**
+ * POST /api/reputation/:address/metrics
+ * Record a metrics snapshot and store the score computed from it
+ */
+router.post('/:address/metrics', validateAddress, authenticate, async (req, res) => {
+    try {
+        const { address } = req.params;
+        const metrics = req.body as ReputationMetrics;
+
+        if (!metrics || !reputationCalculator.validateMetrics(metrics)) {
+            return res.status(400).json({ error: 'Invalid reputation metrics' });
+        }
+
+        await scoreDistributionReady();
+        const { record } = await recordReputation(reputationRepository, reputationCalculator, address, metrics);
+
+        res.json({
+            success: true,
+            data: {
+                userAddress: address,
+                score: record.score,
+                lastUpdated: new Date(record.computedAt).toISOString()
+            }
+        });
+
+    } catch (error) {
+        logger.error('Error recording reputation metrics:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
 /**
  * POST /api/reputation/:address/update
  * Update user's reputation based on action
@@ -390,75 +570,6 @@ router.get('/platform/trends', async (req, res) => {
     }
 });
 
-/**
- * GET /api/reputation/leaderboard
- * Get reputation leaderboard
- */
-router.get('/leaderboard', async (req, res) => {
-    try {
-        const { limit = 50, level } = req.query;
-        
-        // Mock leaderboard data
-        const leaderboard = Array.from({ length: Number(limit) }, (_, i) => ({
-            rank: i + 1,
-            userAddress: `EQ${Math.random().toString(36).substring(2, 15)}...`,
-            score: 1000 - i * 10,
-            level: ['DIAMOND', 'PLATINUM', 'GOLD', 'SILVER', 'BRONZE'][Math.floor(i / 10)],
-            change: Math.floor(Math.random() * 21) - 10 // -10 to +10
-        }));
-
-        res.json({
-            success: true,
-            data: {
-                leaderboard: level ? leaderboard.filter(entry => entry.level === level) : leaderboard,
-                totalUsers: 1000,
-                lastUpdated: new Date().toISOString()
-            }
-        });
-
-    } catch (error) {
-        logger.error('Error fetching leaderboard:', error);
-        res.status(500).json({ error: 'Internal server error' });
-    }
-});
-
-/**
- * GET /api/reputation/correlations
- * Get reputation correlations analysis
- */
-router.get('/correlations', async (req, res) => {
-    try {
-        // Mock correlation data
-        const mockUserMetrics = Array.from({ length: 100 }, () => ({
-            userAddress: `EQ${Math.random().toString(36).substring(2, 15)}...`,
-            metrics: {
-                transactionVolume: Math.random() * 10000000,
-                transactionFrequency: Math.random() * 10,
-                complianceScore: Math.random() * 100,
-                violationCount: Math.floor(Math.random() * 5),
-                stakingAmount: Math.random() * 1000000000,
-                referralCount: Math.floor(Math.random() * 20),
-                platformAge: Math.random() * 365,
-                diversityScore: Math.random() * 100,
-                consistencyScore: Math.random() * 100,
-                communityEngagement: Math.random() * 100
-            },
-            score: Math.random() * 1000
-        }));
-
-        const correlations = reputationAnalytics.calculateCorrelations(mockUserMetrics);
-
-        res.json({
-            success: true,
-            data: correlations
-        });
-
-    } catch (error) {
-        logger.error('Error calculating correlations:', error);
-        res.status(500).json({ error: 'Internal server error' });
-    }
-});
-
 /**
  * GET /api/reputation/:address/benefits
  * Get available benefits for user's reputation level